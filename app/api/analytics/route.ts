@@ -0,0 +1,108 @@
+// app/api/analytics/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { getCurrentUser, unauthorized } from '../../../lib/auth'; // Import authentication helpers
+import {
+	MuscleGroupSets,
+	TrainingStreaks,
+	WeeklyTotals,
+	computeStreaks,
+	loadTrainedWeeks,
+	loadWeeklyMuscleSets,
+	loadWeeklyTotals,
+	toMuscleGroupSets,
+	weekStarts,
+} from '../../../lib/analytics'; // Import training analytics helpers
+import { WeightUnit, fromKg } from '../../../lib/units'; // Import weight unit helpers
+
+// Define the structure of the response sent back to the frontend
+type AnalyticsResponse = {
+	unit: WeightUnit; // Unit of every tonnage in the weeks
+	weeks: WeeklyTotals[]; // One entry per week of the range, oldest first, empty weeks included
+	muscleGroups: MuscleGroupSets[]; // Working sets per muscle group, aligned with `weeks`
+	frequency: {
+		averageSessionsPerWeek: number; // Mean workouts per week over the range
+		trainedWeeks: number; // Weeks of the range with at least one workout
+	};
+	streaks: TrainingStreaks; // Consecutive trained weeks over the whole history
+};
+
+// Number of weeks covered when the `weeks` query parameter is absent
+const DEFAULT_WEEKS = 12;
+
+// Largest number of weeks accepted (two years)
+const MAX_WEEKS = 104;
+
+/**
+ * GET /api/analytics
+ * Retrieves the signed-in user's training aggregates per week: tonnage, sessions,
+ * average duration and working sets per muscle group, plus training streaks.
+ * The aggregation runs in SQL rather than over loaded workouts.
+ * Query parameters:
+ *   weeks - number of weeks to cover, ending with the current one (default 12, up to 104)
+ */
+export async function GET(request: NextRequest) {
+	console.log('Received GET request to /api/analytics'); // Log receipt of the request
+
+	// Validate the query parameters
+	const weeksParam = request.nextUrl.searchParams.get('weeks');
+	const weekCount = weeksParam === null ? DEFAULT_WEEKS : Number(weeksParam);
+
+	if (!Number.isInteger(weekCount) || weekCount < 1 || weekCount > MAX_WEEKS) {
+		console.warn('Invalid analytics query received'); // Log a warning for invalid parameters
+		return NextResponse.json(
+			{ error: `weeks must be a whole number from 1 to ${MAX_WEEKS}` },
+			{ status: 400 },
+		); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const weeks = weekStarts(weekCount);
+		const from = new Date(`${weeks[0]}T00:00:00Z`);
+
+		const [totals, muscleRows, trainedWeeks] = await Promise.all([
+			loadWeeklyTotals(user.id, from),
+			loadWeeklyMuscleSets(user.id, from),
+			loadTrainedWeeks(user.id),
+		]);
+
+		// Fill in the weeks without workouts and convert tonnage to the user's unit
+		const weeksResponse = weeks.map(weekStart => {
+			const week = totals.get(weekStart);
+			return {
+				weekStart,
+				sessions: week?.sessions ?? 0,
+				tonnage: fromKg(week?.tonnage ?? 0, user.weightUnit),
+				averageDurationSeconds: week?.averageDurationSeconds ?? null,
+			};
+		});
+		const sessions = weeksResponse.reduce(
+			(sum, week) => sum + week.sessions,
+			0,
+		);
+
+		const analyticsResponse: AnalyticsResponse = {
+			unit: user.weightUnit,
+			weeks: weeksResponse,
+			muscleGroups: toMuscleGroupSets(muscleRows, weeks),
+			frequency: {
+				averageSessionsPerWeek: sessions / weekCount,
+				trainedWeeks: weeksResponse.filter(week => week.sessions > 0).length,
+			},
+			streaks: computeStreaks(trainedWeeks),
+		};
+
+		return NextResponse.json(analyticsResponse, { status: 200 });
+	} catch (error) {
+		console.error('Error fetching analytics:', error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error fetching analytics' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
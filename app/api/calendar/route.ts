@@ -0,0 +1,106 @@
+// app/api/calendar/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { prisma } from '../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../lib/auth'; // Import authentication helpers
+import { purgeExpiredWorkouts } from '../../../lib/trash'; // Import trash helpers
+import {
+	DaySummary,
+	addDays,
+	daysBetween,
+	isDayKey,
+	isTimeZone,
+	summarizeDays,
+} from '../../../lib/calendar'; // Import calendar helpers
+import { WeightUnit, fromKg } from '../../../lib/units'; // Import weight unit helpers
+
+// Define the structure of the response sent back to the frontend
+type CalendarResponse = {
+	unit: WeightUnit; // Unit of every volume in the days
+	timeZone: string; // Time zone the days are counted in
+	days: DaySummary[]; // Days of the range with workouts, oldest first
+};
+
+// Longest range accepted, in days (a heatmap year plus its partial weeks)
+const MAX_RANGE_DAYS = 400;
+
+/**
+ * GET /api/calendar
+ * Retrieves per-day summaries of the signed-in user's workouts: which workouts fall on
+ * each day, how many, and their volume and sets. Days are counted in the given time zone,
+ * so a late-evening workout lands on the day the user did it.
+ * Query parameters:
+ *   from, to - first and last day of the range (YYYY-MM-DD, inclusive)
+ *   timeZone - IANA time zone of the user (e.g. Europe/Paris); defaults to UTC
+ */
+export async function GET(request: NextRequest) {
+	console.log('Received GET request to /api/calendar'); // Log receipt of the request
+
+	// Validate the query parameters
+	const searchParams = request.nextUrl.searchParams;
+	const from = searchParams.get('from');
+	const to = searchParams.get('to');
+	const timeZone = searchParams.get('timeZone') ?? 'UTC';
+
+	if (
+		!isDayKey(from) ||
+		!isDayKey(to) ||
+		daysBetween(from, to) < 0 ||
+		daysBetween(from, to) >= MAX_RANGE_DAYS
+	) {
+		console.warn('Invalid calendar range received'); // Log a warning for invalid parameters
+		return NextResponse.json(
+			{
+				error: `from and to must be days (YYYY-MM-DD) at most ${MAX_RANGE_DAYS} days apart`,
+			},
+			{ status: 400 },
+		); // Respond with a 400 Bad Request
+	}
+
+	if (!isTimeZone(timeZone)) {
+		console.warn(`Invalid time zone received: ${timeZone}`); // Log a warning for invalid parameters
+		return NextResponse.json({ error: 'Unknown time zone' }, { status: 400 }); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		// Clear out trashed workouts that have outlived the retention period
+		await purgeExpiredWorkouts(prisma, user.id);
+
+		// Fetch a day either side of the range, since time zones run up to 14 hours from UTC;
+		// summarizeDays drops what falls outside it
+		const workouts = await prisma.workout.findMany({
+			where: {
+				userId: user.id,
+				deletedAt: null, // Trashed workouts are hidden
+				date: {
+					gte: new Date(`${addDays(from, -1)}T00:00:00Z`),
+					lt: new Date(`${addDays(to, 2)}T00:00:00Z`),
+				},
+			},
+			orderBy: [{ date: 'asc' }, { id: 'asc' }],
+			select: { id: true, date: true, totalVolume: true, setCount: true },
+		});
+
+		const calendarResponse: CalendarResponse = {
+			unit: user.weightUnit,
+			timeZone,
+			days: summarizeDays(workouts, timeZone, from, to).map(day => ({
+				...day,
+				totalVolume: fromKg(day.totalVolume, user.weightUnit),
+			})),
+		};
+
+		return NextResponse.json(calendarResponse, { status: 200 });
+	} catch (error) {
+		console.error('Error fetching calendar:', error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error fetching calendar' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
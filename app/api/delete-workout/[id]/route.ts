@@ -2,15 +2,21 @@
 
 import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
 import { prisma } from '../../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../../lib/auth'; // Import authentication helpers
+import { recalculateRecords } from '../../../../lib/records'; // Import personal record helpers
+import { purgeDate, purgeExpiredWorkouts } from '../../../../lib/trash'; // Import trash helpers
 
 // Define the structure of the response sent back to the frontend
 type DeleteWorkoutResponse = {
 	message: string; // Success message
+	id: number; // ID of the trashed workout, for undoing the deletion
+	purgeAt: string; // ISO string of when the workout is permanently deleted
 };
 
 /**
  * DELETE /api/delete-workout/[id]
- * Deletes a specific workout along with its exercises and sets.
+ * Moves a specific workout to the trash, where it can be restored until it is purged,
+ * and rebuilds the personal records of the lifts it contained without it.
  */
 export async function DELETE(
 	request: NextRequest,
@@ -28,9 +34,15 @@ export async function DELETE(
 	}
 
 	try {
+		// Resolve the signed-in user; workouts are only visible to their owner
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
 		// Check if the workout exists
-		const existingWorkout = await prisma.workout.findUnique({
-			where: { id: workoutId }, // Search by workout ID
+		const existingWorkout = await prisma.workout.findFirst({
+			where: { id: workoutId, userId: user.id, deletedAt: null }, // Search by workout ID within the user's live workouts
 		});
 
 		if (!existingWorkout) {
@@ -39,16 +51,40 @@ export async function DELETE(
 			return NextResponse.json({ error: 'Workout not found' }, { status: 404 }); // Respond with a 404 Not Found
 		}
 
-		// Delete the workout. Due to cascade delete, associated exercises and sets will also be deleted.
-		await prisma.workout.delete({
-			where: { id: workoutId }, // Specify the workout to delete
+		const deletedAt = new Date();
+		await prisma.$transaction(async tx => {
+			// Remember which lifts the workout contained so their records can be rebuilt
+			const exercises = await tx.exercise.findMany({
+				where: { workoutId },
+				select: { definitionId: true },
+			});
+
+			// Move the workout to the trash; its exercises and sets are kept for a restore
+			await tx.workout.update({
+				where: { id: workoutId }, // Specify the workout to trash
+				data: { deletedAt },
+			});
+
+			// Records set in later workouts may have been beaten only by this one
+			await recalculateRecords(
+				tx,
+				user.id,
+				exercises
+					.map(exercise => exercise.definitionId)
+					.filter((id): id is number => id !== null),
+			);
+
+			// Clear out whatever has outlived the retention period meanwhile
+			await purgeExpiredWorkouts(tx, user.id);
 		});
 
-		console.log(`Workout deleted with ID: ${workoutId}`); // Log the deletion
+		console.log(`Workout moved to the trash with ID: ${workoutId}`); // Log the deletion
 
 		// Respond with a success message
 		const response: DeleteWorkoutResponse = {
-			message: 'Workout deleted successfully.',
+			message: 'Workout moved to the trash.',
+			id: workoutId,
+			purgeAt: purgeDate(deletedAt).toISOString(),
 		};
 
 		return NextResponse.json(response, { status: 200 }); // Respond with the success message
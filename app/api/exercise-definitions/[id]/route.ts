@@ -0,0 +1,238 @@
+// app/api/exercise-definitions/[id]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { Prisma } from '@prisma/client'; // Import Prisma error types
+import { prisma } from '../../../../lib/prisma'; // Import the Prisma client
+import { forbidden, getCurrentUser, unauthorized } from '../../../../lib/auth'; // Import authentication helpers
+import {
+	isValidDefinitionInput,
+	toDefinitionData,
+	toDefinitionResponse,
+} from '../../../../lib/exercise-catalog'; // Import exercise catalog helpers
+
+/**
+ * GET /api/exercise-definitions/[id]
+ * Retrieves a single catalog entry.
+ */
+export async function GET(
+	request: NextRequest,
+	{ params }: { params: { id: string } },
+) {
+	const { id } = params; // Extract the definition ID from the URL parameters
+	console.log(`Received GET request to /api/exercise-definitions/${id}`); // Log receipt of the request
+
+	const definitionId = parseInt(id, 10); // Convert the ID to an integer
+	if (isNaN(definitionId)) {
+		return NextResponse.json(
+			{ error: 'Invalid exercise definition ID' },
+			{ status: 400 },
+		); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const definition = await prisma.exerciseDefinition.findUnique({
+			where: { id: definitionId },
+		});
+
+		if (!definition) {
+			return NextResponse.json(
+				{ error: 'Exercise definition not found' },
+				{ status: 404 },
+			); // Respond with a 404 Not Found
+		}
+
+		return NextResponse.json(toDefinitionResponse(definition), {
+			status: 200,
+		});
+	} catch (error) {
+		console.error(`Error fetching exercise definition ${definitionId}:`, error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error fetching exercise definition' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
+
+/**
+ * PUT /api/exercise-definitions/[id]
+ * Replaces the fields of a catalog entry. Renaming an entry also renames the
+ * exercises logged against it, so history stays grouped under one name.
+ * The catalog is shared, so only administrators can change it.
+ */
+export async function PUT(
+	request: NextRequest,
+	{ params }: { params: { id: string } },
+) {
+	const { id } = params; // Extract the definition ID from the URL parameters
+	console.log(`Received PUT request to /api/exercise-definitions/${id}`); // Log receipt of the request
+
+	const definitionId = parseInt(id, 10); // Convert the ID to an integer
+	if (isNaN(definitionId)) {
+		return NextResponse.json(
+			{ error: 'Invalid exercise definition ID' },
+			{ status: 400 },
+		); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		// The catalog is shared by every user, so only administrators change it
+		if (!user.isAdmin) {
+			console.warn(`User ${user.id} is not allowed to change the catalog`); // Log a warning for the refused change
+			return forbidden(); // Respond with a 403 Forbidden
+		}
+
+		const body: unknown = await request.json();
+		console.log('Request Body:', body); // Log the request body for debugging
+
+		if (!isValidDefinitionInput(body)) {
+			console.warn('Invalid exercise definition received'); // Log a warning for invalid data
+			return NextResponse.json(
+				{ error: 'Invalid exercise definition' },
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+
+		const existing = await prisma.exerciseDefinition.findUnique({
+			where: { id: definitionId },
+		});
+
+		if (!existing) {
+			return NextResponse.json(
+				{ error: 'Exercise definition not found' },
+				{ status: 404 },
+			); // Respond with a 404 Not Found
+		}
+
+		const data = toDefinitionData(body);
+		const definition = await prisma.$transaction(async tx => {
+			const definition = await tx.exerciseDefinition.update({
+				where: { id: definitionId },
+				data,
+			});
+
+			// Keep the denormalized exercise names in step with the catalog
+			if (existing.name !== definition.name) {
+				await tx.exercise.updateMany({
+					where: { definitionId },
+					data: { name: definition.name },
+				});
+				await tx.templateExercise.updateMany({
+					where: { definitionId },
+					data: { name: definition.name },
+				});
+			}
+
+			return definition;
+		});
+
+		console.log(`Exercise definition updated with ID: ${definition.id}`); // Log the updated definition ID
+
+		return NextResponse.json(toDefinitionResponse(definition), {
+			status: 200,
+		});
+	} catch (error) {
+		if (
+			error instanceof Prisma.PrismaClientKnownRequestError &&
+			error.code === 'P2002'
+		) {
+			// Unique constraint on the name
+			return NextResponse.json(
+				{ error: 'An exercise with this name already exists' },
+				{ status: 409 },
+			); // Respond with a 409 Conflict
+		}
+
+		console.error(`Error updating exercise definition ${definitionId}:`, error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error updating exercise definition' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
+
+/**
+ * DELETE /api/exercise-definitions/[id]
+ * Removes a catalog entry. Entries that logged exercises or templates still use cannot be removed.
+ * Only administrators can remove entries.
+ */
+export async function DELETE(
+	request: NextRequest,
+	{ params }: { params: { id: string } },
+) {
+	const { id } = params; // Extract the definition ID from the URL parameters
+	console.log(`Received DELETE request to /api/exercise-definitions/${id}`); // Log receipt of the request
+
+	const definitionId = parseInt(id, 10); // Convert the ID to an integer
+	if (isNaN(definitionId)) {
+		return NextResponse.json(
+			{ error: 'Invalid exercise definition ID' },
+			{ status: 400 },
+		); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		// The catalog is shared by every user, so only administrators change it
+		if (!user.isAdmin) {
+			console.warn(`User ${user.id} is not allowed to change the catalog`); // Log a warning for the refused change
+			return forbidden(); // Respond with a 403 Forbidden
+		}
+
+		const definition = await prisma.exerciseDefinition.findUnique({
+			where: { id: definitionId },
+			include: {
+				_count: { select: { exercises: true, templateExercises: true } },
+			},
+		});
+
+		if (!definition) {
+			return NextResponse.json(
+				{ error: 'Exercise definition not found' },
+				{ status: 404 },
+			); // Respond with a 404 Not Found
+		}
+
+		if (definition._count.exercises > 0) {
+			return NextResponse.json(
+				{ error: 'This exercise is used by logged workouts' },
+				{ status: 409 },
+			); // Respond with a 409 Conflict
+		}
+
+		if (definition._count.templateExercises > 0) {
+			return NextResponse.json(
+				{ error: 'This exercise is used by workout templates' },
+				{ status: 409 },
+			); // Respond with a 409 Conflict
+		}
+
+		await prisma.exerciseDefinition.delete({ where: { id: definitionId } });
+
+		console.log(`Exercise definition deleted with ID: ${definitionId}`); // Log the deletion
+
+		return NextResponse.json(
+			{ message: 'Exercise definition deleted successfully.' },
+			{ status: 200 },
+		);
+	} catch (error) {
+		console.error(`Error deleting exercise definition ${definitionId}:`, error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error deleting exercise definition' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
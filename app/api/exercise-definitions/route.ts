@@ -0,0 +1,116 @@
+// app/api/exercise-definitions/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { Prisma } from '@prisma/client'; // Import Prisma error types
+import { prisma } from '../../../lib/prisma'; // Import the Prisma client
+import { forbidden, getCurrentUser, unauthorized } from '../../../lib/auth'; // Import authentication helpers
+import {
+	ExerciseDefinitionResponse,
+	isValidDefinitionInput,
+	normalizeExerciseName,
+	toDefinitionData,
+	toDefinitionResponse,
+} from '../../../lib/exercise-catalog'; // Import exercise catalog helpers
+
+/**
+ * GET /api/exercise-definitions
+ * Lists the exercise catalog, sorted by name.
+ * An optional `q` query parameter filters entries whose name or aliases contain it.
+ */
+export async function GET(request: NextRequest) {
+	console.log('Received GET request to /api/exercise-definitions'); // Log receipt of the request
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const definitionsFromDB = await prisma.exerciseDefinition.findMany({
+			orderBy: { name: 'asc' }, // Alphabetical order for dropdowns
+		});
+
+		let definitions: ExerciseDefinitionResponse[] =
+			definitionsFromDB.map(toDefinitionResponse);
+
+		// Filter by name or alias when a search term is given
+		const query = normalizeExerciseName(
+			request.nextUrl.searchParams.get('q') ?? '',
+		);
+		if (query) {
+			definitions = definitions.filter(
+				definition =>
+					definition.name.toLowerCase().includes(query) ||
+					definition.aliases.some(alias => alias.includes(query)),
+			);
+		}
+
+		return NextResponse.json(definitions, { status: 200 });
+	} catch (error) {
+		console.error('Error fetching exercise definitions:', error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error fetching exercise definitions' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
+
+/**
+ * POST /api/exercise-definitions
+ * Adds a new entry to the exercise catalog. Only administrators can add entries;
+ * lifts logged under an unknown name still get a bare entry of their own.
+ */
+export async function POST(request: NextRequest) {
+	console.log('Received POST request to /api/exercise-definitions'); // Log receipt of the request
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		// The catalog is shared by every user, so only administrators change it
+		if (!user.isAdmin) {
+			console.warn(`User ${user.id} is not allowed to change the catalog`); // Log a warning for the refused change
+			return forbidden(); // Respond with a 403 Forbidden
+		}
+
+		const body: unknown = await request.json();
+		console.log('Request Body:', body); // Log the request body for debugging
+
+		if (!isValidDefinitionInput(body)) {
+			console.warn('Invalid exercise definition received'); // Log a warning for invalid data
+			return NextResponse.json(
+				{ error: 'Invalid exercise definition' },
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+
+		const definition = await prisma.exerciseDefinition.create({
+			data: toDefinitionData(body),
+		});
+
+		console.log(`Exercise definition created with ID: ${definition.id}`); // Log the new definition ID
+
+		return NextResponse.json(toDefinitionResponse(definition), {
+			status: 201,
+		});
+	} catch (error) {
+		if (
+			error instanceof Prisma.PrismaClientKnownRequestError &&
+			error.code === 'P2002'
+		) {
+			// Unique constraint on the name
+			return NextResponse.json(
+				{ error: 'An exercise with this name already exists' },
+				{ status: 409 },
+			); // Respond with a 409 Conflict
+		}
+
+		console.error('Error creating exercise definition:', error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error creating exercise definition' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
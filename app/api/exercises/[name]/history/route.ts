@@ -0,0 +1,182 @@
+// app/api/exercises/[name]/history/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { SetType } from '@prisma/client'; // Import Prisma enums
+import { prisma } from '../../../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../../../lib/auth'; // Import authentication helpers
+import { findExerciseDefinition } from '../../../../../lib/exercise-catalog'; // Import exercise catalog helpers
+import {
+	HistoryBucket,
+	HistoryPoint,
+	buildHistory,
+} from '../../../../../lib/history'; // Import history helpers
+import { WeightUnit, fromKg } from '../../../../../lib/units'; // Import weight unit helpers
+import { ExerciseKind } from '../../../../../lib/exercise-kinds'; // Import exercise kind types
+import { bodyweightOn } from '../../../../../lib/measurements'; // Import body measurement helpers
+
+// Define the structure of the response sent back to the frontend
+type ExerciseHistoryResponse = {
+	definitionId: number; // Catalog entry of the lift
+	name: string; // Canonical name of the lift
+	kind: ExerciseKind; // What each set of the lift records, which decides the meaningful series
+	bucket: HistoryBucket; // How sessions were grouped
+	unit: WeightUnit; // Unit of every weight and volume in the points
+	points: (HistoryPoint & {
+		bodyweight: number | null; // Latest bodyweight measured by the point's date, if any
+		relativeStrength: number | null; // Estimated 1RM divided by that bodyweight, if both are known
+	})[]; // Time series, oldest first
+};
+
+// Accepted values of the `bucket` query parameter
+const BUCKETS: HistoryBucket[] = ['session', 'week', 'month'];
+
+/**
+ * parseDate
+ * Parses an optional date query parameter. Returns undefined when absent
+ * and null when present but invalid.
+ */
+const parseDate = (value: string | null): Date | undefined | null => {
+	if (!value) return undefined;
+	const date = new Date(value);
+	return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * GET /api/exercises/[name]/history
+ * Retrieves the signed-in user's time series for one lift: top set, estimated 1RM,
+ * total volume and total reps per session, or total distance, time and best pace for cardio.
+ * Weighted lifts also get relative strength: the estimated 1RM divided by the bodyweight
+ * last measured by then.
+ * Query parameters:
+ *   from, to  - optional ISO dates bounding the range (inclusive)
+ *   bucket    - 'session' (default), 'week' or 'month'
+ *   includeWarmups - 'true' to count warm-up sets, which are left out by default
+ */
+export async function GET(
+	request: NextRequest,
+	{ params }: { params: { name: string } },
+) {
+	const name = params.name; // Extract the exercise name from the URL parameters, which Next.js has already decoded
+	console.log(`Received GET request to /api/exercises/${name}/history`); // Log receipt of the request
+
+	// Validate the query parameters
+	const searchParams = request.nextUrl.searchParams;
+	const from = parseDate(searchParams.get('from'));
+	const to = parseDate(searchParams.get('to'));
+	const bucket = (searchParams.get('bucket') ?? 'session') as HistoryBucket;
+	const includeWarmups = searchParams.get('includeWarmups') === 'true';
+
+	if (from === null || to === null || !BUCKETS.includes(bucket)) {
+		console.warn('Invalid history query received'); // Log a warning for invalid parameters
+		return NextResponse.json(
+			{ error: 'Invalid date range or bucket' },
+			{ status: 400 },
+		); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		// Resolve the name (or alias) to a catalog entry
+		const definition = await findExerciseDefinition(prisma, name);
+		if (!definition) {
+			console.warn(`Exercise not found: ${name}`); // Log a warning if not found
+			return NextResponse.json(
+				{ error: 'Exercise not found' },
+				{ status: 404 },
+			); // Respond with a 404 Not Found
+		}
+
+		// Fetch the user's workouts containing the lift, oldest first
+		const workouts = await prisma.workout.findMany({
+			where: {
+				userId: user.id,
+				deletedAt: null, // Trashed workouts are hidden
+				date: { gte: from, lte: to },
+				exercises: { some: { definitionId: definition.id } },
+			},
+			orderBy: [{ date: 'asc' }, { id: 'asc' }],
+			select: {
+				id: true,
+				date: true,
+				exercises: {
+					where: { definitionId: definition.id },
+					select: {
+						sets: {
+							where: includeWarmups
+								? undefined
+								: { type: { not: SetType.WARMUP } },
+							select: {
+								weight: true,
+								reps: true,
+								distance: true,
+								durationSeconds: true,
+							},
+						},
+					},
+				},
+			},
+		});
+
+		const sessions = workouts
+			.map(workout => ({
+				workoutId: workout.id,
+				date: workout.date,
+				sets: workout.exercises.flatMap(exercise =>
+					exercise.sets.map(set => ({
+						weight: fromKg(Number(set.weight), user.weightUnit),
+						reps: set.reps,
+						distance: set.distance === null ? null : Number(set.distance),
+						durationSeconds: set.durationSeconds,
+					})),
+				),
+			}))
+			.filter(session => session.sets.length > 0); // Sessions of only warm-ups
+
+		// Bodyweights measured up to the end of the range, oldest first
+		const bodyweights = (
+			await prisma.bodyMeasurement.findMany({
+				where: {
+					userId: user.id,
+					bodyweight: { not: null },
+					date: { lte: to },
+				},
+				orderBy: { date: 'asc' },
+				select: { date: true, bodyweight: true },
+			})
+		).map(measurement => ({
+			date: measurement.date.toISOString().slice(0, 10),
+			bodyweight: fromKg(Number(measurement.bodyweight), user.weightUnit),
+		}));
+
+		const historyResponse: ExerciseHistoryResponse = {
+			definitionId: definition.id,
+			name: definition.name,
+			kind: definition.kind,
+			bucket,
+			unit: user.weightUnit,
+			points: buildHistory(sessions, bucket, definition.kind).map(point => {
+				const bodyweight = bodyweightOn(bodyweights, point.date.slice(0, 10));
+				return {
+					...point,
+					bodyweight,
+					relativeStrength:
+						bodyweight && point.estimatedOneRepMax > 0
+							? Math.round((point.estimatedOneRepMax / bodyweight) * 100) / 100
+							: null,
+				};
+			}),
+		};
+
+		return NextResponse.json(historyResponse, { status: 200 });
+	} catch (error) {
+		console.error(`Error fetching history of ${name}:`, error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error fetching exercise history' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
@@ -0,0 +1,175 @@
+// app/api/exercises/[name]/suggestion/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { SetType } from '@prisma/client'; // Import Prisma enums
+import { prisma } from '../../../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../../../lib/auth'; // Import authentication helpers
+import { findExerciseDefinition } from '../../../../../lib/exercise-catalog'; // Import exercise catalog helpers
+import {
+	PastSet,
+	ProgressionRule,
+	Suggestion,
+	isProgressionRule,
+	suggestNextSession,
+} from '../../../../../lib/progression'; // Import progression helpers
+import { WeightUnit, fromKg } from '../../../../../lib/units'; // Import weight unit helpers
+import { smallestIncrement, toPlateSetup } from '../../../../../lib/plates'; // Import plate helpers
+import { ExerciseKind } from '../../../../../lib/exercise-kinds'; // Import exercise kind types
+
+// Define the structure of the response sent back to the frontend
+type SuggestionResponse = {
+	definitionId: number; // Catalog entry of the lift
+	name: string; // Canonical name of the lift
+	kind: ExerciseKind; // What each set of the lift records
+	unit: WeightUnit; // Unit of every weight in the response
+	rule: ProgressionRule; // Rule the suggestion follows
+	lastTime: {
+		workoutId: number; // Workout the lift was last done in
+		date: string; // ISO string of that workout's date
+		sets: (PastSet & {
+			distance: number | null; // Distance covered in metres, for cardio sets
+			durationSeconds: number | null; // Time taken or held in seconds, for cardio and timed sets
+		})[]; // Its working sets, in order
+	} | null; // Last session of the lift; null if it was never done
+	suggestion: Suggestion | null; // Today's target; null without history or for lifts without weight x reps
+};
+
+// Number of past sessions looked at, enough to spot repeated misses
+const RECENT_SESSIONS = 6;
+
+/**
+ * GET /api/exercises/[name]/suggestion
+ * Suggests today's sets, reps and weight for a lift from the signed-in user's last
+ * sessions of it, and returns the last session for reference. Warm-ups are left out.
+ * The suggested weight is rounded to what the user's plates can load.
+ * Query parameters:
+ *   rule - progression rule to apply instead of the lift's default from the catalog
+ */
+export async function GET(
+	request: NextRequest,
+	{ params }: { params: { name: string } },
+) {
+	const name = params.name; // Extract the exercise name from the URL parameters, which Next.js has already decoded
+	console.log(`Received GET request to /api/exercises/${name}/suggestion`); // Log receipt of the request
+
+	// Validate the query parameters
+	const ruleParam = request.nextUrl.searchParams.get('rule');
+	if (ruleParam !== null && !isProgressionRule(ruleParam)) {
+		console.warn(`Invalid progression rule received: ${ruleParam}`); // Log a warning for invalid parameters
+		return NextResponse.json(
+			{ error: 'Unknown progression rule' },
+			{ status: 400 },
+		); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		// Resolve the name (or alias) to a catalog entry
+		const definition = await findExerciseDefinition(prisma, name);
+		if (!definition) {
+			console.warn(`Exercise not found: ${name}`); // Log a warning if not found
+			return NextResponse.json(
+				{ error: 'Exercise not found' },
+				{ status: 404 },
+			); // Respond with a 404 Not Found
+		}
+
+		const { progressionRule } =
+			await prisma.exerciseDefinition.findUniqueOrThrow({
+				where: { id: definition.id },
+				select: { progressionRule: true },
+			});
+		const rule = ruleParam ?? progressionRule;
+
+		// Suggested weights are rounded to a pair of the user's lightest plates
+		const { plateSetup } = await prisma.user.findUniqueOrThrow({
+			where: { id: user.id },
+			select: { plateSetup: true },
+		});
+		const step =
+			smallestIncrement(toPlateSetup(plateSetup)[user.weightUnit]) ?? undefined;
+
+		// Fetch the user's latest workouts containing the lift, newest first
+		const workouts = await prisma.workout.findMany({
+			where: {
+				userId: user.id,
+				deletedAt: null, // Trashed sessions don't count
+				exercises: { some: { definitionId: definition.id } },
+			},
+			orderBy: [{ date: 'desc' }, { id: 'desc' }],
+			take: RECENT_SESSIONS,
+			select: {
+				id: true,
+				date: true,
+				exercises: {
+					where: { definitionId: definition.id },
+					orderBy: { position: 'asc' },
+					select: {
+						sets: {
+							where: { type: { not: SetType.WARMUP } },
+							orderBy: { position: 'asc' },
+							select: {
+								weight: true,
+								reps: true,
+								distance: true,
+								durationSeconds: true,
+							},
+						},
+					},
+				},
+			},
+		});
+
+		const sessions = workouts
+			.map(workout => ({
+				workoutId: workout.id,
+				date: workout.date,
+				sets: workout.exercises.flatMap(exercise =>
+					exercise.sets.map(set => ({
+						weight: fromKg(Number(set.weight), user.weightUnit),
+						reps: set.reps,
+						distance: set.distance === null ? null : Number(set.distance),
+						durationSeconds: set.durationSeconds,
+					})),
+				),
+			}))
+			.filter(session => session.sets.length > 0); // Sessions of only warm-ups
+
+		const last = sessions[0];
+		const suggestionResponse: SuggestionResponse = {
+			definitionId: definition.id,
+			name: definition.name,
+			kind: definition.kind,
+			unit: user.weightUnit,
+			rule,
+			lastTime: last
+				? {
+						workoutId: last.workoutId,
+						date: last.date.toISOString(),
+						sets: last.sets,
+					}
+				: null,
+			suggestion:
+				definition.kind === 'WEIGHT_REPS'
+					? suggestNextSession(
+							sessions.map(session => session.sets),
+							rule,
+							user.weightUnit,
+							step,
+						)
+					: null,
+		};
+
+		return NextResponse.json(suggestionResponse, { status: 200 });
+	} catch (error) {
+		console.error(`Error suggesting a session of ${name}:`, error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error suggesting a session' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
@@ -0,0 +1,313 @@
+// app/api/export/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { Prisma } from '@prisma/client'; // Import Prisma types for query building
+import { prisma } from '../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../lib/auth'; // Import authentication helpers
+import { purgeExpiredWorkouts } from '../../../lib/trash'; // Import trash helpers
+import { WeightUnit, fromKg } from '../../../lib/units'; // Import weight unit helpers
+import { SetType } from '../../../lib/set-types'; // Import set type helpers
+import { ExerciseKind } from '../../../lib/exercise-kinds'; // Import exercise kind types
+
+// Define the structure of an exported workout; matches GET /api/get-workout/[id]
+type WorkoutResponse = {
+	id: number; // Unique identifier for the workout
+	date: string; // ISO string representing the workout date
+	startedAt: string | null; // ISO string of when logging started, if recorded
+	endedAt: string | null; // ISO string of when the workout was finished, if recorded
+	notes: string | null; // Free-text notes on the workout
+	tags: string[]; // Tags on the workout
+	program: {
+		programId: number; // Program the workout was logged from
+		programName: string; // Name of the program
+		dayId: number; // Program day the workout was logged from
+		dayName: string; // Name of the program day
+		week: number | null; // Week of the program it was logged for
+	} | null; // Program day the workout was logged from, if any
+	unit: WeightUnit; // Unit of every weight in the workout
+	exercises: {
+		id: number; // Unique identifier for the exercise
+		name: string; // Name of the exercise
+		definitionId: number | null; // Catalog entry for the exercise
+		kind: ExerciseKind; // What each set of the exercise records
+		groupIndex: number | null; // Superset or circuit of the exercise, if grouped
+		notes: string | null; // Free-text notes on the exercise
+		sets: {
+			id: number; // Unique identifier for the set
+			reps: number; // Number of reps in the set
+			weight: number; // Weight used in the set, in the user's unit
+			distance: number | null; // Distance covered in metres, if recorded
+			durationSeconds: number | null; // Time taken or held in seconds, if recorded
+			completedAt: string | null; // ISO string of when the set was done, if recorded
+			type: SetType; // Kind of set
+			rpe: number | null; // Rate of perceived exertion, if recorded
+			rir: number | null; // Reps in reserve, if recorded
+			notes: string | null; // Free-text notes on the set
+		}[];
+	}[];
+};
+
+// Accepted values of the `format` query parameter; the first is the default
+const FORMATS = ['csv', 'json'] as const;
+type ExportFormat = (typeof FORMATS)[number];
+
+// Number of workouts read from the database at a time while streaming
+const BATCH_SIZE = 200;
+
+// Columns of the CSV export, one row per set; workout and exercise fields repeat on each of their sets
+const CSV_HEADER = [
+	'date',
+	'workout_id',
+	'exercise',
+	'set',
+	'reps',
+	'weight',
+	'unit',
+	'distance_m',
+	'duration_s',
+	'set_type',
+	'rpe',
+	'rir',
+	'group',
+	'set_notes',
+	'exercise_notes',
+	'workout_notes',
+	'tags',
+];
+
+/**
+ * parseDate
+ * Parses an optional date query parameter. Returns undefined when absent
+ * and null when present but invalid.
+ */
+const parseDate = (value: string | null): Date | undefined | null => {
+	if (!value) return undefined;
+	const date = new Date(value);
+	return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * escapeCsv
+ * Quotes a CSV field when it contains a delimiter, quote or line break. Null becomes an empty field.
+ */
+const escapeCsv = (value: string | number | null): string => {
+	const text = value === null ? '' : `${value}`;
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * toCsvRows
+ * Formats a workout as CSV lines, one per set. Sets are numbered from 1 within each exercise,
+ * groups from 1 within the workout, and tags are joined with semicolons.
+ */
+const toCsvRows = (workout: WorkoutResponse): string =>
+	workout.exercises
+		.flatMap(exercise =>
+			exercise.sets.map((set, idx) =>
+				[
+					workout.date,
+					workout.id,
+					exercise.name,
+					idx + 1,
+					set.reps,
+					set.weight,
+					workout.unit.toLowerCase(),
+					set.distance,
+					set.durationSeconds,
+					set.type.toLowerCase(),
+					set.rpe,
+					set.rir,
+					exercise.groupIndex === null ? null : exercise.groupIndex + 1,
+					set.notes,
+					exercise.notes,
+					workout.notes,
+					workout.tags.join('; '),
+				]
+					.map(escapeCsv)
+					.join(','),
+			),
+		)
+		.map(row => `${row}\r\n`)
+		.join('');
+
+/**
+ * GET /api/export
+ * Downloads the signed-in user's training log, oldest workout first.
+ * Workouts are read in batches and streamed, so large histories are never held in memory.
+ * Query parameters:
+ *   format   - 'csv' (default), one row per set, or 'json', an array of workouts
+ *   from, to - optional ISO dates bounding the range (inclusive)
+ */
+export async function GET(request: NextRequest) {
+	console.log('Received GET request to /api/export'); // Log receipt of the request
+
+	// Validate the query parameters
+	const searchParams = request.nextUrl.searchParams;
+	const formatParam = searchParams.get('format') || FORMATS[0];
+	const from = parseDate(searchParams.get('from'));
+	const to = parseDate(searchParams.get('to'));
+
+	if (
+		!FORMATS.includes(formatParam as ExportFormat) ||
+		from === null ||
+		to === null
+	) {
+		console.warn('Invalid export query received'); // Log a warning for invalid parameters
+		return NextResponse.json(
+			{ error: 'Invalid query parameters' },
+			{ status: 400 },
+		); // Respond with a 400 Bad Request
+	}
+	const format = formatParam as ExportFormat;
+
+	try {
+		// Resolve the signed-in user; workouts are only visible to their owner
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		// Clear out trashed workouts that have outlived the retention period
+		await purgeExpiredWorkouts(prisma, user.id);
+
+		const { id: userId, weightUnit: unit } = user;
+
+		const where: Prisma.WorkoutWhereInput = {
+			userId, // Only the signed-in user's workouts
+			deletedAt: null, // Trashed workouts are left out
+			date: { gte: from, lte: to },
+		};
+
+		/**
+		 * fetchBatch
+		 * Reads the next batch of workouts after the given cursor, in export order.
+		 */
+		const fetchBatch = async (cursor: number | null) => {
+			const workoutsFromDB = await prisma.workout.findMany({
+				where,
+				orderBy: [{ date: 'asc' }, { id: 'asc' }], // ID breaks ties so the cursor is stable
+				take: BATCH_SIZE,
+				...(cursor !== null && { cursor: { id: cursor }, skip: 1 }),
+				include: {
+					exercises: {
+						orderBy: { position: 'asc' }, // Order exercises as they were logged
+						include: {
+							sets: { orderBy: { position: 'asc' } }, // Include all sets for each exercise, in order
+						},
+					},
+					tags: { orderBy: { id: 'asc' } }, // Include the tags in the order they were added
+					programDay: {
+						select: {
+							id: true,
+							name: true,
+							program: { select: { id: true, name: true } },
+						},
+					}, // Include the program day it was logged from, if any
+				},
+			});
+
+			// Transform the data to convert Date objects to ISO strings and weights to the user's unit
+			return workoutsFromDB.map((workout): WorkoutResponse => ({
+				id: workout.id,
+				date: workout.date.toISOString(),
+				startedAt: workout.startedAt?.toISOString() ?? null,
+				endedAt: workout.endedAt?.toISOString() ?? null,
+				notes: workout.notes,
+				tags: workout.tags.map(tag => tag.name),
+				program: workout.programDay
+					? {
+							programId: workout.programDay.program.id,
+							programName: workout.programDay.program.name,
+							dayId: workout.programDay.id,
+							dayName: workout.programDay.name,
+							week: workout.programWeek,
+						}
+					: null,
+				unit,
+				exercises: workout.exercises.map(exercise => ({
+					id: exercise.id,
+					name: exercise.name,
+					definitionId: exercise.definitionId,
+					kind: exercise.kind,
+					groupIndex: exercise.groupIndex,
+					notes: exercise.notes,
+					sets: exercise.sets.map(set => ({
+						id: set.id,
+						reps: set.reps,
+						weight: fromKg(Number(set.weight), unit),
+						distance: set.distance === null ? null : Number(set.distance),
+						durationSeconds: set.durationSeconds,
+						completedAt: set.completedAt?.toISOString() ?? null,
+						type: set.type,
+						rpe: set.rpe,
+						rir: set.rir,
+						notes: set.notes,
+					})),
+				})),
+			}));
+		};
+
+		const encoder = new TextEncoder();
+		let cursor: number | null = null; // Last workout sent; null before the first batch
+		let exported = 0; // Number of workouts sent so far
+
+		// Pull one batch per read so the response is only produced as fast as the client downloads it
+		const stream = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(
+					encoder.encode(
+						format === 'csv' ? `${CSV_HEADER.join(',')}\r\n` : '[',
+					),
+				);
+			},
+			async pull(controller) {
+				try {
+					const batch = await fetchBatch(cursor);
+
+					const chunk = batch
+						.map((workout, idx) =>
+							format === 'csv'
+								? toCsvRows(workout)
+								: `${exported + idx > 0 ? ',' : ''}\n${JSON.stringify(workout)}`,
+						)
+						.join('');
+					if (chunk) controller.enqueue(encoder.encode(chunk));
+					exported += batch.length;
+
+					if (batch.length < BATCH_SIZE) {
+						if (format === 'json') controller.enqueue(encoder.encode('\n]\n'));
+						console.log(`Exported ${exported} workouts as ${format}`); // Log the number of workouts exported
+						controller.close();
+					} else {
+						cursor = batch[batch.length - 1].id;
+					}
+				} catch (error) {
+					console.error('Error exporting workouts:', error); // Log any errors that occur during the process
+					controller.error(error); // Abort the download; headers are already sent
+				}
+			},
+		});
+
+		// Name the file after today's date, e.g. workouts-2024-12-01.csv
+		const filename = `workouts-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+		// Respond with the stream as a file download
+		return new Response(stream, {
+			status: 200,
+			headers: {
+				'Content-Type':
+					format === 'csv'
+						? 'text/csv; charset=utf-8'
+						: 'application/json; charset=utf-8',
+				'Content-Disposition': `attachment; filename="${filename}"`,
+				'Cache-Control': 'no-store',
+			},
+		});
+	} catch (error) {
+		console.error('Error exporting workouts:', error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error exporting workouts' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
@@ -1,19 +1,46 @@
 // app/api/get-workout/[id]/route.ts
 
 import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { Prisma } from '@prisma/client'; // Import Prisma types for decimal columns
 import { prisma } from '../../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../../lib/auth'; // Import authentication helpers
+import { purgeExpiredWorkouts } from '../../../../lib/trash'; // Import trash helpers
+import { WeightUnit, fromKg } from '../../../../lib/units'; // Import weight unit helpers
+import { SetType } from '../../../../lib/set-types'; // Import set type helpers
+import { ExerciseKind } from '../../../../lib/exercise-kinds'; // Import exercise kind types
 
 // Define the structure of a workout retrieved from the database
 type WorkoutFromDB = {
 	id: number; // Unique identifier for the workout
 	date: Date; // Date and time of the workout
+	startedAt: Date | null; // When logging started, if recorded
+	endedAt: Date | null; // When the workout was finished, if recorded
+	notes: string | null; // Free-text notes on the workout
+	tags: { name: string }[]; // Tags on the workout
+	programWeek: number | null; // Week of the program it was logged for, if any
+	programDay: {
+		id: number; // Program day the workout was logged from
+		name: string; // Name of the program day
+		program: { id: number; name: string }; // Program the day belongs to
+	} | null; // Program day the workout was logged from, if any
 	exercises: {
 		id: number; // Unique identifier for the exercise
 		name: string; // Name of the exercise
+		definitionId: number | null; // Catalog entry for the exercise
+		kind: ExerciseKind; // What each set of the exercise records
+		groupIndex: number | null; // Superset or circuit of the exercise, if grouped
+		notes: string | null; // Free-text notes on the exercise
 		sets: {
 			id: number; // Unique identifier for the set
 			reps: number; // Number of reps in the set
-			weight: number; // Weight used in the set
+			weight: Prisma.Decimal; // Weight used in the set, in kilograms
+			distance: Prisma.Decimal | null; // Distance covered in metres, if recorded
+			durationSeconds: number | null; // Time taken or held in seconds, if recorded
+			completedAt: Date | null; // When the set was done, if recorded
+			type: SetType; // Kind of set
+			rpe: number | null; // Rate of perceived exertion, if recorded
+			rir: number | null; // Reps in reserve, if recorded
+			notes: string | null; // Free-text notes on the set
 		}[];
 	}[];
 };
@@ -22,13 +49,36 @@ type WorkoutFromDB = {
 type WorkoutResponse = {
 	id: number; // Unique identifier for the workout
 	date: string; // ISO string representing the workout date
+	startedAt: string | null; // ISO string of when logging started, if recorded
+	endedAt: string | null; // ISO string of when the workout was finished, if recorded
+	notes: string | null; // Free-text notes on the workout
+	tags: string[]; // Tags on the workout
+	program: {
+		programId: number; // Program the workout was logged from
+		programName: string; // Name of the program
+		dayId: number; // Program day the workout was logged from
+		dayName: string; // Name of the program day
+		week: number | null; // Week of the program it was logged for
+	} | null; // Program day the workout was logged from, if any
+	unit: WeightUnit; // Unit of every weight in the response
 	exercises: {
 		id: number; // Unique identifier for the exercise
 		name: string; // Name of the exercise
+		definitionId: number | null; // Catalog entry for the exercise
+		kind: ExerciseKind; // What each set of the exercise records
+		groupIndex: number | null; // Superset or circuit of the exercise, if grouped
+		notes: string | null; // Free-text notes on the exercise
 		sets: {
 			id: number; // Unique identifier for the set
 			reps: number; // Number of reps in the set
-			weight: number; // Weight used in the set
+			weight: number; // Weight used in the set, in the user's unit
+			distance: number | null; // Distance covered in metres, if recorded
+			durationSeconds: number | null; // Time taken or held in seconds, if recorded
+			completedAt: string | null; // ISO string of when the set was done, if recorded
+			type: SetType; // Kind of set
+			rpe: number | null; // Rate of perceived exertion, if recorded
+			rir: number | null; // Reps in reserve, if recorded
+			notes: string | null; // Free-text notes on the set
 		}[];
 	}[];
 };
@@ -53,19 +103,35 @@ export async function GET(
 	}
 
 	try {
+		// Resolve the signed-in user; workouts are only visible to their owner
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		// Clear out trashed workouts that have outlived the retention period
+		await purgeExpiredWorkouts(prisma, user.id);
+
 		// Fetch the specific workout from the database, including its exercises and sets
-		const workoutFromDB: WorkoutFromDB | null = await prisma.workout.findUnique(
-			{
-				where: { id: workoutId }, // Search by workout ID
-				include: {
-					exercises: {
-						include: {
-							sets: true, // Include all sets for each exercise
-						},
+		const workoutFromDB: WorkoutFromDB | null = await prisma.workout.findFirst({
+			where: { id: workoutId, userId: user.id, deletedAt: null }, // Search by workout ID within the user's live workouts
+			include: {
+				exercises: {
+					orderBy: { position: 'asc' }, // Order exercises as they were logged
+					include: {
+						sets: { orderBy: { position: 'asc' } }, // Include all sets for each exercise, in order
 					},
 				},
+				tags: { orderBy: { id: 'asc' } }, // Include the tags in the order they were added
+				programDay: {
+					select: {
+						id: true,
+						name: true,
+						program: { select: { id: true, name: true } },
+					},
+				}, // Include the program day it was logged from, if any
 			},
-		);
+		});
 
 		if (!workoutFromDB) {
 			// Check if the workout exists
@@ -79,13 +145,38 @@ export async function GET(
 		const workoutResponse: WorkoutResponse = {
 			id: workoutFromDB.id,
 			date: workoutFromDB.date.toISOString(),
+			startedAt: workoutFromDB.startedAt?.toISOString() ?? null,
+			endedAt: workoutFromDB.endedAt?.toISOString() ?? null,
+			notes: workoutFromDB.notes,
+			tags: workoutFromDB.tags.map(tag => tag.name),
+			program: workoutFromDB.programDay
+				? {
+						programId: workoutFromDB.programDay.program.id,
+						programName: workoutFromDB.programDay.program.name,
+						dayId: workoutFromDB.programDay.id,
+						dayName: workoutFromDB.programDay.name,
+						week: workoutFromDB.programWeek,
+					}
+				: null,
+			unit: user.weightUnit,
 			exercises: workoutFromDB.exercises.map(exercise => ({
 				id: exercise.id,
 				name: exercise.name,
+				definitionId: exercise.definitionId,
+				kind: exercise.kind,
+				groupIndex: exercise.groupIndex,
+				notes: exercise.notes,
 				sets: exercise.sets.map(set => ({
 					id: set.id,
 					reps: set.reps,
-					weight: set.weight,
+					weight: fromKg(Number(set.weight), user.weightUnit),
+					distance: set.distance === null ? null : Number(set.distance),
+					durationSeconds: set.durationSeconds,
+					completedAt: set.completedAt?.toISOString() ?? null,
+					type: set.type,
+					rpe: set.rpe,
+					rir: set.rir,
+					notes: set.notes,
 				})),
 			})),
 		};
@@ -1,7 +1,10 @@
 // app/api/get-workouts/route.ts
 
 import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { Prisma } from '@prisma/client'; // Import Prisma types for decimal columns
 import { prisma } from '../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../lib/auth'; // Import authentication helpers
+import { WeightUnit, fromKg } from '../../../lib/units'; // Import weight unit helpers
 
 // Define the structure of a workout retrieved from the database
 type WorkoutFromDB = {
@@ -13,7 +16,7 @@ type WorkoutFromDB = {
 		sets: {
 			id: number; // Unique identifier for the set
 			reps: number; // Number of reps in the set
-			weight: number; // Weight used in the set
+			weight: Prisma.Decimal; // Weight used in the set, in kilograms
 		}[];
 	}[];
 };
@@ -22,32 +25,41 @@ type WorkoutFromDB = {
 type WorkoutResponse = {
 	id: number; // Unique identifier for the workout
 	date: string; // ISO string representing the workout date
+	unit: WeightUnit; // Unit of every weight in the response
 	exercises: {
 		id: number; // Unique identifier for the exercise
 		name: string; // Name of the exercise
 		sets: {
 			id: number; // Unique identifier for the set
 			reps: number; // Number of reps in the set
-			weight: number; // Weight used in the set
+			weight: number; // Weight used in the set, in the user's unit
 		}[];
 	}[];
 };
 
 /**
  * GET /api/get-workouts
- * Retrieves all workouts along with their exercises and sets from the database.
+ * Retrieves all of the signed-in user's workouts along with their exercises and sets from the database.
  */
 export async function GET(request: NextRequest) {
 	console.log('Received GET request to /api/get-workouts'); // Log receipt of the request
 
 	try {
+		// Resolve the signed-in user; workouts are only visible to their owner
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
 		// Fetch all workouts from the database, including their exercises and sets, ordered by date descending
 		const workoutsFromDB: WorkoutFromDB[] = await prisma.workout.findMany({
+			where: { userId: user.id, deletedAt: null }, // Only the signed-in user's workouts, leaving out the trash
 			orderBy: { date: 'desc' }, // Order workouts by date, newest first
 			include: {
 				exercises: {
+					orderBy: { position: 'asc' }, // Order exercises as they were logged
 					include: {
-						sets: true, // Include all sets for each exercise
+						sets: { orderBy: { position: 'asc' } }, // Include all sets for each exercise, in order
 					},
 				},
 			},
@@ -59,13 +71,14 @@ export async function GET(request: NextRequest) {
 		const workoutsResponse: WorkoutResponse[] = workoutsFromDB.map(workout => ({
 			id: workout.id,
 			date: workout.date.toISOString(),
+			unit: user.weightUnit,
 			exercises: workout.exercises.map(exercise => ({
 				id: exercise.id,
 				name: exercise.name,
 				sets: exercise.sets.map(set => ({
 					id: set.id,
 					reps: set.reps,
-					weight: set.weight,
+					weight: fromKg(Number(set.weight), user.weightUnit),
 				})),
 			})),
 		}));
@@ -1,77 +1,283 @@
 // app/api/get-workouts/route.ts
 
 import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { Prisma } from '@prisma/client'; // Import Prisma types for query building
 import { prisma } from '../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../lib/auth'; // Import authentication helpers
+import { purgeExpiredWorkouts } from '../../../lib/trash'; // Import trash helpers
+import { findExerciseDefinition } from '../../../lib/exercise-catalog'; // Import exercise catalog helpers
+import { WeightUnit, fromKg, toKg } from '../../../lib/units'; // Import weight unit helpers
+import { SetType } from '../../../lib/set-types'; // Import set type helpers
+import { normalizeTag } from '../../../lib/notes'; // Import tag helpers
+import { ExerciseKind } from '../../../lib/exercise-kinds'; // Import exercise kind types
 
-// Define the structure of a workout retrieved from the database
-type WorkoutFromDB = {
+// Define the structure of a workout summary sent back to the frontend
+type WorkoutSummary = {
 	id: number; // Unique identifier for the workout
-	date: Date; // Date and time of the workout
-	exercises: {
-		id: number; // Unique identifier for the exercise
-		name: string; // Name of the exercise
-		sets: {
-			id: number; // Unique identifier for the set
-			reps: number; // Number of reps in the set
-			weight: number; // Weight used in the set
-		}[];
-	}[];
+	date: string; // ISO string representing the workout date
+	exerciseNames: string[]; // Names of the exercises, in order
+	exerciseCount: number; // Number of exercises in the workout
+	setCount: number; // Number of sets in the workout
+	totalVolume: number; // Sum of weight x reps over weighted sets except warm-ups, in the user's unit
+	tags: string[]; // Tags on the workout
 };
 
-// Define the structure of the response sent back to the frontend
-type WorkoutResponse = {
+// Define the structure of a full workout sent back to the frontend
+type WorkoutDetail = {
 	id: number; // Unique identifier for the workout
 	date: string; // ISO string representing the workout date
+	notes: string | null; // Free-text notes on the workout
+	tags: string[]; // Tags on the workout
 	exercises: {
 		id: number; // Unique identifier for the exercise
 		name: string; // Name of the exercise
+		kind: ExerciseKind; // What each set of the exercise records
+		groupIndex: number | null; // Superset or circuit of the exercise, if grouped
+		notes: string | null; // Free-text notes on the exercise
 		sets: {
 			id: number; // Unique identifier for the set
 			reps: number; // Number of reps in the set
-			weight: number; // Weight used in the set
+			weight: number; // Weight used in the set, in the user's unit
+			distance: number | null; // Distance covered in metres, if recorded
+			durationSeconds: number | null; // Time taken or held in seconds, if recorded
+			type: SetType; // Kind of set
+			rpe: number | null; // Rate of perceived exertion, if recorded
+			rir: number | null; // Reps in reserve, if recorded
+			notes: string | null; // Free-text notes on the set
 		}[];
 	}[];
 };
 
+// Define the structure of the response sent back to the frontend
+type WorkoutPageResponse = {
+	unit: WeightUnit; // Unit of every weight and volume in the response
+	workouts: WorkoutSummary[] | WorkoutDetail[]; // One page of workouts
+	nextCursor: number | null; // Pass as `cursor` to fetch the next page; null on the last page
+};
+
+// Page size used when `limit` is omitted, and the largest page allowed
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// Accepted values of the `sort`, `order` and `view` query parameters
+const SORTS = ['date', 'volume'] as const;
+const ORDERS = ['desc', 'asc'] as const;
+const VIEWS = ['summary', 'full'] as const;
+
+/**
+ * parseDate
+ * Parses an optional date query parameter. Returns undefined when absent
+ * and null when present but invalid.
+ */
+const parseDate = (value: string | null): Date | undefined | null => {
+	if (!value) return undefined;
+	const date = new Date(value);
+	return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * parseNumber
+ * Parses an optional non-negative number query parameter. Returns undefined
+ * when absent and null when present but invalid.
+ */
+const parseNumber = (value: string | null): number | undefined | null => {
+	if (!value) return undefined;
+	const number = Number(value);
+	return Number.isFinite(number) && number >= 0 ? number : null;
+};
+
+/**
+ * parseOption
+ * Reads a query parameter restricted to a list of values; the first value is the default.
+ * Returns null when the parameter holds anything else.
+ */
+const parseOption = <T extends string>(
+	value: string | null,
+	options: readonly T[],
+): T | null => {
+	if (!value) return options[0];
+	return options.includes(value as T) ? (value as T) : null;
+};
+
 /**
  * GET /api/get-workouts
- * Retrieves all workouts along with their exercises and sets from the database.
+ * Retrieves one page of the signed-in user's workouts, newest first by default.
+ * Query parameters:
+ *   cursor    - `nextCursor` of the previous page
+ *   limit     - page size, 1 to 100 (default 20)
+ *   from, to  - optional ISO dates bounding the range (inclusive)
+ *   exercise  - only workouts containing this exercise (name or alias)
+ *   minVolume - only workouts with at least this total volume, in the user's unit
+ *   tag       - only workouts carrying this tag (case-insensitive)
+ *   sort      - 'date' (default) or 'volume'
+ *   order     - 'desc' (default) or 'asc'
+ *   view      - 'summary' (default) for counts and totals, or 'full' for exercises and sets
  */
 export async function GET(request: NextRequest) {
 	console.log('Received GET request to /api/get-workouts'); // Log receipt of the request
 
+	// Validate the query parameters
+	const searchParams = request.nextUrl.searchParams;
+	const cursor = parseNumber(searchParams.get('cursor'));
+	const limit = parseNumber(searchParams.get('limit')) ?? DEFAULT_LIMIT;
+	const from = parseDate(searchParams.get('from'));
+	const to = parseDate(searchParams.get('to'));
+	const exercise = searchParams.get('exercise')?.trim() || undefined;
+	const minVolume = parseNumber(searchParams.get('minVolume'));
+	const tag = normalizeTag(searchParams.get('tag') ?? '') || undefined;
+	const sort = parseOption(searchParams.get('sort'), SORTS);
+	const order = parseOption(searchParams.get('order'), ORDERS);
+	const view = parseOption(searchParams.get('view'), VIEWS);
+
+	if (
+		cursor === null ||
+		(cursor !== undefined && !Number.isInteger(cursor)) ||
+		limit === null ||
+		!Number.isInteger(limit) ||
+		limit < 1 ||
+		limit > MAX_LIMIT ||
+		from === null ||
+		to === null ||
+		minVolume === null ||
+		!sort ||
+		!order ||
+		!view
+	) {
+		console.warn('Invalid workout list query received'); // Log a warning for invalid parameters
+		return NextResponse.json(
+			{ error: 'Invalid query parameters' },
+			{ status: 400 },
+		); // Respond with a 400 Bad Request
+	}
+
 	try {
-		// Fetch all workouts from the database, including their exercises and sets, ordered by date descending
-		const workoutsFromDB: WorkoutFromDB[] = await prisma.workout.findMany({
-			orderBy: { date: 'desc' }, // Order workouts by date, newest first
-			include: {
-				exercises: {
-					include: {
-						sets: true, // Include all sets for each exercise
+		// Resolve the signed-in user; workouts are only visible to their owner
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		// Clear out trashed workouts that have outlived the retention period
+		await purgeExpiredWorkouts(prisma, user.id);
+
+		// Build the filters; an exercise matches by catalog entry, or by name for unknown lifts
+		const where: Prisma.WorkoutWhereInput = {
+			userId: user.id, // Only the signed-in user's workouts
+			deletedAt: null, // Trashed workouts are hidden
+			date: { gte: from, lte: to },
+			totalVolume: {
+				gte:
+					minVolume === undefined
+						? undefined
+						: toKg(minVolume, user.weightUnit),
+			}, // Volume is stored in kilograms
+			tags: tag ? { some: { name: tag } } : undefined, // Tags are stored normalized
+		};
+		if (exercise) {
+			const definition = await findExerciseDefinition(prisma, exercise);
+			where.exercises = {
+				some: definition
+					? { definitionId: definition.id }
+					: { name: { contains: exercise } },
+			};
+		}
+
+		// Order by the sort key, with the ID as a tiebreaker so the cursor is stable
+		const orderBy: Prisma.WorkoutOrderByWithRelationInput[] = [
+			sort === 'volume' ? { totalVolume: order } : { date: order },
+			{ id: order },
+		];
+
+		// Fetch one extra row to find out whether there is a next page
+		const pageQuery = {
+			where,
+			orderBy,
+			take: limit + 1,
+			...(cursor !== undefined && { cursor: { id: cursor }, skip: 1 }),
+		};
+
+		let workouts: WorkoutSummary[] | WorkoutDetail[];
+		let hasMore: boolean;
+		if (view === 'full') {
+			const workoutsFromDB = await prisma.workout.findMany({
+				...pageQuery,
+				include: {
+					exercises: {
+						orderBy: { position: 'asc' }, // Order exercises as they were logged
+						include: {
+							sets: { orderBy: { position: 'asc' } }, // Include all sets for each exercise, in order
+						},
 					},
+					tags: { orderBy: { id: 'asc' } }, // Include the tags in the order they were added
 				},
-			},
-		});
-
-		console.log(`Fetched ${workoutsFromDB.length} workouts from the database`); // Log the number of workouts fetched
-
-		// Transform the data to convert Date objects to ISO strings
-		const workoutsResponse: WorkoutResponse[] = workoutsFromDB.map(workout => ({
-			id: workout.id,
-			date: workout.date.toISOString(),
-			exercises: workout.exercises.map(exercise => ({
-				id: exercise.id,
-				name: exercise.name,
-				sets: exercise.sets.map(set => ({
-					id: set.id,
-					reps: set.reps,
-					weight: set.weight,
+			});
+			hasMore = workoutsFromDB.length > limit;
+
+			// Transform the data to convert Date objects to ISO strings
+			workouts = workoutsFromDB.slice(0, limit).map(workout => ({
+				id: workout.id,
+				date: workout.date.toISOString(),
+				notes: workout.notes,
+				tags: workout.tags.map(tag => tag.name),
+				exercises: workout.exercises.map(exercise => ({
+					id: exercise.id,
+					name: exercise.name,
+					kind: exercise.kind,
+					groupIndex: exercise.groupIndex,
+					notes: exercise.notes,
+					sets: exercise.sets.map(set => ({
+						id: set.id,
+						reps: set.reps,
+						weight: fromKg(Number(set.weight), user.weightUnit),
+						distance: set.distance === null ? null : Number(set.distance),
+						durationSeconds: set.durationSeconds,
+						type: set.type,
+						rpe: set.rpe,
+						rir: set.rir,
+						notes: set.notes,
+					})),
 				})),
-			})),
-		}));
+			}));
+		} else {
+			// Summaries only need exercise names; set counts and volume are stored on the workout
+			const workoutsFromDB = await prisma.workout.findMany({
+				...pageQuery,
+				select: {
+					id: true,
+					date: true,
+					setCount: true,
+					totalVolume: true,
+					exercises: {
+						orderBy: { position: 'asc' }, // Order exercises as they were logged
+						select: { name: true },
+					},
+					tags: { orderBy: { id: 'asc' }, select: { name: true } }, // Tags in the order they were added
+				},
+			});
+			hasMore = workoutsFromDB.length > limit;
+
+			// Transform the data to convert Date objects to ISO strings
+			workouts = workoutsFromDB.slice(0, limit).map(workout => ({
+				id: workout.id,
+				date: workout.date.toISOString(),
+				exerciseNames: workout.exercises.map(exercise => exercise.name),
+				exerciseCount: workout.exercises.length,
+				setCount: workout.setCount,
+				totalVolume: fromKg(workout.totalVolume, user.weightUnit),
+				tags: workout.tags.map(tag => tag.name),
+			}));
+		}
+
+		console.log(`Fetched ${workouts.length} workouts from the database`); // Log the number of workouts fetched
+
+		const workoutPage: WorkoutPageResponse = {
+			unit: user.weightUnit,
+			workouts,
+			nextCursor: hasMore ? workouts[workouts.length - 1].id : null,
+		};
 
-		// Respond with the transformed workout data
-		return NextResponse.json(workoutsResponse, { status: 200 });
+		// Respond with the page of workouts
+		return NextResponse.json(workoutPage, { status: 200 });
 	} catch (error) {
 		console.error('Error fetching workouts:', error); // Log any errors that occur during the process
 		return NextResponse.json(
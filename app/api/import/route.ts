@@ -0,0 +1,255 @@
+// app/api/import/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { prisma } from '../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../lib/auth'; // Import authentication helpers
+import {
+	findExerciseDefinitions,
+	normalizeExerciseName,
+	resolveExerciseDefinitions,
+} from '../../../lib/exercise-catalog'; // Import exercise catalog helpers
+import {
+	IMPORT_SOURCES,
+	ImportRowError,
+	ImportSource,
+	detectSource,
+	fitSetsToKinds,
+	parseImport,
+} from '../../../lib/importers'; // Import the export file parsers
+import { recalculateRecords } from '../../../lib/records'; // Import personal record helpers
+import { refreshWorkoutTotals } from '../../../lib/workout-totals'; // Import workout total helpers
+import { isWeightUnit } from '../../../lib/units'; // Import weight unit helpers
+import { toSetMetrics } from '../../../lib/exercise-kinds'; // Import exercise kind helpers
+
+// Define the structure of a workout found in the file, as previewed to the frontend
+type ImportedWorkoutSummary = {
+	date: string; // ISO string of when the session took place
+	exerciseNames: string[]; // Names of the exercises, in order
+	setCount: number; // Number of sets in the workout
+	duplicate: boolean; // Whether a workout already exists at this time; duplicates are skipped
+};
+
+// Define the structure of the response sent back to the frontend
+type ImportResponse = {
+	source: ImportSource; // App the file was exported from
+	dryRun: boolean; // Whether this was only a preview
+	workouts: ImportedWorkoutSummary[]; // Every workout found in the file, oldest first
+	imported: number; // Number of workouts saved; 0 on a dry run
+	duplicates: number; // Number of workouts skipped as already logged
+	errors: ImportRowError[]; // Rows that could not be imported
+};
+
+// Largest file accepted, in bytes
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// Largest time zone offset, in minutes (UTC-14 to UTC+14)
+const MAX_TIMEZONE_OFFSET = 14 * 60;
+
+/**
+ * POST /api/import
+ * Imports workouts from a Strong, Hevy or FitNotes CSV export into the signed-in user's log.
+ * Expects multipart form data:
+ *   file           - the CSV export
+ *   source         - 'strong', 'hevy' or 'fitnotes'; detected from the header when omitted
+ *   unit           - 'KG' or 'LB', the unit of Strong's weights; defaults to the user's unit
+ *   timezoneOffset - minutes to add to the file's local times to get UTC (Date.getTimezoneOffset())
+ *   dryRun         - 'true' to preview the import without saving anything
+ * Rows are grouped into workouts by session date and into exercises by name.
+ * Sets that don't fit the kind of their catalog entry, such as weighted sets of a
+ * reps-only lift, are reported as row errors and left out.
+ * A workout is a duplicate when the user already has one at exactly the same time,
+ * so importing the same file twice saves nothing the second time.
+ */
+export async function POST(request: NextRequest) {
+	console.log('Received POST request to /api/import'); // Log receipt of the request
+
+	try {
+		// Resolve the signed-in user; workouts are only visible to their owner
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		// Validate the form fields
+		const formData = await request.formData();
+		const file = formData.get('file');
+		const sourceField = formData.get('source') || 'auto';
+		const unitField = formData.get('unit') || user.weightUnit;
+		const timezoneOffset = Number(formData.get('timezoneOffset') || 0);
+		const dryRun = formData.get('dryRun') === 'true';
+
+		if (
+			!file ||
+			typeof file === 'string' ||
+			(sourceField !== 'auto' &&
+				!IMPORT_SOURCES.includes(sourceField as ImportSource)) ||
+			!isWeightUnit(unitField) ||
+			!Number.isInteger(timezoneOffset) ||
+			Math.abs(timezoneOffset) > MAX_TIMEZONE_OFFSET
+		) {
+			console.warn('Invalid import request received'); // Log a warning for invalid data
+			return NextResponse.json(
+				{ error: 'Invalid import request' },
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+
+		if (file.size > MAX_FILE_SIZE) {
+			return NextResponse.json(
+				{ error: 'File is too large (10 MB at most)' },
+				{ status: 413 },
+			); // Respond with a 413 Payload Too Large
+		}
+
+		// Work out which app the file came from
+		const text = await file.text();
+		const source =
+			sourceField === 'auto'
+				? detectSource(text)
+				: (sourceField as ImportSource);
+		if (!source) {
+			return NextResponse.json(
+				{
+					error:
+						'Unrecognized file. Upload a CSV export from Strong, Hevy or FitNotes.',
+				},
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+
+		const read = parseImport(text, source, {
+			unit: unitField,
+			timezoneOffset,
+		});
+
+		// Keep only the sets that fit the kind of their catalog entry; unknown lifts are added as weight and reps
+		const known = await findExerciseDefinitions(
+			prisma,
+			read.workouts.flatMap(workout =>
+				workout.exercises.map(exercise => exercise.name),
+			),
+		);
+		const parsed = fitSetsToKinds(
+			read,
+			name => known.get(normalizeExerciseName(name))?.kind ?? 'WEIGHT_REPS',
+		);
+		console.log(
+			`Parsed ${parsed.workouts.length} workouts and ${parsed.errors.length} row errors from ${source} export`,
+		); // Log the parse result
+
+		// Find the workouts already in the log
+		const existing =
+			parsed.workouts.length > 0
+				? await prisma.workout.findMany({
+						where: {
+							userId: user.id,
+							deletedAt: null, // Trashed workouts are imported again
+							date: {
+								gte: parsed.workouts[0].date,
+								lte: parsed.workouts[parsed.workouts.length - 1].date,
+							},
+						},
+						select: { date: true },
+					})
+				: [];
+		const existingTimes = new Set(
+			existing.map(workout => workout.date.getTime()),
+		);
+		const isDuplicate = (date: Date) => existingTimes.has(date.getTime());
+		const newWorkouts = parsed.workouts.filter(
+			workout => !isDuplicate(workout.date),
+		);
+
+		let imported = 0;
+		if (!dryRun && newWorkouts.length > 0) {
+			// Link every exercise name to its catalog entry up front
+			const definitions = await prisma.$transaction(tx =>
+				resolveExerciseDefinitions(
+					tx,
+					newWorkouts.flatMap(workout =>
+						workout.exercises.map(exercise => exercise.name),
+					),
+				),
+			);
+
+			// Save each workout in its own transaction; a failed import can be rerun and skips what was saved
+			for (const workout of newWorkouts) {
+				await prisma.$transaction(async tx => {
+					const created = await tx.workout.create({
+						data: {
+							date: workout.date, // Keep the time the session took place
+							userId: user.id, // The workout belongs to the signed-in user
+							exercises: {
+								create: workout.exercises.map((exercise, position) => {
+									const definition = definitions.get(
+										normalizeExerciseName(exercise.name),
+									)!;
+
+									return {
+										name: definition.name, // Canonical name from the catalog
+										definitionId: definition.id, // Catalog entry for the exercise
+										kind: definition.kind, // What each set records, copied from the catalog
+										position, // Order of the exercise within the workout
+										sets: {
+											create: exercise.sets.map((set, setPosition) => ({
+												...toSetMetrics(definition.kind, set), // Reps and weight (already in kilograms), as the kind records
+												position: setPosition, // Order of the set within the exercise
+												type: set.type, // Kind of set
+												rpe: set.rpe, // Effort, if rated
+											})),
+										},
+									};
+								}),
+							},
+						},
+					});
+
+					// Store the workout's totals for the workout list
+					await refreshWorkoutTotals(tx, created.id);
+				});
+				imported++;
+			}
+
+			// Replay the personal records of every imported lift over the whole history
+			await prisma.$transaction(
+				async tx =>
+					recalculateRecords(
+						tx,
+						user.id,
+						Array.from(definitions.values()).map(definition => definition.id),
+					),
+				{ timeout: 60000 }, // Long histories take a while to replay
+			);
+
+			console.log(`Imported ${imported} workouts for user ${user.id}`); // Log the import
+		}
+
+		const importResponse: ImportResponse = {
+			source,
+			dryRun,
+			workouts: parsed.workouts.map(workout => ({
+				date: workout.date.toISOString(),
+				exerciseNames: workout.exercises.map(exercise => exercise.name),
+				setCount: workout.exercises.reduce(
+					(count, exercise) => count + exercise.sets.length,
+					0,
+				),
+				duplicate: isDuplicate(workout.date),
+			})),
+			imported,
+			duplicates: parsed.workouts.length - newWorkouts.length,
+			errors: parsed.errors,
+		};
+
+		// Respond with the import report
+		return NextResponse.json(importResponse, {
+			status: imported > 0 ? 201 : 200,
+		});
+	} catch (error) {
+		console.error('Error importing workouts:', error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error importing workouts' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
@@ -0,0 +1,148 @@
+// app/api/measurements/[id]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { Prisma } from '@prisma/client'; // Import Prisma error types
+import { prisma } from '../../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../../lib/auth'; // Import authentication helpers
+import { normalizeNote } from '../../../../lib/notes'; // Import note helpers
+import {
+	isValidMeasurementInput,
+	toMeasurementResponse,
+	toStoredValues,
+} from '../../../../lib/measurements'; // Import body measurement helpers
+
+/**
+ * PUT /api/measurements/[id]
+ * Replaces the day and values of one of the signed-in user's body measurement entries.
+ */
+export async function PUT(
+	request: NextRequest,
+	{ params }: { params: { id: string } },
+) {
+	const { id } = params; // Extract the entry ID from the URL parameters
+	console.log(`Received PUT request to /api/measurements/${id}`); // Log receipt of the request
+
+	const measurementId = parseInt(id, 10); // Convert the ID to an integer
+	if (isNaN(measurementId)) {
+		return NextResponse.json(
+			{ error: 'Invalid measurement ID' },
+			{ status: 400 },
+		); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const body: unknown = await request.json();
+		console.log('Request Body:', body); // Log the request body for debugging
+
+		if (!isValidMeasurementInput(body)) {
+			console.warn('Invalid measurement data received'); // Log a warning for invalid data
+			return NextResponse.json(
+				{ error: 'Invalid measurement data' },
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+
+		const existing = await prisma.bodyMeasurement.findFirst({
+			where: { id: measurementId, userId: user.id }, // Search by entry ID within the user's measurements
+		});
+		if (!existing) {
+			console.warn(`Measurement not found with ID: ${measurementId}`); // Log a warning if not found
+			return NextResponse.json(
+				{ error: 'Measurement not found' },
+				{ status: 404 },
+			); // Respond with a 404 Not Found
+		}
+
+		// Values left out of the body are cleared
+		const measurement = await prisma.bodyMeasurement.update({
+			where: { id: measurementId },
+			data: {
+				date: new Date(`${body.date}T00:00:00Z`),
+				...toStoredValues(body, user.weightUnit), // Stored in kilograms and centimetres
+				notes: normalizeNote(body.notes),
+			},
+		});
+
+		console.log(`Measurement updated with ID: ${measurement.id}`); // Log the updated entry ID
+
+		return NextResponse.json(
+			toMeasurementResponse(measurement, user.weightUnit),
+			{ status: 200 },
+		);
+	} catch (error) {
+		if (
+			error instanceof Prisma.PrismaClientKnownRequestError &&
+			error.code === 'P2002'
+		) {
+			// Unique constraint on the user and day
+			return NextResponse.json(
+				{ error: 'Measurements for this day already exist' },
+				{ status: 409 },
+			); // Respond with a 409 Conflict
+		}
+
+		console.error(`Error updating measurement ${measurementId}:`, error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error updating measurement' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
+
+/**
+ * DELETE /api/measurements/[id]
+ * Deletes one of the signed-in user's body measurement entries.
+ */
+export async function DELETE(
+	request: NextRequest,
+	{ params }: { params: { id: string } },
+) {
+	const { id } = params; // Extract the entry ID from the URL parameters
+	console.log(`Received DELETE request to /api/measurements/${id}`); // Log receipt of the request
+
+	const measurementId = parseInt(id, 10); // Convert the ID to an integer
+	if (isNaN(measurementId)) {
+		return NextResponse.json(
+			{ error: 'Invalid measurement ID' },
+			{ status: 400 },
+		); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		// deleteMany scopes the delete to the user's own measurements
+		const { count } = await prisma.bodyMeasurement.deleteMany({
+			where: { id: measurementId, userId: user.id },
+		});
+
+		if (count === 0) {
+			console.warn(`Measurement not found with ID: ${measurementId}`); // Log a warning if not found
+			return NextResponse.json(
+				{ error: 'Measurement not found' },
+				{ status: 404 },
+			); // Respond with a 404 Not Found
+		}
+
+		console.log(`Measurement deleted with ID: ${measurementId}`); // Log the deletion
+
+		return NextResponse.json(
+			{ message: 'Measurement deleted successfully.' },
+			{ status: 200 },
+		);
+	} catch (error) {
+		console.error(`Error deleting measurement ${measurementId}:`, error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error deleting measurement' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
@@ -0,0 +1,135 @@
+// app/api/measurements/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { Prisma } from '@prisma/client'; // Import Prisma error types
+import { prisma } from '../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../lib/auth'; // Import authentication helpers
+import { isDayKey } from '../../../lib/calendar'; // Import calendar helpers
+import { normalizeNote } from '../../../lib/notes'; // Import note helpers
+import {
+	MeasurementResponse,
+	isValidMeasurementInput,
+	toMeasurementResponse,
+	toStoredValues,
+} from '../../../lib/measurements'; // Import body measurement helpers
+import { WeightUnit } from '../../../lib/units'; // Import weight unit helpers
+
+// Define the structure of the response sent back to the frontend
+type MeasurementsResponse = {
+	unit: WeightUnit; // Unit of every bodyweight; girths are in its length unit
+	measurements: MeasurementResponse[]; // Entries of the range, oldest first
+};
+
+/**
+ * GET /api/measurements
+ * Lists the signed-in user's body measurements, oldest first.
+ * Query parameters:
+ *   from, to - optional first and last day of the range (YYYY-MM-DD, inclusive)
+ */
+export async function GET(request: NextRequest) {
+	console.log('Received GET request to /api/measurements'); // Log receipt of the request
+
+	// Validate the query parameters
+	const searchParams = request.nextUrl.searchParams;
+	const from = searchParams.get('from');
+	const to = searchParams.get('to');
+	if ((from !== null && !isDayKey(from)) || (to !== null && !isDayKey(to))) {
+		console.warn('Invalid measurement range received'); // Log a warning for invalid parameters
+		return NextResponse.json(
+			{ error: 'from and to must be days (YYYY-MM-DD)' },
+			{ status: 400 },
+		); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const measurementsFromDB = await prisma.bodyMeasurement.findMany({
+			where: {
+				userId: user.id, // Only the signed-in user's measurements
+				date: {
+					gte: from ? new Date(`${from}T00:00:00Z`) : undefined,
+					lte: to ? new Date(`${to}T00:00:00Z`) : undefined,
+				},
+			},
+			orderBy: { date: 'asc' },
+		});
+
+		const measurementsResponse: MeasurementsResponse = {
+			unit: user.weightUnit,
+			measurements: measurementsFromDB.map(measurement =>
+				toMeasurementResponse(measurement, user.weightUnit),
+			),
+		};
+
+		return NextResponse.json(measurementsResponse, { status: 200 });
+	} catch (error) {
+		console.error('Error fetching measurements:', error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error fetching measurements' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
+
+/**
+ * POST /api/measurements
+ * Records a day's body measurements. Values are entered in the user's units.
+ */
+export async function POST(request: NextRequest) {
+	console.log('Received POST request to /api/measurements'); // Log receipt of the request
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const body: unknown = await request.json();
+		console.log('Request Body:', body); // Log the request body for debugging
+
+		if (!isValidMeasurementInput(body)) {
+			console.warn('Invalid measurement data received'); // Log a warning for invalid data
+			return NextResponse.json(
+				{ error: 'Invalid measurement data' },
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+
+		const measurement = await prisma.bodyMeasurement.create({
+			data: {
+				date: new Date(`${body.date}T00:00:00Z`),
+				...toStoredValues(body, user.weightUnit), // Stored in kilograms and centimetres
+				notes: normalizeNote(body.notes),
+				userId: user.id, // The entry belongs to the signed-in user
+			},
+		});
+
+		console.log(`Measurement created with ID: ${measurement.id}`); // Log the new entry ID
+
+		return NextResponse.json(
+			toMeasurementResponse(measurement, user.weightUnit),
+			{ status: 201 },
+		);
+	} catch (error) {
+		if (
+			error instanceof Prisma.PrismaClientKnownRequestError &&
+			error.code === 'P2002'
+		) {
+			// Unique constraint on the user and day
+			return NextResponse.json(
+				{ error: 'Measurements for this day already exist' },
+				{ status: 409 },
+			); // Respond with a 409 Conflict
+		}
+
+		console.error('Error creating measurement:', error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error creating measurement' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
@@ -0,0 +1,113 @@
+// app/api/preferences/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { prisma } from '../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../lib/auth'; // Import authentication helpers
+import { WeightUnit, isWeightUnit } from '../../../lib/units'; // Import weight unit helpers
+import {
+	PlateSetup,
+	isValidPlateSetup,
+	toPlateSetup,
+} from '../../../lib/plates'; // Import plate calculator helpers
+
+// Define the structure of the request body for updating preferences; either may be left out
+type UpdatePreferencesRequest = {
+	weightUnit?: WeightUnit; // Unit to enter and read weights in
+	plateSetup?: PlateSetup; // Bar weight and plate inventory for each unit
+};
+
+// Define the structure of the response sent back to the frontend
+type PreferencesResponse = {
+	weightUnit: WeightUnit; // Unit the user enters and reads weights in
+	plateSetup: PlateSetup; // Bar weight and plate inventory for each unit
+};
+
+/**
+ * GET /api/preferences
+ * Retrieves the signed-in user's display preferences.
+ */
+export async function GET() {
+	console.log('Received GET request to /api/preferences'); // Log receipt of the request
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const { plateSetup } = await prisma.user.findUniqueOrThrow({
+			where: { id: user.id },
+			select: { plateSetup: true },
+		});
+
+		const preferences: PreferencesResponse = {
+			weightUnit: user.weightUnit,
+			plateSetup: toPlateSetup(plateSetup), // Defaults until the user saves their own
+		};
+		return NextResponse.json(preferences, { status: 200 });
+	} catch (error) {
+		console.error('Error fetching preferences:', error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error fetching preferences' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
+
+/**
+ * PUT /api/preferences
+ * Updates the signed-in user's display preferences: the weight unit, the plate setup or both.
+ * Stored weights are kilograms regardless of the unit, so changing it only changes how
+ * weights are shown and entered.
+ */
+export async function PUT(request: NextRequest) {
+	console.log('Received PUT request to /api/preferences'); // Log receipt of the request
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		// Parse and validate the JSON body of the request
+		const body: UpdatePreferencesRequest = await request.json();
+		if (
+			!body ||
+			(body.weightUnit === undefined && body.plateSetup === undefined)
+		) {
+			console.warn('Empty preferences received'); // Log a warning for invalid data
+			return NextResponse.json({ error: 'Nothing to update' }, { status: 400 }); // Respond with a 400 Bad Request
+		}
+		if (body.weightUnit !== undefined && !isWeightUnit(body.weightUnit)) {
+			console.warn('Invalid preferences received'); // Log a warning for invalid data
+			return NextResponse.json(
+				{ error: 'Weight unit must be KG or LB' },
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+		if (body.plateSetup !== undefined && !isValidPlateSetup(body.plateSetup)) {
+			console.warn('Invalid plate setup received'); // Log a warning for invalid data
+			return NextResponse.json(
+				{ error: 'Invalid bar weight or plate inventory' },
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+
+		const updatedUser = await prisma.user.update({
+			where: { id: user.id },
+			data: { weightUnit: body.weightUnit, plateSetup: body.plateSetup },
+		});
+
+		const preferences: PreferencesResponse = {
+			weightUnit: updatedUser.weightUnit,
+			plateSetup: toPlateSetup(updatedUser.plateSetup),
+		};
+		return NextResponse.json(preferences, { status: 200 });
+	} catch (error) {
+		console.error('Error updating preferences:', error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error updating preferences' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
@@ -0,0 +1,99 @@
+// app/api/programs/[id]/days/[dayId]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { prisma } from '../../../../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../../../../lib/auth'; // Import authentication helpers
+import {
+	PROGRAM_INCLUDE,
+	ProgramSession,
+	toProgramSession,
+} from '../../../../../../lib/programs'; // Import training program helpers
+
+/**
+ * GET /api/programs/[id]/days/[dayId]
+ * Works out one day of a training program for a week: the sets of each exercise, with
+ * weights from the training maxes, and the workout already logged for it, if any.
+ * Query parameters:
+ *   week - week of the program (1-based); required
+ */
+export async function GET(
+	request: NextRequest,
+	{ params }: { params: { id: string; dayId: string } },
+) {
+	const { id, dayId } = params; // Extract the program and day IDs from the URL parameters
+	console.log(`Received GET request to /api/programs/${id}/days/${dayId}`); // Log receipt of the request
+
+	const programId = parseInt(id, 10); // Convert the IDs to integers
+	const programDayId = parseInt(dayId, 10);
+	if (isNaN(programId) || isNaN(programDayId)) {
+		return NextResponse.json(
+			{ error: 'Invalid program or day ID' },
+			{ status: 400 },
+		); // Respond with a 400 Bad Request
+	}
+
+	const week = Number(request.nextUrl.searchParams.get('week'));
+	if (!Number.isInteger(week) || week < 1) {
+		console.warn('Invalid program week received'); // Log a warning for invalid parameters
+		return NextResponse.json(
+			{ error: 'week must be a positive whole number' },
+			{ status: 400 },
+		); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const program = await prisma.program.findFirst({
+			where: { id: programId, userId: user.id }, // Search by program ID within the user's programs
+			include: PROGRAM_INCLUDE,
+		});
+		const day = program?.days.find(item => item.id === programDayId);
+
+		if (!program || !day) {
+			console.warn(`Program day not found with ID: ${programDayId}`); // Log a warning if not found
+			return NextResponse.json(
+				{ error: 'Program day not found' },
+				{ status: 404 },
+			); // Respond with a 404 Not Found
+		}
+
+		if (week > program.weeks) {
+			console.warn(`Week ${week} is past the end of program ${programId}`); // Log a warning for invalid parameters
+			return NextResponse.json(
+				{ error: `The program lasts ${program.weeks} weeks` },
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+
+		const logged = await prisma.workout.findFirst({
+			where: {
+				userId: user.id,
+				deletedAt: null, // A trashed workout no longer counts as logged
+				programDayId,
+				programWeek: week,
+			},
+			orderBy: { date: 'desc' },
+			select: { id: true },
+		});
+
+		const session: ProgramSession = toProgramSession(
+			program,
+			day,
+			week,
+			user.weightUnit,
+			logged?.id ?? null,
+		);
+
+		return NextResponse.json(session, { status: 200 });
+	} catch (error) {
+		console.error(`Error fetching program day ${programDayId}:`, error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error fetching program day' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
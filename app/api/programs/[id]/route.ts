@@ -0,0 +1,227 @@
+// app/api/programs/[id]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { Prisma } from '@prisma/client'; // Import Prisma error types
+import { prisma } from '../../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../../lib/auth'; // Import authentication helpers
+import {
+	PROGRAM_INCLUDE,
+	buildProgramDays,
+	isValidProgramInput,
+	toProgramResponse,
+	toStartDate,
+} from '../../../../lib/programs'; // Import training program helpers
+
+/**
+ * GET /api/programs/[id]
+ * Retrieves one of the signed-in user's training programs.
+ */
+export async function GET(
+	request: NextRequest,
+	{ params }: { params: { id: string } },
+) {
+	const { id } = params; // Extract the program ID from the URL parameters
+	console.log(`Received GET request to /api/programs/${id}`); // Log receipt of the request
+
+	const programId = parseInt(id, 10); // Convert the ID to an integer
+	if (isNaN(programId)) {
+		return NextResponse.json({ error: 'Invalid program ID' }, { status: 400 }); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const program = await prisma.program.findFirst({
+			where: { id: programId, userId: user.id }, // Search by program ID within the user's programs
+			include: PROGRAM_INCLUDE,
+		});
+
+		if (!program) {
+			console.warn(`Program not found with ID: ${programId}`); // Log a warning if not found
+			return NextResponse.json({ error: 'Program not found' }, { status: 404 }); // Respond with a 404 Not Found
+		}
+
+		return NextResponse.json(toProgramResponse(program, user.weightUnit), {
+			status: 200,
+		});
+	} catch (error) {
+		console.error(`Error fetching program ${programId}:`, error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error fetching program' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
+
+/**
+ * PUT /api/programs/[id]
+ * Updates a training program and its schedule. Days sent with their ID are updated in
+ * place, so workouts logged from them stay linked; days left out are removed.
+ */
+export async function PUT(
+	request: NextRequest,
+	{ params }: { params: { id: string } },
+) {
+	const { id } = params; // Extract the program ID from the URL parameters
+	console.log(`Received PUT request to /api/programs/${id}`); // Log receipt of the request
+
+	const programId = parseInt(id, 10); // Convert the ID to an integer
+	if (isNaN(programId)) {
+		return NextResponse.json({ error: 'Invalid program ID' }, { status: 400 }); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const body: unknown = await request.json();
+		console.log('Request Body:', body); // Log the request body for debugging
+
+		if (!isValidProgramInput(body)) {
+			console.warn('Invalid program data received'); // Log a warning for invalid data
+			return NextResponse.json(
+				{ error: 'Invalid program data' },
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+
+		const existing = await prisma.program.findFirst({
+			where: { id: programId, userId: user.id }, // Search by program ID within the user's programs
+			select: { days: { select: { id: true } } },
+		});
+		if (!existing) {
+			console.warn(`Program not found with ID: ${programId}`); // Log a warning if not found
+			return NextResponse.json({ error: 'Program not found' }, { status: 404 }); // Respond with a 404 Not Found
+		}
+
+		// Only IDs of this program's own days are kept; any other ID makes a new day
+		const existingDayIds = new Set(existing.days.map(day => day.id));
+		const keptDayIds = body.days
+			.map(day => day.id)
+			.filter(
+				(dayId): dayId is number =>
+					dayId !== undefined && existingDayIds.has(dayId),
+			);
+
+		const program = await prisma.$transaction(async tx => {
+			const days = await buildProgramDays(tx, body.days, user.weightUnit);
+
+			await tx.programDay.deleteMany({
+				where: { programId, id: { notIn: keptDayIds } },
+			});
+
+			// The prescribed exercises of a kept day are replaced, the day itself is not
+			for (let idx = 0; idx < days.length; idx++) {
+				const day = days[idx];
+				const dayId = body.days[idx].id;
+				if (dayId !== undefined && existingDayIds.has(dayId)) {
+					await tx.programDay.update({
+						where: { id: dayId },
+						data: {
+							name: day.name,
+							weekday: day.weekday,
+							position: day.position,
+							exercises: { deleteMany: {}, create: day.exercises },
+						},
+					});
+				} else {
+					await tx.programDay.create({
+						data: {
+							name: day.name,
+							weekday: day.weekday,
+							position: day.position,
+							programId,
+							exercises: { create: day.exercises },
+						},
+					});
+				}
+			}
+
+			return tx.program.update({
+				where: { id: programId },
+				data: {
+					name: body.name.trim(),
+					startDate: toStartDate(body.startDate),
+					weeks: body.weeks,
+				},
+				include: PROGRAM_INCLUDE,
+			});
+		});
+
+		console.log(`Program updated with ID: ${program.id}`); // Log the updated program ID
+
+		return NextResponse.json(toProgramResponse(program, user.weightUnit), {
+			status: 200,
+		});
+	} catch (error) {
+		if (
+			error instanceof Prisma.PrismaClientKnownRequestError &&
+			error.code === 'P2002'
+		) {
+			// Unique constraint on the user and name
+			return NextResponse.json(
+				{ error: 'A program with this name already exists' },
+				{ status: 409 },
+			); // Respond with a 409 Conflict
+		}
+
+		console.error(`Error updating program ${programId}:`, error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error updating program' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
+
+/**
+ * DELETE /api/programs/[id]
+ * Deletes one of the signed-in user's training programs. Workouts logged from it are
+ * kept and lose their link to the program day.
+ */
+export async function DELETE(
+	request: NextRequest,
+	{ params }: { params: { id: string } },
+) {
+	const { id } = params; // Extract the program ID from the URL parameters
+	console.log(`Received DELETE request to /api/programs/${id}`); // Log receipt of the request
+
+	const programId = parseInt(id, 10); // Convert the ID to an integer
+	if (isNaN(programId)) {
+		return NextResponse.json({ error: 'Invalid program ID' }, { status: 400 }); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		// deleteMany scopes the delete to the user's own programs
+		const { count } = await prisma.program.deleteMany({
+			where: { id: programId, userId: user.id },
+		});
+
+		if (count === 0) {
+			console.warn(`Program not found with ID: ${programId}`); // Log a warning if not found
+			return NextResponse.json({ error: 'Program not found' }, { status: 404 }); // Respond with a 404 Not Found
+		}
+
+		console.log(`Program deleted with ID: ${programId}`); // Log the deletion
+
+		return NextResponse.json(
+			{ message: 'Program deleted successfully.' },
+			{ status: 200 },
+		);
+	} catch (error) {
+		console.error(`Error deleting program ${programId}:`, error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error deleting program' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
@@ -0,0 +1,116 @@
+// app/api/programs/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { Prisma } from '@prisma/client'; // Import Prisma error types
+import { prisma } from '../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../lib/auth'; // Import authentication helpers
+import {
+	PROGRAM_INCLUDE,
+	ProgramResponse,
+	buildProgramDays,
+	isValidProgramInput,
+	toProgramResponse,
+	toStartDate,
+} from '../../../lib/programs'; // Import training program helpers
+
+/**
+ * GET /api/programs
+ * Lists the signed-in user's training programs, latest start first.
+ */
+export async function GET() {
+	console.log('Received GET request to /api/programs'); // Log receipt of the request
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const programsFromDB = await prisma.program.findMany({
+			where: { userId: user.id }, // Only the signed-in user's programs
+			orderBy: [{ startDate: 'desc' }, { name: 'asc' }],
+			include: PROGRAM_INCLUDE,
+		});
+
+		const programs: ProgramResponse[] = programsFromDB.map(program =>
+			toProgramResponse(program, user.weightUnit),
+		);
+
+		return NextResponse.json(programs, { status: 200 });
+	} catch (error) {
+		console.error('Error fetching programs:', error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error fetching programs' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
+
+/**
+ * POST /api/programs
+ * Creates a training program from its schedule of days and their prescribed exercises.
+ */
+export async function POST(request: NextRequest) {
+	console.log('Received POST request to /api/programs'); // Log receipt of the request
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const body: unknown = await request.json();
+		console.log('Request Body:', body); // Log the request body for debugging
+
+		if (!isValidProgramInput(body)) {
+			console.warn('Invalid program data received'); // Log a warning for invalid data
+			return NextResponse.json(
+				{ error: 'Invalid program data' },
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+
+		const program = await prisma.$transaction(async tx => {
+			const days = await buildProgramDays(tx, body.days, user.weightUnit);
+
+			return tx.program.create({
+				data: {
+					name: body.name.trim(),
+					startDate: toStartDate(body.startDate),
+					weeks: body.weeks,
+					userId: user.id, // The program belongs to the signed-in user
+					days: {
+						create: days.map(day => ({
+							...day,
+							exercises: { create: day.exercises },
+						})),
+					},
+				},
+				include: PROGRAM_INCLUDE,
+			});
+		});
+
+		console.log(`Program created with ID: ${program.id}`); // Log the new program ID
+
+		return NextResponse.json(toProgramResponse(program, user.weightUnit), {
+			status: 201,
+		});
+	} catch (error) {
+		if (
+			error instanceof Prisma.PrismaClientKnownRequestError &&
+			error.code === 'P2002'
+		) {
+			// Unique constraint on the user and name
+			return NextResponse.json(
+				{ error: 'A program with this name already exists' },
+				{ status: 409 },
+			); // Respond with a 409 Conflict
+		}
+
+		console.error('Error creating program:', error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error creating program' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
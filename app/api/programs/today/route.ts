@@ -0,0 +1,100 @@
+// app/api/programs/today/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { prisma } from '../../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../../lib/auth'; // Import authentication helpers
+import { isTimeZone, toDayKey, weekdayIndex } from '../../../../lib/calendar'; // Import calendar helpers
+import {
+	PROGRAM_INCLUDE,
+	ProgramSession,
+	programWeekOf,
+	toProgramSession,
+} from '../../../../lib/programs'; // Import training program helpers
+
+// Define the structure of the response sent back to the frontend
+type TodayResponse = {
+	date: string; // Today in the user's time zone (YYYY-MM-DD)
+	sessions: ProgramSession[]; // Program days scheduled today, across running programs
+};
+
+/**
+ * GET /api/programs/today
+ * Lists the program days scheduled today across the signed-in user's running programs,
+ * worked out for the current week of each, with the workout already logged for them.
+ * Query parameters:
+ *   timeZone - IANA time zone of the user (e.g. Europe/Paris); defaults to UTC
+ */
+export async function GET(request: NextRequest) {
+	console.log('Received GET request to /api/programs/today'); // Log receipt of the request
+
+	// Validate the query parameters
+	const timeZone = request.nextUrl.searchParams.get('timeZone') ?? 'UTC';
+	if (!isTimeZone(timeZone)) {
+		console.warn(`Invalid time zone received: ${timeZone}`); // Log a warning for invalid parameters
+		return NextResponse.json({ error: 'Unknown time zone' }, { status: 400 }); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const today = toDayKey(new Date(), timeZone);
+		const weekday = weekdayIndex(today);
+
+		// Programs that have started; the ones already over are dropped below
+		const programs = await prisma.program.findMany({
+			where: {
+				userId: user.id,
+				startDate: { lte: new Date(`${today}T00:00:00Z`) },
+			},
+			orderBy: [{ startDate: 'asc' }, { name: 'asc' }],
+			include: PROGRAM_INCLUDE,
+		});
+
+		const scheduled = programs.flatMap(program => {
+			const week = programWeekOf(program, today);
+			if (week > program.weeks) return [];
+
+			return program.days
+				.filter(day => day.weekday === weekday)
+				.map(day => ({ program, day, week }));
+		});
+
+		// Workouts already logged for today's program days, in their current week
+		const logged = await prisma.workout.findMany({
+			where: {
+				userId: user.id,
+				deletedAt: null, // A trashed workout no longer counts as logged
+				OR: scheduled.map(({ day, week }) => ({
+					programDayId: day.id,
+					programWeek: week,
+				})),
+			},
+			orderBy: { date: 'desc' },
+			select: { id: true, programDayId: true },
+		});
+
+		const todayResponse: TodayResponse = {
+			date: today,
+			sessions: scheduled.map(({ program, day, week }) =>
+				toProgramSession(
+					program,
+					day,
+					week,
+					user.weightUnit,
+					logged.find(workout => workout.programDayId === day.id)?.id ?? null,
+				),
+			),
+		};
+
+		return NextResponse.json(todayResponse, { status: 200 });
+	} catch (error) {
+		console.error("Error fetching today's program sessions:", error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: "Error fetching today's program sessions" },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
@@ -0,0 +1,53 @@
+// app/api/records/rebuild/route.ts
+
+import { NextResponse } from 'next/server'; // Import Next.js server utilities
+import { prisma } from '../../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../../lib/auth'; // Import authentication helpers
+import { recalculateRecords } from '../../../../lib/records'; // Import personal record helpers
+
+/**
+ * POST /api/records/rebuild
+ * Rebuilds all of the signed-in user's personal records from their workout log.
+ * Records are normally kept up to date on save, update and delete; this covers
+ * workouts logged before records existed.
+ */
+export async function POST() {
+	console.log('Received POST request to /api/records/rebuild'); // Log receipt of the request
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		// Every lift the user has ever logged
+		const lifts = await prisma.exercise.findMany({
+			where: { workout: { userId: user.id }, definitionId: { not: null } },
+			select: { definitionId: true },
+			distinct: ['definitionId'],
+		});
+
+		await prisma.$transaction(
+			async tx =>
+				recalculateRecords(
+					tx,
+					user.id,
+					lifts.map(lift => lift.definitionId!),
+				),
+			{ timeout: 60000 }, // Long histories take a while to replay
+		);
+
+		console.log(`Rebuilt records of ${lifts.length} lifts for user ${user.id}`); // Log the rebuild
+
+		return NextResponse.json(
+			{ message: 'Records rebuilt successfully.' },
+			{ status: 200 },
+		);
+	} catch (error) {
+		console.error('Error rebuilding records:', error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error rebuilding records' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
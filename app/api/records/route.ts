@@ -0,0 +1,72 @@
+// app/api/records/route.ts
+
+import { NextResponse } from 'next/server'; // Import Next.js server utilities
+import { prisma } from '../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../lib/auth'; // Import authentication helpers
+import { RecordResponse, toRecordResponse } from '../../../lib/records'; // Import personal record helpers
+import { WeightUnit } from '../../../lib/units'; // Import weight unit helpers
+import { ExerciseKind } from '../../../lib/exercise-kinds'; // Import exercise kind types
+
+// Define the structure of the records of one lift sent back to the frontend
+type LiftRecordsResponse = {
+	definitionId: number; // Catalog entry of the lift
+	name: string; // Name of the lift
+	kind: ExerciseKind; // What each set of the lift records
+	unit: WeightUnit; // Unit of every weight in the records
+	current: RecordResponse[]; // Records that still stand
+	history: RecordResponse[]; // Every record ever set, newest first
+};
+
+/**
+ * GET /api/records
+ * Retrieves the signed-in user's personal records, grouped by lift.
+ */
+export async function GET() {
+	console.log('Received GET request to /api/records'); // Log receipt of the request
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const recordsFromDB = await prisma.personalRecord.findMany({
+			where: { userId: user.id }, // Only the signed-in user's records
+			orderBy: [{ achievedAt: 'desc' }, { id: 'desc' }], // Newest first
+			include: { definition: { select: { name: true, kind: true } } }, // Include the lift name and kind
+		});
+
+		// Group the records by lift
+		const lifts = new Map<number, LiftRecordsResponse>();
+		recordsFromDB.forEach(record => {
+			let lift = lifts.get(record.definitionId);
+			if (!lift) {
+				lift = {
+					definitionId: record.definitionId,
+					name: record.definition.name,
+					kind: record.definition.kind,
+					unit: user.weightUnit,
+					current: [],
+					history: [],
+				};
+				lifts.set(record.definitionId, lift);
+			}
+
+			const response = toRecordResponse(record, user.weightUnit);
+			lift.history.push(response);
+			if (record.isCurrent) lift.current.push(response);
+		});
+
+		const liftsResponse = Array.from(lifts.values()).sort((a, b) =>
+			a.name.localeCompare(b.name),
+		);
+
+		return NextResponse.json(liftsResponse, { status: 200 });
+	} catch (error) {
+		console.error('Error fetching records:', error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error fetching records' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
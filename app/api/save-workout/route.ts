@@ -1,19 +1,78 @@
 // app/api/save-workout/route.ts
 
 import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { PersonalRecord, Prisma } from '@prisma/client'; // Import Prisma types and error classes
 import { prisma } from '../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../lib/auth'; // Import authentication helpers
+import {
+	normalizeExerciseName,
+	resolveExerciseDefinitions,
+} from '../../../lib/exercise-catalog'; // Import exercise catalog helpers
+import {
+	RecordResponse,
+	recalculateRecords,
+	toRecordResponse,
+} from '../../../lib/records'; // Import personal record helpers
+import { refreshWorkoutTotals } from '../../../lib/workout-totals'; // Import workout total helpers
+import {
+	WeightUnit,
+	fromKg,
+	requestWeightUnit,
+	toKg,
+} from '../../../lib/units'; // Import weight unit helpers
+import { SetType, isValidSetEffort } from '../../../lib/set-types'; // Import set type helpers
+import { isValidNote, normalizeNote, normalizeTags } from '../../../lib/notes'; // Import note and tag helpers
+import { normalizeGroupIndexes } from '../../../lib/supersets'; // Import superset helpers
+import {
+	ExerciseKind,
+	InvalidSetMetricsError,
+	assertSetMetrics,
+	toSetMetrics,
+} from '../../../lib/exercise-kinds'; // Import exercise kind helpers
 
-// Define the structure of a workout entry received from the frontend
+// Define the structure of a legacy (v1) workout entry received from the frontend.
+// Each entry describes a single set of an exercise.
 type WorkoutEntry = {
 	exercise: string; // Name of the exercise (e.g., Squat)
-	weight: number; // Weight used in the exercise (e.g., 100 kg)
+	weight: number; // Weight used in the exercise, in the user's unit (e.g., 100 kg)
 	reps: number; // Number of repetitions (e.g., 10 reps)
 };
 
-// Define the structure of the request body for saving a workout
+// Define the structure of a set within a grouped (v2) exercise.
+// Which measurements are required depends on the kind of the exercise.
+type WorkoutSetInput = {
+	weight?: number; // Weight used in the set, in the user's unit; fractions allowed (e.g., 102.5 kg). Added weight for bodyweight exercises, negative when assisted
+	reps?: number; // Number of repetitions in the set (e.g., 10 reps)
+	distance?: number | null; // Distance covered in metres, for cardio exercises
+	durationSeconds?: number | null; // Time taken or held in seconds, for cardio and timed exercises
+	completedAt?: string; // Optional: when the set was done (ISO string)
+	type?: SetType; // Optional: kind of set; defaults to WORKING
+	rpe?: number | null; // Optional: rate of perceived exertion, 1 to 10 in half steps
+	rir?: number | null; // Optional: reps in reserve
+	notes?: string | null; // Optional: free-text notes on the set
+};
+
+// Define the structure of a grouped (v2) exercise with its ordered sets
+type WorkoutExerciseInput = {
+	name: string; // Name of the exercise (e.g., Squat)
+	groupIndex?: number | null; // Optional: superset or circuit shared with the adjacent exercises
+	notes?: string | null; // Optional: free-text notes on the exercise
+	sets: WorkoutSetInput[]; // Ordered array of sets for the exercise
+};
+
+// Define the structure of the request body for saving a workout.
+// v2 clients send `exercises`; v1 clients send the flat `entries` list.
 type SaveWorkoutRequest = {
 	workout: {
-		entries: WorkoutEntry[]; // Array of workout entries
+		date?: string; // Optional: when the workout took place (ISO string); defaults to the start time, or now
+		startedAt?: string; // Optional: when logging started (ISO string)
+		endedAt?: string; // Optional: when the workout was finished (ISO string)
+		notes?: string | null; // Optional: free-text notes on the workout
+		tags?: string[]; // Optional: user-defined tags (e.g., ["deload", "travel gym"])
+		programDayId?: number | null; // Optional: program day the workout was logged from
+		programWeek?: number | null; // Optional: week of the program it was logged for; required with programDayId
+		exercises?: WorkoutExerciseInput[]; // v2: exercises grouped with their sets
+		entries?: WorkoutEntry[]; // v1: flat array of workout entries
 	};
 };
 
@@ -21,36 +80,258 @@ type SaveWorkoutRequest = {
 type WorkoutResponse = {
 	id: number; // Unique identifier for the workout
 	date: string; // ISO string representing the workout date
+	startedAt: string | null; // ISO string of when logging started, if recorded
+	endedAt: string | null; // ISO string of when the workout was finished, if recorded
+	notes: string | null; // Free-text notes on the workout
+	tags: string[]; // Tags on the workout
+	programDayId: number | null; // Program day the workout was logged from, if any
+	programWeek: number | null; // Week of the program it was logged for, if any
+	unit: WeightUnit; // Unit of every weight in the response
 	exercises: {
 		id: number; // Unique identifier for the exercise
 		name: string; // Name of the exercise
+		definitionId: number | null; // Catalog entry for the exercise
+		kind: ExerciseKind; // What each set of the exercise records
+		groupIndex: number | null; // Superset or circuit of the exercise, if grouped
+		notes: string | null; // Free-text notes on the exercise
 		sets: {
 			id: number; // Unique identifier for the set
 			reps: number; // Number of repetitions in the set
-			weight: number; // Weight used in the set
+			weight: number; // Weight used in the set, in the user's unit
+			distance: number | null; // Distance covered in metres, if recorded
+			durationSeconds: number | null; // Time taken or held in seconds, if recorded
+			completedAt: string | null; // ISO string of when the set was done, if recorded
+			type: SetType; // Kind of set
+			rpe: number | null; // Rate of perceived exertion, if recorded
+			rir: number | null; // Reps in reserve, if recorded
+			notes: string | null; // Free-text notes on the set
 		}[];
 	}[];
+	newRecords: RecordResponse[]; // Personal records set in this workout
+};
+
+// Longest Idempotency-Key header accepted; matches the column size
+const MAX_IDEMPOTENCY_KEY_LENGTH = 64;
+
+// Nested include returning exercises and sets in their stored order
+const WORKOUT_INCLUDE = {
+	exercises: {
+		orderBy: { position: 'asc' },
+		include: { sets: { orderBy: { position: 'asc' } } },
+	},
+	tags: { orderBy: { id: 'asc' } }, // Tags in the order they were added
+} satisfies Prisma.WorkoutInclude;
+
+/**
+ * parseOptionalDate
+ * Parses an optional ISO date from the body. Returns undefined when absent
+ * and null when present but invalid.
+ */
+const parseOptionalDate = (value: unknown): Date | undefined | null => {
+	if (value === undefined || value === null) return undefined;
+	if (typeof value !== 'string') return null;
+	const date = new Date(value);
+	return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * isOptionalNumber
+ * Checks that an optional measurement is a number or null.
+ */
+const isOptionalNumber = (value: unknown): boolean =>
+	value === undefined || value === null || typeof value === 'number';
+
+/**
+ * isValidSet
+ * Checks that a set's measurements are numbers and that its completion time, type,
+ * RPE, RIR and note, if given, are valid. The measurements are checked against the
+ * exercise's kind once its catalog entry is known.
+ */
+const isValidSet = (set: WorkoutSetInput): boolean =>
+	!!set &&
+	isOptionalNumber(set.reps) &&
+	isOptionalNumber(set.weight) &&
+	isOptionalNumber(set.distance) &&
+	isOptionalNumber(set.durationSeconds) &&
+	parseOptionalDate(set.completedAt) !== null &&
+	isValidSetEffort(set) &&
+	isValidNote(set.notes);
+
+/**
+ * groupEntries
+ * Merges legacy flat entries into grouped exercises by exercise name,
+ * keeping exercises in first-seen order and sets in submission order.
+ */
+const groupEntries = (entries: WorkoutEntry[]): WorkoutExerciseInput[] => {
+	const grouped = new Map<string, WorkoutExerciseInput>(); // Exercises keyed by name
+
+	entries.forEach(entry => {
+		const key = normalizeExerciseName(entry.exercise); // Names are merged case-insensitively
+		const existing = grouped.get(key); // Look up an exercise with the same name
+		const set = { weight: entry.weight, reps: entry.reps }; // Convert the entry into a set
+
+		if (existing) {
+			existing.sets.push(set); // Append the set to the existing exercise
+		} else {
+			grouped.set(key, { name: entry.exercise, sets: [set] }); // Start a new exercise
+		}
+	});
+
+	return Array.from(grouped.values());
+};
+
+/**
+ * normalizeExercises
+ * Converts either request shape into a list of grouped exercises.
+ * Returns null if the payload is invalid.
+ */
+const normalizeExercises = (
+	body: SaveWorkoutRequest,
+): WorkoutExerciseInput[] | null => {
+	if (!body || !body.workout) return null; // The workout wrapper is required
+
+	let exercises: WorkoutExerciseInput[];
+
+	if (Array.isArray(body.workout.exercises)) {
+		exercises = body.workout.exercises; // v2: already grouped
+	} else if (Array.isArray(body.workout.entries)) {
+		const entriesAreValid = body.workout.entries.every(
+			entry => entry && typeof entry.exercise === 'string',
+		);
+		if (!entriesAreValid) return null;
+
+		exercises = groupEntries(body.workout.entries); // v1: merge by exercise name
+	} else {
+		return null; // Neither shape was provided
+	}
+
+	// Every exercise needs a name and at least one valid set
+	const isValid =
+		exercises.length > 0 &&
+		exercises.every(
+			exercise =>
+				exercise &&
+				typeof exercise.name === 'string' &&
+				exercise.name.trim() !== '' &&
+				isValidNote(exercise.notes) &&
+				Array.isArray(exercise.sets) &&
+				exercise.sets.length > 0 &&
+				exercise.sets.every(isValidSet),
+		);
+
+	return isValid ? exercises : null;
+};
+
+/**
+ * toWorkoutResponse
+ * Converts a saved workout and the records it set into the shape sent to the frontend.
+ */
+const toWorkoutResponse = (
+	workout: Prisma.WorkoutGetPayload<{ include: typeof WORKOUT_INCLUDE }>,
+	newRecords: PersonalRecord[],
+	unit: WeightUnit,
+): WorkoutResponse => ({
+	id: workout.id,
+	date: workout.date.toISOString(),
+	startedAt: workout.startedAt?.toISOString() ?? null,
+	endedAt: workout.endedAt?.toISOString() ?? null,
+	notes: workout.notes,
+	tags: workout.tags.map(tag => tag.name),
+	programDayId: workout.programDayId,
+	programWeek: workout.programWeek,
+	unit,
+	exercises: workout.exercises.map(exercise => ({
+		id: exercise.id,
+		name: exercise.name,
+		definitionId: exercise.definitionId,
+		kind: exercise.kind,
+		groupIndex: exercise.groupIndex,
+		notes: exercise.notes,
+		sets: exercise.sets.map(set => ({
+			id: set.id,
+			reps: set.reps,
+			weight: fromKg(Number(set.weight), unit),
+			distance: set.distance === null ? null : Number(set.distance),
+			durationSeconds: set.durationSeconds,
+			completedAt: set.completedAt?.toISOString() ?? null,
+			type: set.type,
+			rpe: set.rpe,
+			rir: set.rir,
+			notes: set.notes,
+		})),
+	})),
+	newRecords: newRecords.map(record => toRecordResponse(record, unit)),
+});
+
+/**
+ * findReplayedWorkout
+ * Looks up the workout an earlier request with the same idempotency key created.
+ */
+const findReplayedWorkout = async (
+	userId: number,
+	idempotencyKey: string,
+	unit: WeightUnit,
+): Promise<WorkoutResponse | null> => {
+	const workout = await prisma.workout.findUnique({
+		where: { userId_idempotencyKey: { userId, idempotencyKey } },
+		include: WORKOUT_INCLUDE,
+	});
+	if (!workout) return null;
+
+	const newRecords = await prisma.personalRecord.findMany({
+		where: { workoutId: workout.id },
+	});
+	return toWorkoutResponse(workout, newRecords, unit);
 };
 
 /**
  * POST /api/save-workout
- * Saves a new workout along with its exercises and sets to the database.
+ * Saves a new workout for the signed-in user along with its exercises and sets to the database.
+ * Each exercise is stored as a single Exercise row with one Set row per set.
+ * Personal records are recalculated, and the records this workout set are returned.
+ * An optional Idempotency-Key header makes retries safe: a request whose key was
+ * already used returns the workout the first request created instead of saving a duplicate.
+ * Weights are in the user's unit unless an X-Weight-Unit header names another.
  */
 export async function POST(request: NextRequest) {
 	console.log('Received POST request to /api/save-workout'); // Log receipt of the request
 
 	try {
+		// Resolve the signed-in user; workouts are only visible to their owner
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		// Weights are in the unit the workout was logged in; a save queued offline names it
+		const unit = requestWeightUnit(request.headers, user.weightUnit);
+
+		// Validate the idempotency key, and answer replays with the workout already saved
+		const idempotencyKey =
+			request.headers.get('Idempotency-Key')?.trim() || null;
+		if (idempotencyKey && idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+			return NextResponse.json(
+				{ error: 'Idempotency key is too long' },
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+		if (idempotencyKey) {
+			const replayed = await findReplayedWorkout(user.id, idempotencyKey, unit);
+			if (replayed) {
+				console.log(`Replayed save of workout ID: ${replayed.id}`); // Log the replay
+				return NextResponse.json(replayed, { status: 200 });
+			}
+		}
+
 		// Parse the JSON body of the request
 		const body: SaveWorkoutRequest = await request.json();
 		console.log('Request Body:', body); // Log the request body for debugging
 
-		// Validate the request body
-		if (
-			!body ||
-			!body.workout ||
-			!Array.isArray(body.workout.entries) ||
-			body.workout.entries.length === 0
-		) {
+		// Validate the request body and normalize it into grouped exercises
+		// Grouped exercises must be adjacent; groups are renumbered in order
+		const exercises = normalizeExercises(body);
+		const groupIndexes = exercises && normalizeGroupIndexes(exercises);
+		if (!exercises || !groupIndexes) {
 			console.warn('Invalid workout data received'); // Log a warning for invalid data
 			return NextResponse.json(
 				{ error: 'Invalid workout data' },
@@ -58,47 +339,176 @@ export async function POST(request: NextRequest) {
 			); // Respond with a 400 Bad Request
 		}
 
-		// Create a new workout entry in the database
-		const newWorkoutFromDB = await prisma.workout.create({
-			data: {
-				date: new Date(), // Set the workout date to the current date and time
-				exercises: {
-					create: body.workout.entries.map(entry => ({
-						name: entry.exercise, // Name of the exercise
-						sets: {
-							create: [
-								{
-									reps: entry.reps, // Number of reps
-									weight: entry.weight, // Weight used
-								},
-							],
+		// Workouts synced after being logged offline carry their own times
+		const startedAt = parseOptionalDate(body.workout.startedAt);
+		const endedAt = parseOptionalDate(body.workout.endedAt);
+		const submittedDate = parseOptionalDate(body.workout.date);
+		if (
+			submittedDate === null ||
+			startedAt === null ||
+			endedAt === null ||
+			(startedAt && endedAt && endedAt < startedAt)
+		) {
+			console.warn('Invalid workout date received'); // Log a warning for invalid data
+			return NextResponse.json(
+				{ error: 'Invalid workout date' },
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+		const date = submittedDate ?? startedAt ?? new Date();
+
+		// Validate the workout's notes and tags
+		const tags =
+			body.workout.tags === undefined ? [] : normalizeTags(body.workout.tags);
+		if (!tags || !isValidNote(body.workout.notes)) {
+			console.warn('Invalid workout notes or tags received'); // Log a warning for invalid data
+			return NextResponse.json(
+				{ error: 'Invalid workout notes or tags' },
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+
+		// A workout logged from a program day must name one of the user's days and a week of its program
+		const programDayId = body.workout.programDayId ?? null;
+		const programWeek = body.workout.programWeek ?? null;
+		if (programDayId !== null || programWeek !== null) {
+			const programDay =
+				Number.isInteger(programDayId) && Number.isInteger(programWeek)
+					? await prisma.programDay.findFirst({
+							where: { id: programDayId!, program: { userId: user.id } },
+							select: { program: { select: { weeks: true } } },
+						})
+					: null;
+			if (
+				!programDay ||
+				programWeek! < 1 ||
+				programWeek! > programDay.program.weeks
+			) {
+				console.warn('Invalid program day received'); // Log a warning for invalid data
+				return NextResponse.json(
+					{ error: 'Invalid program day or week' },
+					{ status: 400 },
+				); // Respond with a 400 Bad Request
+			}
+		}
+
+		// Link each exercise to its catalog entry and create the workout in one transaction
+		const saveWorkout = () =>
+			prisma.$transaction(async tx => {
+				const definitions = await resolveExerciseDefinitions(
+					tx,
+					exercises.map(exercise => exercise.name),
+				);
+
+				// Each set must record what its exercise's kind measures
+				exercises.forEach(exercise => {
+					const definition = definitions.get(
+						normalizeExerciseName(exercise.name),
+					)!;
+					assertSetMetrics(definition.kind, definition.name, exercise.sets);
+				});
+
+				const workout = await tx.workout.create({
+					data: {
+						date, // Set the workout date to the submitted, start or current date and time
+						startedAt, // When logging started, if known
+						endedAt, // When the workout was finished, if known
+						notes: normalizeNote(body.workout.notes), // Notes on the session, if any
+						tags: { create: tags.map(name => ({ name })) }, // User-defined tags
+						userId: user.id, // The workout belongs to the signed-in user
+						idempotencyKey, // Remember the request so replays are recognized
+						programDayId, // Program day it was logged from, if any
+						programWeek, // Week of the program it was logged for, if any
+						exercises: {
+							create: exercises.map((exercise, position) => {
+								const definition = definitions.get(
+									normalizeExerciseName(exercise.name),
+								)!;
+
+								return {
+									name: definition.name, // Canonical name from the catalog
+									definitionId: definition.id, // Catalog entry for the exercise
+									kind: definition.kind, // What each set records, copied from the catalog
+									position, // Order of the exercise within the workout
+									groupIndex: groupIndexes[position], // Superset or circuit, if grouped
+									notes: normalizeNote(exercise.notes), // Notes on the exercise, if any
+									sets: {
+										create: exercise.sets.map((set, setPosition) => {
+											const metrics = toSetMetrics(definition.kind, set); // Unused measurements become zero or null
+
+											return {
+												reps: metrics.reps, // Number of reps
+												weight: toKg(metrics.weight, unit), // Weight used, stored in kilograms
+												distance: metrics.distance, // Distance in metres, for cardio
+												durationSeconds: metrics.durationSeconds, // Time in seconds, for cardio and timed exercises
+												position: setPosition, // Order of the set within the exercise
+												completedAt: parseOptionalDate(set.completedAt), // When the set was done, if known
+												type: set.type ?? 'WORKING', // Kind of set
+												rpe: set.rpe ?? null, // Effort, if rated
+												rir: set.rir ?? null,
+												notes: normalizeNote(set.notes), // Notes on the set, if any
+											};
+										}),
+									},
+								};
+							}),
 						},
-					})),
-				},
-			},
-			include: { exercises: { include: { sets: true } } }, // Include exercises and their sets in the response
-		});
+					},
+					include: WORKOUT_INCLUDE, // Include exercises and their sets in the response
+				});
+
+				// Store the workout's totals for the workout list
+				await refreshWorkoutTotals(tx, workout.id);
+
+				// Rebuild the records of the lifts in this workout and pick out the ones it set
+				await recalculateRecords(
+					tx,
+					user.id,
+					Array.from(definitions.values()).map(definition => definition.id),
+				);
+				const newRecords = await tx.personalRecord.findMany({
+					where: { workoutId: workout.id },
+				});
+
+				return { ...workout, newRecords };
+			});
+
+		let newWorkoutFromDB: Awaited<ReturnType<typeof saveWorkout>>;
+		try {
+			newWorkoutFromDB = await saveWorkout();
+		} catch (error) {
+			// A concurrent request with the same idempotency key saved the workout first
+			if (
+				idempotencyKey &&
+				error instanceof Prisma.PrismaClientKnownRequestError &&
+				error.code === 'P2002'
+			) {
+				const replayed = await findReplayedWorkout(
+					user.id,
+					idempotencyKey,
+					unit,
+				);
+				if (replayed) return NextResponse.json(replayed, { status: 200 });
+			}
+			throw error;
+		}
 
 		console.log(`Workout saved with ID: ${newWorkoutFromDB.id}`); // Log the saved workout ID
 
 		// Transform the date to an ISO string for the frontend
-		const newWorkout: WorkoutResponse = {
-			id: newWorkoutFromDB.id,
-			date: newWorkoutFromDB.date.toISOString(),
-			exercises: newWorkoutFromDB.exercises.map(exercise => ({
-				id: exercise.id,
-				name: exercise.name,
-				sets: exercise.sets.map(set => ({
-					id: set.id,
-					reps: set.reps,
-					weight: set.weight,
-				})),
-			})),
-		};
+		const newWorkout = toWorkoutResponse(
+			newWorkoutFromDB,
+			newWorkoutFromDB.newRecords,
+			unit,
+		);
 
 		// Respond with the saved workout data
 		return NextResponse.json(newWorkout, { status: 200 });
 	} catch (error) {
+		if (error instanceof InvalidSetMetricsError) {
+			console.warn(error.message); // Log a warning for sets that do not fit their exercise
+			return NextResponse.json({ error: error.message }, { status: 400 }); // Respond with a 400 Bad Request
+		}
 		console.error('Error saving workout:', error); // Log any errors that occur during the process
 		return NextResponse.json(
 			{ error: 'Error saving workout' },
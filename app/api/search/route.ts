@@ -0,0 +1,201 @@
+// app/api/search/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { Prisma } from '@prisma/client'; // Import Prisma helpers for raw SQL
+import { prisma } from '../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../lib/auth'; // Import authentication helpers
+import {
+	HighlightSegment,
+	MAX_QUERY_LENGTH,
+	SearchField,
+	highlight,
+	searchTerms,
+	toBooleanQuery,
+} from '../../../lib/search'; // Import search helpers
+
+// Define the structure of a ranked match returned by the full-text query
+type RankedWorkout = {
+	id: number; // Unique identifier of the matching workout
+	score: number; // Combined relevance over notes, exercises and tags
+};
+
+// Define the structure of a search result sent back to the frontend
+type SearchResult = {
+	id: number; // Unique identifier for the workout
+	date: string; // ISO string representing the workout date
+	exerciseNames: string[]; // Names of the exercises, in order
+	score: number; // Relevance; results are sorted by it, highest first
+	highlights: {
+		field: SearchField; // Field the snippet comes from
+		segments: HighlightSegment[]; // Snippet split into matched and unmatched pieces
+	}[];
+};
+
+// Define the structure of the response sent back to the frontend
+type SearchResponse = {
+	query: string; // The query as searched
+	results: SearchResult[]; // Matching workouts, best first
+};
+
+// Number of results returned when `limit` is omitted, and the most allowed
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+// Most snippets returned per result
+const MAX_HIGHLIGHTS = 3;
+
+/**
+ * rankWorkouts
+ * Finds the user's workouts whose notes, exercise names or notes, or tags match
+ * the boolean query, scored by the summed full-text relevance of every match.
+ * Each match is limited to the user's workouts where it is made, so a search only
+ * costs as much as the user's own history.
+ */
+const rankWorkouts = (
+	userId: number,
+	booleanQuery: string,
+	limit: number,
+): Promise<RankedWorkout[]> =>
+	prisma.$queryRaw<RankedWorkout[]>(Prisma.sql`
+		SELECT w.id AS id,
+			COALESCE(MATCH (w.notes) AGAINST (${booleanQuery} IN BOOLEAN MODE), 0)
+				+ COALESCE(e.score, 0)
+				+ COALESCE(t.score, 0) AS score
+		FROM workouts w
+		LEFT JOIN (
+			SELECT ex.workoutId, SUM(MATCH (ex.name, ex.notes) AGAINST (${booleanQuery} IN BOOLEAN MODE)) AS score
+			FROM exercises ex
+			JOIN workouts ew ON ew.id = ex.workoutId
+			WHERE ew.userId = ${userId}
+				AND MATCH (ex.name, ex.notes) AGAINST (${booleanQuery} IN BOOLEAN MODE)
+			GROUP BY ex.workoutId
+		) e ON e.workoutId = w.id
+		LEFT JOIN (
+			SELECT wt.workoutId, SUM(MATCH (wt.name) AGAINST (${booleanQuery} IN BOOLEAN MODE)) AS score
+			FROM workout_tags wt
+			JOIN workouts tw ON tw.id = wt.workoutId
+			WHERE tw.userId = ${userId}
+				AND MATCH (wt.name) AGAINST (${booleanQuery} IN BOOLEAN MODE)
+			GROUP BY wt.workoutId
+		) t ON t.workoutId = w.id
+		WHERE w.userId = ${userId}
+			AND w.deletedAt IS NULL
+			AND (
+				MATCH (w.notes) AGAINST (${booleanQuery} IN BOOLEAN MODE)
+				OR e.workoutId IS NOT NULL
+				OR t.workoutId IS NOT NULL
+			)
+		ORDER BY score DESC, w.date DESC, w.id DESC
+		LIMIT ${limit}
+	`);
+
+/**
+ * GET /api/search
+ * Searches the signed-in user's workout history: exercise names and notes,
+ * workout notes and tags. Terms match as word prefixes.
+ * Query parameters:
+ *   q     - search text (required)
+ *   limit - number of results, 1 to 50 (default 10)
+ */
+export async function GET(request: NextRequest) {
+	console.log('Received GET request to /api/search'); // Log receipt of the request
+
+	// Validate the query parameters
+	const searchParams = request.nextUrl.searchParams;
+	const query = searchParams.get('q')?.trim() ?? '';
+	const terms = searchTerms(query);
+	const limit = searchParams.has('limit')
+		? Number(searchParams.get('limit'))
+		: DEFAULT_LIMIT;
+
+	if (
+		terms.length === 0 ||
+		query.length > MAX_QUERY_LENGTH ||
+		!Number.isInteger(limit) ||
+		limit < 1 ||
+		limit > MAX_LIMIT
+	) {
+		console.warn('Invalid search query received'); // Log a warning for invalid parameters
+		return NextResponse.json(
+			{ error: 'Invalid search query' },
+			{ status: 400 },
+		); // Respond with a 400 Bad Request
+	}
+
+	try {
+		// Resolve the signed-in user; workouts are only visible to their owner
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		// Rank the matching workouts, then load the fields to highlight
+		const ranked = await rankWorkouts(user.id, toBooleanQuery(terms), limit);
+		const workoutsFromDB = await prisma.workout.findMany({
+			where: { id: { in: ranked.map(match => match.id) } },
+			select: {
+				id: true,
+				date: true,
+				notes: true,
+				exercises: {
+					orderBy: { position: 'asc' }, // Exercises in the order they were logged
+					select: { name: true, notes: true },
+				},
+				tags: { orderBy: { id: 'asc' }, select: { name: true } }, // Tags in the order they were added
+			},
+		});
+		const workoutsById = new Map(
+			workoutsFromDB.map(workout => [workout.id, workout]),
+		);
+
+		console.log(`Found ${ranked.length} workouts matching "${query}"`); // Log the number of matches
+
+		const results: SearchResult[] = ranked
+			.filter(match => workoutsById.has(match.id))
+			.map(match => {
+				const workout = workoutsById.get(match.id)!;
+
+				// Highlight the searched fields in order of how telling they are
+				const fields: { field: SearchField; text: string | null }[] = [
+					...workout.tags.map(tag => ({
+						field: 'tag' as const,
+						text: tag.name,
+					})),
+					...workout.exercises.map(exercise => ({
+						field: 'exercise' as const,
+						text: exercise.name,
+					})),
+					{ field: 'notes', text: workout.notes },
+					...workout.exercises.map(exercise => ({
+						field: 'exerciseNotes' as const,
+						text: exercise.notes,
+					})),
+				];
+				const highlights: SearchResult['highlights'] = [];
+				for (const { field, text } of fields) {
+					if (highlights.length === MAX_HIGHLIGHTS) break;
+					const segments = text ? highlight(text, terms) : null;
+					if (segments) highlights.push({ field, segments });
+				}
+
+				return {
+					id: workout.id,
+					date: workout.date.toISOString(),
+					exerciseNames: workout.exercises.map(exercise => exercise.name),
+					score: Number(match.score),
+					highlights,
+				};
+			});
+
+		const searchResponse: SearchResponse = { query, results };
+
+		// Respond with the ranked results
+		return NextResponse.json(searchResponse, { status: 200 });
+	} catch (error) {
+		console.error('Error searching workouts:', error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error searching workouts' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
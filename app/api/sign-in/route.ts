@@ -0,0 +1,72 @@
+// app/api/sign-in/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { prisma } from '../../../lib/prisma'; // Import the Prisma client
+import {
+	normalizeEmail,
+	startSession,
+	verifyPassword,
+} from '../../../lib/auth'; // Import authentication helpers
+
+// Define the structure of the request body for signing in
+type SignInRequest = {
+	email: string; // Email address of the account
+	password: string; // Plain-text password to verify
+};
+
+// Define the structure of the response sent back to the frontend
+type SignInResponse = {
+	id: number; // Unique identifier for the user
+	email: string; // Email address of the user
+};
+
+/**
+ * POST /api/sign-in
+ * Verifies the credentials and starts a session cookie.
+ */
+export async function POST(request: NextRequest) {
+	console.log('Received POST request to /api/sign-in'); // Log receipt of the request
+
+	try {
+		// Parse the JSON body of the request (not logged, it contains a password)
+		const body: SignInRequest = await request.json();
+
+		// Validate the request body
+		if (
+			!body ||
+			typeof body.email !== 'string' ||
+			typeof body.password !== 'string'
+		) {
+			console.warn('Invalid sign-in data received'); // Log a warning for invalid data
+			return NextResponse.json(
+				{ error: 'Email and password are required' },
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+
+		// Look up the user and check the password
+		const user = await prisma.user.findUnique({
+			where: { email: normalizeEmail(body.email) },
+		});
+
+		if (!user || !(await verifyPassword(body.password, user.passwordHash))) {
+			// Use the same message for unknown emails and wrong passwords
+			console.warn('Failed sign-in attempt'); // Log a warning for the failed attempt
+			return NextResponse.json(
+				{ error: 'Invalid email or password' },
+				{ status: 401 },
+			); // Respond with a 401 Unauthorized
+		}
+
+		console.log(`User signed in with ID: ${user.id}`); // Log the signed-in user ID
+
+		const signInResponse: SignInResponse = { id: user.id, email: user.email };
+		const response = NextResponse.json(signInResponse, { status: 200 });
+		await startSession(user.id, response); // Attach the session cookie
+
+		return response;
+	} catch (error) {
+		console.error('Error signing in:', error); // Log any errors that occur during the process
+		return NextResponse.json({ error: 'Error signing in' }, { status: 500 }); // Respond with a 500 Internal Server Error
+	}
+}
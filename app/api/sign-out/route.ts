@@ -0,0 +1,25 @@
+// app/api/sign-out/route.ts
+
+import { NextResponse } from 'next/server'; // Import Next.js server utilities
+import { endSession } from '../../../lib/auth'; // Import authentication helpers
+
+/**
+ * POST /api/sign-out
+ * Ends the current session and clears the session cookie.
+ */
+export async function POST() {
+	console.log('Received POST request to /api/sign-out'); // Log receipt of the request
+
+	try {
+		const response = NextResponse.json(
+			{ message: 'Signed out successfully.' },
+			{ status: 200 },
+		);
+		await endSession(response); // Delete the session and clear the cookie
+
+		return response;
+	} catch (error) {
+		console.error('Error signing out:', error); // Log any errors that occur during the process
+		return NextResponse.json({ error: 'Error signing out' }, { status: 500 }); // Respond with a 500 Internal Server Error
+	}
+}
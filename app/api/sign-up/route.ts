@@ -0,0 +1,102 @@
+// app/api/sign-up/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { prisma } from '../../../lib/prisma'; // Import the Prisma client
+import {
+	MIN_PASSWORD_LENGTH,
+	hashPassword,
+	normalizeEmail,
+	startSession,
+} from '../../../lib/auth'; // Import authentication helpers
+
+// Define the structure of the request body for creating an account
+type SignUpRequest = {
+	email: string; // Email address used to sign in
+	password: string; // Plain-text password, hashed before storage
+};
+
+// Define the structure of the response sent back to the frontend
+type SignUpResponse = {
+	id: number; // Unique identifier for the new user
+	email: string; // Email address of the new user
+};
+
+/**
+ * POST /api/sign-up
+ * Creates a new account and signs it in.
+ * The first account created adopts any workouts logged before accounts existed
+ * and becomes the administrator of the shared exercise catalog.
+ */
+export async function POST(request: NextRequest) {
+	console.log('Received POST request to /api/sign-up'); // Log receipt of the request
+
+	try {
+		// Parse the JSON body of the request (not logged, it contains a password)
+		const body: SignUpRequest = await request.json();
+
+		// Validate the request body
+		if (
+			!body ||
+			typeof body.email !== 'string' ||
+			typeof body.password !== 'string' ||
+			!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(body.email.trim())
+		) {
+			console.warn('Invalid sign-up data received'); // Log a warning for invalid data
+			return NextResponse.json(
+				{ error: 'A valid email and password are required' },
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+
+		if (body.password.length < MIN_PASSWORD_LENGTH) {
+			return NextResponse.json(
+				{
+					error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+				},
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+
+		const email = normalizeEmail(body.email);
+
+		// Reject duplicate accounts
+		const existingUser = await prisma.user.findUnique({ where: { email } });
+		if (existingUser) {
+			console.warn(`Account already exists for ${email}`); // Log a warning for the duplicate
+			return NextResponse.json(
+				{ error: 'An account with this email already exists' },
+				{ status: 409 },
+			); // Respond with a 409 Conflict
+		}
+
+		const passwordHash = await hashPassword(body.password);
+
+		// Create the user; the very first user takes ownership of unowned workouts and administers the catalog
+		const user = await prisma.$transaction(async tx => {
+			const isFirstUser = (await tx.user.count()) === 0;
+			const user = await tx.user.create({
+				data: { email, passwordHash, isAdmin: isFirstUser },
+			});
+
+			if (isFirstUser) {
+				await tx.workout.updateMany({
+					where: { userId: null },
+					data: { userId: user.id },
+				});
+			}
+
+			return user;
+		});
+
+		console.log(`User created with ID: ${user.id}`); // Log the new user ID
+
+		const signUpResponse: SignUpResponse = { id: user.id, email: user.email };
+		const response = NextResponse.json(signUpResponse, { status: 201 });
+		await startSession(user.id, response); // Sign the new user in
+
+		return response;
+	} catch (error) {
+		console.error('Error signing up:', error); // Log any errors that occur during the process
+		return NextResponse.json({ error: 'Error signing up' }, { status: 500 }); // Respond with a 500 Internal Server Error
+	}
+}
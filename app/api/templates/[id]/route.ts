@@ -0,0 +1,198 @@
+// app/api/templates/[id]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { Prisma } from '@prisma/client'; // Import Prisma error types
+import { prisma } from '../../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../../lib/auth'; // Import authentication helpers
+import {
+	TEMPLATE_INCLUDE,
+	buildTemplateExercises,
+	isValidTemplateInput,
+	toTemplateResponse,
+} from '../../../../lib/templates'; // Import workout template helpers
+
+/**
+ * GET /api/templates/[id]
+ * Retrieves one of the signed-in user's workout templates.
+ */
+export async function GET(
+	request: NextRequest,
+	{ params }: { params: { id: string } },
+) {
+	const { id } = params; // Extract the template ID from the URL parameters
+	console.log(`Received GET request to /api/templates/${id}`); // Log receipt of the request
+
+	const templateId = parseInt(id, 10); // Convert the ID to an integer
+	if (isNaN(templateId)) {
+		return NextResponse.json({ error: 'Invalid template ID' }, { status: 400 }); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const template = await prisma.workoutTemplate.findFirst({
+			where: { id: templateId, userId: user.id }, // Search by template ID within the user's templates
+			include: TEMPLATE_INCLUDE,
+		});
+
+		if (!template) {
+			console.warn(`Template not found with ID: ${templateId}`); // Log a warning if not found
+			return NextResponse.json(
+				{ error: 'Template not found' },
+				{ status: 404 },
+			); // Respond with a 404 Not Found
+		}
+
+		return NextResponse.json(toTemplateResponse(template, user.weightUnit), {
+			status: 200,
+		});
+	} catch (error) {
+		console.error(`Error fetching template ${templateId}:`, error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error fetching template' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
+
+/**
+ * PUT /api/templates/[id]
+ * Renames a workout template and replaces its exercises and target sets.
+ */
+export async function PUT(
+	request: NextRequest,
+	{ params }: { params: { id: string } },
+) {
+	const { id } = params; // Extract the template ID from the URL parameters
+	console.log(`Received PUT request to /api/templates/${id}`); // Log receipt of the request
+
+	const templateId = parseInt(id, 10); // Convert the ID to an integer
+	if (isNaN(templateId)) {
+		return NextResponse.json({ error: 'Invalid template ID' }, { status: 400 }); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const body: unknown = await request.json();
+		console.log('Request Body:', body); // Log the request body for debugging
+
+		if (!isValidTemplateInput(body)) {
+			console.warn('Invalid template data received'); // Log a warning for invalid data
+			return NextResponse.json(
+				{ error: 'Invalid template data' },
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+
+		const existing = await prisma.workoutTemplate.findFirst({
+			where: { id: templateId, userId: user.id }, // Search by template ID within the user's templates
+		});
+		if (!existing) {
+			console.warn(`Template not found with ID: ${templateId}`); // Log a warning if not found
+			return NextResponse.json(
+				{ error: 'Template not found' },
+				{ status: 404 },
+			); // Respond with a 404 Not Found
+		}
+
+		// Templates carry no derived data, so the planned exercises are simply replaced
+		const template = await prisma.$transaction(async tx => {
+			await tx.templateExercise.deleteMany({ where: { templateId } });
+
+			return tx.workoutTemplate.update({
+				where: { id: templateId },
+				data: {
+					name: body.name.trim(),
+					exercises: {
+						create: await buildTemplateExercises(
+							tx,
+							body.exercises,
+							user.weightUnit,
+						),
+					},
+				},
+				include: TEMPLATE_INCLUDE,
+			});
+		});
+
+		console.log(`Template updated with ID: ${template.id}`); // Log the updated template ID
+
+		return NextResponse.json(toTemplateResponse(template, user.weightUnit), {
+			status: 200,
+		});
+	} catch (error) {
+		if (
+			error instanceof Prisma.PrismaClientKnownRequestError &&
+			error.code === 'P2002'
+		) {
+			// Unique constraint on the user and name
+			return NextResponse.json(
+				{ error: 'A template with this name already exists' },
+				{ status: 409 },
+			); // Respond with a 409 Conflict
+		}
+
+		console.error(`Error updating template ${templateId}:`, error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error updating template' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
+
+/**
+ * DELETE /api/templates/[id]
+ * Deletes one of the signed-in user's workout templates. Workouts started from it are kept.
+ */
+export async function DELETE(
+	request: NextRequest,
+	{ params }: { params: { id: string } },
+) {
+	const { id } = params; // Extract the template ID from the URL parameters
+	console.log(`Received DELETE request to /api/templates/${id}`); // Log receipt of the request
+
+	const templateId = parseInt(id, 10); // Convert the ID to an integer
+	if (isNaN(templateId)) {
+		return NextResponse.json({ error: 'Invalid template ID' }, { status: 400 }); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		// deleteMany scopes the delete to the user's own templates
+		const { count } = await prisma.workoutTemplate.deleteMany({
+			where: { id: templateId, userId: user.id },
+		});
+
+		if (count === 0) {
+			console.warn(`Template not found with ID: ${templateId}`); // Log a warning if not found
+			return NextResponse.json(
+				{ error: 'Template not found' },
+				{ status: 404 },
+			); // Respond with a 404 Not Found
+		}
+
+		console.log(`Template deleted with ID: ${templateId}`); // Log the deletion
+
+		return NextResponse.json(
+			{ message: 'Template deleted successfully.' },
+			{ status: 200 },
+		);
+	} catch (error) {
+		console.error(`Error deleting template ${templateId}:`, error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error deleting template' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
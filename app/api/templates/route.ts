@@ -0,0 +1,165 @@
+// app/api/templates/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { Prisma } from '@prisma/client'; // Import Prisma error types
+import { prisma } from '../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../lib/auth'; // Import authentication helpers
+import {
+	TEMPLATE_INCLUDE,
+	TemplateInput,
+	TemplateResponse,
+	buildTemplateExercises,
+	isValidTemplateInput,
+	toTemplateResponse,
+} from '../../../lib/templates'; // Import workout template helpers
+import { WeightUnit } from '../../../lib/units'; // Import weight unit helpers
+
+// Define the structure of the request body for saving a logged workout as a template
+type TemplateFromWorkoutRequest = {
+	name: string; // Name of the new routine
+	workoutId: number; // Logged workout to copy the exercises and sets from
+};
+
+/**
+ * GET /api/templates
+ * Lists the signed-in user's workout templates, sorted by name.
+ */
+export async function GET() {
+	console.log('Received GET request to /api/templates'); // Log receipt of the request
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const templatesFromDB = await prisma.workoutTemplate.findMany({
+			where: { userId: user.id }, // Only the signed-in user's templates
+			orderBy: { name: 'asc' }, // Alphabetical order for pickers
+			include: TEMPLATE_INCLUDE,
+		});
+
+		const templates: TemplateResponse[] = templatesFromDB.map(template =>
+			toTemplateResponse(template, user.weightUnit),
+		);
+
+		return NextResponse.json(templates, { status: 200 });
+	} catch (error) {
+		console.error('Error fetching templates:', error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error fetching templates' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
+
+/**
+ * POST /api/templates
+ * Creates a workout template, either from the submitted exercises and target sets,
+ * or, when the body holds a `workoutId`, from the exercises and sets of a logged workout.
+ */
+export async function POST(request: NextRequest) {
+	console.log('Received POST request to /api/templates'); // Log receipt of the request
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const body: TemplateInput | TemplateFromWorkoutRequest =
+			await request.json();
+		console.log('Request Body:', body); // Log the request body for debugging
+
+		// Work out the template contents and the unit its weights are in
+		let input: TemplateInput;
+		let unit: WeightUnit = user.weightUnit;
+		if (body && 'workoutId' in body) {
+			if (
+				typeof body.name !== 'string' ||
+				body.name.trim() === '' ||
+				typeof body.workoutId !== 'number'
+			) {
+				console.warn('Invalid template data received'); // Log a warning for invalid data
+				return NextResponse.json(
+					{ error: 'Invalid template data' },
+					{ status: 400 },
+				); // Respond with a 400 Bad Request
+			}
+
+			const workout = await prisma.workout.findFirst({
+				where: { id: body.workoutId, userId: user.id, deletedAt: null }, // Only the signed-in user's live workouts
+				include: {
+					exercises: {
+						orderBy: { position: 'asc' },
+						include: { sets: { orderBy: { position: 'asc' } } },
+					},
+				},
+			});
+			if (!workout) {
+				console.warn(`Workout not found with ID: ${body.workoutId}`); // Log a warning if not found
+				return NextResponse.json(
+					{ error: 'Workout not found' },
+					{ status: 404 },
+				); // Respond with a 404 Not Found
+			}
+
+			// Copy the stored kilogram weights as they are
+			unit = 'KG';
+			input = {
+				name: body.name,
+				exercises: workout.exercises.map(exercise => ({
+					name: exercise.name,
+					sets: exercise.sets.map(set => ({
+						reps: set.reps,
+						weight: Number(set.weight),
+					})),
+				})),
+			};
+		} else if (isValidTemplateInput(body)) {
+			input = body;
+		} else {
+			console.warn('Invalid template data received'); // Log a warning for invalid data
+			return NextResponse.json(
+				{ error: 'Invalid template data' },
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+
+		const template = await prisma.$transaction(async tx =>
+			tx.workoutTemplate.create({
+				data: {
+					name: input.name.trim(),
+					userId: user.id, // The template belongs to the signed-in user
+					exercises: {
+						create: await buildTemplateExercises(tx, input.exercises, unit),
+					},
+				},
+				include: TEMPLATE_INCLUDE,
+			}),
+		);
+
+		console.log(`Template created with ID: ${template.id}`); // Log the new template ID
+
+		return NextResponse.json(toTemplateResponse(template, user.weightUnit), {
+			status: 201,
+		});
+	} catch (error) {
+		if (
+			error instanceof Prisma.PrismaClientKnownRequestError &&
+			error.code === 'P2002'
+		) {
+			// Unique constraint on the user and name
+			return NextResponse.json(
+				{ error: 'A template with this name already exists' },
+				{ status: 409 },
+			); // Respond with a 409 Conflict
+		}
+
+		console.error('Error creating template:', error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error creating template' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
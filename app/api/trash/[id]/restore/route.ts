@@ -0,0 +1,73 @@
+// app/api/trash/[id]/restore/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { prisma } from '../../../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../../../lib/auth'; // Import authentication helpers
+import { recalculateRecords } from '../../../../../lib/records'; // Import personal record helpers
+
+/**
+ * POST /api/trash/[id]/restore
+ * Takes one of the signed-in user's workouts back out of the trash, and rebuilds the
+ * personal records of the lifts it contains with it counted again.
+ */
+export async function POST(
+	request: NextRequest,
+	{ params }: { params: { id: string } },
+) {
+	const { id } = params; // Extract the workout ID from the URL parameters
+	console.log(`Received POST request to /api/trash/${id}/restore`); // Log receipt of the request
+
+	const workoutId = parseInt(id, 10); // Convert the ID to an integer
+	if (isNaN(workoutId)) {
+		console.warn(`Invalid workout ID received: ${id}`); // Log a warning for invalid ID
+		return NextResponse.json({ error: 'Invalid workout ID' }, { status: 400 }); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const trashedWorkout = await prisma.workout.findFirst({
+			where: { id: workoutId, userId: user.id, deletedAt: { not: null } }, // Search by workout ID within the user's trash
+			select: { exercises: { select: { definitionId: true } } },
+		});
+		if (!trashedWorkout) {
+			console.warn(`Trashed workout not found with ID: ${workoutId}`); // Log a warning if not found
+			return NextResponse.json(
+				{ error: 'Workout not found in the trash' },
+				{ status: 404 },
+			); // Respond with a 404 Not Found
+		}
+
+		await prisma.$transaction(async tx => {
+			await tx.workout.update({
+				where: { id: workoutId },
+				data: { deletedAt: null },
+			});
+
+			// The workout may hold records it set before it was trashed
+			await recalculateRecords(
+				tx,
+				user.id,
+				trashedWorkout.exercises
+					.map(exercise => exercise.definitionId)
+					.filter((id): id is number => id !== null),
+			);
+		});
+
+		console.log(`Workout restored with ID: ${workoutId}`); // Log the restore
+
+		return NextResponse.json(
+			{ message: 'Workout restored.', id: workoutId },
+			{ status: 200 },
+		);
+	} catch (error) {
+		console.error(`Error restoring workout ${workoutId}:`, error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error restoring workout' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
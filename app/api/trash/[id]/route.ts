@@ -0,0 +1,57 @@
+// app/api/trash/[id]/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { prisma } from '../../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../../lib/auth'; // Import authentication helpers
+
+/**
+ * DELETE /api/trash/[id]
+ * Permanently deletes one of the signed-in user's trashed workouts along with its
+ * exercises and sets. Live workouts have to be moved to the trash first.
+ */
+export async function DELETE(
+	request: NextRequest,
+	{ params }: { params: { id: string } },
+) {
+	const { id } = params; // Extract the workout ID from the URL parameters
+	console.log(`Received DELETE request to /api/trash/${id}`); // Log receipt of the request
+
+	const workoutId = parseInt(id, 10); // Convert the ID to an integer
+	if (isNaN(workoutId)) {
+		console.warn(`Invalid workout ID received: ${id}`); // Log a warning for invalid ID
+		return NextResponse.json({ error: 'Invalid workout ID' }, { status: 400 }); // Respond with a 400 Bad Request
+	}
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		// deleteMany scopes the purge to the user's own trash; cascade delete removes exercises and sets
+		const { count } = await prisma.workout.deleteMany({
+			where: { id: workoutId, userId: user.id, deletedAt: { not: null } },
+		});
+
+		if (count === 0) {
+			console.warn(`Trashed workout not found with ID: ${workoutId}`); // Log a warning if not found
+			return NextResponse.json(
+				{ error: 'Workout not found in the trash' },
+				{ status: 404 },
+			); // Respond with a 404 Not Found
+		}
+
+		console.log(`Workout purged with ID: ${workoutId}`); // Log the purge
+
+		return NextResponse.json(
+			{ message: 'Workout permanently deleted.' },
+			{ status: 200 },
+		);
+	} catch (error) {
+		console.error(`Error purging workout ${workoutId}:`, error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error purging workout' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
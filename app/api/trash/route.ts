@@ -0,0 +1,84 @@
+// app/api/trash/route.ts
+
+import { NextResponse } from 'next/server'; // Import Next.js server utilities
+import { prisma } from '../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../lib/auth'; // Import authentication helpers
+import {
+	TRASH_RETENTION_DAYS,
+	purgeDate,
+	purgeExpiredWorkouts,
+} from '../../../lib/trash'; // Import trash helpers
+
+// Define the structure of a trashed workout sent to the frontend
+type TrashedWorkout = {
+	id: number; // Unique identifier for the workout
+	date: string; // ISO string representing the workout date
+	notes: string | null; // Free-text notes on the workout
+	exercises: string[]; // Names of the exercises, in the order they were logged
+	setCount: number; // Number of sets in the workout
+	deletedAt: string; // ISO string of when the workout was moved to the trash
+	purgeAt: string; // ISO string of when the workout is permanently deleted
+};
+
+// Define the structure of the response sent back to the frontend
+type TrashResponse = {
+	retentionDays: number; // Days a workout stays in the trash
+	workouts: TrashedWorkout[]; // Trashed workouts, most recently deleted first
+};
+
+/**
+ * GET /api/trash
+ * Lists the signed-in user's trashed workouts, first purging those past the retention period.
+ */
+export async function GET() {
+	console.log('Received GET request to /api/trash'); // Log receipt of the request
+
+	try {
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		const purged = await purgeExpiredWorkouts(prisma, user.id);
+		if (purged > 0) {
+			console.log(`Purged ${purged} expired workouts for user ${user.id}`); // Log the purge
+		}
+
+		const workoutsFromDB = await prisma.workout.findMany({
+			where: { userId: user.id, deletedAt: { not: null } }, // Only the signed-in user's trash
+			orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+			select: {
+				id: true,
+				date: true,
+				notes: true,
+				setCount: true,
+				deletedAt: true,
+				exercises: {
+					orderBy: { position: 'asc' }, // Order exercises as they were logged
+					select: { name: true },
+				},
+			},
+		});
+
+		const trashResponse: TrashResponse = {
+			retentionDays: TRASH_RETENTION_DAYS,
+			workouts: workoutsFromDB.map(workout => ({
+				id: workout.id,
+				date: workout.date.toISOString(),
+				notes: workout.notes,
+				exercises: workout.exercises.map(exercise => exercise.name),
+				setCount: workout.setCount,
+				deletedAt: workout.deletedAt!.toISOString(),
+				purgeAt: purgeDate(workout.deletedAt!).toISOString(),
+			})),
+		};
+
+		return NextResponse.json(trashResponse, { status: 200 });
+	} catch (error) {
+		console.error('Error fetching trash:', error); // Log any errors that occur during the process
+		return NextResponse.json(
+			{ error: 'Error fetching trash' },
+			{ status: 500 },
+		); // Respond with a 500 Internal Server Error
+	}
+}
@@ -1,46 +1,408 @@
 // app/api/update-workout/[id]/route.ts
 
 import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+import { Prisma } from '@prisma/client'; // Import Prisma types for the transaction client
 import { prisma } from '../../../../lib/prisma'; // Import the Prisma client
+import { getCurrentUser, unauthorized } from '../../../../lib/auth'; // Import authentication helpers
+import {
+	normalizeExerciseName,
+	resolveExerciseDefinitions,
+} from '../../../../lib/exercise-catalog'; // Import exercise catalog helpers
+import {
+	RecordResponse,
+	recalculateRecords,
+	toRecordResponse,
+} from '../../../../lib/records'; // Import personal record helpers
+import { refreshWorkoutTotals } from '../../../../lib/workout-totals'; // Import workout total helpers
+import {
+	WeightUnit,
+	fromKg,
+	requestWeightUnit,
+	toKg,
+} from '../../../../lib/units'; // Import weight unit helpers
+import { SetType, isValidSetEffort } from '../../../../lib/set-types'; // Import set type helpers
+import {
+	isValidNote,
+	normalizeNote,
+	normalizeTags,
+} from '../../../../lib/notes'; // Import note and tag helpers
+import { normalizeGroupIndexes } from '../../../../lib/supersets'; // Import superset helpers
+import {
+	ExerciseKind,
+	InvalidSetMetricsError,
+	assertSetMetrics,
+	toSetMetrics,
+} from '../../../../lib/exercise-kinds'; // Import exercise kind helpers
 
-// Define the structure of a workout set received from the frontend
+// Define the structure of a workout set received from the frontend.
+// Which measurements are required depends on the kind of the exercise.
 type WorkoutSet = {
-	id?: number; // Optional: ID of the set (required for updating existing sets)
-	reps: number; // Number of repetitions in the set
-	weight: number; // Weight used in the set
+	id?: number; // Optional: ID of the set (omit to create a new set)
+	reps?: number; // Number of repetitions in the set
+	weight?: number; // Weight used in the set, in the user's unit; added weight for bodyweight exercises, negative when assisted
+	distance?: number | null; // Distance covered in metres, for cardio exercises
+	durationSeconds?: number | null; // Time taken or held in seconds, for cardio and timed exercises
+	type?: SetType; // Optional: kind of set; defaults to WORKING
+	rpe?: number | null; // Optional: rate of perceived exertion, 1 to 10 in half steps
+	rir?: number | null; // Optional: reps in reserve
+	notes?: string | null; // Optional: free-text notes on the set
 };
 
 // Define the structure of an exercise received from the frontend
 type WorkoutExercise = {
-	id?: number; // Optional: ID of the exercise (required for updating existing exercises)
+	id?: number; // Optional: ID of the exercise (omit to create a new exercise)
 	name: string; // Name of the exercise
-	sets: WorkoutSet[]; // Array of sets for the exercise
+	groupIndex?: number | null; // Optional: superset or circuit shared with the adjacent exercises
+	notes?: string | null; // Optional: free-text notes on the exercise
+	sets: WorkoutSet[]; // Ordered array of sets for the exercise
 };
 
 // Define the structure of the request body for updating a workout
 type UpdateWorkoutRequest = {
 	date?: string; // Optional: New date for the workout (ISO string)
-	exercises?: WorkoutExercise[]; // Optional: Updated list of exercises
+	notes?: string | null; // Optional: New notes for the workout (null clears them)
+	tags?: string[]; // Optional: Full list of tags (replaces the stored tags)
+	exercises?: WorkoutExercise[]; // Optional: Full, ordered list of exercises (replaces the stored list)
+};
+
+// Define the counts of changes applied at one level of the workout tree
+type ChangeCounts = {
+	created: number; // Number of rows created
+	updated: number; // Number of rows updated (including reordering)
+	deleted: number; // Number of rows deleted
+};
+
+// Define the summary of everything the sync changed
+type WorkoutChanges = {
+	exercises: ChangeCounts; // Changes applied to exercises
+	sets: ChangeCounts; // Changes applied to sets
 };
 
 // Define the structure of the response sent back to the frontend
 type WorkoutResponse = {
 	id: number; // Unique identifier for the workout
 	date: string; // ISO string representing the workout date
+	startedAt: string | null; // ISO string of when logging started, if recorded
+	endedAt: string | null; // ISO string of when the workout was finished, if recorded
+	notes: string | null; // Free-text notes on the workout
+	tags: string[]; // Tags on the workout
+	unit: WeightUnit; // Unit of every weight in the response
 	exercises: {
 		id: number; // Unique identifier for the exercise
 		name: string; // Name of the exercise
+		definitionId: number | null; // Catalog entry for the exercise
+		kind: ExerciseKind; // What each set of the exercise records
+		groupIndex: number | null; // Superset or circuit of the exercise, if grouped
+		notes: string | null; // Free-text notes on the exercise
 		sets: {
 			id: number; // Unique identifier for the set
 			reps: number; // Number of reps in the set
-			weight: number; // Weight used in the set
+			weight: number; // Weight used in the set, in the user's unit
+			distance: number | null; // Distance covered in metres, if recorded
+			durationSeconds: number | null; // Time taken or held in seconds, if recorded
+			completedAt: string | null; // ISO string of when the set was done, if recorded
+			type: SetType; // Kind of set
+			rpe: number | null; // Rate of perceived exertion, if recorded
+			rir: number | null; // Reps in reserve, if recorded
+			notes: string | null; // Free-text notes on the set
 		}[];
 	}[];
+	changes: WorkoutChanges; // Summary of what the update changed
+	records: RecordResponse[]; // Personal records set in this workout after the update
+};
+
+// Error raised when the submitted tree references rows that do not belong to the workout
+class InvalidWorkoutTreeError extends Error {}
+
+/**
+ * isOptionalNumber
+ * Checks that an optional measurement is a number or null.
+ */
+const isOptionalNumber = (value: unknown): boolean =>
+	value === undefined || value === null || typeof value === 'number';
+
+/**
+ * isValidExercises
+ * Checks the shape of the submitted exercise list, including that grouped exercises are adjacent.
+ * Set measurements are checked against each exercise's kind once its catalog entry is known.
+ */
+const isValidExercises = (exercises: unknown): exercises is WorkoutExercise[] =>
+	Array.isArray(exercises) &&
+	exercises.every(
+		exercise =>
+			exercise &&
+			typeof exercise.name === 'string' &&
+			exercise.name.trim() !== '' &&
+			isValidNote(exercise.notes) &&
+			Array.isArray(exercise.sets) &&
+			exercise.sets.every(
+				(set: WorkoutSet) =>
+					set &&
+					isOptionalNumber(set.reps) &&
+					isOptionalNumber(set.weight) &&
+					isOptionalNumber(set.distance) &&
+					isOptionalNumber(set.durationSeconds) &&
+					isValidSetEffort(set) &&
+					isValidNote(set.notes),
+			),
+	) &&
+	normalizeGroupIndexes(exercises) !== null;
+
+/**
+ * toStoredMetrics
+ * The measurements of a submitted set as stored for its exercise's kind, with the weight in kilograms.
+ * Clients only see weights rounded to the unit, so a weight that still reads as the stored one
+ * keeps the stored kilograms rather than drifting through the conversion (100 kg → 220.46 lb → 99.9998 kg).
+ */
+const toStoredMetrics = (
+	kind: ExerciseKind,
+	set: WorkoutSet,
+	unit: WeightUnit,
+	storedWeightKg?: number,
+) => {
+	const metrics = toSetMetrics(kind, set);
+	const unchanged =
+		storedWeightKg !== undefined &&
+		fromKg(storedWeightKg, unit) === metrics.weight;
+	return {
+		...metrics,
+		weight: unchanged ? storedWeightKg : toKg(metrics.weight, unit),
+	};
+};
+
+/**
+ * emptyCounts
+ * Creates a zeroed change counter.
+ */
+const emptyCounts = (): ChangeCounts => ({
+	created: 0,
+	updated: 0,
+	deleted: 0,
+});
+
+/**
+ * syncExercises
+ * Diffs the stored exercises and sets of a workout against the submitted ones and
+ * applies the creates, updates, deletes and reorders inside the given transaction.
+ * Submitted weights are in `unit` and are stored in kilograms.
+ */
+const syncExercises = async (
+	tx: Prisma.TransactionClient,
+	workoutId: number,
+	submitted: WorkoutExercise[],
+	unit: WeightUnit,
+): Promise<WorkoutChanges> => {
+	const changes: WorkoutChanges = {
+		exercises: emptyCounts(),
+		sets: emptyCounts(),
+	};
+
+	// Load the stored tree so it can be compared with the submitted one
+	const storedExercises = await tx.exercise.findMany({
+		where: { workoutId },
+		include: { sets: true },
+	});
+	const storedById = new Map(
+		storedExercises.map(exercise => [exercise.id, exercise]),
+	);
+
+	// Every submitted ID must refer to an exercise of this workout, and appear only once
+	const submittedIds = new Set<number>();
+	submitted.forEach(exercise => {
+		if (exercise.id === undefined) return;
+		if (!storedById.has(exercise.id) || submittedIds.has(exercise.id)) {
+			throw new InvalidWorkoutTreeError(`Unknown exercise ID: ${exercise.id}`);
+		}
+		submittedIds.add(exercise.id);
+	});
+
+	// Delete exercises that are no longer present (their sets cascade)
+	const removedExercises = storedExercises.filter(
+		exercise => !submittedIds.has(exercise.id),
+	);
+	if (removedExercises.length > 0) {
+		await tx.exercise.deleteMany({
+			where: { id: { in: removedExercises.map(exercise => exercise.id) } },
+		});
+		changes.exercises.deleted += removedExercises.length;
+		changes.sets.deleted += removedExercises.reduce(
+			(total, exercise) => total + exercise.sets.length,
+			0,
+		);
+	}
+
+	// Number the submitted groups in order
+	const groupIndexes = normalizeGroupIndexes(submitted)!;
+
+	// Link every submitted exercise name to its catalog entry
+	const definitions = await resolveExerciseDefinitions(
+		tx,
+		submitted.map(exercise => exercise.name),
+	);
+
+	/**
+	 * kindOf
+	 * What the sets of a submitted exercise record: a logged exercise keeps the kind it
+	 * was saved with until it is changed to another lift, which takes the catalog's kind.
+	 */
+	const kindOf = (exercise: WorkoutExercise): ExerciseKind => {
+		const definition = definitions.get(normalizeExerciseName(exercise.name))!;
+		const stored =
+			exercise.id === undefined ? undefined : storedById.get(exercise.id)!;
+		return stored && stored.definitionId === definition.id
+			? stored.kind
+			: definition.kind;
+	};
+
+	// Each set must record what its exercise's kind measures
+	submitted.forEach(exercise => {
+		const definition = definitions.get(normalizeExerciseName(exercise.name))!;
+		assertSetMetrics(kindOf(exercise), definition.name, exercise.sets);
+	});
+
+	for (let position = 0; position < submitted.length; position++) {
+		const exercise = submitted[position];
+		const definition = definitions.get(normalizeExerciseName(exercise.name))!;
+		const kind = kindOf(exercise);
+		// Create exercises that have no ID yet, together with their sets
+		if (exercise.id === undefined) {
+			await tx.exercise.create({
+				data: {
+					workoutId,
+					name: definition.name,
+					definitionId: definition.id,
+					kind: definition.kind,
+					position,
+					groupIndex: groupIndexes[position],
+					notes: normalizeNote(exercise.notes),
+					sets: {
+						create: exercise.sets.map((set, setPosition) => ({
+							...toStoredMetrics(definition.kind, set, unit),
+							position: setPosition,
+							type: set.type ?? 'WORKING',
+							rpe: set.rpe ?? null,
+							rir: set.rir ?? null,
+							notes: normalizeNote(set.notes),
+						})),
+					},
+				},
+			});
+			changes.exercises.created += 1;
+			changes.sets.created += exercise.sets.length;
+			continue;
+		}
+
+		// Update the existing exercise only if its lift, position, group or notes changed
+		const stored = storedById.get(exercise.id)!;
+		const groupIndex = groupIndexes[position];
+		const notes = normalizeNote(exercise.notes);
+		if (
+			stored.name !== definition.name ||
+			stored.definitionId !== definition.id ||
+			stored.kind !== kind ||
+			stored.position !== position ||
+			stored.groupIndex !== groupIndex ||
+			stored.notes !== notes
+		) {
+			await tx.exercise.update({
+				where: { id: stored.id },
+				data: {
+					name: definition.name,
+					definitionId: definition.id,
+					kind,
+					position,
+					groupIndex,
+					notes,
+				},
+			});
+			changes.exercises.updated += 1;
+		}
+
+		// Every submitted set ID must refer to a set of this exercise, and appear only once
+		const storedSetsById = new Map(stored.sets.map(set => [set.id, set]));
+		const submittedSetIds = new Set<number>();
+		exercise.sets.forEach(set => {
+			if (set.id === undefined) return;
+			if (!storedSetsById.has(set.id) || submittedSetIds.has(set.id)) {
+				throw new InvalidWorkoutTreeError(`Unknown set ID: ${set.id}`);
+			}
+			submittedSetIds.add(set.id);
+		});
+
+		// Delete sets that are no longer present
+		const removedSets = stored.sets.filter(set => !submittedSetIds.has(set.id));
+		if (removedSets.length > 0) {
+			await tx.set.deleteMany({
+				where: { id: { in: removedSets.map(set => set.id) } },
+			});
+			changes.sets.deleted += removedSets.length;
+		}
+
+		// Create new sets and update changed or reordered ones
+		for (
+			let setPosition = 0;
+			setPosition < exercise.sets.length;
+			setPosition++
+		) {
+			const set = exercise.sets[setPosition];
+			const storedSet =
+				set.id === undefined ? undefined : storedSetsById.get(set.id)!;
+			const metrics = toStoredMetrics(
+				kind,
+				set,
+				unit,
+				storedSet && Number(storedSet.weight),
+			);
+			const effort = {
+				type: set.type ?? 'WORKING',
+				rpe: set.rpe ?? null,
+				rir: set.rir ?? null,
+				notes: normalizeNote(set.notes),
+			} as const;
+			if (!storedSet) {
+				await tx.set.create({
+					data: {
+						exerciseId: stored.id,
+						...metrics,
+						position: setPosition,
+						...effort,
+					},
+				});
+				changes.sets.created += 1;
+				continue;
+			}
+
+			if (
+				storedSet.reps !== metrics.reps ||
+				Number(storedSet.weight) !== metrics.weight ||
+				(storedSet.distance === null ? null : Number(storedSet.distance)) !==
+					metrics.distance ||
+				storedSet.durationSeconds !== metrics.durationSeconds ||
+				storedSet.position !== setPosition ||
+				storedSet.type !== effort.type ||
+				storedSet.rpe !== effort.rpe ||
+				storedSet.rir !== effort.rir ||
+				storedSet.notes !== effort.notes
+			) {
+				await tx.set.update({
+					where: { id: storedSet.id },
+					data: { ...metrics, position: setPosition, ...effort },
+				});
+				changes.sets.updated += 1;
+			}
+		}
+	}
+
+	return changes;
 };
 
 /**
  * PUT /api/update-workout/[id]
- * Updates a specific workout along with its exercises and sets.
+ * Updates a specific workout and syncs its exercises and sets with the submitted tree:
+ * rows missing from the request are deleted, rows without an ID are created, and
+ * existing rows are updated and reordered. All changes run in a single transaction,
+ * together with rebuilding the personal records of the affected lifts.
+ * Weights are in the user's unit unless an X-Weight-Unit header names another.
  */
 export async function PUT(
 	request: NextRequest,
@@ -58,14 +420,37 @@ export async function PUT(
 	}
 
 	try {
+		// Resolve the signed-in user; workouts are only visible to their owner
+		const user = await getCurrentUser();
+		if (!user) {
+			return unauthorized(); // Respond with a 401 Unauthorized
+		}
+
+		// Weights are in the unit the edit was made in; an update queued offline names it
+		const unit = requestWeightUnit(request.headers, user.weightUnit);
+
 		// Parse the JSON body of the request
 		const body: UpdateWorkoutRequest = await request.json();
 		console.log('Request Body:', body); // Log the request body for debugging
 
+		// Validate the submitted date, notes, tags and exercises
+		const tags = body.tags === undefined ? undefined : normalizeTags(body.tags);
+		if (
+			(body.date !== undefined && isNaN(new Date(body.date).getTime())) ||
+			!isValidNote(body.notes) ||
+			tags === null ||
+			(body.exercises !== undefined && !isValidExercises(body.exercises))
+		) {
+			console.warn('Invalid workout data received'); // Log a warning for invalid data
+			return NextResponse.json(
+				{ error: 'Invalid workout data' },
+				{ status: 400 },
+			); // Respond with a 400 Bad Request
+		}
+
 		// Find the existing workout
-		const existingWorkout = await prisma.workout.findUnique({
-			where: { id: workoutId }, // Search by workout ID
-			include: { exercises: { include: { sets: true } } }, // Include exercises and sets
+		const existingWorkout = await prisma.workout.findFirst({
+			where: { id: workoutId, userId: user.id, deletedAt: null }, // Search by workout ID within the user's live workouts; restore a trashed one first
 		});
 
 		if (!existingWorkout) {
@@ -74,76 +459,119 @@ export async function PUT(
 			return NextResponse.json({ error: 'Workout not found' }, { status: 404 }); // Respond with a 404 Not Found
 		}
 
-		// Prepare the data for updating
-		const updateData: any = {};
-
-		// Update the date if provided
-		if (body.date) {
-			updateData.date = new Date(body.date); // Convert the ISO string to a Date object
-		}
+		// Apply the date change and the exercise/set diff atomically
+		const { updatedWorkout, changes, records } = await prisma.$transaction(
+			async tx => {
+				// Remember which lifts the workout contained before the update
+				const previousExercises = await tx.exercise.findMany({
+					where: { workoutId },
+					select: { definitionId: true },
+				});
 
-		// Update exercises if provided
-		if (body.exercises) {
-			updateData.exercises = {
-				upsert: body.exercises.map(exercise => ({
-					where: { id: exercise.id }, // Identify the exercise by ID
-					update: {
-						name: exercise.name, // Update the exercise name
-						sets: {
-							upsert: exercise.sets.map(set => ({
-								where: { id: set.id }, // Identify the set by ID
-								update: {
-									reps: set.reps, // Update the number of reps
-									weight: set.weight, // Update the weight
-								},
-								create: {
-									reps: set.reps, // Create a new set if it doesn't exist
-									weight: set.weight, // Set the weight
-								},
-							})),
+				if (body.date || body.notes !== undefined) {
+					await tx.workout.update({
+						where: { id: workoutId },
+						data: {
+							date: body.date ? new Date(body.date) : undefined, // Convert the ISO string to a Date object
+							notes:
+								body.notes === undefined
+									? undefined
+									: normalizeNote(body.notes), // Blank notes clear them
 						},
-					},
-					create: {
-						// Create a new exercise if it doesn't exist
-						name: exercise.name, // Set the exercise name
-						sets: {
-							create: exercise.sets.map(set => ({
-								reps: set.reps, // Set the number of reps
-								weight: set.weight, // Set the weight
-							})),
+					});
+				}
+
+				// Replace the tags when a new list was submitted
+				if (tags) {
+					await tx.workoutTag.deleteMany({ where: { workoutId } });
+					await tx.workoutTag.createMany({
+						data: tags.map(name => ({ workoutId, name })),
+					});
+				}
+
+				const changes: WorkoutChanges = body.exercises
+					? await syncExercises(tx, workoutId, body.exercises, unit)
+					: { exercises: emptyCounts(), sets: emptyCounts() };
+
+				// Store the workout's totals for the workout list
+				await refreshWorkoutTotals(tx, workoutId);
+
+				const updatedWorkout = await tx.workout.findUniqueOrThrow({
+					where: { id: workoutId },
+					include: {
+						exercises: {
+							orderBy: { position: 'asc' }, // Return exercises in their stored order
+							include: { sets: { orderBy: { position: 'asc' } } }, // Return sets in their stored order
 						},
+						tags: { orderBy: { id: 'asc' } }, // Return tags in the order they were added
 					},
-				})),
-			};
-		}
+				});
 
-		// Update the workout in the database
-		const updatedWorkout = await prisma.workout.update({
-			where: { id: workoutId }, // Specify the workout to update
-			data: updateData, // Provide the update data
-			include: { exercises: { include: { sets: true } } }, // Include exercises and sets in the response
-		});
+				// Rebuild the records of every lift the workout contains or used to contain
+				await recalculateRecords(
+					tx,
+					user.id,
+					[...previousExercises, ...updatedWorkout.exercises]
+						.map(exercise => exercise.definitionId)
+						.filter((id): id is number => id !== null),
+				);
+				const records = await tx.personalRecord.findMany({
+					where: { workoutId },
+				});
 
-		console.log(`Workout updated with ID: ${updatedWorkout.id}`); // Log the updated workout ID
+				return { updatedWorkout, changes, records };
+			},
+		);
+
+		console.log(`Workout updated with ID: ${updatedWorkout.id}`, changes); // Log the updated workout ID and changes
 
 		// Transform the date to an ISO string for the frontend
 		const workoutResponse: WorkoutResponse = {
 			id: updatedWorkout.id,
 			date: updatedWorkout.date.toISOString(),
+			startedAt: updatedWorkout.startedAt?.toISOString() ?? null,
+			endedAt: updatedWorkout.endedAt?.toISOString() ?? null,
+			notes: updatedWorkout.notes,
+			tags: updatedWorkout.tags.map(tag => tag.name),
+			unit: unit,
 			exercises: updatedWorkout.exercises.map(exercise => ({
 				id: exercise.id,
 				name: exercise.name,
+				definitionId: exercise.definitionId,
+				kind: exercise.kind,
+				groupIndex: exercise.groupIndex,
+				notes: exercise.notes,
 				sets: exercise.sets.map(set => ({
 					id: set.id,
 					reps: set.reps,
-					weight: set.weight,
+					weight: fromKg(Number(set.weight), unit),
+					distance: set.distance === null ? null : Number(set.distance),
+					durationSeconds: set.durationSeconds,
+					completedAt: set.completedAt?.toISOString() ?? null,
+					type: set.type,
+					rpe: set.rpe,
+					rir: set.rir,
+					notes: set.notes,
 				})),
 			})),
+			changes,
+			records: records.map(record => toRecordResponse(record, unit)),
 		};
 
 		// Respond with the updated workout data
 		return NextResponse.json(workoutResponse, { status: 200 });
 	} catch (error) {
+		if (error instanceof InvalidWorkoutTreeError) {
+			// The submitted tree referenced rows outside this workout
+			console.warn(`Invalid workout tree for ID ${workoutId}:`, error.message); // Log a warning for invalid IDs
+			return NextResponse.json({ error: error.message }, { status: 400 }); // Respond with a 400 Bad Request
+		}
+		if (error instanceof InvalidSetMetricsError) {
+			// A set did not record what its exercise's kind measures
+			console.warn(`Invalid sets for workout ID ${workoutId}:`, error.message); // Log a warning for invalid sets
+			return NextResponse.json({ error: error.message }, { status: 400 }); // Respond with a 400 Bad Request
+		}
+
 		console.error(`Error updating workout with ID ${workoutId}:`, error); // Log any errors that occur during the process
 		return NextResponse.json(
 			{ error: 'Error updating workout' },
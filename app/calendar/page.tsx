@@ -0,0 +1,318 @@
+// app/calendar/page.tsx
+
+'use client'; // Enables client-side rendering for this component
+
+import React, { useEffect, useState } from 'react'; // Import React and hooks
+import Link from 'next/link'; // Import Link component for client-side navigation
+import { WeightUnit, formatWeight } from '../../lib/units'; // Import weight unit helpers
+import {
+	DaySummary,
+	addDays,
+	daysBetween,
+	toDayKey,
+	weekdayIndex,
+} from '../../lib/calendar'; // Import calendar helpers
+
+// Define the structure of the calendar data as received from the API
+type CalendarData = {
+	unit: WeightUnit; // Unit of every volume in the days
+	timeZone: string; // Time zone the days are counted in
+	days: DaySummary[]; // Days with workouts, oldest first
+};
+
+// What the colors of the days show
+type Metric = 'volume' | 'sessions';
+
+// Background classes from no training to the heaviest days
+const LEVEL_COLORS = [
+	'bg-gray-200',
+	'bg-green-200',
+	'bg-green-400',
+	'bg-green-600',
+	'bg-green-800',
+];
+
+// Weekday headings of the Monday-first month grid
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Number of weeks shown in the heatmap
+const HEATMAP_WEEKS = 53;
+
+/**
+ * shiftMonth
+ * First day of the month a number of months after (or before) the given month.
+ */
+const shiftMonth = (month: string, months: number): string => {
+	const [year, monthNumber] = month.split('-').map(Number);
+	return new Date(Date.UTC(year, monthNumber - 1 + months, 1))
+		.toISOString()
+		.slice(0, 10);
+};
+
+/**
+ * dayHref
+ * Where clicking a day leads: the workout itself, or the list filtered to that day.
+ */
+const dayHref = (day: DaySummary): string =>
+	day.workoutIds.length === 1
+		? `/workouts/${day.workoutIds[0]}`
+		: `/?from=${day.date}&to=${day.date}`;
+
+/**
+ * fetchDays
+ * Fetches the per-day summaries of a range of days in the browser's time zone.
+ */
+const fetchDays = async (
+	from: string,
+	to: string,
+	timeZone: string,
+): Promise<CalendarData> => {
+	const query = new URLSearchParams({ from, to, timeZone });
+	const response = await fetch(`/api/calendar?${query}`); // Fetch data from the API
+
+	if (!response.ok) {
+		// Check if the response status is not OK (200)
+		const errorData = await response.json(); // Parse the error message from the response
+		throw new Error(errorData.error || 'Failed to fetch calendar.'); // Throw an error with the message
+	}
+
+	return response.json();
+};
+
+const CalendarPage = () => {
+	// Time zone days are counted in, and today in it
+	const [timeZone] = useState<string>(
+		() => Intl.DateTimeFormat().resolvedOptions().timeZone,
+	);
+	const [today] = useState<string>(() => toDayKey(new Date(), timeZone));
+
+	const [month, setMonth] = useState<string>(() => `${today.slice(0, 7)}-01`); // First day of the month shown
+	const [metric, setMetric] = useState<Metric>('volume'); // What the colors show
+	const [monthData, setMonthData] = useState<CalendarData | null>(null); // Days of the month grid
+	const [yearData, setYearData] = useState<CalendarData | null>(null); // Days of the heatmap
+	const [loading, setLoading] = useState<boolean>(true); // State to manage loading status
+	const [error, setError] = useState<string | null>(null); // State to manage error messages
+
+	// Month grid: whole Monday-first weeks around the month
+	const monthEnd = addDays(shiftMonth(month, 1), -1);
+	const gridStart = addDays(month, -weekdayIndex(month));
+	const gridEnd = addDays(monthEnd, 6 - weekdayIndex(monthEnd));
+	const gridDays = Array.from(
+		{ length: daysBetween(gridStart, gridEnd) + 1 },
+		(_, idx) => addDays(gridStart, idx),
+	);
+
+	// Heatmap: whole weeks ending with the current one
+	const heatmapStart = addDays(
+		today,
+		-weekdayIndex(today) - (HEATMAP_WEEKS - 1) * 7,
+	);
+	const heatmapWeeks = Array.from({ length: HEATMAP_WEEKS }, (_, week) =>
+		Array.from({ length: 7 }, (_, weekday) =>
+			addDays(heatmapStart, week * 7 + weekday),
+		),
+	);
+
+	// useEffect hook to fetch the heatmap once on mount
+	useEffect(() => {
+		fetchDays(heatmapStart, today, timeZone)
+			.then(setYearData)
+			.catch(err => {
+				setError(
+					err instanceof Error ? err.message : 'An unexpected error occurred.',
+				); // Update the error state with the error message
+				console.error('Error fetching heatmap:', err); // Log the error for debugging
+			});
+	}, [heatmapStart, today, timeZone]); // Stable for the life of the page
+
+	// useEffect hook to fetch the month grid whenever the month changes
+	useEffect(() => {
+		setLoading(true); // Show the loading state while fetching
+
+		fetchDays(gridStart, gridEnd, timeZone)
+			.then(data => {
+				setMonthData(data); // Update the month state with fetched data
+				setError(null); // Clear any previous error
+			})
+			.catch(err => {
+				setError(
+					err instanceof Error ? err.message : 'An unexpected error occurred.',
+				); // Update the error state with the error message
+				console.error('Error fetching calendar:', err); // Log the error for debugging
+			})
+			.finally(() => setLoading(false)); // Set loading to false regardless of success or failure
+	}, [gridStart, gridEnd, timeZone]); // Refetch when the month changes
+
+	/**
+	 * levelsFor
+	 * Color level (0-4) of each day with workouts, relative to the busiest day of the data.
+	 */
+	const levelsFor = (data: CalendarData | null): Map<string, number> => {
+		const value = (day: DaySummary) =>
+			metric === 'volume' ? day.totalVolume : day.sessions;
+		const days = data?.days ?? [];
+		const max = Math.max(0, ...days.map(value));
+
+		return new Map(
+			days.map(day => [
+				day.date,
+				max === 0 ? 1 : Math.max(1, Math.ceil((value(day) / max) * 4)),
+			]),
+		);
+	};
+
+	/**
+	 * describeDay
+	 * Tooltip of a day, e.g. "Mar 4, 2025: 2 workouts, 5,400 kg".
+	 */
+	const describeDay = (date: string, day: DaySummary | undefined): string => {
+		const label = new Date(`${date}T00:00:00`).toLocaleDateString(undefined, {
+			month: 'short',
+			day: 'numeric',
+			year: 'numeric',
+		});
+		if (!day) return `${label}: rest day`;
+		return `${label}: ${day.sessions} workout${day.sessions === 1 ? '' : 's'}, ${formatWeight(
+			day.totalVolume,
+			monthData?.unit ?? yearData?.unit ?? 'KG',
+		)}`;
+	};
+
+	const monthDays = new Map(
+		(monthData?.days ?? []).map(day => [day.date, day]),
+	);
+	const yearDays = new Map((yearData?.days ?? []).map(day => [day.date, day]));
+	const monthLevels = levelsFor(monthData);
+	const yearLevels = levelsFor(yearData);
+	const trainedThisYear = yearData?.days.length ?? 0;
+
+	return (
+		<div className='max-w-4xl mx-auto p-6 bg-gray-100 min-h-screen'>
+			<h1 className='text-3xl font-bold mb-6 text-center'>Training Calendar</h1>
+			{/* Metric selector */}
+			<div className='flex justify-end mb-6'>
+				<label className='flex flex-col'>
+					<span className='text-sm font-medium mb-1'>Color by</span>
+					<select
+						value={metric}
+						onChange={e => setMetric(e.target.value as Metric)}
+						className='p-2 border border-gray-300 rounded-lg'>
+						<option value='volume'>Volume</option>
+						<option value='sessions'>Workouts</option>
+					</select>
+				</label>
+			</div>
+			{/* Display error message if any */}
+			{error && <p className='text-red-500'>{error}</p>}
+			{/* Month calendar */}
+			<div className='mb-8 p-4 bg-white rounded-lg shadow'>
+				<div className='flex justify-between items-center mb-4'>
+					<button
+						onClick={() => setMonth(shiftMonth(month, -1))} // Show the previous month
+						className='px-3 py-1 bg-gray-200 rounded-lg hover:bg-gray-300'>
+						&larr;
+					</button>
+					<h2 className='text-xl font-semibold'>
+						{new Date(`${month}T00:00:00`).toLocaleDateString(undefined, {
+							month: 'long',
+							year: 'numeric',
+						})}
+					</h2>
+					<button
+						onClick={() => setMonth(shiftMonth(month, 1))} // Show the next month
+						className='px-3 py-1 bg-gray-200 rounded-lg hover:bg-gray-300'>
+						&rarr;
+					</button>
+				</div>
+				<div className='grid grid-cols-7 gap-1 text-center text-sm'>
+					{WEEKDAYS.map(weekday => (
+						<div key={weekday} className='font-medium text-gray-500'>
+							{weekday}
+						</div>
+					))}
+					{gridDays.map(date => {
+						const day = monthDays.get(date);
+						const inMonth = date.slice(0, 7) === month.slice(0, 7);
+						const cellClass = `h-16 p-1 rounded flex flex-col items-start ${
+							day ? LEVEL_COLORS[monthLevels.get(date) ?? 0] : 'bg-gray-50'
+						} ${inMonth ? '' : 'opacity-40'} ${
+							date === today ? 'ring-2 ring-blue-500' : ''
+						}`;
+						const content = (
+							<>
+								<span>{Number(date.slice(8))}</span>
+								{day && (
+									<span className='text-xs'>
+										{day.sessions > 1 ? `${day.sessions} workouts` : ''}
+									</span>
+								)}
+							</>
+						);
+
+						return day ? (
+							<Link
+								key={date}
+								href={dayHref(day)}
+								title={describeDay(date, day)}
+								className={`${cellClass} hover:ring-2 hover:ring-gray-500`}>
+								{content}
+							</Link>
+						) : (
+							<div key={date} className={cellClass}>
+								{content}
+							</div>
+						);
+					})}
+				</div>
+				{loading && <p className='mt-2 text-gray-500'>Loading...</p>}
+			</div>
+			{/* Yearly heatmap */}
+			<div className='p-4 bg-white rounded-lg shadow'>
+				<h2 className='text-xl font-semibold mb-2'>Last 12 Months</h2>
+				<p className='text-sm text-gray-600 mb-4'>
+					{trainedThisYear} training day{trainedThisYear === 1 ? '' : 's'}
+				</p>
+				<div className='flex gap-[3px] overflow-x-auto'>
+					{heatmapWeeks.map(week => (
+						<div key={week[0]} className='flex flex-col gap-[3px]'>
+							{week.map(date => {
+								const day = yearDays.get(date);
+								const cellClass = `block w-3 h-3 rounded-sm ${
+									LEVEL_COLORS[yearLevels.get(date) ?? 0]
+								}`;
+
+								if (date > today) {
+									return <span key={date} className='block w-3 h-3' />; // Rest of this week
+								}
+								return day ? (
+									<Link
+										key={date}
+										href={dayHref(day)}
+										title={describeDay(date, day)}
+										className={cellClass}
+									/>
+								) : (
+									<span
+										key={date}
+										title={describeDay(date, day)}
+										className={cellClass}
+									/>
+								);
+							})}
+						</div>
+					))}
+				</div>
+				{/* Legend */}
+				<div className='flex items-center justify-end gap-1 mt-2 text-xs text-gray-500'>
+					Less
+					{LEVEL_COLORS.map(color => (
+						<span key={color} className={`block w-3 h-3 rounded-sm ${color}`} />
+					))}
+					More
+				</div>
+			</div>
+		</div>
+	);
+};
+
+export default CalendarPage; // Export the CalendarPage component as default
@@ -0,0 +1,152 @@
+// Define the structure of a single bar on the chart
+export type BarChartBar = {
+	date: string; // ISO string of the period the bar covers (e.g., the start of a week)
+	value: number; // Height of the bar
+	label?: string; // Optional tooltip text; defaults to the date and value
+};
+
+type BarChartProps = {
+	title: string; // Heading shown above the chart
+	bars: BarChartBar[]; // Bars to draw, oldest first, one per period
+	unit?: string; // Unit appended to axis labels and tooltips (e.g., kg)
+	color?: string; // Fill color of the bars
+	height?: number; // Height of the drawing area in SVG units
+};
+
+// Width of the drawing area in SVG units; the SVG scales to its container
+const WIDTH = 600;
+
+// Space reserved around the plot for axis labels
+const PADDING = { top: 10, right: 16, bottom: 28, left: 56 };
+
+// Number of horizontal grid lines
+const TICKS = 4;
+
+// Share of each slot left empty between bars
+const GAP = 0.2;
+
+/**
+ * formatNumber
+ * Compact number formatting for axis labels.
+ */
+const formatNumber = (value: number): string =>
+	Math.abs(value) >= 10000
+		? `${(value / 1000).toFixed(0)}k`
+		: Number.isInteger(value)
+			? `${value}`
+			: value.toFixed(1);
+
+/**
+ * BarChart
+ * Dependency-free SVG bar chart with one evenly spaced bar per period.
+ * Unlike LineChart, empty periods are expected in the bars and show as zero-height bars.
+ */
+const BarChart = ({
+	title,
+	bars,
+	unit = '',
+	color = '#2563eb',
+	height = 200,
+}: BarChartProps) => {
+	if (bars.length === 0 || bars.every(bar => bar.value === 0)) {
+		return (
+			<div className='mb-6'>
+				<h3 className='text-lg font-medium mb-2'>{title}</h3>
+				<p className='text-gray-500'>No data for this range.</p>
+			</div>
+		);
+	}
+
+	const maxValue = Math.max(...bars.map(bar => bar.value));
+
+	const plotWidth = WIDTH - PADDING.left - PADDING.right;
+	const plotHeight = height - PADDING.top - PADDING.bottom;
+	const slot = plotWidth / bars.length;
+
+	const y = (value: number) =>
+		PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+
+	const ticks = Array.from(
+		{ length: TICKS + 1 },
+		(_, idx) => (maxValue * idx) / TICKS,
+	);
+
+	const formatDate = (date: string) =>
+		new Date(date).toLocaleDateString(undefined, {
+			month: 'short',
+			day: 'numeric',
+			year: '2-digit',
+		});
+
+	return (
+		<div className='mb-6'>
+			<h3 className='text-lg font-medium mb-2'>{title}</h3>
+			<svg
+				viewBox={`0 0 ${WIDTH} ${height}`}
+				className='w-full bg-white rounded-lg shadow'
+				role='img'
+				aria-label={title}>
+				{/* Horizontal grid lines with value labels */}
+				{ticks.map(tick => (
+					<g key={tick}>
+						<line
+							x1={PADDING.left}
+							x2={WIDTH - PADDING.right}
+							y1={y(tick)}
+							y2={y(tick)}
+							stroke='#e5e7eb'
+						/>
+						<text
+							x={PADDING.left - 6}
+							y={y(tick)}
+							textAnchor='end'
+							dominantBaseline='middle'
+							fontSize='11'
+							fill='#6b7280'>
+							{formatNumber(tick)}
+							{unit && ` ${unit}`}
+						</text>
+					</g>
+				))}
+				{/* First and last periods on the x axis */}
+				<text
+					x={PADDING.left}
+					y={height - 8}
+					fontSize='11'
+					fill='#6b7280'
+					textAnchor='start'>
+					{formatDate(bars[0].date)}
+				</text>
+				{bars.length > 1 && (
+					<text
+						x={WIDTH - PADDING.right}
+						y={height - 8}
+						fontSize='11'
+						fill='#6b7280'
+						textAnchor='end'>
+						{formatDate(bars[bars.length - 1].date)}
+					</text>
+				)}
+				{/* Bars */}
+				{bars.map((bar, idx) => (
+					<rect
+						key={bar.date}
+						x={PADDING.left + idx * slot + (slot * GAP) / 2}
+						y={y(bar.value)}
+						width={slot * (1 - GAP)}
+						height={PADDING.top + plotHeight - y(bar.value)}
+						fill={color}>
+						<title>
+							{bar.label ??
+								`${new Date(bar.date).toLocaleDateString()}: ${formatNumber(
+									bar.value,
+								)}${unit && ` ${unit}`}`}
+						</title>
+					</rect>
+				))}
+			</svg>
+		</div>
+	);
+};
+
+export default BarChart;
@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useId, useMemo, useState } from 'react';
+import { ExerciseKind } from '../../lib/exercise-kinds';
+
+// Define the structure of a catalog entry as received from the API
+export type ExerciseDefinition = {
+	id: number; // Unique identifier for the catalog entry
+	name: string; // Canonical name of the exercise
+	aliases: string[]; // Alternative names, in lowercase
+	primaryMuscles: string[]; // Primary muscle groups
+	equipment: string | null; // Equipment used, if known
+	restSeconds: number | null; // Default rest between sets in seconds, if set
+	kind: ExerciseKind; // What each set of the exercise records
+};
+
+type ExercisePickerProps = {
+	definitions: ExerciseDefinition[]; // The exercise catalog to search
+	value: string; // Currently selected exercise name
+	onChange: (name: string) => void; // Called with the typed text, and with the catalog name when one is picked
+	onSelect?: (name: string) => void; // Called only when a catalog entry is picked
+	placeholder?: string; // Placeholder text for the search input
+	className?: string; // Extra classes for the wrapper
+	required?: boolean; // Whether the input is required in a form
+};
+
+// Maximum number of suggestions shown at once
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * ExercisePicker
+ * Text input with type-ahead suggestions from the exercise catalog.
+ * Matches on names and aliases; names that start with the query rank first.
+ * Free text is allowed: the server adds unknown names to the catalog on save.
+ */
+const ExercisePicker = ({
+	definitions,
+	value,
+	onChange,
+	onSelect,
+	placeholder = 'Search exercises...',
+	className = '',
+	required = false,
+}: ExercisePickerProps) => {
+	const listId = useId(); // Links the input to its suggestion list for screen readers
+	const [open, setOpen] = useState<boolean>(false); // Whether the suggestion list is visible
+	const [highlighted, setHighlighted] = useState<number>(0); // Index of the keyboard-highlighted suggestion
+
+	const suggestions = useMemo(() => {
+		const query = value.trim().toLowerCase();
+		if (!query) return definitions.slice(0, MAX_SUGGESTIONS);
+
+		// Rank: name prefix, then alias prefix, then substring anywhere
+		const rank = (definition: ExerciseDefinition): number => {
+			const name = definition.name.toLowerCase();
+			if (name.startsWith(query)) return 0;
+			if (definition.aliases.some(alias => alias.startsWith(query))) return 1;
+			if (
+				name.includes(query) ||
+				definition.aliases.some(alias => alias.includes(query))
+			)
+				return 2;
+			return -1;
+		};
+
+		return definitions
+			.map(definition => ({ definition, rank: rank(definition) }))
+			.filter(match => match.rank >= 0)
+			.sort(
+				(a, b) =>
+					a.rank - b.rank || a.definition.name.localeCompare(b.definition.name),
+			)
+			.slice(0, MAX_SUGGESTIONS)
+			.map(match => match.definition);
+	}, [definitions, value]);
+
+	/**
+	 * handleSelect
+	 * Chooses a suggestion and closes the list.
+	 */
+	const handleSelect = (definition: ExerciseDefinition) => {
+		onChange(definition.name);
+		onSelect?.(definition.name);
+		setOpen(false);
+	};
+
+	/**
+	 * handleKeyDown
+	 * Arrow keys move through the suggestions, Enter picks one, Escape closes the list.
+	 */
+	const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+		if (!open || suggestions.length === 0) return;
+
+		if (e.key === 'ArrowDown') {
+			e.preventDefault();
+			setHighlighted((highlighted + 1) % suggestions.length);
+		} else if (e.key === 'ArrowUp') {
+			e.preventDefault();
+			setHighlighted(
+				(highlighted - 1 + suggestions.length) % suggestions.length,
+			);
+		} else if (e.key === 'Enter') {
+			e.preventDefault(); // Do not submit the surrounding form
+			handleSelect(suggestions[highlighted]);
+		} else if (e.key === 'Escape') {
+			setOpen(false);
+		}
+	};
+
+	return (
+		<div className={`relative ${className}`}>
+			<input
+				type='text'
+				value={value}
+				onChange={e => {
+					onChange(e.target.value);
+					setHighlighted(0);
+					setOpen(true);
+				}}
+				onFocus={() => setOpen(true)}
+				onBlur={() => setOpen(false)}
+				onKeyDown={handleKeyDown}
+				placeholder={placeholder}
+				className='w-full p-2 border border-gray-300 rounded-lg'
+				role='combobox'
+				aria-controls={listId}
+				aria-expanded={open}
+				aria-autocomplete='list'
+				autoComplete='off'
+				required={required}
+			/>
+			{open && suggestions.length > 0 && (
+				<ul
+					id={listId}
+					className='absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-lg shadow-lg max-h-64 overflow-y-auto'
+					role='listbox'>
+					{suggestions.map((definition, idx) => (
+						<li
+							key={definition.id}
+							role='option'
+							aria-selected={idx === highlighted}
+							// onMouseDown fires before the input's onBlur closes the list
+							onMouseDown={e => {
+								e.preventDefault();
+								handleSelect(definition);
+							}}
+							onMouseEnter={() => setHighlighted(idx)}
+							className={`px-3 py-2 cursor-pointer ${
+								idx === highlighted ? 'bg-blue-100' : ''
+							}`}>
+							<span className='font-medium'>{definition.name}</span>
+							{definition.primaryMuscles.length > 0 && (
+								<span className='ml-2 text-sm text-gray-500'>
+									{definition.primaryMuscles.join(', ')}
+								</span>
+							)}
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+};
+
+export default ExercisePicker;
@@ -0,0 +1,190 @@
+// Define the structure of a single point on the chart
+export type LineChartPoint = {
+	date: string; // ISO string plotted on the x axis
+	value: number; // Value plotted on the y axis
+	label?: string; // Optional tooltip text; defaults to the date and value
+};
+
+type LineChartProps = {
+	title: string; // Heading shown above the chart
+	points: LineChartPoint[]; // Points to plot, oldest first
+	unit?: string; // Unit appended to axis labels and tooltips (e.g., kg)
+	color?: string; // Stroke color of the line
+	height?: number; // Height of the drawing area in SVG units
+	secondary?: LineChartPoint[]; // Optional second series drawn dashed (e.g., a moving average)
+};
+
+// Width of the drawing area in SVG units; the SVG scales to its container
+const WIDTH = 600;
+
+// Space reserved around the plot for axis labels
+const PADDING = { top: 10, right: 16, bottom: 28, left: 56 };
+
+// Number of horizontal grid lines
+const TICKS = 4;
+
+/**
+ * formatNumber
+ * Compact number formatting for axis labels.
+ */
+const formatNumber = (value: number): string =>
+	Math.abs(value) >= 10000
+		? `${(value / 1000).toFixed(0)}k`
+		: Number.isInteger(value)
+			? `${value}`
+			: value.toFixed(1);
+
+/**
+ * LineChart
+ * Dependency-free SVG line chart with a time x axis.
+ * Points are positioned by date, so gaps between sessions show as gaps.
+ */
+const LineChart = ({
+	title,
+	points,
+	unit = '',
+	color = '#2563eb',
+	height = 200,
+	secondary,
+}: LineChartProps) => {
+	if (points.length === 0) {
+		return (
+			<div className='mb-6'>
+				<h3 className='text-lg font-medium mb-2'>{title}</h3>
+				<p className='text-gray-500'>No data for this range.</p>
+			</div>
+		);
+	}
+
+	const allPoints = [...points, ...(secondary ?? [])];
+	const times = allPoints.map(point => new Date(point.date).getTime());
+	const values = allPoints.map(point => point.value);
+
+	const minTime = Math.min(...times);
+	const maxTime = Math.max(...times);
+	let minValue = Math.min(...values);
+	let maxValue = Math.max(...values);
+	if (minValue === maxValue) {
+		// Give a flat series some room above and below
+		minValue -= 1;
+		maxValue += 1;
+	}
+
+	const plotWidth = WIDTH - PADDING.left - PADDING.right;
+	const plotHeight = height - PADDING.top - PADDING.bottom;
+
+	const x = (date: string) =>
+		PADDING.left +
+		(maxTime === minTime
+			? plotWidth / 2
+			: ((new Date(date).getTime() - minTime) / (maxTime - minTime)) *
+				plotWidth);
+	const y = (value: number) =>
+		PADDING.top +
+		plotHeight -
+		((value - minValue) / (maxValue - minValue)) * plotHeight;
+
+	const toPath = (series: LineChartPoint[]) =>
+		series.map(point => `${x(point.date)},${y(point.value)}`).join(' ');
+
+	const ticks = Array.from(
+		{ length: TICKS + 1 },
+		(_, idx) => minValue + ((maxValue - minValue) * idx) / TICKS,
+	);
+
+	const formatDate = (time: number) =>
+		new Date(time).toLocaleDateString(undefined, {
+			month: 'short',
+			day: 'numeric',
+			year: '2-digit',
+		});
+
+	return (
+		<div className='mb-6'>
+			<h3 className='text-lg font-medium mb-2'>{title}</h3>
+			<svg
+				viewBox={`0 0 ${WIDTH} ${height}`}
+				className='w-full bg-white rounded-lg shadow'
+				role='img'
+				aria-label={title}>
+				{/* Horizontal grid lines with value labels */}
+				{ticks.map(tick => (
+					<g key={tick}>
+						<line
+							x1={PADDING.left}
+							x2={WIDTH - PADDING.right}
+							y1={y(tick)}
+							y2={y(tick)}
+							stroke='#e5e7eb'
+						/>
+						<text
+							x={PADDING.left - 6}
+							y={y(tick)}
+							textAnchor='end'
+							dominantBaseline='middle'
+							fontSize='11'
+							fill='#6b7280'>
+							{formatNumber(tick)}
+							{unit && ` ${unit}`}
+						</text>
+					</g>
+				))}
+				{/* First and last dates on the x axis */}
+				<text
+					x={PADDING.left}
+					y={height - 8}
+					fontSize='11'
+					fill='#6b7280'
+					textAnchor='start'>
+					{formatDate(minTime)}
+				</text>
+				{maxTime !== minTime && (
+					<text
+						x={WIDTH - PADDING.right}
+						y={height - 8}
+						fontSize='11'
+						fill='#6b7280'
+						textAnchor='end'>
+						{formatDate(maxTime)}
+					</text>
+				)}
+				{/* Optional secondary series */}
+				{secondary && secondary.length > 1 && (
+					<polyline
+						points={toPath(secondary)}
+						fill='none'
+						stroke='#9ca3af'
+						strokeWidth='2'
+						strokeDasharray='6 4'
+					/>
+				)}
+				{/* Main series */}
+				{points.length > 1 && (
+					<polyline
+						points={toPath(points)}
+						fill='none'
+						stroke={color}
+						strokeWidth='2'
+					/>
+				)}
+				{points.map(point => (
+					<circle
+						key={`${point.date}-${point.value}`}
+						cx={x(point.date)}
+						cy={y(point.value)}
+						r='3.5'
+						fill={color}>
+						<title>
+							{point.label ??
+								`${new Date(point.date).toLocaleDateString()}: ${formatNumber(
+									point.value,
+								)}${unit && ` ${unit}`}`}
+						</title>
+					</circle>
+				))}
+			</svg>
+		</div>
+	);
+};
+
+export default LineChart;
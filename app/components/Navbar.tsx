@@ -1,16 +1,66 @@
 import Link from 'next/link';
+import { getCurrentUser } from '../../lib/auth';
+import SignOutButton from './SignOutButton';
+import UnitToggle from './UnitToggle';
+import SearchBox from './SearchBox';
+
+const Navbar = async () => {
+	const user = await getCurrentUser();
 
-const Navbar = () => {
 	return (
 		<nav className='bg-gray-800 p-4 mb-10'>
 			<div className='container mx-auto flex justify-between items-center'>
 				<Link href='/' className='text-white text-xl font-bold'>
 					Home
 				</Link>
-				<div className='flex space-x-4'>
-					<Link href='/workout' className='text-gray-300 hover:text-white'>
-						New Workout
-					</Link>
+				<div className='flex space-x-4 items-center'>
+					{user ? (
+						<>
+							<SearchBox />
+							<Link href='/workout' className='text-gray-300 hover:text-white'>
+								New Workout
+							</Link>
+							<Link
+								href='/templates'
+								className='text-gray-300 hover:text-white'>
+								Templates
+							</Link>
+							<Link href='/programs' className='text-gray-300 hover:text-white'>
+								Programs
+							</Link>
+							<Link href='/records' className='text-gray-300 hover:text-white'>
+								Records
+							</Link>
+							<Link href='/calendar' className='text-gray-300 hover:text-white'>
+								Calendar
+							</Link>
+							<Link
+								href='/measurements'
+								className='text-gray-300 hover:text-white'>
+								Body
+							</Link>
+							<Link
+								href='/dashboard'
+								className='text-gray-300 hover:text-white'>
+								Dashboard
+							</Link>
+							<Link href='/trash' className='text-gray-300 hover:text-white'>
+								Trash
+							</Link>
+							<UnitToggle unit={user.weightUnit} />
+							<span className='text-gray-400'>{user.email}</span>
+							<SignOutButton />
+						</>
+					) : (
+						<>
+							<Link href='/sign-in' className='text-gray-300 hover:text-white'>
+								Sign In
+							</Link>
+							<Link href='/sign-up' className='text-gray-300 hover:text-white'>
+								Sign Up
+							</Link>
+						</>
+					)}
 				</div>
 			</div>
 		</nav>
@@ -0,0 +1,232 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import {
+	QUEUE_CHANGED_EVENT,
+	QueueOwner,
+	SIGNED_IN_EVENT,
+	countQueuedRequests,
+	discardRejectedRequest,
+	editRejectedRequest,
+	flushQueue,
+	listRejectedRequests,
+	retryRejectedRequest,
+	setQueueOwner,
+} from '../../lib/sync-queue';
+import { QueuedRequest } from '../../lib/offline-store';
+import { WeightUnit } from '../../lib/units';
+
+// How often to retry queued writes while some are waiting, in milliseconds
+const RETRY_INTERVAL = 30000;
+
+type OfflineSyncProps = {
+	owner: QueueOwner | null; // The signed-in user, whose queued writes are replayed; null while signed out
+};
+
+/**
+ * OfflineSync
+ * Registers the service worker, replays the signed-in user's queued writes when
+ * the connection comes back, and shows a banner while offline or while writes are waiting.
+ * Writes the server rejected are listed so the user can retry, edit or discard them.
+ */
+const OfflineSync = ({ owner }: OfflineSyncProps) => {
+	const router = useRouter();
+	const [online, setOnline] = useState<boolean>(true);
+	const [pending, setPending] = useState<number>(0);
+	const [rejected, setRejected] = useState<QueuedRequest[]>([]); // Writes the server turned down, waiting for the user
+	const [syncing, setSyncing] = useState<boolean>(false);
+	const [signedOut, setSignedOut] = useState<boolean>(false); // Whether the last sync stopped for want of a session
+	const userId = owner?.userId ?? null;
+	const weightUnit: WeightUnit | null = owner?.weightUnit ?? null;
+
+	/**
+	 * refreshQueue
+	 * Rereads the pending count and the rejected writes.
+	 */
+	const refreshQueue = useCallback(async () => {
+		setPending(await countQueuedRequests());
+		setRejected(await listRejectedRequests());
+	}, []);
+
+	/**
+	 * sync
+	 * Sends queued writes and refreshes the pending count.
+	 */
+	const sync = useCallback(async () => {
+		setSyncing(true);
+		try {
+			setSignedOut((await flushQueue()) === 'SIGNED_OUT');
+		} catch (error) {
+			console.error('Error syncing queued requests:', error);
+		} finally {
+			setSyncing(false);
+			await refreshQueue();
+		}
+	}, [refreshQueue]);
+
+	/**
+	 * handleRetry
+	 * Sends a rejected write again, e.g. once the problem was fixed elsewhere.
+	 */
+	const handleRetry = async (entry: QueuedRequest) => {
+		setSyncing(true);
+		try {
+			setSignedOut((await retryRejectedRequest(entry)) === 'SIGNED_OUT');
+		} catch (error) {
+			console.error('Error retrying queued request:', error);
+		} finally {
+			setSyncing(false);
+			await refreshQueue();
+		}
+	};
+
+	/**
+	 * handleEdit
+	 * Reopens the form a rejected write was made from, so it can be fixed and saved again.
+	 */
+	const handleEdit = async (entry: QueuedRequest) => {
+		if (
+			!confirm('Reopen this change? It replaces anything in progress there.')
+		) {
+			return;
+		}
+		try {
+			router.push(await editRejectedRequest(entry));
+		} catch (error) {
+			alert(
+				error instanceof Error ? error.message : 'Failed to edit the change.',
+			);
+			console.error('Error editing queued request:', error);
+		}
+	};
+
+	/**
+	 * handleDiscard
+	 * Drops a rejected write after confirmation.
+	 */
+	const handleDiscard = async (entry: QueuedRequest) => {
+		if (!confirm(`Discard "${entry.description}"? It will not be saved.`)) {
+			return;
+		}
+		try {
+			await discardRejectedRequest(entry);
+		} catch (error) {
+			console.error('Error discarding queued request:', error);
+		}
+	};
+
+	// Replay only the signed-in user's writes, and sync again whenever someone signs in
+	useEffect(() => {
+		const resume = () => {
+			setQueueOwner(
+				userId === null || weightUnit === null ? null : { userId, weightUnit },
+			);
+			sync();
+		};
+		// Signing in again as the same user leaves the layout's props as they were
+		const handleSignedIn = (event: Event) => {
+			if ((event as CustomEvent<number>).detail === userId) resume();
+		};
+
+		resume();
+		window.addEventListener(SIGNED_IN_EVENT, handleSignedIn);
+		return () => window.removeEventListener(SIGNED_IN_EVENT, handleSignedIn);
+	}, [userId, weightUnit, sync]);
+
+	// Register the service worker and listen for connection changes
+	useEffect(() => {
+		if ('serviceWorker' in navigator) {
+			navigator.serviceWorker
+				.register('/sw.js')
+				.catch(error =>
+					console.error('Error registering service worker:', error),
+				);
+		}
+
+		const handleOnline = () => {
+			setOnline(true);
+			sync();
+		};
+		const handleOffline = () => setOnline(false);
+
+		setOnline(navigator.onLine);
+
+		window.addEventListener('online', handleOnline);
+		window.addEventListener('offline', handleOffline);
+		window.addEventListener(QUEUE_CHANGED_EVENT, refreshQueue);
+		return () => {
+			window.removeEventListener('online', handleOnline);
+			window.removeEventListener('offline', handleOffline);
+			window.removeEventListener(QUEUE_CHANGED_EVENT, refreshQueue);
+		};
+	}, [sync, refreshQueue]);
+
+	// Keep retrying while writes are waiting, e.g. after a server error; an expired
+	// session waits for the user to sign in again instead
+	useEffect(() => {
+		if (pending === 0 || !online || signedOut) return;
+		const timer = setInterval(sync, RETRY_INTERVAL);
+		return () => clearInterval(timer);
+	}, [pending, online, signedOut, sync]);
+
+	if (online && pending === 0 && rejected.length === 0) return null;
+
+	return (
+		<div className='bg-yellow-100 text-yellow-900 text-sm px-4 py-2'>
+			{rejected.map(entry => (
+				<div
+					key={entry.id}
+					className='flex justify-center items-center gap-4 text-red-700'>
+					<span>
+						{entry.description} could not be saved: {entry.error}
+					</span>
+					<button
+						onClick={() => handleRetry(entry)}
+						disabled={syncing}
+						className='underline disabled:opacity-50'>
+						Retry
+					</button>
+					{entry.draft && (
+						<button onClick={() => handleEdit(entry)} className='underline'>
+							Edit
+						</button>
+					)}
+					<button onClick={() => handleDiscard(entry)} className='underline'>
+						Discard
+					</button>
+				</div>
+			))}
+			{(!online || pending > 0) && (
+				<div className='flex justify-center items-center gap-4'>
+					<span>
+						{!online && 'You are offline. '}
+						{pending > 0 &&
+							`${pending} change${pending === 1 ? '' : 's'} waiting to sync.`}
+						{!online && pending === 0 && 'Workouts you log will sync later.'}
+						{online &&
+							pending > 0 &&
+							signedOut &&
+							' Sign in again to sync them.'}
+					</span>
+					{online && pending > 0 && signedOut && (
+						<Link href='/sign-in' className='underline'>
+							Sign in
+						</Link>
+					)}
+					{online && pending > 0 && !signedOut && (
+						<button
+							onClick={sync}
+							disabled={syncing}
+							className='underline disabled:opacity-50'>
+							{syncing ? 'Syncing...' : 'Sync now'}
+						</button>
+					)}
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default OfflineSync;
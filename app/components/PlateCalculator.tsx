@@ -0,0 +1,219 @@
+'use client';
+
+import { useState } from 'react';
+import { WeightUnit, unitLabel } from '../../lib/units';
+import {
+	BarSetup,
+	PlateSetup,
+	WarmupSet,
+	buildWarmupSets,
+	calculatePlates,
+	formatPlates,
+} from '../../lib/plates';
+
+type PlateCalculatorProps = {
+	weight: number; // Working weight to load, in the unit
+	unit: WeightUnit; // Unit the weight is entered in; picks the bar and plates used
+	setup: PlateSetup; // The signed-in user's bar and plates for each unit
+	onSetupChange: (setup: PlateSetup) => void; // Called with the setup once saved
+	onAddWarmups: (sets: WarmupSet[]) => void; // Called with the warm-up ramp to insert
+};
+
+/**
+ * PlateCalculator
+ * Plates to load on each side of the bar for a working weight, a button that inserts
+ * a warm-up ramp up to it, and an editor for the bar weight and plate inventory.
+ * Used by the workout logger and the update workout page.
+ */
+const PlateCalculator = ({
+	weight,
+	unit,
+	setup,
+	onSetupChange,
+	onAddWarmups,
+}: PlateCalculatorProps) => {
+	const [editing, setEditing] = useState<BarSetup | null>(null); // Bar and plates being edited, if any
+	const [saving, setSaving] = useState<boolean>(false);
+	const barSetup = setup[unit];
+	const load = calculatePlates(weight, barSetup);
+	const warmups = buildWarmupSets(weight, barSetup);
+
+	/**
+	 * handleSave
+	 * Saves the edited bar and plates as the user's setup for the unit.
+	 */
+	const handleSave = async () => {
+		if (!editing) return;
+		setSaving(true);
+
+		try {
+			const response = await fetch('/api/preferences', {
+				method: 'PUT',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({
+					plateSetup: {
+						...setup,
+						[unit]: {
+							bar: editing.bar,
+							plates: editing.plates
+								.filter(plate => plate.weight > 0)
+								.sort((a, b) => b.weight - a.weight),
+						},
+					},
+				}),
+			});
+			if (!response.ok) {
+				const errorData = await response.json();
+				throw new Error(errorData.error || 'Failed to save plates.');
+			}
+
+			const data: { plateSetup: PlateSetup } = await response.json();
+			onSetupChange(data.plateSetup);
+			setEditing(null);
+		} catch (error) {
+			alert(error instanceof Error ? error.message : 'Failed to save plates.');
+			console.error('Error saving plate setup:', error);
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	return (
+		<div className='mt-2 p-2 bg-gray-50 border border-gray-200 rounded-lg text-sm'>
+			{weight > 0 && (
+				<p>
+					Per side: {formatPlates(load.perSide, unit)}
+					{load.remainder !== 0 && (
+						<span className='text-orange-600'>
+							{' '}
+							(loads {load.achieved} {unitLabel(unit)}, not {weight})
+						</span>
+					)}
+				</p>
+			)}
+			<div className='mt-1 flex items-center gap-2'>
+				<button
+					type='button'
+					onClick={() => onAddWarmups(warmups)}
+					disabled={warmups.length === 0}
+					title={warmups
+						.map(set => `${set.weight} ${unitLabel(unit)} × ${set.reps}`)
+						.join(', ')}
+					className='px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50'>
+					Add warm-up sets
+				</button>
+				<button
+					type='button'
+					onClick={() =>
+						setEditing(
+							editing
+								? null
+								: {
+										bar: barSetup.bar,
+										plates: barSetup.plates.map(plate => ({ ...plate })),
+									},
+						)
+					}
+					className='text-blue-600 hover:underline'>
+					{editing
+						? 'Close'
+						: `Bar: ${barSetup.bar} ${unitLabel(unit)} · Plates`}
+				</button>
+			</div>
+			{editing && (
+				<div className='mt-2 space-y-1'>
+					<label className='flex items-center gap-2'>
+						Bar ({unitLabel(unit)}):
+						<input
+							type='number'
+							value={editing.bar}
+							onChange={e =>
+								setEditing({ ...editing, bar: Number(e.target.value) })
+							}
+							className='w-20 p-1 border border-gray-300 rounded'
+							min='0'
+							step='any'
+						/>
+					</label>
+					{editing.plates.map((plate, idx) => (
+						<div key={idx} className='flex items-center gap-2'>
+							<input
+								type='number'
+								value={plate.weight}
+								onChange={e =>
+									setEditing({
+										...editing,
+										plates: editing.plates.map((other, otherIdx) =>
+											otherIdx === idx
+												? { ...other, weight: Number(e.target.value) }
+												: other,
+										),
+									})
+								}
+								aria-label={`Plate weight (${unitLabel(unit)})`}
+								className='w-20 p-1 border border-gray-300 rounded'
+								min='0'
+								step='any'
+							/>
+							<span>{unitLabel(unit)} ×</span>
+							<input
+								type='number'
+								value={plate.pairs}
+								onChange={e =>
+									setEditing({
+										...editing,
+										plates: editing.plates.map((other, otherIdx) =>
+											otherIdx === idx
+												? { ...other, pairs: Number(e.target.value) }
+												: other,
+										),
+									})
+								}
+								aria-label='Pairs'
+								className='w-16 p-1 border border-gray-300 rounded'
+								min='0'
+								step='1'
+							/>
+							<span>pairs</span>
+							<button
+								type='button'
+								onClick={() =>
+									setEditing({
+										...editing,
+										plates: editing.plates.filter(
+											(_, otherIdx) => otherIdx !== idx,
+										),
+									})
+								}
+								className='text-red-600 hover:underline'>
+								Remove
+							</button>
+						</div>
+					))}
+					<div className='flex gap-2'>
+						<button
+							type='button'
+							onClick={() =>
+								setEditing({
+									...editing,
+									plates: [...editing.plates, { weight: 0, pairs: 1 }],
+								})
+							}
+							className='px-2 py-1 bg-gray-200 rounded hover:bg-gray-300'>
+							Add plate
+						</button>
+						<button
+							type='button'
+							onClick={handleSave}
+							disabled={saving}
+							className='px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50'>
+							{saving ? 'Saving...' : 'Save plates'}
+						</button>
+					</div>
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default PlateCalculator;
@@ -0,0 +1,484 @@
+'use client';
+
+import React, { FormEvent, useEffect, useState } from 'react';
+import ExercisePicker, { ExerciseDefinition } from './ExercisePicker';
+import { WeightUnit, unitLabel } from '../../lib/units';
+import {
+	PROGRAM_SCHEMES,
+	PROGRAM_SCHEME_LABELS,
+	ProgramExercisePrescription,
+	ProgramScheme,
+	WEEKDAY_LABELS,
+} from '../../lib/program-schemes';
+
+// Define the editable contents of a program
+export type ProgramFormValues = {
+	name: string; // Name of the program
+	startDate: string; // First day of week 1 (YYYY-MM-DD)
+	weeks: number; // Length of the block in weeks
+	days: {
+		id?: number; // Existing day being edited; absent for a new day
+		name: string; // Name of the day
+		weekday: number; // Day of the week it is scheduled on: 0 for Monday to 6 for Sunday
+		exercises: (ProgramExercisePrescription & {
+			name: string; // Name of the exercise
+		})[];
+	}[];
+};
+
+type ProgramFormProps = {
+	initialValues?: ProgramFormValues; // Contents to start from; empty when creating
+	unit: WeightUnit; // Unit training maxes and fixed weights are entered in
+	submitLabel: string; // Text of the submit button
+	onSubmit: (values: ProgramFormValues) => Promise<void>; // Saves the program; throw to show an error
+};
+
+/**
+ * toOptionalNumber
+ * Reads an optional number input; an empty input is null.
+ */
+const toOptionalNumber = (value: string): number | null =>
+	value === '' ? null : Number(value);
+
+/**
+ * ProgramForm
+ * Editor for a program's name, length, scheduled days and prescribed exercises.
+ * Used by both the create and the edit program pages.
+ */
+const ProgramForm = ({
+	initialValues = {
+		name: '',
+		startDate: new Date().toISOString().slice(0, 10),
+		weeks: 4,
+		days: [],
+	},
+	unit,
+	submitLabel,
+	onSubmit,
+}: ProgramFormProps) => {
+	const [values, setValues] = useState<ProgramFormValues>(initialValues);
+	const [definitions, setDefinitions] = useState<ExerciseDefinition[]>([]);
+	const [saving, setSaving] = useState<boolean>(false);
+	const [error, setError] = useState<string | null>(null);
+
+	// Load the exercise catalog for the type-ahead
+	useEffect(() => {
+		const fetchDefinitions = async () => {
+			try {
+				const response = await fetch('/api/exercise-definitions');
+				if (!response.ok) {
+					const errorData = await response.json();
+					throw new Error(errorData.error || 'Failed to fetch exercises.');
+				}
+				setDefinitions(await response.json());
+			} catch (err) {
+				console.error('Error fetching exercise catalog:', err); // Free text still works
+			}
+		};
+
+		fetchDefinitions();
+	}, []);
+
+	/**
+	 * updateDays
+	 * Applies a change to a copy of the day list.
+	 */
+	const updateDays = (change: (days: ProgramFormValues['days']) => void) => {
+		const days = values.days.map(day => ({
+			...day,
+			exercises: day.exercises.map(exercise => ({
+				...exercise,
+				sets: exercise.sets.map(set => ({ ...set })),
+			})),
+		}));
+		change(days);
+		setValues({ ...values, days });
+	};
+
+	/**
+	 * handleSubmit
+	 * Validates the form and hands the values to the page.
+	 */
+	const handleSubmit = async (e: FormEvent) => {
+		e.preventDefault();
+
+		const exercises = values.days.flatMap(day => day.exercises);
+		if (
+			exercises.some(
+				exercise =>
+					exercise.scheme !== 'WAVE_531' && exercise.sets.length === 0,
+			)
+		) {
+			setError('Every exercise needs at least one set, except 5/3/1 waves.');
+			return;
+		}
+		if (
+			exercises.some(
+				exercise =>
+					exercise.trainingMax === null &&
+					(exercise.scheme === 'WAVE_531' ||
+						exercise.sets.some(set => set.percent !== null)),
+			)
+		) {
+			setError('Exercises with percentage sets need a training max.');
+			return;
+		}
+
+		setSaving(true);
+		setError(null);
+
+		try {
+			await onSubmit(values);
+		} catch (err) {
+			setError(
+				err instanceof Error ? err.message : 'An unexpected error occurred.',
+			);
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	return (
+		<form onSubmit={handleSubmit}>
+			{/* Program Name, Start and Length Inputs */}
+			<div className='mb-4'>
+				<label className='block text-lg font-medium mb-2'>
+					Name:
+					<input
+						type='text'
+						value={values.name}
+						onChange={e => setValues({ ...values, name: e.target.value })}
+						placeholder='e.g. 5/3/1 Boring But Big'
+						className='w-full p-2 border border-gray-300 rounded-lg font-normal'
+						required
+					/>
+				</label>
+			</div>
+			<div className='mb-4 flex space-x-4'>
+				<label className='block text-lg font-medium'>
+					Start Date:
+					<input
+						type='date'
+						value={values.startDate}
+						onChange={e => setValues({ ...values, startDate: e.target.value })}
+						className='w-full p-2 border border-gray-300 rounded-lg font-normal'
+						required
+					/>
+				</label>
+				<label className='block text-lg font-medium'>
+					Weeks:
+					<input
+						type='number'
+						value={values.weeks}
+						onChange={e =>
+							setValues({ ...values, weeks: Number(e.target.value) })
+						}
+						className='w-full p-2 border border-gray-300 rounded-lg font-normal'
+						min='1'
+						max='52'
+						required
+					/>
+				</label>
+			</div>
+			{/* Days Section */}
+			<div className='mb-6'>
+				<h2 className='text-xl font-semibold mb-2'>Days</h2>
+				{values.days.map((day, dayIndex) => (
+					<div
+						key={day.id ?? `new-${dayIndex}`}
+						className='mb-4 p-4 bg-white rounded-lg shadow'>
+						<div className='flex items-center mb-2 space-x-2'>
+							<input
+								type='text'
+								value={day.name}
+								onChange={e =>
+									updateDays(days => {
+										days[dayIndex].name = e.target.value;
+									})
+								}
+								placeholder='Day Name'
+								aria-label='Day Name'
+								className='flex-1 p-2 border border-gray-300 rounded-lg'
+								required
+							/>
+							<select
+								value={day.weekday}
+								onChange={e =>
+									updateDays(days => {
+										days[dayIndex].weekday = Number(e.target.value);
+									})
+								}
+								aria-label='Weekday'
+								className='p-2 border border-gray-300 rounded-lg'>
+								{WEEKDAY_LABELS.map((label, weekday) => (
+									<option key={label} value={weekday}>
+										{label}
+									</option>
+								))}
+							</select>
+							<button
+								type='button'
+								onClick={() =>
+									updateDays(days => {
+										days.splice(dayIndex, 1);
+									})
+								}
+								className='px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700'>
+								Remove
+							</button>
+						</div>
+						{/* Prescribed Exercises */}
+						{day.exercises.map((exercise, exerciseIndex) => (
+							<div
+								key={exerciseIndex}
+								className='ml-4 mb-4 p-2 border-l-4 border-gray-200'>
+								<div className='flex justify-between items-center mb-2'>
+									<ExercisePicker
+										definitions={definitions}
+										value={exercise.name}
+										onChange={name =>
+											updateDays(days => {
+												days[dayIndex].exercises[exerciseIndex].name = name;
+											})
+										}
+										placeholder='Exercise Name'
+										className='w-3/4'
+										required
+									/>
+									<button
+										type='button'
+										onClick={() =>
+											updateDays(days => {
+												days[dayIndex].exercises.splice(exerciseIndex, 1);
+											})
+										}
+										className='px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700'>
+										Remove
+									</button>
+								</div>
+								<div className='flex flex-wrap items-center gap-2 mb-2'>
+									<select
+										value={exercise.scheme}
+										onChange={e =>
+											updateDays(days => {
+												days[dayIndex].exercises[exerciseIndex].scheme = e
+													.target.value as ProgramScheme;
+											})
+										}
+										aria-label='Progression'
+										className='p-2 border border-gray-300 rounded-lg'>
+										{PROGRAM_SCHEMES.map(scheme => (
+											<option key={scheme} value={scheme}>
+												{PROGRAM_SCHEME_LABELS[scheme]}
+											</option>
+										))}
+									</select>
+									<input
+										type='number'
+										value={exercise.trainingMax ?? ''}
+										onChange={e =>
+											updateDays(days => {
+												days[dayIndex].exercises[exerciseIndex].trainingMax =
+													toOptionalNumber(e.target.value);
+											})
+										}
+										placeholder={`Training max (${unitLabel(unit)})`}
+										aria-label={`Training max (${unitLabel(unit)})`}
+										className='w-40 p-2 border border-gray-300 rounded-lg'
+										min='0'
+										step='any'
+									/>
+									{exercise.scheme === 'LINEAR_PERCENT' && (
+										<input
+											type='number'
+											value={exercise.weeklyIncrement ?? ''}
+											onChange={e =>
+												updateDays(days => {
+													days[dayIndex].exercises[
+														exerciseIndex
+													].weeklyIncrement = toOptionalNumber(e.target.value);
+												})
+											}
+											placeholder='+% per week'
+											aria-label='Percentage points added each week'
+											className='w-32 p-2 border border-gray-300 rounded-lg'
+											step='any'
+										/>
+									)}
+								</div>
+								{exercise.scheme === 'WAVE_531' ? (
+									<p className='text-gray-600'>
+										Sets follow the 5/3/1 waves: 5s, 3s, 5/3/1, then a deload.
+									</p>
+								) : (
+									<>
+										{exercise.sets.map((set, setIndex) => (
+											<div key={setIndex} className='flex items-center mb-2'>
+												<input
+													type='number'
+													value={set.reps}
+													onChange={e =>
+														updateDays(days => {
+															days[dayIndex].exercises[exerciseIndex].sets[
+																setIndex
+															].reps = Number(e.target.value);
+														})
+													}
+													placeholder='Reps'
+													aria-label='Reps'
+													className='w-20 p-2 border border-gray-300 rounded-lg mr-2'
+													min='0'
+													required
+												/>
+												<input
+													type='number'
+													value={set.percent ?? set.weight ?? 0}
+													onChange={e =>
+														updateDays(days => {
+															const target =
+																days[dayIndex].exercises[exerciseIndex].sets[
+																	setIndex
+																];
+															if (target.percent !== null) {
+																target.percent = Number(e.target.value);
+															} else {
+																target.weight = Number(e.target.value);
+															}
+														})
+													}
+													aria-label={
+														set.percent !== null
+															? 'Percentage of training max'
+															: `Weight (${unitLabel(unit)})`
+													}
+													className='w-24 p-2 border border-gray-300 rounded-lg mr-2'
+													min='0'
+													step='any'
+													required
+												/>
+												<select
+													value={set.percent !== null ? 'PERCENT' : 'WEIGHT'}
+													onChange={e =>
+														updateDays(days => {
+															const target =
+																days[dayIndex].exercises[exerciseIndex].sets[
+																	setIndex
+																];
+															const amount =
+																target.percent ?? target.weight ?? 0;
+															target.percent =
+																e.target.value === 'PERCENT' ? amount : null;
+															target.weight =
+																e.target.value === 'WEIGHT' ? amount : null;
+														})
+													}
+													aria-label='Load'
+													className='p-2 border border-gray-300 rounded-lg mr-2'>
+													<option value='PERCENT'>% TM</option>
+													<option value='WEIGHT'>{unitLabel(unit)}</option>
+												</select>
+												<label className='flex items-center mr-2'>
+													<input
+														type='checkbox'
+														checked={set.amrap}
+														onChange={e =>
+															updateDays(days => {
+																days[dayIndex].exercises[exerciseIndex].sets[
+																	setIndex
+																].amrap = e.target.checked;
+															})
+														}
+														className='mr-1'
+													/>
+													AMRAP
+												</label>
+												<button
+													type='button'
+													onClick={() =>
+														updateDays(days => {
+															days[dayIndex].exercises[
+																exerciseIndex
+															].sets.splice(setIndex, 1);
+														})
+													}
+													className='px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700'>
+													Remove
+												</button>
+											</div>
+										))}
+										<button
+											type='button'
+											onClick={() =>
+												updateDays(days => {
+													// Start from the previous set so uniform sets are quick to enter
+													const sets =
+														days[dayIndex].exercises[exerciseIndex].sets;
+													const previous = sets[sets.length - 1];
+													sets.push(
+														previous
+															? { ...previous }
+															: {
+																	reps: 5,
+																	percent: 75,
+																	weight: null,
+																	amrap: false,
+																},
+													);
+												})
+											}
+											className='mt-1 px-3 py-1 bg-green-600 text-white rounded-lg hover:bg-green-700'>
+											Add Set
+										</button>
+									</>
+								)}
+							</div>
+						))}
+						<button
+							type='button'
+							onClick={() =>
+								updateDays(days => {
+									days[dayIndex].exercises.push({
+										name: '',
+										scheme: 'FIXED',
+										trainingMax: null,
+										weeklyIncrement: null,
+										sets: [],
+									});
+								})
+							}
+							className='ml-4 px-3 py-1 bg-green-600 text-white rounded-lg hover:bg-green-700'>
+							Add Exercise
+						</button>
+					</div>
+				))}
+				<button
+					type='button'
+					onClick={() =>
+						updateDays(days => {
+							// New days default to two days after the last one, leaving a rest day
+							const previous = days[days.length - 1];
+							days.push({
+								name: '',
+								weekday: previous ? (previous.weekday + 2) % 7 : 0,
+								exercises: [],
+							});
+						})
+					}
+					className='mt-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700'>
+					Add Day
+				</button>
+			</div>
+			{error && <p className='mb-4 text-red-500'>{error}</p>}
+			<button
+				type='submit'
+				className={`w-full p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 ${
+					saving ? 'opacity-50 cursor-not-allowed' : ''
+				}`}
+				disabled={saving}>
+				{saving ? 'Saving...' : submitLabel}
+			</button>
+		</form>
+	);
+};
+
+export default ProgramForm;
@@ -0,0 +1,74 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatDuration } from '../../lib/durations';
+
+type RestTimerProps = {
+	endsAt: number; // Time the rest is over, in milliseconds since the epoch
+	onAdjust: (seconds: number) => void; // Lengthens (or shortens, if negative) the rest
+	onDismiss: () => void; // Hides the timer
+};
+
+// Step of the adjust buttons, in seconds
+const ADJUST_STEP = 15;
+
+/**
+ * RestTimer
+ * Countdown shown between sets. Vibrates once, where supported, when the rest is over.
+ */
+const RestTimer = ({ endsAt, onAdjust, onDismiss }: RestTimerProps) => {
+	const [now, setNow] = useState<number>(() => Date.now());
+
+	// Tick once a second
+	useEffect(() => {
+		const timer = setInterval(() => setNow(Date.now()), 1000);
+		return () => clearInterval(timer);
+	}, []);
+
+	const remaining = Math.ceil((endsAt - now) / 1000);
+	const done = remaining <= 0;
+
+	// Buzz when the rest runs out
+	useEffect(() => {
+		if (done) navigator.vibrate?.(300);
+	}, [done]);
+
+	return (
+		<div
+			className={`mb-4 p-3 rounded-lg flex items-center justify-between ${
+				done ? 'bg-green-100 text-green-900' : 'bg-blue-100 text-blue-900'
+			}`}
+			role='timer'
+			aria-live='polite'>
+			<span className='text-lg font-semibold'>
+				{done ? 'Rest over, next set!' : `Rest ${formatDuration(remaining)}`}
+			</span>
+			<div className='flex gap-2'>
+				{!done && (
+					<>
+						<button
+							type='button'
+							onClick={() => onAdjust(-ADJUST_STEP)}
+							className='px-2 py-1 bg-white rounded-lg'>
+							-{ADJUST_STEP}s
+						</button>
+						<button
+							type='button'
+							onClick={() => onAdjust(ADJUST_STEP)}
+							className='px-2 py-1 bg-white rounded-lg'>
+							+{ADJUST_STEP}s
+						</button>
+					</>
+				)}
+				<button
+					type='button'
+					onClick={onDismiss}
+					className='px-2 py-1 bg-white rounded-lg'>
+					{done ? 'Dismiss' : 'Skip'}
+				</button>
+			</div>
+		</div>
+	);
+};
+
+export default RestTimer;
@@ -0,0 +1,154 @@
+'use client';
+
+import React, { useEffect, useId, useState } from 'react';
+import Link from 'next/link';
+import {
+	HighlightSegment,
+	SEARCH_FIELD_LABELS,
+	SearchField,
+} from '../../lib/search';
+
+// Define the structure of a search result as received from the API
+type SearchResult = {
+	id: number; // Unique identifier for the workout
+	date: string; // ISO string representing the workout date
+	exerciseNames: string[]; // Names of the exercises, in order
+	highlights: {
+		field: SearchField; // Field the snippet comes from
+		segments: HighlightSegment[]; // Snippet split into matched and unmatched pieces
+	}[];
+};
+
+// Shortest query searched for, and how long typing must pause before searching
+const MIN_QUERY_LENGTH = 2;
+const DEBOUNCE_MS = 250;
+
+/**
+ * Highlighted
+ * Renders a snippet with its matched pieces marked.
+ */
+const Highlighted = ({ segments }: { segments: HighlightSegment[] }) => (
+	<>
+		{segments.map((segment, idx) =>
+			segment.match ? (
+				<mark key={idx} className='bg-yellow-200 rounded-sm'>
+					{segment.text}
+				</mark>
+			) : (
+				<span key={idx}>{segment.text}</span>
+			),
+		)}
+	</>
+);
+
+/**
+ * SearchBox
+ * Search input for the navbar that shows matching workouts as you type.
+ * Searches exercise names, notes and tags through /api/search.
+ */
+const SearchBox = () => {
+	const listId = useId(); // Links the input to its result list for screen readers
+	const [query, setQuery] = useState<string>(''); // Text typed into the box
+	const [results, setResults] = useState<SearchResult[]>([]); // Results of the latest search
+	const [open, setOpen] = useState<boolean>(false); // Whether the dropdown is visible
+	const [loading, setLoading] = useState<boolean>(false); // Whether a search is in flight
+
+	// useEffect hook to search once typing pauses, cancelling searches that are out of date
+	useEffect(() => {
+		const trimmed = query.trim();
+		if (trimmed.length < MIN_QUERY_LENGTH) {
+			setResults([]);
+			setLoading(false);
+			return;
+		}
+
+		const controller = new AbortController();
+		const timer = setTimeout(async () => {
+			setLoading(true);
+			try {
+				const response = await fetch(
+					`/api/search?q=${encodeURIComponent(trimmed)}`,
+					{ signal: controller.signal },
+				);
+				if (!response.ok) throw new Error('Failed to search workouts.');
+
+				const data: { results: SearchResult[] } = await response.json();
+				setResults(data.results);
+			} catch (error) {
+				if (controller.signal.aborted) return; // A newer search replaced this one
+				console.error('Error searching workouts:', error);
+				setResults([]);
+			}
+			setLoading(false);
+		}, DEBOUNCE_MS);
+
+		return () => {
+			clearTimeout(timer);
+			controller.abort();
+		};
+	}, [query]);
+
+	const showDropdown = open && query.trim().length >= MIN_QUERY_LENGTH;
+
+	return (
+		<div className='relative'>
+			<input
+				type='search'
+				value={query}
+				onChange={e => {
+					setQuery(e.target.value);
+					setOpen(true);
+				}}
+				onFocus={() => setOpen(true)}
+				onBlur={() => setOpen(false)}
+				onKeyDown={e => {
+					if (e.key === 'Escape') setOpen(false);
+				}}
+				placeholder='Search workouts...'
+				role='combobox'
+				aria-controls={listId}
+				aria-expanded={showDropdown}
+				className='w-56 px-3 py-1 rounded bg-gray-700 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500'
+			/>
+			{showDropdown && (
+				<ul
+					id={listId}
+					className='absolute right-0 z-20 mt-1 w-96 max-h-96 overflow-y-auto bg-white rounded-lg shadow-lg'>
+					{loading && results.length === 0 && (
+						<li className='p-3 text-sm text-gray-500'>Searching...</li>
+					)}
+					{!loading && results.length === 0 && (
+						<li className='p-3 text-sm text-gray-500'>No matching workouts.</li>
+					)}
+					{results.map(result => (
+						<li key={result.id} className='border-b last:border-b-0'>
+							{/* Keep focus in the input until the click lands on the link */}
+							<Link
+								href={`/workouts/${result.id}`}
+								onMouseDown={e => e.preventDefault()}
+								onClick={() => setOpen(false)}
+								className='block p-3 hover:bg-gray-100'>
+								<span className='block font-medium'>
+									{new Date(result.date).toLocaleDateString()}
+								</span>
+								<span className='block text-xs text-gray-500 truncate'>
+									{result.exerciseNames.join(', ')}
+								</span>
+								{result.highlights.map((match, idx) => (
+									<span key={idx} className='block text-sm text-gray-700'>
+										<span className='text-gray-500'>
+											{SEARCH_FIELD_LABELS[match.field]}:{' '}
+										</span>
+										<Highlighted segments={match.segments} />
+									</span>
+								))}
+							</Link>
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+};
+
+export default SearchBox;
@@ -0,0 +1,67 @@
+'use client';
+
+import {
+	SET_TYPES,
+	SET_TYPE_LABELS,
+	SetEffort,
+	SetType,
+} from '../../lib/set-types';
+
+type SetEffortInputsProps = {
+	value: SetEffort; // Current type, RPE and RIR of the set
+	onChange: (value: SetEffort) => void; // Called with the whole updated effort
+};
+
+/**
+ * parseOptional
+ * Reads an optional number input; an empty field clears the value.
+ */
+const parseOptional = (value: string): number | null =>
+	value === '' ? null : Number(value);
+
+/**
+ * SetEffortInputs
+ * Set type picker with optional RPE and RIR inputs.
+ * Used by the workout logger and the update workout page.
+ */
+const SetEffortInputs = ({ value, onChange }: SetEffortInputsProps) => (
+	<div className='flex items-center gap-2'>
+		<select
+			value={value.type ?? 'WORKING'}
+			onChange={e => onChange({ ...value, type: e.target.value as SetType })}
+			aria-label='Set type'
+			className='p-2 border border-gray-300 rounded-lg'>
+			{SET_TYPES.map(type => (
+				<option key={type} value={type}>
+					{SET_TYPE_LABELS[type]}
+				</option>
+			))}
+		</select>
+		<input
+			type='number'
+			value={value.rpe ?? ''}
+			onChange={e => onChange({ ...value, rpe: parseOptional(e.target.value) })}
+			placeholder='RPE'
+			aria-label='RPE'
+			title='Rate of perceived exertion (1-10)'
+			className='w-20 p-2 border border-gray-300 rounded-lg'
+			min='1'
+			max='10'
+			step='0.5'
+		/>
+		<input
+			type='number'
+			value={value.rir ?? ''}
+			onChange={e => onChange({ ...value, rir: parseOptional(e.target.value) })}
+			placeholder='RIR'
+			aria-label='RIR'
+			title='Reps in reserve'
+			className='w-20 p-2 border border-gray-300 rounded-lg'
+			min='0'
+			max='10'
+			step='1'
+		/>
+	</div>
+);
+
+export default SetEffortInputs;
@@ -0,0 +1,45 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { clearDrafts } from '../../lib/offline-store';
+import { forgetQueueOwner } from '../../lib/sync-queue';
+
+const SignOutButton = () => {
+	const router = useRouter();
+
+	/**
+	 * handleSignOut
+	 * Ends the session on the server, forgets the drafts and cached pages kept on the
+	 * device so the next person to sign in doesn't get them, and returns to the sign-in page.
+	 */
+	const handleSignOut = async () => {
+		try {
+			await fetch('/api/sign-out', { method: 'POST' });
+		} catch (error) {
+			console.error('Error signing out:', error);
+		}
+
+		forgetQueueOwner(); // Nothing is queued or restored for this user any more
+		try {
+			await clearDrafts();
+			if ('caches' in window) {
+				// The service worker's cached pages were rendered for this user
+				const keys = await caches.keys();
+				await Promise.all(keys.map(key => caches.delete(key)));
+			}
+		} catch (error) {
+			console.error('Error clearing offline data:', error);
+		}
+
+		router.push('/sign-in');
+		router.refresh(); // Re-render server components such as the Navbar
+	};
+
+	return (
+		<button onClick={handleSignOut} className='text-gray-300 hover:text-white'>
+			Sign Out
+		</button>
+	);
+};
+
+export default SignOutButton;
@@ -0,0 +1,240 @@
+'use client';
+
+import React, { FormEvent, useEffect, useState } from 'react';
+import ExercisePicker, { ExerciseDefinition } from './ExercisePicker';
+import { WeightUnit, unitLabel } from '../../lib/units';
+
+// Define the editable contents of a template
+export type TemplateFormValues = {
+	name: string; // Name of the routine
+	exercises: {
+		name: string; // Name of the exercise
+		sets: {
+			reps: number; // Target number of repetitions
+			weight: number; // Target weight, in the user's unit
+		}[];
+	}[];
+};
+
+type TemplateFormProps = {
+	initialValues?: TemplateFormValues; // Contents to start from; empty when creating
+	unit: WeightUnit; // Unit target weights are entered in
+	submitLabel: string; // Text of the submit button
+	onSubmit: (values: TemplateFormValues) => Promise<void>; // Saves the template; throw to show an error
+};
+
+/**
+ * TemplateForm
+ * Editor for a template's name, planned exercises and target sets.
+ * Used by both the create and the edit template pages.
+ */
+const TemplateForm = ({
+	initialValues = { name: '', exercises: [] },
+	unit,
+	submitLabel,
+	onSubmit,
+}: TemplateFormProps) => {
+	const [values, setValues] = useState<TemplateFormValues>(initialValues);
+	const [definitions, setDefinitions] = useState<ExerciseDefinition[]>([]);
+	const [saving, setSaving] = useState<boolean>(false);
+	const [error, setError] = useState<string | null>(null);
+
+	// Load the exercise catalog for the type-ahead
+	useEffect(() => {
+		const fetchDefinitions = async () => {
+			try {
+				const response = await fetch('/api/exercise-definitions');
+				if (!response.ok) {
+					const errorData = await response.json();
+					throw new Error(errorData.error || 'Failed to fetch exercises.');
+				}
+				setDefinitions(await response.json());
+			} catch (err) {
+				console.error('Error fetching exercise catalog:', err); // Free text still works
+			}
+		};
+
+		fetchDefinitions();
+	}, []);
+
+	/**
+	 * updateExercises
+	 * Applies a change to a copy of the exercise list.
+	 */
+	const updateExercises = (
+		change: (exercises: TemplateFormValues['exercises']) => void,
+	) => {
+		const exercises = values.exercises.map(exercise => ({
+			...exercise,
+			sets: exercise.sets.map(set => ({ ...set })),
+		}));
+		change(exercises);
+		setValues({ ...values, exercises });
+	};
+
+	/**
+	 * handleSubmit
+	 * Validates the form and hands the values to the page.
+	 */
+	const handleSubmit = async (e: FormEvent) => {
+		e.preventDefault();
+
+		if (values.exercises.some(exercise => exercise.sets.length === 0)) {
+			setError('Every exercise needs at least one target set.');
+			return;
+		}
+
+		setSaving(true);
+		setError(null);
+
+		try {
+			await onSubmit(values);
+		} catch (err) {
+			setError(
+				err instanceof Error ? err.message : 'An unexpected error occurred.',
+			);
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	return (
+		<form onSubmit={handleSubmit}>
+			{/* Template Name Input */}
+			<div className='mb-4'>
+				<label className='block text-lg font-medium mb-2'>
+					Name:
+					<input
+						type='text'
+						value={values.name}
+						onChange={e => setValues({ ...values, name: e.target.value })}
+						placeholder='e.g. Push Day A'
+						className='w-full p-2 border border-gray-300 rounded-lg font-normal'
+						required
+					/>
+				</label>
+			</div>
+			{/* Exercises Section */}
+			<div className='mb-6'>
+				<h2 className='text-xl font-semibold mb-2'>Exercises</h2>
+				{values.exercises.map((exercise, exerciseIndex) => (
+					<div
+						key={exerciseIndex}
+						className='mb-4 p-4 bg-white rounded-lg shadow'>
+						<div className='flex justify-between items-center mb-2'>
+							<ExercisePicker
+								definitions={definitions}
+								value={exercise.name}
+								onChange={name =>
+									updateExercises(exercises => {
+										exercises[exerciseIndex].name = name;
+									})
+								}
+								placeholder='Exercise Name'
+								className='w-3/4'
+								required
+							/>
+							<button
+								type='button'
+								onClick={() =>
+									updateExercises(exercises => {
+										exercises.splice(exerciseIndex, 1);
+									})
+								}
+								className='px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700'>
+								Remove
+							</button>
+						</div>
+						{/* Target Sets */}
+						<div className='ml-4'>
+							<h3 className='text-lg font-medium mb-2'>Target Sets:</h3>
+							{exercise.sets.map((set, setIndex) => (
+								<div key={setIndex} className='flex items-center mb-2'>
+									<input
+										type='number'
+										value={set.reps}
+										onChange={e =>
+											updateExercises(exercises => {
+												exercises[exerciseIndex].sets[setIndex].reps = Number(
+													e.target.value,
+												);
+											})
+										}
+										placeholder='Reps'
+										aria-label='Reps'
+										className='w-24 p-2 border border-gray-300 rounded-lg mr-2'
+										min='0'
+										required
+									/>
+									<input
+										type='number'
+										value={set.weight}
+										onChange={e =>
+											updateExercises(exercises => {
+												exercises[exerciseIndex].sets[setIndex].weight = Number(
+													e.target.value,
+												);
+											})
+										}
+										placeholder={`Weight (${unitLabel(unit)})`}
+										aria-label={`Weight (${unitLabel(unit)})`}
+										className='w-32 p-2 border border-gray-300 rounded-lg mr-2'
+										min='0'
+										step='any'
+										required
+									/>
+									<button
+										type='button'
+										onClick={() =>
+											updateExercises(exercises => {
+												exercises[exerciseIndex].sets.splice(setIndex, 1);
+											})
+										}
+										className='px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700'>
+										Remove
+									</button>
+								</div>
+							))}
+							<button
+								type='button'
+								onClick={() =>
+									updateExercises(exercises => {
+										// Start from the previous target so uniform sets are quick to enter
+										const sets = exercises[exerciseIndex].sets;
+										const previous = sets[sets.length - 1];
+										exercises[exerciseIndex].sets.push(
+											previous ? { ...previous } : { reps: 0, weight: 0 },
+										);
+									})
+								}
+								className='mt-2 px-3 py-1 bg-green-600 text-white rounded-lg hover:bg-green-700'>
+								Add Set
+							</button>
+						</div>
+					</div>
+				))}
+				<button
+					type='button'
+					onClick={() =>
+						updateExercises(exercises => {
+							exercises.push({ name: '', sets: [] });
+						})
+					}
+					className='mt-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700'>
+					Add Exercise
+				</button>
+			</div>
+			{error && <p className='mb-4 text-red-500'>{error}</p>}
+			<button
+				type='submit'
+				className={`w-full p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 ${
+					saving ? 'opacity-50 cursor-not-allowed' : ''
+				}`}
+				disabled={saving}>
+				{saving ? 'Saving...' : submitLabel}
+			</button>
+		</form>
+	);
+};
+
+export default TemplateForm;
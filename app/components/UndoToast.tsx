@@ -0,0 +1,88 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { WORKOUT_TRASHED_EVENT } from '../../lib/trash';
+
+// How long the toast offers to undo a deletion, in milliseconds
+const UNDO_WINDOW = 10000;
+
+/**
+ * UndoToast
+ * Offers to undo a deletion for a few seconds after a workout is moved to the trash.
+ * Lives in the layout so it survives the navigation away from the deleted workout.
+ */
+const UndoToast = () => {
+	const router = useRouter();
+	const [workoutId, setWorkoutId] = useState<number | null>(null);
+	const [restoring, setRestoring] = useState<boolean>(false);
+
+	// Show the toast whenever a workout is trashed
+	useEffect(() => {
+		const handleTrashed = (event: Event) =>
+			setWorkoutId((event as CustomEvent<number>).detail);
+
+		window.addEventListener(WORKOUT_TRASHED_EVENT, handleTrashed);
+		return () =>
+			window.removeEventListener(WORKOUT_TRASHED_EVENT, handleTrashed);
+	}, []);
+
+	// Hide it again once the undo window has passed
+	useEffect(() => {
+		if (workoutId === null) return;
+
+		const timer = setTimeout(() => setWorkoutId(null), UNDO_WINDOW);
+		return () => clearTimeout(timer);
+	}, [workoutId]);
+
+	/**
+	 * handleUndo
+	 * Restores the trashed workout and goes back to it.
+	 */
+	const handleUndo = async () => {
+		if (workoutId === null) return;
+		setRestoring(true);
+
+		try {
+			const response = await fetch(`/api/trash/${workoutId}/restore`, {
+				method: 'POST',
+			});
+			if (!response.ok) {
+				const errorData = await response.json();
+				throw new Error(errorData.error || 'Failed to restore workout.');
+			}
+
+			router.push(`/workouts/${workoutId}`);
+			setWorkoutId(null);
+		} catch (error) {
+			alert(
+				error instanceof Error ? error.message : 'Failed to restore workout.',
+			);
+			console.error('Error restoring workout:', error);
+		} finally {
+			setRestoring(false);
+		}
+	};
+
+	if (workoutId === null) return null;
+
+	return (
+		<div className='fixed bottom-4 left-1/2 -translate-x-1/2 px-4 py-3 bg-gray-800 text-white rounded-lg shadow-lg flex items-center gap-4'>
+			<span>Workout moved to the trash.</span>
+			<button
+				onClick={handleUndo}
+				disabled={restoring}
+				className='font-semibold text-yellow-300 hover:underline disabled:opacity-50'>
+				{restoring ? 'Restoring...' : 'Undo'}
+			</button>
+			<button
+				onClick={() => setWorkoutId(null)}
+				aria-label='Dismiss'
+				className='text-gray-400 hover:text-white'>
+				×
+			</button>
+		</div>
+	);
+};
+
+export default UndoToast;
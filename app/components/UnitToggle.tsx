@@ -0,0 +1,52 @@
+'use client';
+
+import { useState } from 'react';
+import { WeightUnit, unitLabel } from '../../lib/units';
+
+type UnitToggleProps = {
+	unit: WeightUnit; // The signed-in user's current weight unit
+};
+
+/**
+ * UnitToggle
+ * Switches the signed-in user's weight unit between kg and lb.
+ * Pages fetch their data in the user's unit, so the page reloads after a switch.
+ */
+const UnitToggle = ({ unit }: UnitToggleProps) => {
+	const [saving, setSaving] = useState<boolean>(false);
+	const nextUnit: WeightUnit = unit === 'KG' ? 'LB' : 'KG';
+
+	/**
+	 * handleToggle
+	 * Saves the other unit as the user's preference.
+	 */
+	const handleToggle = async () => {
+		setSaving(true);
+
+		try {
+			const response = await fetch('/api/preferences', {
+				method: 'PUT',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ weightUnit: nextUnit }),
+			});
+			if (!response.ok) throw new Error('Failed to update unit.');
+
+			window.location.reload(); // Refetch every weight in the new unit
+		} catch (error) {
+			console.error('Error updating weight unit:', error);
+			setSaving(false);
+		}
+	};
+
+	return (
+		<button
+			onClick={handleToggle}
+			disabled={saving}
+			title={`Switch to ${unitLabel(nextUnit)}`}
+			className='text-gray-300 hover:text-white'>
+			{unitLabel(unit)}
+		</button>
+	);
+};
+
+export default UnitToggle;
@@ -0,0 +1,251 @@
+// app/dashboard/page.tsx
+
+'use client'; // Enables client-side rendering for this component
+
+import React, { useEffect, useState } from 'react'; // Import React and hooks
+import BarChart from '../components/BarChart'; // Import the SVG bar chart
+import LineChart from '../components/LineChart'; // Import the SVG line chart
+import { WeightUnit, formatWeight, unitLabel } from '../../lib/units'; // Import weight unit helpers
+import { formatDuration } from '../../lib/durations'; // Import duration helpers
+
+// Define the structure of one week of totals as received from the API
+type WeekTotals = {
+	weekStart: string; // Monday the week starts on (YYYY-MM-DD)
+	sessions: number; // Number of workouts in the week
+	tonnage: number; // Sum of the workouts' volume, in the user's unit
+	averageDurationSeconds: number | null; // Mean length of the timed workouts, if any
+};
+
+// Define the structure of the weekly sets of one muscle group as received from the API
+type MuscleGroupSets = {
+	muscle: string; // Muscle group (e.g., chest)
+	sets: number[]; // Working sets per week, aligned with the weeks
+	total: number; // Working sets over the whole range
+};
+
+// Define the structure of the dashboard data as received from the API
+type Analytics = {
+	unit: WeightUnit; // Unit of every tonnage
+	weeks: WeekTotals[]; // One entry per week, oldest first
+	muscleGroups: MuscleGroupSets[]; // Working sets per muscle group, busiest first
+	frequency: {
+		averageSessionsPerWeek: number; // Mean workouts per week over the range
+		trainedWeeks: number; // Weeks of the range with at least one workout
+	};
+	streaks: { current: number; longest: number }; // Consecutive trained weeks
+};
+
+// Ranges offered by the range selector, in weeks
+const RANGES = [4, 12, 26, 52];
+
+/**
+ * toLocalDate
+ * Treats a week's YYYY-MM-DD as a local date, so labels don't shift a day west of UTC.
+ */
+const toLocalDate = (weekStart: string): string => `${weekStart}T00:00:00`;
+
+/**
+ * cellShade
+ * Background class of a muscle group cell, darker for more sets relative to the busiest week.
+ */
+const cellShade = (sets: number, max: number): string => {
+	if (sets === 0 || max === 0) return 'bg-white';
+	const ratio = sets / max;
+	if (ratio > 0.75) return 'bg-blue-500 text-white';
+	if (ratio > 0.5) return 'bg-blue-300';
+	if (ratio > 0.25) return 'bg-blue-200';
+	return 'bg-blue-100';
+};
+
+const DashboardPage = () => {
+	const [analytics, setAnalytics] = useState<Analytics | null>(null); // State to hold the aggregates
+	const [loading, setLoading] = useState<boolean>(true); // State to manage loading status
+	const [error, setError] = useState<string | null>(null); // State to manage error messages
+	const [range, setRange] = useState<number>(12); // Number of weeks shown
+
+	// useEffect hook to fetch the aggregates whenever the range changes
+	useEffect(() => {
+		const fetchAnalytics = async () => {
+			setLoading(true); // Show the loading state while fetching
+
+			try {
+				const response = await fetch(`/api/analytics?weeks=${range}`); // Fetch the aggregates from the API
+
+				if (!response.ok) {
+					// Check if the response status is not OK (200)
+					const errorData = await response.json(); // Parse the error message from the response
+					throw new Error(errorData.error || 'Failed to fetch analytics.'); // Throw an error with the message
+				}
+
+				setAnalytics(await response.json()); // Update the analytics state with fetched data
+				setError(null); // Clear any previous error
+			} catch (err) {
+				// Catch any errors that occur during the fetch
+				setError(
+					err instanceof Error ? err.message : 'An unexpected error occurred.',
+				); // Update the error state with the error message
+				console.error('Error fetching analytics:', err); // Log the error for debugging
+			} finally {
+				setLoading(false); // Set loading to false regardless of success or failure
+			}
+		};
+
+		fetchAnalytics(); // Invoke the fetchAnalytics function
+	}, [range]); // Refetch when the range changes
+
+	const weeks = analytics?.weeks ?? [];
+	const muscleGroups = analytics?.muscleGroups ?? [];
+	const maxMuscleSets = Math.max(
+		0,
+		...muscleGroups.flatMap(group => group.sets),
+	);
+
+	return (
+		<div className='max-w-4xl mx-auto p-6 bg-gray-100 min-h-screen'>
+			<h1 className='text-3xl font-bold mb-6 text-center'>Dashboard</h1>
+			{/* Range selector */}
+			<div className='flex justify-end mb-6'>
+				<label className='flex flex-col'>
+					<span className='text-sm font-medium mb-1'>Range</span>
+					<select
+						value={range}
+						onChange={e => setRange(Number(e.target.value))}
+						className='p-2 border border-gray-300 rounded-lg'>
+						{RANGES.map(weeks => (
+							<option key={weeks} value={weeks}>
+								Last {weeks} weeks
+							</option>
+						))}
+					</select>
+				</label>
+			</div>
+			{/* Display loading state */}
+			{loading && <p>Loading dashboard...</p>}
+			{/* Display error message if any */}
+			{error && <p className='text-red-500'>{error}</p>}
+			{!loading && !error && analytics && (
+				<>
+					{/* Headline numbers */}
+					<div className='grid grid-cols-2 md:grid-cols-4 gap-4 mb-6'>
+						<div className='p-4 bg-white rounded-lg shadow'>
+							<p className='text-sm text-gray-500'>Current streak</p>
+							<p className='text-2xl font-semibold'>
+								{analytics.streaks.current} wk
+							</p>
+						</div>
+						<div className='p-4 bg-white rounded-lg shadow'>
+							<p className='text-sm text-gray-500'>Longest streak</p>
+							<p className='text-2xl font-semibold'>
+								{analytics.streaks.longest} wk
+							</p>
+						</div>
+						<div className='p-4 bg-white rounded-lg shadow'>
+							<p className='text-sm text-gray-500'>Workouts per week</p>
+							<p className='text-2xl font-semibold'>
+								{analytics.frequency.averageSessionsPerWeek.toFixed(1)}
+							</p>
+						</div>
+						<div className='p-4 bg-white rounded-lg shadow'>
+							<p className='text-sm text-gray-500'>Weeks trained</p>
+							<p className='text-2xl font-semibold'>
+								{analytics.frequency.trainedWeeks} / {weeks.length}
+							</p>
+						</div>
+					</div>
+					{/* Weekly charts */}
+					<BarChart
+						title='Weekly Tonnage'
+						unit={unitLabel(analytics.unit)}
+						bars={weeks.map(week => ({
+							date: toLocalDate(week.weekStart),
+							value: Math.round(week.tonnage),
+							label: `Week of ${new Date(
+								toLocalDate(week.weekStart),
+							).toLocaleDateString()}: ${formatWeight(
+								week.tonnage,
+								analytics.unit,
+							)}`,
+						}))}
+					/>
+					<BarChart
+						title='Workouts per Week'
+						color='#16a34a'
+						bars={weeks.map(week => ({
+							date: toLocalDate(week.weekStart),
+							value: week.sessions,
+						}))}
+					/>
+					<LineChart
+						title='Average Workout Duration'
+						unit='min'
+						color='#ea580c'
+						points={weeks
+							.filter(week => week.averageDurationSeconds !== null)
+							.map(week => ({
+								date: toLocalDate(week.weekStart),
+								value:
+									Math.round((week.averageDurationSeconds! / 60) * 10) / 10,
+								label: `Week of ${new Date(
+									toLocalDate(week.weekStart),
+								).toLocaleDateString()}: ${formatDuration(
+									week.averageDurationSeconds!,
+								)}`,
+							}))}
+					/>
+					{/* Working sets per muscle group per week */}
+					<h3 className='text-lg font-medium mb-2'>Sets per Muscle Group</h3>
+					{muscleGroups.length === 0 ? (
+						<p className='text-gray-500'>No data for this range.</p>
+					) : (
+						<div className='overflow-x-auto bg-white rounded-lg shadow'>
+							<table className='text-sm'>
+								<thead>
+									<tr>
+										<th className='p-2 text-left'>Muscle</th>
+										{weeks.map(week => (
+											<th
+												key={week.weekStart}
+												className='p-2 font-normal text-gray-500 whitespace-nowrap'>
+												{new Date(
+													toLocalDate(week.weekStart),
+												).toLocaleDateString(undefined, {
+													month: 'short',
+													day: 'numeric',
+												})}
+											</th>
+										))}
+										<th className='p-2'>Total</th>
+									</tr>
+								</thead>
+								<tbody>
+									{muscleGroups.map(group => (
+										<tr key={group.muscle}>
+											<td className='p-2 capitalize whitespace-nowrap'>
+												{group.muscle}
+											</td>
+											{group.sets.map((sets, idx) => (
+												<td
+													key={weeks[idx].weekStart}
+													className={`p-2 text-center ${cellShade(
+														sets,
+														maxMuscleSets,
+													)}`}>
+													{sets > 0 ? sets : ''}
+												</td>
+											))}
+											<td className='p-2 text-center font-semibold'>
+												{group.total}
+											</td>
+										</tr>
+									))}
+								</tbody>
+							</table>
+						</div>
+					)}
+				</>
+			)}
+		</div>
+	);
+};
+
+export default DashboardPage; // Export the DashboardPage component as default
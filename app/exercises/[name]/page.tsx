@@ -0,0 +1,306 @@
+// app/exercises/[name]/page.tsx
+
+'use client'; // Enables client-side rendering for this component
+
+import React, { useEffect, useState } from 'react'; // Import React and hooks
+import { useParams } from 'next/navigation'; // Import useParams for route parameters
+import Link from 'next/link'; // Import Link component for client-side navigation
+import LineChart from '../../components/LineChart'; // Import the SVG line chart
+import { WeightUnit, formatWeight, unitLabel } from '../../../lib/units'; // Import weight unit helpers
+import { formatDuration } from '../../../lib/durations'; // Import duration helpers
+import {
+	ExerciseKind,
+	KIND_FIELDS,
+	formatBodyweightLoad,
+	formatDistance,
+	formatPace,
+} from '../../../lib/exercise-kinds'; // Import exercise kind helpers
+
+// Define the structure of one point of the time series as received from the API
+type HistoryPoint = {
+	date: string; // ISO string: the session date, or the start of the week or month
+	workoutIds: number[]; // Workouts summarized by this point
+	topSet: { weight: number; reps: number } | null; // Heaviest set, in the user's unit
+	estimatedOneRepMax: number; // Best estimated 1RM
+	totalVolume: number; // Sum of weight x reps
+	totalReps: number; // Sum of reps
+	totalDistance: number; // Sum of distances in metres
+	totalDuration: number; // Sum of times in seconds
+	bestPace: number | null; // Fastest pace in seconds per kilometre, if any
+	sessions: number; // Number of sessions summarized by this point
+	bodyweight: number | null; // Latest bodyweight measured by then, if any
+	relativeStrength: number | null; // Estimated 1RM divided by that bodyweight, if known
+};
+
+// Define the structure of the exercise history as received from the API
+type ExerciseHistory = {
+	definitionId: number; // Catalog entry of the lift
+	name: string; // Canonical name of the lift
+	kind: ExerciseKind; // What each set of the lift records
+	bucket: 'session' | 'week' | 'month'; // How sessions were grouped
+	unit: WeightUnit; // Unit of every weight and volume in the points
+	points: HistoryPoint[]; // Time series, oldest first
+};
+
+const ExerciseDetailPage = () => {
+	const { name } = useParams<{ name: string }>(); // Extract the 'name' parameter from the URL
+	const [history, setHistory] = useState<ExerciseHistory | null>(null); // State to hold the time series
+	const [loading, setLoading] = useState<boolean>(true); // State to manage loading status
+	const [error, setError] = useState<string | null>(null); // State to manage error messages
+	const [from, setFrom] = useState<string>(''); // Start of the date range (YYYY-MM-DD)
+	const [to, setTo] = useState<string>(''); // End of the date range (YYYY-MM-DD)
+	const [bucket, setBucket] = useState<ExerciseHistory['bucket']>('session'); // Grouping of the points
+
+	// useEffect hook to fetch the history whenever the exercise or the filters change
+	useEffect(() => {
+		const fetchHistory = async () => {
+			setLoading(true); // Show the loading state while fetching
+
+			try {
+				const query = new URLSearchParams({ bucket });
+				if (from) query.set('from', new Date(`${from}T00:00:00`).toISOString());
+				if (to) query.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+
+				const response = await fetch(
+					`/api/exercises/${encodeURIComponent(decodeURIComponent(name))}/history?${query.toString()}`,
+				); // Fetch the time series from the API
+
+				if (!response.ok) {
+					// Check if the response status is not OK (200)
+					const errorData = await response.json(); // Parse the error message from the response
+					throw new Error(errorData.error || 'Failed to fetch history.'); // Throw an error with the message
+				}
+
+				setHistory(await response.json()); // Update the history state with fetched data
+				setError(null); // Clear any previous error
+			} catch (err) {
+				// Catch any errors that occur during the fetch
+				setError(
+					err instanceof Error ? err.message : 'An unexpected error occurred.',
+				); // Update the error state with the error message
+				console.error('Error fetching exercise history:', err); // Log the error for debugging
+			} finally {
+				setLoading(false); // Set loading to false regardless of success or failure
+			}
+		};
+
+		fetchHistory(); // Invoke the fetchHistory function
+	}, [name, from, to, bucket]); // Refetch when the exercise or filters change
+
+	const points = history?.points ?? [];
+	const kind = history?.kind ?? 'WEIGHT_REPS';
+	const fields = KIND_FIELDS[kind];
+
+	/**
+	 * describeTopSet
+	 * Top set of a point in the terms of the exercise's kind, e.g. "100 kg x 5" or "8 reps +20 kg".
+	 */
+	const describeTopSet = (
+		topSet: NonNullable<HistoryPoint['topSet']>,
+		unit: WeightUnit,
+	): string => {
+		if (kind === 'BODYWEIGHT') {
+			return `${topSet.reps} reps ${formatBodyweightLoad(topSet.weight, unit)}`;
+		}
+		if (kind === 'REPS') return `${topSet.reps} reps`;
+		return `${formatWeight(topSet.weight, unit)} x ${topSet.reps}`;
+	};
+
+	return (
+		<div className='max-w-3xl mx-auto p-6 bg-gray-100 min-h-screen'>
+			<h1 className='text-3xl font-bold mb-6 text-center'>
+				{history?.name ?? decodeURIComponent(name)}
+			</h1>
+			{/* Filters */}
+			<div className='flex flex-wrap gap-4 mb-6 items-end'>
+				<label className='flex flex-col'>
+					<span className='text-sm font-medium mb-1'>From</span>
+					<input
+						type='date'
+						value={from}
+						onChange={e => setFrom(e.target.value)}
+						className='p-2 border border-gray-300 rounded-lg'
+					/>
+				</label>
+				<label className='flex flex-col'>
+					<span className='text-sm font-medium mb-1'>To</span>
+					<input
+						type='date'
+						value={to}
+						onChange={e => setTo(e.target.value)}
+						className='p-2 border border-gray-300 rounded-lg'
+					/>
+				</label>
+				<label className='flex flex-col'>
+					<span className='text-sm font-medium mb-1'>Group by</span>
+					<select
+						value={bucket}
+						onChange={e =>
+							setBucket(e.target.value as ExerciseHistory['bucket'])
+						}
+						className='p-2 border border-gray-300 rounded-lg'>
+						<option value='session'>Session</option>
+						<option value='week'>Week</option>
+						<option value='month'>Month</option>
+					</select>
+				</label>
+			</div>
+			{/* Display loading state */}
+			{loading && <p>Loading history...</p>}
+			{/* Display error message if any */}
+			{error && <p className='text-red-500'>{error}</p>}
+			{/* Charts */}
+			{!loading && !error && history && (
+				<>
+					{kind === 'WEIGHT_REPS' && (
+						<LineChart
+							title='Estimated 1RM'
+							unit={unitLabel(history.unit)}
+							points={points.map(point => ({
+								date: point.date,
+								value: Math.round(point.estimatedOneRepMax * 10) / 10,
+							}))}
+						/>
+					)}
+					{kind === 'WEIGHT_REPS' &&
+						points.some(point => point.relativeStrength !== null) && (
+							<LineChart
+								title='Relative Strength (1RM ÷ bodyweight)'
+								unit='×'
+								color='#0891b2'
+								points={points
+									.filter(point => point.relativeStrength !== null)
+									.map(point => ({
+										date: point.date,
+										value: point.relativeStrength!,
+										label: `${new Date(point.date).toLocaleDateString()}: ${point.relativeStrength}× bodyweight (${formatWeight(
+											point.bodyweight!,
+											history.unit,
+										)})`,
+									}))}
+							/>
+						)}
+					{fields.weight && (
+						<LineChart
+							title={
+								kind === 'BODYWEIGHT' ? 'Top Set (added weight)' : 'Top Set'
+							}
+							unit={unitLabel(history.unit)}
+							color='#16a34a'
+							points={points
+								.filter(point => point.topSet)
+								.map(point => ({
+									date: point.date,
+									value: point.topSet!.weight,
+									label: `${new Date(point.date).toLocaleDateString()}: ${describeTopSet(
+										point.topSet!,
+										history.unit,
+									)}`,
+								}))}
+						/>
+					)}
+					{fields.weight && (
+						<LineChart
+							title='Total Volume'
+							unit={unitLabel(history.unit)}
+							color='#9333ea'
+							points={points.map(point => ({
+								date: point.date,
+								value: point.totalVolume,
+							}))}
+						/>
+					)}
+					{fields.reps && (
+						<LineChart
+							title='Total Reps'
+							color='#ea580c'
+							points={points.map(point => ({
+								date: point.date,
+								value: point.totalReps,
+							}))}
+						/>
+					)}
+					{fields.distance && (
+						<LineChart
+							title='Total Distance'
+							unit='km'
+							color='#16a34a'
+							points={points.map(point => ({
+								date: point.date,
+								value: Math.round(point.totalDistance / 10) / 100,
+								label: `${new Date(point.date).toLocaleDateString()}: ${formatDistance(
+									point.totalDistance,
+								)}`,
+							}))}
+						/>
+					)}
+					{fields.distance && (
+						<LineChart
+							title='Best Pace'
+							unit='min/km'
+							color='#9333ea'
+							points={points
+								.filter(point => point.bestPace !== null)
+								.map(point => ({
+									date: point.date,
+									value: Math.round((point.bestPace! / 60) * 100) / 100,
+									label: `${new Date(point.date).toLocaleDateString()}: ${formatPace(
+										point.bestPace!,
+									)}`,
+								}))}
+						/>
+					)}
+					{fields.duration && (
+						<LineChart
+							title='Total Time'
+							unit='min'
+							color='#ea580c'
+							points={points.map(point => ({
+								date: point.date,
+								value: Math.round((point.totalDuration / 60) * 10) / 10,
+								label: `${new Date(point.date).toLocaleDateString()}: ${formatDuration(
+									point.totalDuration,
+								)}`,
+							}))}
+						/>
+					)}
+					{/* Sessions behind the charts */}
+					<h2 className='text-xl font-semibold mb-2'>Sessions</h2>
+					<ul className='space-y-2'>
+						{[...points].reverse().map(point => (
+							<li
+								key={point.date}
+								className='p-3 bg-white rounded-lg shadow flex justify-between'>
+								<span>
+									{new Date(point.date).toLocaleDateString()}
+									{point.sessions > 1 && ` (${point.sessions} sessions)`}
+								</span>
+								<span className='text-sm text-gray-600'>
+									{point.topSet &&
+										`Top ${describeTopSet(point.topSet, history.unit)} · `}
+									{fields.reps && `${point.totalReps} reps`}
+									{fields.weight &&
+										` · ${formatWeight(point.totalVolume, history.unit)}`}
+									{fields.distance &&
+										`${formatDistance(point.totalDistance)} · `}
+									{fields.duration && formatDuration(point.totalDuration)}
+									{point.bestPace !== null &&
+										` · ${formatPace(point.bestPace)}`}
+									{point.workoutIds.length === 1 && (
+										<Link
+											href={`/workouts/${point.workoutIds[0]}`}
+											className='ml-2 text-blue-600 hover:underline'>
+											View
+										</Link>
+									)}
+								</span>
+							</li>
+						))}
+					</ul>
+				</>
+			)}
+		</div>
+	);
+};
+
+export default ExerciseDetailPage; // Export the ExerciseDetailPage component as default
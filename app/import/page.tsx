@@ -0,0 +1,251 @@
+// app/import/page.tsx
+
+'use client'; // Enables client-side rendering for this component
+
+import React, { FormEvent, useEffect, useState } from 'react'; // Import React and hooks
+import Link from 'next/link'; // Import Link component for client-side navigation
+import { WEIGHT_UNITS, WeightUnit, unitLabel } from '../../lib/units'; // Import weight unit helpers
+
+// Define the structure of the import report as received from the API
+type ImportReport = {
+	source: 'strong' | 'hevy' | 'fitnotes'; // App the file was exported from
+	dryRun: boolean; // Whether this was only a preview
+	workouts: {
+		date: string; // ISO string of when the session took place
+		exerciseNames: string[]; // Names of the exercises, in order
+		setCount: number; // Number of sets in the workout
+		duplicate: boolean; // Whether the workout is already logged and will be skipped
+	}[];
+	imported: number; // Number of workouts saved
+	duplicates: number; // Number of workouts skipped as already logged
+	errors: { row: number; message: string }[]; // Rows that could not be imported
+};
+
+// Apps offered in the source picker
+const SOURCE_OPTIONS = [
+	{ value: 'auto', label: 'Detect automatically' },
+	{ value: 'strong', label: 'Strong' },
+	{ value: 'hevy', label: 'Hevy' },
+	{ value: 'fitnotes', label: 'FitNotes' },
+];
+
+// Display names of each app
+const SOURCE_LABELS: Record<ImportReport['source'], string> = {
+	strong: 'Strong',
+	hevy: 'Hevy',
+	fitnotes: 'FitNotes',
+};
+
+const ImportPage = () => {
+	const [file, setFile] = useState<File | null>(null); // Selected CSV export
+	const [source, setSource] = useState<string>('auto'); // App the file came from
+	const [unit, setUnit] = useState<WeightUnit>('KG'); // Unit of Strong's weights
+	const [report, setReport] = useState<ImportReport | null>(null); // Latest preview or import result
+	const [submitting, setSubmitting] = useState<boolean>(false); // Whether a request is in flight
+	const [error, setError] = useState<string | null>(null); // State to manage error messages
+
+	// useEffect hook to default the unit to the user's preference when the component mounts
+	useEffect(() => {
+		const fetchPreferences = async () => {
+			try {
+				const response = await fetch('/api/preferences'); // Fetch the preferences from the API
+				if (!response.ok) throw new Error('Failed to fetch preferences.');
+				const data: { weightUnit: WeightUnit } = await response.json();
+				setUnit(data.weightUnit); // Update the unit state
+			} catch (err) {
+				console.error('Error fetching preferences:', err); // Log the error; kilograms are assumed
+			}
+		};
+
+		fetchPreferences(); // Invoke the fetchPreferences function
+	}, []); // Empty dependency array ensures this runs only once on mount
+
+	/**
+	 * submitImport
+	 * Uploads the file, either as a preview (dry run) or for real.
+	 */
+	const submitImport = async (dryRun: boolean) => {
+		if (!file) return;
+
+		setSubmitting(true);
+		setError(null);
+
+		try {
+			const formData = new FormData();
+			formData.append('file', file);
+			formData.append('source', source);
+			formData.append('unit', unit);
+			formData.append('timezoneOffset', `${new Date().getTimezoneOffset()}`); // Dates in the file are local times
+			formData.append('dryRun', `${dryRun}`);
+
+			const response = await fetch('/api/import', {
+				method: 'POST', // HTTP method
+				body: formData, // The browser sets the multipart content type
+			});
+
+			if (!response.ok) {
+				// Check if the response status is not OK
+				const errorData = await response.json(); // Parse the error message from the response
+				throw new Error(errorData.error || 'Failed to import workouts.'); // Throw an error with the message
+			}
+
+			setReport(await response.json()); // Show the report
+		} catch (err) {
+			setError(
+				err instanceof Error ? err.message : 'An unexpected error occurred.',
+			); // Update the error state with the error message
+			console.error('Error importing workouts:', err); // Log the error for debugging
+		} finally {
+			setSubmitting(false);
+		}
+	};
+
+	/**
+	 * handlePreview
+	 * Previews what the selected file would import.
+	 */
+	const handlePreview = (e: FormEvent) => {
+		e.preventDefault();
+		submitImport(true);
+	};
+
+	const newWorkouts = report ? report.workouts.length - report.duplicates : 0;
+
+	return (
+		<div className='max-w-2xl mx-auto p-6 bg-gray-100 min-h-screen'>
+			<h1 className='text-3xl font-bold mb-2 text-center'>Import Workouts</h1>
+			<p className='mb-6 text-center text-gray-600'>
+				Bring your history over from Strong, Hevy or FitNotes using their CSV
+				export.
+			</p>
+			{/* Upload form */}
+			<form
+				onSubmit={handlePreview}
+				className='mb-6 p-4 bg-white rounded-lg shadow space-y-3'>
+				<label className='block'>
+					CSV file:
+					<input
+						type='file'
+						accept='.csv,text/csv'
+						onChange={e => {
+							setFile(e.target.files?.[0] ?? null);
+							setReport(null); // A new file needs a new preview
+						}}
+						className='block w-full mt-1'
+						required
+					/>
+				</label>
+				<label className='block'>
+					Exported from:
+					<select
+						value={source}
+						onChange={e => {
+							setSource(e.target.value);
+							setReport(null);
+						}}
+						className='block w-full mt-1 p-2 border border-gray-300 rounded-lg'>
+						{SOURCE_OPTIONS.map(option => (
+							<option key={option.value} value={option.value}>
+								{option.label}
+							</option>
+						))}
+					</select>
+				</label>
+				{/* Strong doesn't record the unit of its weights */}
+				{(source === 'auto' || source === 'strong') && (
+					<label className='block'>
+						Unit of Strong weights:
+						<select
+							value={unit}
+							onChange={e => {
+								setUnit(e.target.value as WeightUnit);
+								setReport(null);
+							}}
+							className='block w-full mt-1 p-2 border border-gray-300 rounded-lg'>
+							{WEIGHT_UNITS.map(option => (
+								<option key={option} value={option}>
+									{unitLabel(option)}
+								</option>
+							))}
+						</select>
+					</label>
+				)}
+				<button
+					type='submit'
+					disabled={!file || submitting}
+					className='w-full p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50'>
+					{submitting && !report ? 'Reading file...' : 'Preview Import'}
+				</button>
+			</form>
+			{/* Display error message if any */}
+			{error && <p className='mb-4 text-red-500'>{error}</p>}
+			{/* Import report */}
+			{report && (
+				<div className='p-4 bg-white rounded-lg shadow'>
+					<h2 className='text-xl font-semibold mb-2'>
+						{report.dryRun ? 'Preview' : 'Import complete'} (
+						{SOURCE_LABELS[report.source]})
+					</h2>
+					<ul className='mb-4 list-disc list-inside'>
+						<li>
+							{report.dryRun
+								? `${newWorkouts} new workouts will be imported`
+								: `${report.imported} workouts imported`}
+						</li>
+						<li>{report.duplicates} already logged (skipped)</li>
+						<li>{report.errors.length} rows could not be read</li>
+					</ul>
+					{report.dryRun && newWorkouts > 0 && (
+						<button
+							onClick={() => submitImport(false)}
+							disabled={submitting}
+							className='mb-4 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50'>
+							{submitting ? 'Importing...' : `Import ${newWorkouts} Workouts`}
+						</button>
+					)}
+					{!report.dryRun && (
+						<p className='mb-4'>
+							<Link href='/' className='text-blue-600 hover:underline'>
+								View your workouts
+							</Link>
+						</p>
+					)}
+					{/* Per-row errors */}
+					{report.errors.length > 0 && (
+						<details className='mb-4' open={report.errors.length <= 10}>
+							<summary className='font-medium cursor-pointer'>
+								Rows that could not be read
+							</summary>
+							<ul className='mt-2 text-sm text-red-600 space-y-1'>
+								{report.errors.map(rowError => (
+									<li key={rowError.row}>
+										Line {rowError.row}: {rowError.message}
+									</li>
+								))}
+							</ul>
+						</details>
+					)}
+					{/* Workouts found in the file */}
+					<details>
+						<summary className='font-medium cursor-pointer'>
+							Workouts in the file ({report.workouts.length})
+						</summary>
+						<ul className='mt-2 text-sm space-y-1'>
+							{report.workouts.map(workout => (
+								<li
+									key={workout.date}
+									className={workout.duplicate ? 'text-gray-400' : ''}>
+									{new Date(workout.date).toLocaleString()}:{' '}
+									{workout.exerciseNames.join(', ')} ({workout.setCount} sets)
+									{workout.duplicate && ' - already logged'}
+								</li>
+							))}
+						</ul>
+					</details>
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default ImportPage; // Export the ImportPage component as default
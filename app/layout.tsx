@@ -1,6 +1,9 @@
 // app/layout.tsx
 
 import Navbar from './components/Navbar';
+import { getCurrentUser } from '../lib/auth'; // Import authentication helpers
+import OfflineSync from './components/OfflineSync'; // Import the offline banner and sync runner
+import UndoToast from './components/UndoToast'; // Import the undo offer shown after deleting a workout
 import './globals.css'; // Import global styles
 import { Inter } from 'next/font/google'; // Import Inter font from Google Fonts
 
@@ -14,11 +17,13 @@ export const metadata = {
 };
 
 // RootLayout component wraps around all pages
-export default function RootLayout({
+export default async function RootLayout({
 	children, // Represents the content of the current page
 }: {
 	children: React.ReactNode; // Type annotation for children prop
 }) {
+	const user = await getCurrentUser(); // Queued offline writes are replayed only for their owner
+
 	return (
 		<html lang='en'>
 			{' '}
@@ -27,7 +32,11 @@ export default function RootLayout({
 				{' '}
 				{/* Applies the Inter font */}
 				<Navbar />
+				<OfflineSync
+					owner={user ? { userId: user.id, weightUnit: user.weightUnit } : null}
+				/>
 				{children} {/* Renders the current page's content */}
+				<UndoToast />
 			</body>
 		</html>
 	);
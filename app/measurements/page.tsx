@@ -0,0 +1,360 @@
+// app/measurements/page.tsx
+
+'use client'; // Enables client-side rendering for this component
+
+import React, { FormEvent, useEffect, useState } from 'react'; // Import React and hooks
+import LineChart from '../components/LineChart'; // Import the SVG line chart
+import { WeightUnit } from '../../lib/units'; // Import weight unit helpers
+import {
+	MEASUREMENT_FIELDS,
+	MOVING_AVERAGE_DAYS,
+	MeasurementField,
+	MeasurementValues,
+	measurementUnitLabel,
+	movingAverage,
+} from '../../lib/measurements'; // Import body measurement helpers
+
+// Define the structure of a measurement entry as received from the API
+type Measurement = MeasurementValues & {
+	id: number; // Unique identifier for the entry
+	date: string; // Day the measurements were taken (YYYY-MM-DD)
+	notes: string | null; // Free-text notes on the measurements
+};
+
+// Define the contents of the entry form; values are kept as typed, empty when not taken
+type MeasurementForm = {
+	date: string; // Day the measurements were taken (YYYY-MM-DD)
+	values: Record<MeasurementField, string>; // Typed values, in the user's units
+	notes: string; // Free-text notes on the measurements
+};
+
+/**
+ * emptyForm
+ * Entry form for today with no values.
+ */
+const emptyForm = (): MeasurementForm => ({
+	date: new Date().toLocaleDateString('en-CA'), // Local day as YYYY-MM-DD
+	values: {
+		bodyweight: '',
+		bodyFat: '',
+		waist: '',
+		chest: '',
+		hips: '',
+		arm: '',
+		thigh: '',
+		neck: '',
+	},
+	notes: '',
+});
+
+const MeasurementsPage = () => {
+	const [measurements, setMeasurements] = useState<Measurement[]>([]); // State to hold the entries, oldest first
+	const [unit, setUnit] = useState<WeightUnit>('KG'); // State to hold the unit of the values
+	const [loading, setLoading] = useState<boolean>(true); // State to manage loading status
+	const [error, setError] = useState<string | null>(null); // State to manage error messages
+	const [form, setForm] = useState<MeasurementForm>(emptyForm()); // State to hold the entry form
+	const [editingId, setEditingId] = useState<number | null>(null); // State to hold the entry being edited, if any
+	const [saving, setSaving] = useState<boolean>(false); // State to manage saving status
+	const [chartField, setChartField] = useState<MeasurementField>('bodyweight'); // State to hold the charted value
+
+	/**
+	 * fetchMeasurements
+	 * Asynchronously fetches the entries from the API.
+	 */
+	const fetchMeasurements = async () => {
+		try {
+			const response = await fetch('/api/measurements'); // Fetch data from the API
+
+			if (!response.ok) {
+				// Check if the response status is not OK (200)
+				const errorData = await response.json(); // Parse the error message from the response
+				throw new Error(errorData.error || 'Failed to fetch measurements.'); // Throw an error with the message
+			}
+
+			const data: { unit: WeightUnit; measurements: Measurement[] } =
+				await response.json(); // Parse the JSON data
+
+			setMeasurements(data.measurements); // Update the entries state with fetched data
+			setUnit(data.unit);
+		} catch (err) {
+			// Catch any errors that occur during the fetch
+			setError(
+				err instanceof Error ? err.message : 'An unexpected error occurred.',
+			); // Update the error state with the error message
+			console.error('Error fetching measurements:', err); // Log the error for debugging
+		} finally {
+			setLoading(false); // Set loading to false regardless of success or failure
+		}
+	};
+
+	// useEffect hook to fetch the entries when the component mounts
+	useEffect(() => {
+		fetchMeasurements(); // Invoke the fetchMeasurements function
+	}, []); // Empty dependency array ensures this runs only once on mount
+
+	/**
+	 * handleSubmit
+	 * Saves the entry form as a new entry, or over the entry being edited.
+	 */
+	const handleSubmit = async (e: FormEvent) => {
+		e.preventDefault();
+
+		const values = {} as MeasurementValues;
+		MEASUREMENT_FIELDS.forEach(({ field }) => {
+			values[field] =
+				form.values[field] === '' ? null : Number(form.values[field]);
+		});
+		if (MEASUREMENT_FIELDS.every(({ field }) => values[field] === null)) {
+			alert('Enter at least one measurement.'); // Notify the user
+			return;
+		}
+
+		setSaving(true);
+		try {
+			const response = await fetch(
+				editingId === null
+					? '/api/measurements'
+					: `/api/measurements/${editingId}`,
+				{
+					method: editingId === null ? 'POST' : 'PUT', // HTTP method
+					headers: { 'Content-Type': 'application/json' }, // Set content type to JSON
+					body: JSON.stringify({
+						date: form.date,
+						...values,
+						notes: form.notes,
+					}), // Convert data to JSON string
+				},
+			);
+
+			if (!response.ok) {
+				const errorData = await response.json(); // Parse the error message from the response
+				throw new Error(errorData.error || 'Failed to save measurements.'); // Throw an error with the message
+			}
+
+			const saved: Measurement = await response.json();
+			setMeasurements(
+				[...measurements.filter(other => other.id !== saved.id), saved].sort(
+					(a, b) => a.date.localeCompare(b.date),
+				),
+			); // Put the entry in date order
+			setForm(emptyForm());
+			setEditingId(null);
+		} catch (err) {
+			alert(
+				err instanceof Error ? err.message : 'An unexpected error occurred.',
+			); // Notify the user
+			console.error('Error saving measurements:', err); // Log the error for debugging
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	/**
+	 * handleEdit
+	 * Loads an entry into the form for editing.
+	 */
+	const handleEdit = (measurement: Measurement) => {
+		const values = emptyForm().values;
+		MEASUREMENT_FIELDS.forEach(({ field }) => {
+			values[field] =
+				measurement[field] === null ? '' : `${measurement[field]}`;
+		});
+		setForm({ date: measurement.date, values, notes: measurement.notes ?? '' });
+		setEditingId(measurement.id);
+	};
+
+	/**
+	 * handleDelete
+	 * Deletes an entry after confirmation.
+	 */
+	const handleDelete = async (measurement: Measurement) => {
+		if (!confirm(`Delete the measurements of ${measurement.date}?`)) return; // Confirm the deletion with the user
+
+		try {
+			const response = await fetch(`/api/measurements/${measurement.id}`, {
+				method: 'DELETE',
+			});
+
+			if (!response.ok) {
+				const errorData = await response.json(); // Parse the error message from the response
+				throw new Error(errorData.error || 'Failed to delete measurements.'); // Throw an error with the message
+			}
+
+			setMeasurements(
+				measurements.filter(other => other.id !== measurement.id),
+			); // Remove the entry from the list
+			if (editingId === measurement.id) {
+				setForm(emptyForm());
+				setEditingId(null);
+			}
+		} catch (err) {
+			alert(
+				err instanceof Error ? err.message : 'An unexpected error occurred.',
+			); // Notify the user
+			console.error('Error deleting measurements:', err); // Log the error for debugging
+		}
+	};
+
+	// Charted series: the chosen value of every entry that has it, with its trend
+	const chartPoints = measurements
+		.filter(measurement => measurement[chartField] !== null)
+		.map(measurement => ({
+			date: `${measurement.date}T00:00:00Z`,
+			value: measurement[chartField]!,
+		}));
+	const chartLabel = MEASUREMENT_FIELDS.find(
+		({ field }) => field === chartField,
+	)!.label;
+
+	return (
+		<div className='max-w-2xl mx-auto p-6 bg-gray-100 min-h-screen'>
+			<h1 className='text-3xl font-bold mb-6 text-center'>Body Measurements</h1>
+			{/* Entry form */}
+			<form
+				onSubmit={handleSubmit}
+				className='mb-6 p-4 bg-white rounded-lg shadow'>
+				<h2 className='text-xl font-semibold mb-2'>
+					{editingId === null ? 'New Entry' : 'Edit Entry'}
+				</h2>
+				<label className='block mb-2 font-medium'>
+					Date:
+					<input
+						type='date'
+						value={form.date}
+						onChange={e => setForm({ ...form, date: e.target.value })}
+						className='w-full p-2 border border-gray-300 rounded-lg font-normal'
+						required
+					/>
+				</label>
+				<div className='grid grid-cols-2 gap-2 mb-2'>
+					{MEASUREMENT_FIELDS.map(({ field, label }) => (
+						<label key={field} className='block font-medium'>
+							{label} ({measurementUnitLabel(field, unit)}):
+							<input
+								type='number'
+								value={form.values[field]}
+								onChange={e =>
+									setForm({
+										...form,
+										values: { ...form.values, [field]: e.target.value },
+									})
+								}
+								className='w-full p-2 border border-gray-300 rounded-lg font-normal'
+								min='0'
+								step='any'
+							/>
+						</label>
+					))}
+				</div>
+				<label className='block mb-4 font-medium'>
+					Notes:
+					<input
+						type='text'
+						value={form.notes}
+						onChange={e => setForm({ ...form, notes: e.target.value })}
+						placeholder='e.g. morning, before breakfast'
+						className='w-full p-2 border border-gray-300 rounded-lg font-normal'
+					/>
+				</label>
+				<div className='flex space-x-2'>
+					<button
+						type='submit'
+						className={`flex-1 p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 ${
+							saving ? 'opacity-50 cursor-not-allowed' : ''
+						}`}
+						disabled={saving}>
+						{saving
+							? 'Saving...'
+							: editingId === null
+								? 'Add Entry'
+								: 'Save Entry'}
+					</button>
+					{editingId !== null && (
+						<button
+							type='button'
+							onClick={() => {
+								setForm(emptyForm());
+								setEditingId(null);
+							}} // Stop editing
+							className='px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600'>
+							Cancel
+						</button>
+					)}
+				</div>
+			</form>
+			{/* Display loading state */}
+			{loading && <p>Loading measurements...</p>}
+			{/* Display error message if any */}
+			{error && <p className='text-red-500'>{error}</p>}
+			{!loading && !error && (
+				<>
+					{/* Trend chart of the chosen value */}
+					<label className='block mb-2 font-medium'>
+						Chart:{' '}
+						<select
+							value={chartField}
+							onChange={e => setChartField(e.target.value as MeasurementField)}
+							className='p-1 border border-gray-300 rounded-lg font-normal'>
+							{MEASUREMENT_FIELDS.map(({ field, label }) => (
+								<option key={field} value={field}>
+									{label}
+								</option>
+							))}
+						</select>
+					</label>
+					<LineChart
+						title={`${chartLabel} (dashed: ${MOVING_AVERAGE_DAYS}-day average)`}
+						unit={measurementUnitLabel(chartField, unit)}
+						points={chartPoints}
+						secondary={movingAverage(chartPoints)}
+					/>
+					{/* Entries, newest first */}
+					<h2 className='text-xl font-semibold mb-2'>Entries</h2>
+					{measurements.length === 0 && <p>No measurements yet.</p>}
+					<ul className='space-y-2'>
+						{[...measurements].reverse().map(measurement => (
+							<li
+								key={measurement.id}
+								className='p-3 bg-white rounded-lg shadow flex justify-between items-center'>
+								<div>
+									<p className='font-medium'>
+										{new Date(
+											`${measurement.date}T00:00:00Z`,
+										).toLocaleDateString(undefined, { timeZone: 'UTC' })}
+									</p>
+									<p className='text-sm text-gray-600'>
+										{MEASUREMENT_FIELDS.filter(
+											({ field }) => measurement[field] !== null,
+										)
+											.map(
+												({ field, label }) =>
+													`${label} ${measurement[field]} ${measurementUnitLabel(field, unit)}`,
+											)
+											.join(' · ')}
+									</p>
+									{measurement.notes && (
+										<p className='text-sm text-gray-500'>{measurement.notes}</p>
+									)}
+								</div>
+								<div className='flex space-x-2'>
+									<button
+										onClick={() => handleEdit(measurement)} // Load the entry into the form
+										className='px-3 py-1 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600'>
+										Edit
+									</button>
+									<button
+										onClick={() => handleDelete(measurement)} // Delete the entry
+										className='px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700'>
+										Delete
+									</button>
+								</div>
+							</li>
+						))}
+					</ul>
+				</>
+			)}
+		</div>
+	);
+};
+
+export default MeasurementsPage; // Export the MeasurementsPage component as default
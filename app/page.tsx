@@ -2,127 +2,460 @@
 
 'use client'; // Enables client-side rendering for this component
 
-import React, { useEffect, useState } from 'react'; // Import React and hooks
+import React, {
+	FormEvent,
+	Suspense,
+	useCallback,
+	useEffect,
+	useRef,
+	useState,
+} from 'react'; // Import React and hooks
 import Link from 'next/link'; // Import Link component for client-side navigation
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'; // Import navigation hooks for the URL filters
+import ExercisePicker, {
+	ExerciseDefinition,
+} from './components/ExercisePicker'; // Import the exercise type-ahead
+import { WeightUnit, formatWeight, unitLabel } from '../lib/units'; // Import weight unit helpers
 
-// Define the structure of a workout as received from the API
-type Workout = {
+// Define the structure of a workout summary as received from the API
+type WorkoutSummary = {
 	id: number; // Unique identifier for the workout
 	date: string; // ISO string representing the workout date
-	exercises: {
-		id: number; // Unique identifier for the exercise
-		name: string; // Name of the exercise
-		sets: {
-			id: number; // Unique identifier for the set
-			reps: number; // Number of reps in the set
-			weight: number; // Weight used in the set
-		}[];
-	}[];
+	exerciseNames: string[]; // Names of the exercises, in order
+	exerciseCount: number; // Number of exercises in the workout
+	setCount: number; // Number of sets in the workout
+	totalVolume: number; // Sum of weight x reps over all sets, in the user's unit
+	tags: string[]; // Tags on the workout
 };
 
-const Home = () => {
-	// State to hold the list of workouts
-	const [workouts, setWorkouts] = useState<Workout[]>([]);
+// Define the structure of a page of workouts as received from the API
+type WorkoutPage = {
+	unit: WeightUnit; // Unit of every volume in the page
+	workouts: WorkoutSummary[]; // One page of workouts
+	nextCursor: number | null; // Cursor of the next page; null on the last page
+};
+
+// Define the filters kept in the URL query string
+type Filters = {
+	from: string; // Start of the date range (YYYY-MM-DD)
+	to: string; // End of the date range (YYYY-MM-DD)
+	exercise: string; // Only workouts containing this exercise
+	tag: string; // Only workouts carrying this tag
+	minVolume: string; // Only workouts with at least this volume
+	sort: string; // Sort key and direction, e.g. 'date-desc'
+};
+
+// Sort options offered in the filter bar
+const SORT_OPTIONS = [
+	{ value: 'date-desc', label: 'Newest first' },
+	{ value: 'date-asc', label: 'Oldest first' },
+	{ value: 'volume-desc', label: 'Highest volume' },
+	{ value: 'volume-asc', label: 'Lowest volume' },
+];
+
+/**
+ * readFilters
+ * Reads the filters from the URL query string.
+ */
+const readFilters = (query: URLSearchParams): Filters => ({
+	from: query.get('from') ?? '',
+	to: query.get('to') ?? '',
+	exercise: query.get('exercise') ?? '',
+	tag: query.get('tag') ?? '',
+	minVolume: query.get('minVolume') ?? '',
+	sort: query.get('sort') ?? 'date-desc',
+});
+
+/**
+ * setDateRange
+ * Adds the date filters to an API query, as whole days in the user's time zone.
+ */
+const setDateRange = (query: URLSearchParams, filters: Filters) => {
+	if (filters.from)
+		query.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+	if (filters.to)
+		query.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+};
+
+/**
+ * exportUrl
+ * Download link for the training log in the date range in the URL query string.
+ */
+const exportUrl = (queryString: string, format: 'csv' | 'json'): string => {
+	const query = new URLSearchParams({ format });
+	setDateRange(query, readFilters(new URLSearchParams(queryString)));
+	return `/api/export?${query}`;
+};
+
+/**
+ * fetchWorkoutPage
+ * Fetches one page of workout summaries for the filters in the URL query string.
+ */
+const fetchWorkoutPage = async (
+	queryString: string,
+	cursor: number | null,
+): Promise<WorkoutPage> => {
+	const filters = readFilters(new URLSearchParams(queryString));
+	const [sort, order] = filters.sort.split('-');
+
+	const query = new URLSearchParams({ sort, order });
+	setDateRange(query, filters);
+	if (filters.exercise) query.set('exercise', filters.exercise);
+	if (filters.tag) query.set('tag', filters.tag);
+	if (filters.minVolume) query.set('minVolume', filters.minVolume);
+	if (cursor !== null) query.set('cursor', `${cursor}`);
+
+	const response = await fetch(`/api/get-workouts?${query}`); // Fetch data from the API
+
+	if (!response.ok) {
+		// Check if the response status is not OK (200)
+		const errorData = await response.json(); // Parse the error message from the response
+		throw new Error(errorData.error || 'Failed to fetch workouts.'); // Throw an error with the message
+	}
+
+	return response.json();
+};
+
+const WorkoutList = () => {
+	const router = useRouter(); // Router used to write the filters to the URL
+	const pathname = usePathname(); // Path of this page
+	const searchParams = useSearchParams(); // Filters currently in the URL
+	const queryString = searchParams.toString();
+
+	// State to hold the loaded workouts and the cursor of the next page
+	const [workouts, setWorkouts] = useState<WorkoutSummary[]>([]);
+	const [nextCursor, setNextCursor] = useState<number | null>(null);
+
+	// State to hold the unit volumes are shown and filtered in
+	const [unit, setUnit] = useState<WeightUnit>('KG');
 
-	// State to manage loading status
+	// State to manage loading status of the first and of later pages
 	const [loading, setLoading] = useState<boolean>(true);
+	const [loadingMore, setLoadingMore] = useState<boolean>(false);
 
 	// State to manage error messages
 	const [error, setError] = useState<string | null>(null);
 
-	/**
-	 * fetchWorkouts
-	 * Asynchronously fetches the list of workouts from the API.
-	 */
-	const fetchWorkouts = async () => {
-		try {
-			const response = await fetch('/api/get-workouts'); // Fetch data from the API
+	// State to hold the filter form, applied to the URL on submit
+	const [filters, setFilters] = useState<Filters>(() =>
+		readFilters(searchParams),
+	);
+
+	// State to hold the exercise catalog for the exercise filter
+	const [definitions, setDefinitions] = useState<ExerciseDefinition[]>([]);
+
+	const sentinelRef = useRef<HTMLDivElement>(null); // Element that triggers loading the next page
+	const queryRef = useRef<string>(queryString); // Filters of the list being shown
+
+	// Reload the list from the first page whenever the filters in the URL change
+	useEffect(() => {
+		let cancelled = false; // Ignore the response if the filters change again
+		queryRef.current = queryString;
+		setFilters(readFilters(new URLSearchParams(queryString)));
+		setWorkouts([]);
+		setNextCursor(null);
+		setError(null);
+		setLoading(true);
+
+		const fetchFirstPage = async () => {
+			try {
+				const page = await fetchWorkoutPage(queryString, null);
+				if (cancelled) return;
+				setWorkouts(page.workouts); // Update the workouts state with fetched data
+				setNextCursor(page.nextCursor);
+				setUnit(page.unit);
+			} catch (err) {
+				// Catch any errors that occur during the fetch
+				if (cancelled) return;
+				setError(
+					err instanceof Error ? err.message : 'An unexpected error occurred.',
+				); // Update the error state with the error message
+				console.error('Error fetching workouts:', err); // Log the error for debugging
+			} finally {
+				if (!cancelled) setLoading(false); // Set loading to false regardless of success or failure
+			}
+		};
 
-			if (!response.ok) {
-				// Check if the response status is not OK (200)
-				const errorData = await response.json(); // Parse the error message from the response
-				throw new Error(errorData.error || 'Failed to fetch workouts.'); // Throw an error with the message
+		fetchFirstPage(); // Invoke the fetchFirstPage function
+
+		return () => {
+			cancelled = true;
+		};
+	}, [queryString]); // Runs on mount and whenever the filters change
+
+	// useEffect hook to fetch the exercise catalog when the component mounts
+	useEffect(() => {
+		const fetchDefinitions = async () => {
+			try {
+				const response = await fetch('/api/exercise-definitions'); // Fetch the catalog from the API
+				if (!response.ok) {
+					const errorData = await response.json(); // Parse the error message from the response
+					throw new Error(errorData.error || 'Failed to fetch exercises.'); // Throw an error with the message
+				}
+				setDefinitions(await response.json()); // Update the catalog state
+			} catch (err) {
+				console.error('Error fetching exercise catalog:', err); // Log the error; free text still works
 			}
+		};
 
-			const data: Workout[] = await response.json(); // Parse the JSON data
+		fetchDefinitions(); // Invoke the fetchDefinitions function
+	}, []); // Empty dependency array ensures this runs only once on mount
+
+	/**
+	 * loadMore
+	 * Appends the next page of workouts to the list.
+	 */
+	const loadMore = useCallback(async () => {
+		if (nextCursor === null || loadingMore) return;
+		setLoadingMore(true);
 
-			setWorkouts(data); // Update the workouts state with fetched data
-		} catch (err: any) {
-			// Catch any errors that occur during the fetch
-			setError(err.message || 'An unexpected error occurred.'); // Update the error state with the error message
-			console.error('Error fetching workouts:', err); // Log the error for debugging
+		try {
+			const page = await fetchWorkoutPage(queryString, nextCursor);
+			if (queryRef.current !== queryString) return; // The filters changed meanwhile
+			setWorkouts(previous => [...previous, ...page.workouts]);
+			setNextCursor(page.nextCursor);
+		} catch (err) {
+			setError(
+				err instanceof Error ? err.message : 'An unexpected error occurred.',
+			); // Update the error state with the error message
+			console.error('Error fetching more workouts:', err); // Log the error for debugging
 		} finally {
-			setLoading(false); // Set loading to false regardless of success or failure
+			setLoadingMore(false); // Reset loading status
 		}
-	};
+	}, [queryString, nextCursor, loadingMore]);
 
-	// useEffect hook to fetch workouts when the component mounts
+	// Load the next page when the end of the list scrolls into view
 	useEffect(() => {
-		fetchWorkouts(); // Invoke the fetchWorkouts function
-	}, []); // Empty dependency array ensures this runs only once on mount
+		const sentinel = sentinelRef.current;
+		if (!sentinel || nextCursor === null) return;
+
+		const observer = new IntersectionObserver(entries => {
+			if (entries[0].isIntersecting) loadMore();
+		});
+		observer.observe(sentinel);
+
+		return () => observer.disconnect();
+	}, [loadMore, nextCursor]);
+
+	/**
+	 * handleFilter
+	 * Writes the filter form to the URL, which reloads the list.
+	 */
+	const handleFilter = (e: FormEvent) => {
+		e.preventDefault(); // Prevent the default form submission behavior
+
+		const query = new URLSearchParams();
+		(Object.keys(filters) as (keyof Filters)[]).forEach(key => {
+			const value = filters[key].trim();
+			if (value && !(key === 'sort' && value === 'date-desc')) {
+				query.set(key, value);
+			}
+		});
+
+		const search = query.toString();
+		router.replace(search ? `${pathname}?${search}` : pathname);
+	};
+
+	/**
+	 * handleClear
+	 * Removes every filter from the URL.
+	 */
+	const handleClear = () => {
+		router.replace(pathname);
+	};
 
 	return (
 		<div className='max-w-2xl mx-auto p-6 bg-gray-100 min-h-screen'>
-			{' '}
-			{/* Container with Tailwind classes */}
-			<h1 className='text-3xl font-bold mb-6 text-center'>
-				Your Workouts
-			</h1>{' '}
 			{/* Page title */}
-			{/* Link to the Log Workout page */}
-			<div className='mb-6 text-center'>
+			<h1 className='text-3xl font-bold mb-6 text-center'>Your Workouts</h1>
+			{/* Links to the Log Workout page and the calendar view */}
+			<div className='mb-6 flex justify-center items-center gap-4'>
 				<Link
 					href='/workout'
 					className='px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700'>
-					{' '}
-					{/* Next.js Link for client-side navigation */} {/* Styled button */}
 					Log a New Workout
 				</Link>
+				<Link href='/calendar' className='text-blue-600 hover:underline'>
+					Calendar view
+				</Link>
 			</div>
+			{/* Download the training log, limited to the date range being shown */}
+			<div className='mb-6 flex justify-center items-center gap-2 text-sm'>
+				<span>
+					Export
+					{searchParams.get('from') || searchParams.get('to')
+						? ' this date range'
+						: ' all workouts'}
+					:
+				</span>
+				<a
+					href={exportUrl(queryString, 'csv')}
+					download
+					className='px-3 py-1 bg-gray-600 text-white rounded-lg hover:bg-gray-700'>
+					CSV
+				</a>
+				<a
+					href={exportUrl(queryString, 'json')}
+					download
+					className='px-3 py-1 bg-gray-600 text-white rounded-lg hover:bg-gray-700'>
+					JSON
+				</a>
+				<Link href='/import' className='text-blue-600 hover:underline'>
+					Import from another app
+				</Link>
+			</div>
+			{/* Filter bar */}
+			<form
+				onSubmit={handleFilter}
+				className='mb-6 p-4 bg-white rounded-lg shadow grid grid-cols-2 gap-3'>
+				<label className='text-sm'>
+					From
+					<input
+						type='date'
+						value={filters.from}
+						onChange={e => setFilters({ ...filters, from: e.target.value })}
+						className='w-full p-2 border rounded'
+					/>
+				</label>
+				<label className='text-sm'>
+					To
+					<input
+						type='date'
+						value={filters.to}
+						onChange={e => setFilters({ ...filters, to: e.target.value })}
+						className='w-full p-2 border rounded'
+					/>
+				</label>
+				<div className='text-sm col-span-2'>
+					Exercise
+					<ExercisePicker
+						definitions={definitions}
+						value={filters.exercise}
+						onChange={exercise => setFilters({ ...filters, exercise })}
+						placeholder='Any exercise'
+					/>
+				</div>
+				<label className='text-sm col-span-2'>
+					Tag
+					<input
+						type='text'
+						value={filters.tag}
+						onChange={e => setFilters({ ...filters, tag: e.target.value })}
+						placeholder='Any tag'
+						className='w-full p-2 border rounded'
+					/>
+				</label>
+				<label className='text-sm'>
+					Min. volume ({unitLabel(unit)})
+					<input
+						type='number'
+						min='0'
+						value={filters.minVolume}
+						onChange={e =>
+							setFilters({ ...filters, minVolume: e.target.value })
+						}
+						className='w-full p-2 border rounded'
+					/>
+				</label>
+				<label className='text-sm'>
+					Sort
+					<select
+						value={filters.sort}
+						onChange={e => setFilters({ ...filters, sort: e.target.value })}
+						className='w-full p-2 border rounded'>
+						{SORT_OPTIONS.map(option => (
+							<option key={option.value} value={option.value}>
+								{option.label}
+							</option>
+						))}
+					</select>
+				</label>
+				<div className='col-span-2 flex justify-end space-x-2'>
+					<button
+						type='button'
+						onClick={handleClear}
+						className='px-4 py-2 bg-gray-200 rounded-lg hover:bg-gray-300'>
+						Clear
+					</button>
+					<button
+						type='submit'
+						className='px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700'>
+						Apply
+					</button>
+				</div>
+			</form>
 			{/* Display loading state */}
 			{loading && <p>Loading workouts...</p>}
 			{/* Display error message if any */}
 			{error && <p className='text-red-500'>{error}</p>}
-			{/* Display message if no workouts are logged */}
+			{/* Display message if no workouts match */}
 			{!loading && !error && workouts.length === 0 && (
-				<p>No workouts logged yet.</p>
+				<p>
+					{queryString
+						? 'No workouts match these filters.'
+						: 'No workouts logged yet.'}
+				</p>
 			)}
 			{/* Display list of workouts if available */}
-			{!loading && !error && workouts.length > 0 && (
+			{!loading && workouts.length > 0 && (
 				<ul className='space-y-4'>
-					{' '}
-					{/* List container with spacing between items */}
-					{workouts.map(
-						(
-							workout, // Iterate over each workout
-						) => (
-							<li key={workout.id} className='p-4 bg-white rounded-lg shadow'>
-								{' '}
-								{/* List item with styling */}
-								<Link href={`/workouts/${workout.id}`} className='block'>
-									{' '}
-									{/* Link to the workout detail page */}{' '}
-									{/* Make the entire list item clickable */}
-									<div className='flex justify-between items-center'>
-										{' '}
-										{/* Flex container to space out content */}
-										<span className='text-lg font-medium'>
-											{new Date(workout.date).toLocaleString()}{' '}
-											{/* Display formatted workout date */}
-										</span>
-										<span className='text-sm text-gray-500'>
-											{workout.exercises.length} Exercises{' '}
-											{/* Display the number of exercises */}
-										</span>
+					{workouts.map(workout => (
+						<li key={workout.id} className='p-4 bg-white rounded-lg shadow'>
+							{/* Make the entire list item link to the workout detail page */}
+							<Link href={`/workouts/${workout.id}`} className='block'>
+								<div className='flex justify-between items-center'>
+									<span className='text-lg font-medium'>
+										{new Date(workout.date).toLocaleString()}
+									</span>
+									<span className='text-sm text-gray-500'>
+										{workout.exerciseCount} Exercises · {workout.setCount} Sets
+										· {formatWeight(workout.totalVolume, unit)}
+									</span>
+								</div>
+								{workout.exerciseNames.length > 0 && (
+									<p className='text-sm text-gray-600 mt-1'>
+										{workout.exerciseNames.join(', ')}
+									</p>
+								)}
+								{workout.tags.length > 0 && (
+									<div className='flex flex-wrap gap-1 mt-2'>
+										{workout.tags.map(tag => (
+											<span
+												key={tag}
+												className='px-2 py-0.5 text-xs bg-blue-100 text-blue-800 rounded-full'>
+												{tag}
+											</span>
+										))}
 									</div>
-								</Link>
-							</li>
-						),
-					)}
+								)}
+							</Link>
+						</li>
+					))}
 				</ul>
 			)}
+			{/* Loads the next page when scrolled into view; also clickable */}
+			{!loading && nextCursor !== null && (
+				<div ref={sentinelRef} className='mt-4 text-center'>
+					<button
+						onClick={loadMore}
+						disabled={loadingMore}
+						className='text-blue-600 hover:underline'>
+						{loadingMore ? 'Loading...' : 'Load more'}
+					</button>
+				</div>
+			)}
 		</div>
 	);
 };
 
+/**
+ * Home
+ * The workout list reads its filters from the URL, which needs a Suspense boundary.
+ */
+const Home = () => (
+	<Suspense fallback={<p className='p-6'>Loading workouts...</p>}>
+		<WorkoutList />
+	</Suspense>
+);
+
 export default Home; // Export the Home component as default
@@ -0,0 +1,118 @@
+// app/programs/[id]/edit/page.tsx
+
+'use client'; // Enables client-side rendering for this component
+
+import React, { useEffect, useState } from 'react'; // Import React and hooks
+import { useParams, useRouter } from 'next/navigation'; // Import useParams and useRouter for route parameters and navigation
+import ProgramForm, {
+	ProgramFormValues,
+} from '../../../components/ProgramForm'; // Import the program editor
+import { WeightUnit } from '../../../../lib/units'; // Import weight unit helpers
+
+// Define the structure of a program as received from the API
+type Program = ProgramFormValues & {
+	id: number; // Unique identifier for the program
+	unit: WeightUnit; // Unit of every training max and fixed weight
+};
+
+const EditProgramPage = () => {
+	const { id } = useParams<{ id: string }>(); // Extract the 'id' parameter from the URL
+	const router = useRouter(); // Initialize the router for navigation
+	const [program, setProgram] = useState<Program | null>(null); // State to hold the program
+	const [loading, setLoading] = useState<boolean>(true); // State to manage loading status
+	const [error, setError] = useState<string | null>(null); // State to manage error messages
+
+	// useEffect hook to fetch the program when the component mounts or when 'id' changes
+	useEffect(() => {
+		const fetchProgram = async () => {
+			try {
+				const response = await fetch(`/api/programs/${id}`); // Fetch the program from the API
+
+				if (!response.ok) {
+					// Check if the response status is not OK (200)
+					const errorData = await response.json(); // Parse the error message from the response
+					throw new Error(errorData.error || 'Failed to fetch program.'); // Throw an error with the message
+				}
+
+				setProgram(await response.json()); // Update the program state with fetched data
+			} catch (err) {
+				setError(
+					err instanceof Error ? err.message : 'An unexpected error occurred.',
+				); // Update the error state with the error message
+				console.error('Error fetching program:', err); // Log the error for debugging
+			} finally {
+				setLoading(false); // Set loading to false regardless of success or failure
+			}
+		};
+
+		fetchProgram(); // Invoke the fetchProgram function
+	}, [id]); // Dependency array ensures this runs when 'id' changes
+
+	/**
+	 * handleUpdate
+	 * Saves the changed program and returns to it.
+	 */
+	const handleUpdate = async (values: ProgramFormValues) => {
+		const response = await fetch(`/api/programs/${id}`, {
+			method: 'PUT', // HTTP method
+			headers: { 'Content-Type': 'application/json' }, // Set content type to JSON
+			body: JSON.stringify(values), // Convert data to JSON string
+		});
+
+		if (!response.ok) {
+			const errorData = await response.json(); // Parse the error message from the response
+			throw new Error(errorData.error || 'Failed to update program.'); // Throw an error with the message
+		}
+
+		router.push(`/programs/${id}`); // Navigate back to the program
+	};
+
+	// Render loading state
+	if (loading) {
+		return <div className='p-4'>Loading program...</div>;
+	}
+
+	// Render error message if any
+	if (error || !program) {
+		return (
+			<div className='p-4 text-red-500'>
+				Error: {error ?? 'Program not found.'}
+			</div>
+		);
+	}
+
+	return (
+		<div className='max-w-2xl mx-auto p-6 bg-gray-100 rounded-lg shadow-lg'>
+			<h1 className='text-2xl font-bold mb-6 text-center'>Edit Program</h1>
+			<ProgramForm
+				initialValues={{
+					name: program.name,
+					startDate: program.startDate,
+					weeks: program.weeks,
+					days: program.days.map(day => ({
+						id: day.id, // Kept so workouts logged from the day stay linked
+						name: day.name,
+						weekday: day.weekday,
+						exercises: day.exercises.map(exercise => ({
+							name: exercise.name,
+							scheme: exercise.scheme,
+							trainingMax: exercise.trainingMax,
+							weeklyIncrement: exercise.weeklyIncrement,
+							sets: exercise.sets.map(set => ({
+								reps: set.reps,
+								percent: set.percent,
+								weight: set.weight,
+								amrap: set.amrap,
+							})),
+						})),
+					})),
+				}}
+				unit={program.unit}
+				submitLabel='Save Program'
+				onSubmit={handleUpdate}
+			/>
+		</div>
+	);
+};
+
+export default EditProgramPage; // Export the EditProgramPage component as default
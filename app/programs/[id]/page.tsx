@@ -0,0 +1,210 @@
+// app/programs/[id]/page.tsx
+
+'use client'; // Enables client-side rendering for this component
+
+import React, { useEffect, useState } from 'react'; // Import React and hooks
+import { useParams } from 'next/navigation'; // Import useParams for route parameters
+import Link from 'next/link'; // Import Link component for client-side navigation
+import { WeightUnit, formatWeight } from '../../../lib/units'; // Import weight unit helpers
+import {
+	PROGRAM_SCHEME_LABELS,
+	PrescribedSet,
+	ProgramExercisePrescription,
+	WEEKDAY_LABELS,
+	prescribeSets,
+} from '../../../lib/program-schemes'; // Import program scheme helpers
+import {
+	addDays,
+	daysBetween,
+	toDayKey,
+	weekdayIndex,
+} from '../../../lib/calendar'; // Import calendar helpers
+
+// Define the structure of a program as received from the API
+type Program = {
+	id: number; // Unique identifier for the program
+	name: string; // Name of the program
+	startDate: string; // First day of week 1 (YYYY-MM-DD)
+	weeks: number; // Length of the block in weeks
+	unit: WeightUnit; // Unit of every training max and fixed weight
+	days: {
+		id: number; // Unique identifier for the program day
+		name: string; // Name of the day
+		weekday: number; // Day of the week it is scheduled on: 0 for Monday to 6 for Sunday
+		exercises: (ProgramExercisePrescription & {
+			id: number; // Unique identifier for the prescribed exercise
+			name: string; // Name of the exercise
+		})[];
+	}[];
+};
+
+/**
+ * describeSet
+ * Summary of a prescribed set, e.g. "5+ @ 85 kg (85%)" for an AMRAP set of 5.
+ */
+const describeSet = (set: PrescribedSet, unit: WeightUnit): string =>
+	`${set.reps}${set.amrap ? '+' : ''} @ ${formatWeight(set.weight, unit)}${
+		set.percent !== null ? ` (${Math.round(set.percent * 10) / 10}%)` : ''
+	}`;
+
+const ProgramDetailPage = () => {
+	const { id } = useParams<{ id: string }>(); // Extract the 'id' parameter from the URL
+	const [program, setProgram] = useState<Program | null>(null); // State to hold the program
+	const [week, setWeek] = useState<number>(1); // State to hold the week shown
+	const [loading, setLoading] = useState<boolean>(true); // State to manage loading status
+	const [error, setError] = useState<string | null>(null); // State to manage error messages
+
+	// useEffect hook to fetch the program when the component mounts or when 'id' changes
+	useEffect(() => {
+		const fetchProgram = async () => {
+			try {
+				const response = await fetch(`/api/programs/${id}`); // Fetch the program from the API
+
+				if (!response.ok) {
+					// Check if the response status is not OK (200)
+					const errorData = await response.json(); // Parse the error message from the response
+					throw new Error(errorData.error || 'Failed to fetch program.'); // Throw an error with the message
+				}
+
+				const data: Program = await response.json();
+				setProgram(data); // Update the program state with fetched data
+
+				// Open on the current week, or the nearest end of the block
+				const today = toDayKey(
+					new Date(),
+					Intl.DateTimeFormat().resolvedOptions().timeZone,
+				);
+				const current = Math.floor(daysBetween(data.startDate, today) / 7) + 1;
+				setWeek(Math.min(Math.max(current, 1), data.weeks));
+			} catch (err) {
+				setError(
+					err instanceof Error ? err.message : 'An unexpected error occurred.',
+				); // Update the error state with the error message
+				console.error('Error fetching program:', err); // Log the error for debugging
+			} finally {
+				setLoading(false); // Set loading to false regardless of success or failure
+			}
+		};
+
+		fetchProgram(); // Invoke the fetchProgram function
+	}, [id]); // Dependency array ensures this runs when 'id' changes
+
+	// Render loading state
+	if (loading) {
+		return <div className='p-4'>Loading program...</div>;
+	}
+
+	// Render error message if any
+	if (error || !program) {
+		return (
+			<div className='p-4 text-red-500'>
+				Error: {error ?? 'Program not found.'}
+			</div>
+		);
+	}
+
+	// Days fall on their weekday within each week, counted from the start date
+	const weekStart = addDays(program.startDate, (week - 1) * 7);
+	const startWeekday = weekdayIndex(program.startDate);
+
+	return (
+		<div className='max-w-2xl mx-auto p-6 bg-gray-100 rounded-lg shadow-lg'>
+			<h1 className='text-2xl font-bold mb-2 text-center'>{program.name}</h1>
+			<p className='mb-4 text-center text-gray-600'>
+				{program.weeks} weeks from{' '}
+				{new Date(`${program.startDate}T00:00:00Z`).toLocaleDateString(
+					undefined,
+					{ timeZone: 'UTC' },
+				)}
+			</p>
+			{/* Week selector */}
+			<div className='mb-6 flex justify-between items-center'>
+				<button
+					onClick={() => setWeek(week - 1)} // Show the previous week
+					disabled={week <= 1}
+					className='px-3 py-1 bg-gray-300 rounded-lg hover:bg-gray-400 disabled:opacity-50'>
+					‹ Previous
+				</button>
+				<label className='font-medium'>
+					Week{' '}
+					<select
+						value={week}
+						onChange={e => setWeek(Number(e.target.value))}
+						className='p-1 border border-gray-300 rounded-lg'>
+						{Array.from({ length: program.weeks }, (_, idx) => idx + 1).map(
+							option => (
+								<option key={option} value={option}>
+									{option}
+								</option>
+							),
+						)}
+					</select>{' '}
+					of {program.weeks}
+				</label>
+				<button
+					onClick={() => setWeek(week + 1)} // Show the next week
+					disabled={week >= program.weeks}
+					className='px-3 py-1 bg-gray-300 rounded-lg hover:bg-gray-400 disabled:opacity-50'>
+					Next ›
+				</button>
+			</div>
+			{/* Days of the week shown, with their sets worked out */}
+			{program.days.length === 0 && <p>No days scheduled yet.</p>}
+			<ul className='space-y-4'>
+				{program.days.map(day => {
+					const date = addDays(weekStart, (day.weekday - startWeekday + 7) % 7);
+
+					return (
+						<li key={day.id} className='p-4 bg-white rounded-lg shadow'>
+							<div className='flex justify-between items-center mb-2'>
+								<h2 className='text-xl font-semibold'>
+									{WEEKDAY_LABELS[day.weekday]}: {day.name}
+									<span className='ml-2 text-sm font-normal text-gray-500'>
+										{new Date(`${date}T00:00:00Z`).toLocaleDateString(
+											undefined,
+											{ timeZone: 'UTC' },
+										)}
+									</span>
+								</h2>
+								<Link
+									href={`/workout?program=${program.id}&day=${day.id}&week=${week}`}
+									className='px-3 py-1 bg-green-600 text-white rounded-lg hover:bg-green-700'>
+									Start Workout
+								</Link>
+							</div>
+							<ul className='list-disc list-inside text-gray-700'>
+								{day.exercises.map(exercise => (
+									<li key={exercise.id}>
+										<span className='font-medium'>{exercise.name}</span>:{' '}
+										{prescribeSets(exercise, week, program.unit)
+											.map(set => describeSet(set, program.unit))
+											.join(', ')}
+										<span className='block ml-5 text-sm text-gray-500'>
+											{PROGRAM_SCHEME_LABELS[exercise.scheme]}
+											{exercise.trainingMax !== null &&
+												` · training max ${formatWeight(exercise.trainingMax, program.unit)}`}
+										</span>
+									</li>
+								))}
+							</ul>
+						</li>
+					);
+				})}
+			</ul>
+			<div className='mt-6 flex space-x-2'>
+				<Link
+					href={`/programs/${program.id}/edit`}
+					className='px-3 py-1 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600'>
+					Edit
+				</Link>
+				<Link
+					href='/programs'
+					className='px-3 py-1 bg-gray-500 text-white rounded-lg hover:bg-gray-600'>
+					Back to Programs
+				</Link>
+			</div>
+		</div>
+	);
+};
+
+export default ProgramDetailPage; // Export the ProgramDetailPage component as default
@@ -0,0 +1,212 @@
+// app/programs/page.tsx
+
+'use client'; // Enables client-side rendering for this component
+
+import React, { useEffect, useState } from 'react'; // Import React and hooks
+import Link from 'next/link'; // Import Link component for client-side navigation
+import { WEEKDAY_LABELS } from '../../lib/program-schemes'; // Import program scheme helpers
+
+// Define the structure of a program as received from the API
+type Program = {
+	id: number; // Unique identifier for the program
+	name: string; // Name of the program
+	startDate: string; // First day of week 1 (YYYY-MM-DD)
+	weeks: number; // Length of the block in weeks
+	days: {
+		id: number; // Unique identifier for the program day
+		name: string; // Name of the day
+		weekday: number; // Day of the week it is scheduled on: 0 for Monday to 6 for Sunday
+	}[];
+};
+
+// Define the structure of a program session scheduled today as received from the API
+type ProgramSession = {
+	programId: number; // Program the session belongs to
+	programName: string; // Name of the program
+	dayId: number; // Program day of the session
+	dayName: string; // Name of the program day
+	week: number; // Week of the program (1-based)
+	loggedWorkoutId: number | null; // Workout already logged for the session, if any
+};
+
+const ProgramsPage = () => {
+	const [programs, setPrograms] = useState<Program[]>([]); // State to hold the programs
+	const [today, setToday] = useState<ProgramSession[]>([]); // State to hold the sessions scheduled today
+	const [loading, setLoading] = useState<boolean>(true); // State to manage loading status
+	const [error, setError] = useState<string | null>(null); // State to manage error messages
+
+	/**
+	 * fetchPrograms
+	 * Asynchronously fetches the programs and today's sessions from the API.
+	 */
+	const fetchPrograms = async () => {
+		try {
+			const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+			const [programsResponse, todayResponse] = await Promise.all([
+				fetch('/api/programs'),
+				fetch(`/api/programs/today?timeZone=${encodeURIComponent(timeZone)}`),
+			]); // Fetch data from the API
+
+			if (!programsResponse.ok || !todayResponse.ok) {
+				// Check if either response status is not OK (200)
+				const errorData = await (
+					programsResponse.ok ? todayResponse : programsResponse
+				).json(); // Parse the error message from the response
+				throw new Error(errorData.error || 'Failed to fetch programs.'); // Throw an error with the message
+			}
+
+			const data: Program[] = await programsResponse.json(); // Parse the JSON data
+			const todayData: { sessions: ProgramSession[] } =
+				await todayResponse.json();
+
+			setPrograms(data); // Update the programs state with fetched data
+			setToday(todayData.sessions);
+		} catch (err) {
+			// Catch any errors that occur during the fetch
+			setError(
+				err instanceof Error ? err.message : 'An unexpected error occurred.',
+			); // Update the error state with the error message
+			console.error('Error fetching programs:', err); // Log the error for debugging
+		} finally {
+			setLoading(false); // Set loading to false regardless of success or failure
+		}
+	};
+
+	/**
+	 * handleDelete
+	 * Deletes a program after confirmation.
+	 */
+	const handleDelete = async (program: Program) => {
+		if (
+			!confirm(
+				`Delete the program "${program.name}"? Workouts logged from it are kept.`,
+			)
+		) {
+			return; // Keep the program
+		}
+
+		try {
+			const response = await fetch(`/api/programs/${program.id}`, {
+				method: 'DELETE',
+			});
+
+			if (!response.ok) {
+				const errorData = await response.json(); // Parse the error message from the response
+				throw new Error(errorData.error || 'Failed to delete program.'); // Throw an error with the message
+			}
+
+			setPrograms(programs.filter(other => other.id !== program.id)); // Remove the program from the list
+			setToday(today.filter(session => session.programId !== program.id));
+		} catch (err) {
+			alert(
+				err instanceof Error ? err.message : 'An unexpected error occurred.',
+			); // Notify the user
+			console.error('Error deleting program:', err); // Log the error for debugging
+		}
+	};
+
+	// useEffect hook to fetch programs when the component mounts
+	useEffect(() => {
+		fetchPrograms(); // Invoke the fetchPrograms function
+	}, []); // Empty dependency array ensures this runs only once on mount
+
+	return (
+		<div className='max-w-2xl mx-auto p-6 bg-gray-100 min-h-screen'>
+			<h1 className='text-3xl font-bold mb-6 text-center'>Programs</h1>
+			{/* Link to the New Program page */}
+			<div className='mb-6 text-center'>
+				<Link
+					href='/programs/new'
+					className='px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700'>
+					New Program
+				</Link>
+			</div>
+			{/* Display loading state */}
+			{loading && <p>Loading programs...</p>}
+			{/* Display error message if any */}
+			{error && <p className='text-red-500'>{error}</p>}
+			{/* Display today's scheduled sessions */}
+			{!loading && !error && today.length > 0 && (
+				<div className='mb-6 p-4 bg-white rounded-lg shadow'>
+					<h2 className='text-xl font-semibold mb-2'>Today</h2>
+					<ul className='space-y-2'>
+						{today.map(session => (
+							<li
+								key={session.dayId}
+								className='flex justify-between items-center'>
+								<span>
+									{session.programName} — Week {session.week} ·{' '}
+									{session.dayName}
+								</span>
+								{session.loggedWorkoutId !== null ? (
+									<Link
+										href={`/workouts/${session.loggedWorkoutId}`}
+										className='text-green-600 hover:underline'>
+										Logged ✓
+									</Link>
+								) : (
+									<Link
+										href={`/workout?program=${session.programId}&day=${session.dayId}&week=${session.week}`}
+										className='px-3 py-1 bg-green-600 text-white rounded-lg hover:bg-green-700'>
+										Start Workout
+									</Link>
+								)}
+							</li>
+						))}
+					</ul>
+				</div>
+			)}
+			{/* Display message if no programs exist yet */}
+			{!loading && !error && programs.length === 0 && (
+				<p>
+					No programs yet. Create one to schedule training days and have each
+					week&apos;s sets worked out from your training maxes.
+				</p>
+			)}
+			{/* Display the programs */}
+			{!loading && !error && programs.length > 0 && (
+				<ul className='space-y-4'>
+					{programs.map(program => (
+						<li key={program.id} className='p-4 bg-white rounded-lg shadow'>
+							<h2 className='text-xl font-semibold'>
+								<Link
+									href={`/programs/${program.id}`}
+									className='text-blue-500 hover:underline'>
+									{program.name}
+								</Link>
+							</h2>
+							<p className='text-gray-600 mb-2'>
+								{program.weeks} weeks from{' '}
+								{new Date(`${program.startDate}T00:00:00Z`).toLocaleDateString(
+									undefined,
+									{ timeZone: 'UTC' },
+								)}
+							</p>
+							<ul className='list-disc list-inside text-gray-700 mb-4'>
+								{program.days.map(day => (
+									<li key={day.id}>
+										{WEEKDAY_LABELS[day.weekday]}: {day.name}
+									</li>
+								))}
+							</ul>
+							<div className='flex space-x-2'>
+								<Link
+									href={`/programs/${program.id}/edit`}
+									className='px-3 py-1 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600'>
+									Edit
+								</Link>
+								<button
+									onClick={() => handleDelete(program)} // Delete the program
+									className='px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700'>
+									Delete
+								</button>
+							</div>
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+};
+
+export default ProgramsPage; // Export the ProgramsPage component as default
@@ -0,0 +1,237 @@
+// app/records/page.tsx
+
+'use client'; // Enables client-side rendering for this component
+
+import React, { useEffect, useState } from 'react'; // Import React and hooks
+import Link from 'next/link'; // Import Link component for client-side navigation
+import { estimateOneRepMax } from '../../lib/strength'; // Import one-rep max formulas
+import { WeightUnit, formatWeight } from '../../lib/units'; // Import weight unit helpers
+import { formatDuration } from '../../lib/durations'; // Import duration helpers
+import {
+	ExerciseKind,
+	formatBodyweightLoad,
+	formatDistance,
+	formatPace,
+} from '../../lib/exercise-kinds'; // Import exercise kind helpers
+
+// Define the structure of a personal record as received from the API
+type PersonalRecord = {
+	id: number; // Unique identifier for the record
+	type:
+		| 'HEAVIEST_WEIGHT'
+		| 'MOST_REPS_AT_WEIGHT'
+		| 'BEST_E1RM'
+		| 'BEST_SESSION_VOLUME'
+		| 'LONGEST_DISTANCE'
+		| 'LONGEST_DURATION'
+		| 'BEST_PACE'; // Kind of record
+	value: number; // Record value: weight, reps, metres, seconds or seconds per km
+	weight: number | null; // Weight of the set that set the record, in the user's unit
+	reps: number | null; // Reps of the set that set the record
+	isCurrent: boolean; // Whether the record still stands
+	achievedAt: string; // ISO string of the date the record was set
+	workoutId: number; // Workout in which the record was set
+};
+
+// Define the structure of the records of one lift as received from the API
+type LiftRecords = {
+	definitionId: number; // Catalog entry of the lift
+	name: string; // Name of the lift
+	kind: ExerciseKind; // What each set of the lift records
+	unit: WeightUnit; // Unit of every weight in the records
+	current: PersonalRecord[]; // Records that still stand
+	history: PersonalRecord[]; // Every record ever set, newest first
+};
+
+/**
+ * describeRecord
+ * Human-readable summary of a record. Bodyweight lifts show the added or assisted
+ * weight, and reps-only exercises no weight at all.
+ */
+const describeRecord = (
+	record: PersonalRecord,
+	kind: ExerciseKind,
+	unit: WeightUnit,
+): string => {
+	const weight =
+		kind === 'BODYWEIGHT'
+			? formatBodyweightLoad(record.weight ?? 0, unit)
+			: formatWeight(record.weight ?? 0, unit);
+	switch (record.type) {
+		case 'HEAVIEST_WEIGHT':
+			return `Heaviest: ${weight} x ${record.reps}`;
+		case 'MOST_REPS_AT_WEIGHT':
+			return kind === 'REPS'
+				? `Rep max: ${record.reps} reps`
+				: `Rep max: ${record.reps} reps @ ${weight}`;
+		case 'BEST_E1RM': {
+			// Show the Brzycki estimate next to the stored Epley value
+			const brzycki = estimateOneRepMax(
+				record.weight ?? 0,
+				record.reps ?? 0,
+				'brzycki',
+			);
+			return `Est. 1RM: ${formatWeight(record.value, unit)} (Epley)${
+				brzycki > 0 ? ` / ${formatWeight(brzycki, unit)} (Brzycki)` : ''
+			} from ${weight} x ${record.reps}`;
+		}
+		case 'BEST_SESSION_VOLUME':
+			return `Session volume: ${formatWeight(record.value, unit)}`;
+		case 'LONGEST_DISTANCE':
+			return `Longest distance: ${formatDistance(record.value)}`;
+		case 'LONGEST_DURATION':
+			return `Longest time: ${formatDuration(record.value)}`;
+		case 'BEST_PACE':
+			return `Best pace: ${formatPace(record.value)}`;
+	}
+};
+
+const RecordsPage = () => {
+	const [lifts, setLifts] = useState<LiftRecords[]>([]); // State to hold records grouped by lift
+	const [loading, setLoading] = useState<boolean>(true); // State to manage loading status
+	const [error, setError] = useState<string | null>(null); // State to manage error messages
+	const [rebuilding, setRebuilding] = useState<boolean>(false); // State to manage rebuild status
+	const [expanded, setExpanded] = useState<number | null>(null); // Lift whose history is shown
+
+	/**
+	 * fetchRecords
+	 * Asynchronously fetches the personal records from the API.
+	 */
+	const fetchRecords = async () => {
+		try {
+			const response = await fetch('/api/records'); // Fetch data from the API
+
+			if (!response.ok) {
+				// Check if the response status is not OK (200)
+				const errorData = await response.json(); // Parse the error message from the response
+				throw new Error(errorData.error || 'Failed to fetch records.'); // Throw an error with the message
+			}
+
+			const data: LiftRecords[] = await response.json(); // Parse the JSON data
+
+			setLifts(data); // Update the records state with fetched data
+		} catch (err) {
+			// Catch any errors that occur during the fetch
+			setError(
+				err instanceof Error ? err.message : 'An unexpected error occurred.',
+			); // Update the error state with the error message
+			console.error('Error fetching records:', err); // Log the error for debugging
+		} finally {
+			setLoading(false); // Set loading to false regardless of success or failure
+		}
+	};
+
+	/**
+	 * handleRebuild
+	 * Recalculates every record from the workout log, then reloads the list.
+	 */
+	const handleRebuild = async () => {
+		setRebuilding(true); // Set rebuild status to true
+
+		try {
+			const response = await fetch('/api/records/rebuild', { method: 'POST' });
+
+			if (!response.ok) {
+				const errorData = await response.json(); // Parse the error message from the response
+				throw new Error(errorData.error || 'Failed to rebuild records.'); // Throw an error with the message
+			}
+
+			await fetchRecords(); // Show the rebuilt records
+		} catch (err) {
+			setError(
+				err instanceof Error ? err.message : 'An unexpected error occurred.',
+			); // Update the error state with the error message
+			console.error('Error rebuilding records:', err); // Log the error for debugging
+		} finally {
+			setRebuilding(false); // Reset rebuild status
+		}
+	};
+
+	// useEffect hook to fetch records when the component mounts
+	useEffect(() => {
+		fetchRecords(); // Invoke the fetchRecords function
+	}, []); // Empty dependency array ensures this runs only once on mount
+
+	return (
+		<div className='max-w-2xl mx-auto p-6 bg-gray-100 min-h-screen'>
+			<h1 className='text-3xl font-bold mb-6 text-center'>Personal Records</h1>
+			<div className='mb-6 text-center'>
+				<button
+					onClick={handleRebuild} // Recalculate all records
+					className={`px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 ${
+						rebuilding ? 'opacity-50 cursor-not-allowed' : ''
+					}`} // Conditional styling based on rebuild status
+					disabled={rebuilding} // Disable the button while rebuilding
+				>
+					{rebuilding ? 'Recalculating...' : 'Recalculate Records'}
+				</button>
+			</div>
+			{/* Display loading state */}
+			{loading && <p>Loading records...</p>}
+			{/* Display error message if any */}
+			{error && <p className='text-red-500'>{error}</p>}
+			{/* Display message if no records exist yet */}
+			{!loading && !error && lifts.length === 0 && (
+				<p>No records yet. Log a workout to set some!</p>
+			)}
+			{/* Display the records of each lift */}
+			{!loading && !error && lifts.length > 0 && (
+				<ul className='space-y-4'>
+					{lifts.map(lift => (
+						<li
+							key={lift.definitionId}
+							className='p-4 bg-white rounded-lg shadow'>
+							<h2 className='text-xl font-semibold mb-2'>
+								<Link
+									href={`/exercises/${encodeURIComponent(lift.name)}`}
+									className='hover:underline'>
+									{lift.name}
+								</Link>
+							</h2>
+							{/* Current records */}
+							<ul className='list-disc list-inside'>
+								{lift.current.map(record => (
+									<li key={record.id}>
+										{describeRecord(record, lift.kind, lift.unit)}{' '}
+										<Link
+											href={`/workouts/${record.workoutId}`}
+											className='text-sm text-blue-600 hover:underline'>
+											{new Date(record.achievedAt).toLocaleDateString()}
+										</Link>
+									</li>
+								))}
+							</ul>
+							{/* Past records */}
+							<button
+								onClick={() =>
+									setExpanded(
+										expanded === lift.definitionId ? null : lift.definitionId,
+									)
+								} // Toggle the history of this lift
+								className='mt-2 text-sm text-blue-600 hover:underline'>
+								{expanded === lift.definitionId
+									? 'Hide history'
+									: `Show history (${lift.history.length})`}
+							</button>
+							{expanded === lift.definitionId && (
+								<ul className='mt-2 text-sm text-gray-600 space-y-1'>
+									{lift.history.map(record => (
+										<li key={record.id}>
+											{new Date(record.achievedAt).toLocaleDateString()}:{' '}
+											{describeRecord(record, lift.kind, lift.unit)}
+											{record.isCurrent && (
+												<span className='ml-1 text-green-600'>(current)</span>
+											)}
+										</li>
+									))}
+								</ul>
+							)}
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+};
+
+export default RecordsPage; // Export the RecordsPage component as default
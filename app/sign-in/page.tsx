@@ -0,0 +1,109 @@
+// app/sign-in/page.tsx
+
+'use client'; // Enables client-side rendering for this component
+
+import React, { useState } from 'react'; // Import React and useState hook
+import Link from 'next/link'; // Import Link component for client-side navigation
+import { useRouter } from 'next/navigation'; // Import useRouter for navigation
+import { announceSignedIn } from '../../lib/sync-queue'; // Import the offline sync queue
+
+const SignInPage = () => {
+	const router = useRouter(); // Initialize the router for navigation
+	const [email, setEmail] = useState<string>(''); // State for the email input
+	const [password, setPassword] = useState<string>(''); // State for the password input
+	const [error, setError] = useState<string | null>(null); // State to manage error messages
+	const [submitting, setSubmitting] = useState<boolean>(false); // State to manage submission status
+
+	/**
+	 * handleSubmit
+	 * Sends the credentials to the API and navigates on success.
+	 */
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault(); // Prevent the default form submission behavior
+		setSubmitting(true); // Set submission status to true
+		setError(null); // Clear any previous error
+
+		try {
+			const response = await fetch('/api/sign-in', {
+				method: 'POST', // HTTP method
+				headers: { 'Content-Type': 'application/json' }, // Set content type to JSON
+				body: JSON.stringify({ email, password }), // Convert data to JSON string
+			});
+
+			if (!response.ok) {
+				// Check if the response status is not OK (200)
+				const errorData = await response.json(); // Parse the error message from the response
+				throw new Error(errorData.error || 'Failed to sign in.'); // Throw an error with the message
+			}
+
+			const data: { id: number } = await response.json();
+			announceSignedIn(data.id); // Resume syncing writes queued before the session expired
+
+			// Only follow same-site relative paths from the query string
+			const next = new URLSearchParams(window.location.search).get('next');
+			router.push(
+				next && next.startsWith('/') && !next.startsWith('//') ? next : '/',
+			);
+			router.refresh(); // Re-render server components such as the Navbar
+		} catch (err) {
+			// Catch any errors that occur during sign-in
+			setError(
+				err instanceof Error ? err.message : 'An unexpected error occurred.',
+			); // Update the error state
+			console.error('Error signing in:', err); // Log the error for debugging
+		} finally {
+			setSubmitting(false); // Reset submission status
+		}
+	};
+
+	return (
+		<div className='max-w-md mx-auto p-6 bg-gray-100 rounded-lg shadow-lg'>
+			<h1 className='text-2xl font-bold mb-6 text-center'>Sign In</h1>
+			<form onSubmit={handleSubmit}>
+				{/* Email Input */}
+				<div className='mb-4'>
+					<label className='block text-lg font-medium mb-2'>Email:</label>
+					<input
+						type='email'
+						value={email}
+						onChange={e => setEmail(e.target.value)}
+						className='w-full p-2 border border-gray-300 rounded-lg'
+						autoComplete='email'
+						required
+					/>
+				</div>
+				{/* Password Input */}
+				<div className='mb-4'>
+					<label className='block text-lg font-medium mb-2'>Password:</label>
+					<input
+						type='password'
+						value={password}
+						onChange={e => setPassword(e.target.value)}
+						className='w-full p-2 border border-gray-300 rounded-lg'
+						autoComplete='current-password'
+						required
+					/>
+				</div>
+				{/* Display error message if any */}
+				{error && <p className='mb-4 text-red-500'>{error}</p>}
+				<button
+					type='submit' // Button type submit to trigger form submission
+					className={`w-full p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 ${
+						submitting ? 'opacity-50 cursor-not-allowed' : ''
+					}`} // Conditional styling based on submission status
+					disabled={submitting} // Disable the button while submitting
+				>
+					{submitting ? 'Signing in...' : 'Sign In'}
+				</button>
+			</form>
+			<p className='mt-4 text-center'>
+				No account yet?{' '}
+				<Link href='/sign-up' className='text-blue-600 hover:underline'>
+					Sign up
+				</Link>
+			</p>
+		</div>
+	);
+};
+
+export default SignInPage; // Export the SignInPage component as default
@@ -0,0 +1,123 @@
+// app/sign-up/page.tsx
+
+'use client'; // Enables client-side rendering for this component
+
+import React, { useState } from 'react'; // Import React and useState hook
+import Link from 'next/link'; // Import Link component for client-side navigation
+import { useRouter } from 'next/navigation'; // Import useRouter for navigation
+
+const SignUpPage = () => {
+	const router = useRouter(); // Initialize the router for navigation
+	const [email, setEmail] = useState<string>(''); // State for the email input
+	const [password, setPassword] = useState<string>(''); // State for the password input
+	const [confirmPassword, setConfirmPassword] = useState<string>(''); // State for the password confirmation input
+	const [error, setError] = useState<string | null>(null); // State to manage error messages
+	const [submitting, setSubmitting] = useState<boolean>(false); // State to manage submission status
+
+	/**
+	 * handleSubmit
+	 * Creates the account through the API and navigates home on success.
+	 */
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault(); // Prevent the default form submission behavior
+
+		if (password !== confirmPassword) {
+			setError('Passwords do not match.'); // Catch typos before calling the API
+			return;
+		}
+
+		setSubmitting(true); // Set submission status to true
+		setError(null); // Clear any previous error
+
+		try {
+			const response = await fetch('/api/sign-up', {
+				method: 'POST', // HTTP method
+				headers: { 'Content-Type': 'application/json' }, // Set content type to JSON
+				body: JSON.stringify({ email, password }), // Convert data to JSON string
+			});
+
+			if (!response.ok) {
+				// Check if the response status is not OK (201)
+				const errorData = await response.json(); // Parse the error message from the response
+				throw new Error(errorData.error || 'Failed to sign up.'); // Throw an error with the message
+			}
+
+			router.push('/'); // Navigate to the home page
+			router.refresh(); // Re-render server components such as the Navbar
+		} catch (err) {
+			// Catch any errors that occur during sign-up
+			setError(
+				err instanceof Error ? err.message : 'An unexpected error occurred.',
+			); // Update the error state
+			console.error('Error signing up:', err); // Log the error for debugging
+		} finally {
+			setSubmitting(false); // Reset submission status
+		}
+	};
+
+	return (
+		<div className='max-w-md mx-auto p-6 bg-gray-100 rounded-lg shadow-lg'>
+			<h1 className='text-2xl font-bold mb-6 text-center'>Create Account</h1>
+			<form onSubmit={handleSubmit}>
+				{/* Email Input */}
+				<div className='mb-4'>
+					<label className='block text-lg font-medium mb-2'>Email:</label>
+					<input
+						type='email'
+						value={email}
+						onChange={e => setEmail(e.target.value)}
+						className='w-full p-2 border border-gray-300 rounded-lg'
+						autoComplete='email'
+						required
+					/>
+				</div>
+				{/* Password Input */}
+				<div className='mb-4'>
+					<label className='block text-lg font-medium mb-2'>Password:</label>
+					<input
+						type='password'
+						value={password}
+						onChange={e => setPassword(e.target.value)}
+						className='w-full p-2 border border-gray-300 rounded-lg'
+						autoComplete='new-password'
+						minLength={8} // Matches the minimum enforced by the API
+						required
+					/>
+				</div>
+				{/* Confirm Password Input */}
+				<div className='mb-4'>
+					<label className='block text-lg font-medium mb-2'>
+						Confirm Password:
+					</label>
+					<input
+						type='password'
+						value={confirmPassword}
+						onChange={e => setConfirmPassword(e.target.value)}
+						className='w-full p-2 border border-gray-300 rounded-lg'
+						autoComplete='new-password'
+						required
+					/>
+				</div>
+				{/* Display error message if any */}
+				{error && <p className='mb-4 text-red-500'>{error}</p>}
+				<button
+					type='submit' // Button type submit to trigger form submission
+					className={`w-full p-2 bg-green-600 text-white rounded-lg hover:bg-green-700 ${
+						submitting ? 'opacity-50 cursor-not-allowed' : ''
+					}`} // Conditional styling based on submission status
+					disabled={submitting} // Disable the button while submitting
+				>
+					{submitting ? 'Creating account...' : 'Sign Up'}
+				</button>
+			</form>
+			<p className='mt-4 text-center'>
+				Already have an account?{' '}
+				<Link href='/sign-in' className='text-blue-600 hover:underline'>
+					Sign in
+				</Link>
+			</p>
+		</div>
+	);
+};
+
+export default SignUpPage; // Export the SignUpPage component as default
@@ -0,0 +1,106 @@
+// app/templates/[id]/edit/page.tsx
+
+'use client'; // Enables client-side rendering for this component
+
+import React, { useEffect, useState } from 'react'; // Import React and hooks
+import { useParams, useRouter } from 'next/navigation'; // Import useParams and useRouter for route parameters and navigation
+import TemplateForm, {
+	TemplateFormValues,
+} from '../../../components/TemplateForm'; // Import the template editor
+import { WeightUnit } from '../../../../lib/units'; // Import weight unit helpers
+
+// Define the structure of a template as received from the API
+type Template = TemplateFormValues & {
+	id: number; // Unique identifier for the template
+	unit: WeightUnit; // Unit of every target weight
+};
+
+const EditTemplatePage = () => {
+	const { id } = useParams<{ id: string }>(); // Extract the 'id' parameter from the URL
+	const router = useRouter(); // Initialize the router for navigation
+	const [template, setTemplate] = useState<Template | null>(null); // State to hold the template
+	const [loading, setLoading] = useState<boolean>(true); // State to manage loading status
+	const [error, setError] = useState<string | null>(null); // State to manage error messages
+
+	// useEffect hook to fetch the template when the component mounts or when 'id' changes
+	useEffect(() => {
+		const fetchTemplate = async () => {
+			try {
+				const response = await fetch(`/api/templates/${id}`); // Fetch the template from the API
+
+				if (!response.ok) {
+					// Check if the response status is not OK (200)
+					const errorData = await response.json(); // Parse the error message from the response
+					throw new Error(errorData.error || 'Failed to fetch template.'); // Throw an error with the message
+				}
+
+				setTemplate(await response.json()); // Update the template state with fetched data
+			} catch (err) {
+				setError(
+					err instanceof Error ? err.message : 'An unexpected error occurred.',
+				); // Update the error state with the error message
+				console.error('Error fetching template:', err); // Log the error for debugging
+			} finally {
+				setLoading(false); // Set loading to false regardless of success or failure
+			}
+		};
+
+		fetchTemplate(); // Invoke the fetchTemplate function
+	}, [id]); // Dependency array ensures this runs when 'id' changes
+
+	/**
+	 * handleUpdate
+	 * Saves the changed template and returns to the template list.
+	 */
+	const handleUpdate = async (values: TemplateFormValues) => {
+		const response = await fetch(`/api/templates/${id}`, {
+			method: 'PUT', // HTTP method
+			headers: { 'Content-Type': 'application/json' }, // Set content type to JSON
+			body: JSON.stringify(values), // Convert data to JSON string
+		});
+
+		if (!response.ok) {
+			const errorData = await response.json(); // Parse the error message from the response
+			throw new Error(errorData.error || 'Failed to update template.'); // Throw an error with the message
+		}
+
+		router.push('/templates'); // Navigate back to the template list
+	};
+
+	// Render loading state
+	if (loading) {
+		return <div className='p-4'>Loading template...</div>;
+	}
+
+	// Render error message if any
+	if (error || !template) {
+		return (
+			<div className='p-4 text-red-500'>
+				Error: {error ?? 'Template not found.'}
+			</div>
+		);
+	}
+
+	return (
+		<div className='max-w-2xl mx-auto p-6 bg-gray-100 rounded-lg shadow-lg'>
+			<h1 className='text-2xl font-bold mb-6 text-center'>Edit Template</h1>
+			<TemplateForm
+				initialValues={{
+					name: template.name,
+					exercises: template.exercises.map(exercise => ({
+						name: exercise.name,
+						sets: exercise.sets.map(set => ({
+							reps: set.reps,
+							weight: set.weight,
+						})),
+					})),
+				}}
+				unit={template.unit}
+				submitLabel='Save Template'
+				onSubmit={handleUpdate}
+			/>
+		</div>
+	);
+};
+
+export default EditTemplatePage; // Export the EditTemplatePage component as default
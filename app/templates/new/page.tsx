@@ -0,0 +1,68 @@
+// app/templates/new/page.tsx
+
+'use client'; // Enables client-side rendering for this component
+
+import React, { useEffect, useState } from 'react'; // Import React and hooks
+import { useRouter } from 'next/navigation'; // Import useRouter for navigation
+import TemplateForm, {
+	TemplateFormValues,
+} from '../../components/TemplateForm'; // Import the template editor
+import { WeightUnit } from '../../../lib/units'; // Import weight unit helpers
+
+const NewTemplatePage = () => {
+	const router = useRouter(); // Initialize the router for navigation
+	const [unit, setUnit] = useState<WeightUnit | null>(null); // Unit target weights are entered in
+
+	// useEffect hook to load the user's weight unit when the component mounts
+	useEffect(() => {
+		const fetchPreferences = async () => {
+			try {
+				const response = await fetch('/api/preferences'); // Fetch the preferences from the API
+				if (!response.ok) throw new Error('Failed to fetch preferences.');
+				const data: { weightUnit: WeightUnit } = await response.json();
+				setUnit(data.weightUnit); // Update the unit state
+			} catch (err) {
+				console.error('Error fetching preferences:', err); // Log the error; kilograms are assumed
+				setUnit('KG');
+			}
+		};
+
+		fetchPreferences(); // Invoke the fetchPreferences function
+	}, []); // Empty dependency array ensures this runs only once on mount
+
+	/**
+	 * handleCreate
+	 * Saves the new template and returns to the template list.
+	 */
+	const handleCreate = async (values: TemplateFormValues) => {
+		const response = await fetch('/api/templates', {
+			method: 'POST', // HTTP method
+			headers: { 'Content-Type': 'application/json' }, // Set content type to JSON
+			body: JSON.stringify(values), // Convert data to JSON string
+		});
+
+		if (!response.ok) {
+			const errorData = await response.json(); // Parse the error message from the response
+			throw new Error(errorData.error || 'Failed to create template.'); // Throw an error with the message
+		}
+
+		router.push('/templates'); // Navigate back to the template list
+	};
+
+	return (
+		<div className='max-w-2xl mx-auto p-6 bg-gray-100 rounded-lg shadow-lg'>
+			<h1 className='text-2xl font-bold mb-6 text-center'>New Template</h1>
+			{unit ? (
+				<TemplateForm
+					unit={unit}
+					submitLabel='Create Template'
+					onSubmit={handleCreate}
+				/>
+			) : (
+				<p>Loading...</p>
+			)}
+		</div>
+	);
+};
+
+export default NewTemplatePage; // Export the NewTemplatePage component as default
@@ -0,0 +1,169 @@
+// app/templates/page.tsx
+
+'use client'; // Enables client-side rendering for this component
+
+import React, { useEffect, useState } from 'react'; // Import React and hooks
+import Link from 'next/link'; // Import Link component for client-side navigation
+import { WeightUnit, formatWeight } from '../../lib/units'; // Import weight unit helpers
+
+// Define the structure of a template as received from the API
+type Template = {
+	id: number; // Unique identifier for the template
+	name: string; // Name of the routine
+	unit: WeightUnit; // Unit of every target weight
+	exercises: {
+		id: number; // Unique identifier for the planned exercise
+		name: string; // Name of the exercise
+		sets: {
+			id: number; // Unique identifier for the target set
+			reps: number; // Target number of repetitions
+			weight: number; // Target weight
+		}[];
+	}[];
+};
+
+/**
+ * describeSets
+ * Compact summary of target sets, e.g. "3 x 5 @ 80 kg" when every set is the same.
+ */
+const describeSets = (
+	sets: Template['exercises'][number]['sets'],
+	unit: WeightUnit,
+): string => {
+	const uniform = sets.every(
+		set => set.reps === sets[0].reps && set.weight === sets[0].weight,
+	);
+	if (uniform && sets.length > 0) {
+		return `${sets.length} x ${sets[0].reps} @ ${formatWeight(sets[0].weight, unit)}`;
+	}
+	return sets
+		.map(set => `${set.reps} @ ${formatWeight(set.weight, unit)}`)
+		.join(', ');
+};
+
+const TemplatesPage = () => {
+	const [templates, setTemplates] = useState<Template[]>([]); // State to hold the templates
+	const [loading, setLoading] = useState<boolean>(true); // State to manage loading status
+	const [error, setError] = useState<string | null>(null); // State to manage error messages
+
+	/**
+	 * fetchTemplates
+	 * Asynchronously fetches the templates from the API.
+	 */
+	const fetchTemplates = async () => {
+		try {
+			const response = await fetch('/api/templates'); // Fetch data from the API
+
+			if (!response.ok) {
+				// Check if the response status is not OK (200)
+				const errorData = await response.json(); // Parse the error message from the response
+				throw new Error(errorData.error || 'Failed to fetch templates.'); // Throw an error with the message
+			}
+
+			const data: Template[] = await response.json(); // Parse the JSON data
+
+			setTemplates(data); // Update the templates state with fetched data
+		} catch (err) {
+			// Catch any errors that occur during the fetch
+			setError(
+				err instanceof Error ? err.message : 'An unexpected error occurred.',
+			); // Update the error state with the error message
+			console.error('Error fetching templates:', err); // Log the error for debugging
+		} finally {
+			setLoading(false); // Set loading to false regardless of success or failure
+		}
+	};
+
+	/**
+	 * handleDelete
+	 * Deletes a template after confirmation.
+	 */
+	const handleDelete = async (template: Template) => {
+		if (!confirm(`Delete the template "${template.name}"?`)) return; // Confirm the deletion with the user
+
+		try {
+			const response = await fetch(`/api/templates/${template.id}`, {
+				method: 'DELETE',
+			});
+
+			if (!response.ok) {
+				const errorData = await response.json(); // Parse the error message from the response
+				throw new Error(errorData.error || 'Failed to delete template.'); // Throw an error with the message
+			}
+
+			setTemplates(templates.filter(other => other.id !== template.id)); // Remove the template from the list
+		} catch (err) {
+			alert(
+				err instanceof Error ? err.message : 'An unexpected error occurred.',
+			); // Notify the user
+			console.error('Error deleting template:', err); // Log the error for debugging
+		}
+	};
+
+	// useEffect hook to fetch templates when the component mounts
+	useEffect(() => {
+		fetchTemplates(); // Invoke the fetchTemplates function
+	}, []); // Empty dependency array ensures this runs only once on mount
+
+	return (
+		<div className='max-w-2xl mx-auto p-6 bg-gray-100 min-h-screen'>
+			<h1 className='text-3xl font-bold mb-6 text-center'>Workout Templates</h1>
+			{/* Link to the New Template page */}
+			<div className='mb-6 text-center'>
+				<Link
+					href='/templates/new'
+					className='px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700'>
+					New Template
+				</Link>
+			</div>
+			{/* Display loading state */}
+			{loading && <p>Loading templates...</p>}
+			{/* Display error message if any */}
+			{error && <p className='text-red-500'>{error}</p>}
+			{/* Display message if no templates exist yet */}
+			{!loading && !error && templates.length === 0 && (
+				<p>
+					No templates yet. Create one, or save a logged workout as a template
+					from its detail page.
+				</p>
+			)}
+			{/* Display the templates */}
+			{!loading && !error && templates.length > 0 && (
+				<ul className='space-y-4'>
+					{templates.map(template => (
+						<li key={template.id} className='p-4 bg-white rounded-lg shadow'>
+							<h2 className='text-xl font-semibold mb-2'>{template.name}</h2>
+							<ul className='list-disc list-inside text-gray-700 mb-4'>
+								{template.exercises.map(exercise => (
+									<li key={exercise.id}>
+										{exercise.name}:{' '}
+										{describeSets(exercise.sets, template.unit)}
+									</li>
+								))}
+							</ul>
+							<div className='flex space-x-2'>
+								<Link
+									href={`/workout?template=${template.id}`}
+									className='px-3 py-1 bg-green-600 text-white rounded-lg hover:bg-green-700'>
+									Start Workout
+								</Link>
+								<Link
+									href={`/templates/${template.id}/edit`}
+									className='px-3 py-1 bg-yellow-500 text-white rounded-lg hover:bg-yellow-600'>
+									Edit
+								</Link>
+								<button
+									onClick={() => handleDelete(template)} // Delete the template
+									className='px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700'>
+									Delete
+								</button>
+							</div>
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+};
+
+export default TemplatesPage; // Export the TemplatesPage component as default
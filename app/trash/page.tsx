@@ -0,0 +1,187 @@
+// app/trash/page.tsx
+
+'use client'; // Enables client-side rendering for this component
+
+import React, { useEffect, useState } from 'react'; // Import React and hooks
+import Link from 'next/link'; // Import Link component for client-side navigation
+
+// Define the structure of a trashed workout as received from the API
+type TrashedWorkout = {
+	id: number; // Unique identifier for the workout
+	date: string; // ISO string representing the workout date
+	notes: string | null; // Free-text notes on the workout
+	exercises: string[]; // Names of the exercises, in the order they were logged
+	setCount: number; // Number of sets in the workout
+	deletedAt: string; // ISO string of when the workout was moved to the trash
+	purgeAt: string; // ISO string of when the workout is permanently deleted
+};
+
+const TrashPage = () => {
+	const [workouts, setWorkouts] = useState<TrashedWorkout[]>([]); // State to hold the trashed workouts
+	const [retentionDays, setRetentionDays] = useState<number | null>(null); // State to hold how long workouts stay in the trash
+	const [loading, setLoading] = useState<boolean>(true); // State to manage loading status
+	const [error, setError] = useState<string | null>(null); // State to manage error messages
+	const [busyId, setBusyId] = useState<number | null>(null); // State to hold the workout being restored or purged
+
+	/**
+	 * fetchTrash
+	 * Asynchronously fetches the trashed workouts from the API.
+	 */
+	const fetchTrash = async () => {
+		try {
+			const response = await fetch('/api/trash'); // Fetch data from the API
+
+			if (!response.ok) {
+				// Check if the response status is not OK (200)
+				const errorData = await response.json(); // Parse the error message from the response
+				throw new Error(errorData.error || 'Failed to fetch trash.'); // Throw an error with the message
+			}
+
+			const data: { retentionDays: number; workouts: TrashedWorkout[] } =
+				await response.json(); // Parse the JSON data
+
+			setWorkouts(data.workouts); // Update the workouts state with fetched data
+			setRetentionDays(data.retentionDays);
+		} catch (err) {
+			// Catch any errors that occur during the fetch
+			setError(
+				err instanceof Error ? err.message : 'An unexpected error occurred.',
+			); // Update the error state with the error message
+			console.error('Error fetching trash:', err); // Log the error for debugging
+		} finally {
+			setLoading(false); // Set loading to false regardless of success or failure
+		}
+	};
+
+	// useEffect hook to fetch the trash when the component mounts
+	useEffect(() => {
+		fetchTrash(); // Invoke the fetchTrash function
+	}, []); // Empty dependency array ensures this runs only once on mount
+
+	/**
+	 * handleRestore
+	 * Takes a workout back out of the trash.
+	 */
+	const handleRestore = async (workout: TrashedWorkout) => {
+		setBusyId(workout.id);
+
+		try {
+			const response = await fetch(`/api/trash/${workout.id}/restore`, {
+				method: 'POST',
+			});
+
+			if (!response.ok) {
+				const errorData = await response.json(); // Parse the error message from the response
+				throw new Error(errorData.error || 'Failed to restore workout.'); // Throw an error with the message
+			}
+
+			setWorkouts(workouts.filter(other => other.id !== workout.id)); // Remove the workout from the trash list
+		} catch (err) {
+			alert(
+				err instanceof Error ? err.message : 'An unexpected error occurred.',
+			); // Notify the user
+			console.error('Error restoring workout:', err); // Log the error for debugging
+		} finally {
+			setBusyId(null);
+		}
+	};
+
+	/**
+	 * handlePurge
+	 * Permanently deletes a trashed workout after confirmation.
+	 */
+	const handlePurge = async (workout: TrashedWorkout) => {
+		if (
+			!confirm('Permanently delete this workout? This action cannot be undone.')
+		) {
+			return; // Keep the workout in the trash
+		}
+
+		setBusyId(workout.id);
+
+		try {
+			const response = await fetch(`/api/trash/${workout.id}`, {
+				method: 'DELETE',
+			});
+
+			if (!response.ok) {
+				const errorData = await response.json(); // Parse the error message from the response
+				throw new Error(errorData.error || 'Failed to delete workout.'); // Throw an error with the message
+			}
+
+			setWorkouts(workouts.filter(other => other.id !== workout.id)); // Remove the workout from the trash list
+		} catch (err) {
+			alert(
+				err instanceof Error ? err.message : 'An unexpected error occurred.',
+			); // Notify the user
+			console.error('Error deleting workout:', err); // Log the error for debugging
+		} finally {
+			setBusyId(null);
+		}
+	};
+
+	return (
+		<div className='max-w-2xl mx-auto p-6 bg-gray-100 min-h-screen'>
+			<h1 className='text-3xl font-bold mb-6 text-center'>Trash</h1>
+			{retentionDays !== null && (
+				<p className='mb-6 text-center text-gray-600'>
+					Deleted workouts are kept for {retentionDays} days, then deleted
+					permanently.
+				</p>
+			)}
+			{/* Display loading state */}
+			{loading && <p>Loading trash...</p>}
+			{/* Display error message if any */}
+			{error && <p className='text-red-500'>{error}</p>}
+			{/* Display message if the trash is empty */}
+			{!loading && !error && workouts.length === 0 && (
+				<p>
+					The trash is empty.{' '}
+					<Link href='/' className='text-blue-500 hover:underline'>
+						Back to your workouts
+					</Link>
+				</p>
+			)}
+			{/* Display the trashed workouts */}
+			{!loading && !error && workouts.length > 0 && (
+				<ul className='space-y-4'>
+					{workouts.map(workout => (
+						<li key={workout.id} className='p-4 bg-white rounded-lg shadow'>
+							<h2 className='text-xl font-semibold'>
+								{new Date(workout.date).toLocaleString()}
+							</h2>
+							<p className='text-gray-700'>
+								{workout.exercises.join(', ') || 'No exercises'} ·{' '}
+								{workout.setCount} sets
+							</p>
+							{workout.notes && (
+								<p className='text-sm text-gray-500'>{workout.notes}</p>
+							)}
+							<p className='text-sm text-gray-500 mb-4'>
+								Deleted {new Date(workout.deletedAt).toLocaleDateString()};
+								permanently deleted on{' '}
+								{new Date(workout.purgeAt).toLocaleDateString()}
+							</p>
+							<div className='flex space-x-2'>
+								<button
+									onClick={() => handleRestore(workout)} // Take the workout out of the trash
+									disabled={busyId === workout.id}
+									className='px-3 py-1 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50'>
+									Restore
+								</button>
+								<button
+									onClick={() => handlePurge(workout)} // Delete the workout for good
+									disabled={busyId === workout.id}
+									className='px-3 py-1 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50'>
+									Delete Permanently
+								</button>
+							</div>
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+};
+
+export default TrashPage; // Export the TrashPage component as default
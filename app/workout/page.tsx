@@ -2,32 +2,199 @@
 
 'use client'; // Enables client-side rendering for this component
 
-import React, { useState } from 'react'; // Import React and useState hook
+import React, { useEffect, useState } from 'react'; // Import React and hooks
 import { useRouter } from 'next/navigation'; // Import useRouter for navigation
+import Link from 'next/link'; // Import Link component for client-side navigation
+import ExercisePicker, {
+	ExerciseDefinition,
+} from '../components/ExercisePicker'; // Import the catalog type-ahead
+import { WeightUnit, unitLabel } from '../../lib/units'; // Import weight unit helpers
+import { clearDraft, loadDraft, saveDraft } from '../../lib/offline-store'; // Import offline draft storage
+import {
+	createIdempotencyKey,
+	sendOrQueue,
+	waitForQueueOwner,
+} from '../../lib/sync-queue'; // Import the offline sync queue
+import { DEFAULT_REST_SECONDS, formatDuration } from '../../lib/durations'; // Import timing helpers
+import RestTimer from '../components/RestTimer'; // Import the rest countdown
+import SetEffortInputs from '../components/SetEffortInputs'; // Import the set type, RPE and RIR inputs
+import PlateCalculator from '../components/PlateCalculator'; // Import the plate breakdown and warm-up generator
+import { DEFAULT_PLATE_SETUP, PlateSetup, WarmupSet } from '../../lib/plates'; // Import plate calculator helpers
+import { SetEffort, describeSetEffort } from '../../lib/set-types'; // Import set type helpers
+import {
+	groupLabels,
+	linkedToPrevious,
+	moveExercise,
+	toggleLinkWithPrevious,
+} from '../../lib/supersets'; // Import superset helpers
+import {
+	EXERCISE_KIND_LABELS,
+	ExerciseKind,
+	KIND_FIELDS,
+	SetMetrics,
+	formatSetMetrics,
+	hasSetMetrics,
+	toSetMetrics,
+} from '../../lib/exercise-kinds'; // Import exercise kind helpers
+import {
+	PROGRESSION_RULES,
+	PROGRESSION_SCHEMES,
+	PastSet,
+	ProgressionRule,
+	SUGGESTION_REASON_LABELS,
+	Suggestion,
+	formatSetScheme,
+} from '../../lib/progression'; // Import progression helpers
 
-// Define the structure of a workout set
-type WorkoutSet = {
-	weight: number; // Weight used in the set (e.g., 100 kg)
+// Define the structure of a workout set, with its optional type, RPE and RIR.
+// Which measurements are filled in depends on the kind of the exercise.
+type WorkoutSet = SetEffort & {
+	weight: number; // Weight used in the set, in the user's unit (e.g., 102.5 kg); added weight for bodyweight exercises, negative when assisted
 	reps: number; // Number of repetitions in the set (e.g., 10 reps)
+	distance?: number | null; // Distance covered in metres, for cardio
+	durationSeconds?: number | null; // Time taken or held in seconds, for cardio and timed exercises
+	completedAt?: string; // ISO string of when the set was logged; absent for template targets
 };
 
 // Define the structure of an exercise within a workout
 type WorkoutExercise = {
 	exercise: string; // Name of the exercise (e.g., Squat)
+	groupIndex?: number | null; // Superset or circuit shared with the adjacent exercises, if grouped
 	sets: WorkoutSet[]; // Array of sets for the exercise
 };
 
+// Define the parts of the save response used to celebrate new personal records
+type SaveWorkoutResponse = {
+	id: number; // Unique identifier for the saved workout
+	exercises: { definitionId: number | null; name: string }[]; // Saved exercises
+	newRecords: {
+		type: keyof typeof RECORD_LABELS; // Kind of record
+		definitionId: number; // Catalog entry of the lift
+	}[]; // Personal records set in this workout
+};
+
+// Define the structure of a suggested session as received from the API
+type SessionSuggestion = {
+	kind: ExerciseKind; // What each set of the lift records
+	rule: ProgressionRule; // Rule the suggestion follows
+	lastTime: {
+		workoutId: number; // Workout the lift was last done in
+		date: string; // ISO string of that workout's date
+		sets: (PastSet & SetMetrics)[]; // Its working sets, in the user's unit
+	} | null; // Last session of the lift, if any
+	suggestion: Suggestion | null; // Today's target, if one can be made
+};
+
+// Define the structure of a workout template as received from the API
+type WorkoutTemplate = {
+	id: number; // Unique identifier for the template
+	name: string; // Name of the routine
+	exercises: {
+		name: string; // Name of the exercise
+		sets: WorkoutSet[]; // Target sets, in the user's unit
+	}[];
+};
+
+// Define the structure of a scheduled program session as received from the API
+type ProgramSession = {
+	programId: number; // Program the session belongs to
+	programName: string; // Name of the program
+	dayId: number; // Program day of the session
+	dayName: string; // Name of the program day
+	week: number; // Week of the program (1-based)
+	exercises: {
+		name: string; // Name of the exercise
+		sets: {
+			reps: number; // Target reps (the minimum, for AMRAP sets)
+			weight: number; // Target weight, in the user's unit
+			amrap: boolean; // Whether the set is taken for as many reps as possible
+		}[];
+	}[];
+	loggedWorkoutId: number | null; // Workout already logged for the session, if any
+};
+
+// Define the program day a workout is being logged from
+type ProgramLink = {
+	programId: number; // Program the day belongs to
+	dayId: number; // Program day the workout is logged from
+	week: number; // Week of the program it is logged for
+	label: string; // Description shown in the logger, e.g. "5/3/1 — Week 2 · Squat Day"
+};
+
+// Define the in-progress workout kept in IndexedDB so it survives reloads and going offline
+type WorkoutDraft = {
+	workout: WorkoutExercise[]; // Exercises added so far
+	selectedExercise: string | null; // Exercise being edited, if any
+	sets: WorkoutSet[]; // Sets of the exercise being edited
+	editingIndex: number | null; // Where the exercise being edited goes back
+	startedAt: string | null; // ISO string of when logging started
+	program?: ProgramLink | null; // Program day the workout is logged from, if any
+	idempotencyKey: string; // Key identifying this workout's save across retries
+};
+
+/**
+ * draftKeyFor
+ * IndexedDB key of a user's logger draft; each account on the device keeps its own.
+ */
+const draftKeyFor = (userId: number): string => `workout-logger:${userId}`;
+
+// Labels for each kind of personal record
+const RECORD_LABELS = {
+	HEAVIEST_WEIGHT: 'heaviest weight',
+	MOST_REPS_AT_WEIGHT: 'most reps at a weight',
+	BEST_E1RM: 'best estimated 1RM',
+	BEST_SESSION_VOLUME: 'best session volume',
+	LONGEST_DISTANCE: 'longest distance',
+	LONGEST_DURATION: 'longest time',
+	BEST_PACE: 'best pace',
+};
+
+/**
+ * toWorkoutExercises
+ * Converts a template into logger exercises, using the target sets as the sets to log.
+ */
+const toWorkoutExercises = (template: WorkoutTemplate): WorkoutExercise[] =>
+	template.exercises.map(exercise => ({
+		exercise: exercise.name,
+		sets: exercise.sets.map(set => ({ weight: set.weight, reps: set.reps })),
+	}));
+
+/**
+ * fromProgramSession
+ * Converts a scheduled program session into logger exercises, using the prescribed sets
+ * as the sets to log; AMRAP sets keep their type.
+ */
+const fromProgramSession = (session: ProgramSession): WorkoutExercise[] =>
+	session.exercises.map(exercise => ({
+		exercise: exercise.name,
+		sets: exercise.sets.map(set => ({
+			weight: set.weight,
+			reps: set.reps,
+			...(set.amrap ? { type: 'AMRAP' as const } : {}),
+		})),
+	}));
+
+/**
+ * toProgramLink
+ * The link a workout started from a program session keeps back to its day.
+ */
+const toProgramLink = (session: ProgramSession): ProgramLink => ({
+	programId: session.programId,
+	dayId: session.dayId,
+	week: session.week,
+	label: `${session.programName} — Week ${session.week} · ${session.dayName}`,
+});
+
 const WorkoutLogger = () => {
 	const router = useRouter(); // Initialize the router for navigation
-	const exercises = [
-		'Squat',
-		'Bench Press',
-		'Deadlift',
-		'Overhead Press',
-		'Barbell Row',
-	]; // Predefined list of exercises
-
-	// State to manage the selected exercise from the dropdown
+
+	// State to hold the exercise catalog used by the type-ahead
+	const [definitions, setDefinitions] = useState<ExerciseDefinition[]>([]);
+
+	// State to manage the text typed into the exercise search
+	const [exerciseQuery, setExerciseQuery] = useState<string>('');
+
+	// State to manage the selected exercise from the catalog
 	const [selectedExercise, setSelectedExercise] = useState<string | null>(null);
 
 	// State to manage the sets for the current exercise being added
@@ -36,19 +203,391 @@ const WorkoutLogger = () => {
 	// State to manage all exercises in the current workout
 	const [workout, setWorkout] = useState<WorkoutExercise[]>([]);
 
+	// State to remember where an exercise taken back for editing came from
+	const [editingIndex, setEditingIndex] = useState<number | null>(null);
+
+	// State to hold the user's templates for "Start from template"
+	const [templates, setTemplates] = useState<WorkoutTemplate[]>([]);
+
+	// State to hold the program sessions scheduled today for "Today's program workout"
+	const [todaySessions, setTodaySessions] = useState<ProgramSession[]>([]);
+
+	// State to hold the program day the workout is logged from, if any
+	const [program, setProgram] = useState<ProgramLink | null>(null);
+
+	// State to hold the unit weights are entered in
+	const [unit, setUnit] = useState<WeightUnit>('KG');
+
+	// State to hold the bar and plates the plate calculator loads
+	const [plateSetup, setPlateSetup] = useState<PlateSetup>(DEFAULT_PLATE_SETUP);
+
+	// State to hold when logging of this workout started
+	const [startedAt, setStartedAt] = useState<string | null>(null);
+
+	// State to hold when the current rest is over, while the rest timer runs
+	const [restEndsAt, setRestEndsAt] = useState<number | null>(null);
+
+	// State to hold the key that makes retried saves of this workout safe
+	const [idempotencyKey, setIdempotencyKey] = useState<string>('');
+
+	// State to manage whether the saved draft has been restored; nothing is saved before then
+	const [draftLoaded, setDraftLoaded] = useState<boolean>(false);
+	// State to hold the signed-in user's draft key; null while unknown, and then nothing is saved
+	const [draftKey, setDraftKey] = useState<string | null>(null);
+
+	// State to hold the last session and today's target for the selected exercise
+	const [suggestion, setSuggestion] = useState<SessionSuggestion | null>(null);
+
+	// State to hold the progression rule picked for the selected exercise; null uses the catalog's
+	const [rule, setRule] = useState<ProgressionRule | null>(null);
+
 	// State to manage the current set input (weight and reps)
 	const [currentSet, setCurrentSet] = useState<WorkoutSet>({
 		weight: 0,
 		reps: 0,
 	});
 
+	// useEffect hook to load the exercise catalog when the component mounts
+	useEffect(() => {
+		const fetchDefinitions = async () => {
+			try {
+				const response = await fetch('/api/exercise-definitions'); // Fetch the catalog from the API
+				if (!response.ok) {
+					const errorData = await response.json(); // Parse the error message from the response
+					throw new Error(errorData.error || 'Failed to fetch exercises.'); // Throw an error with the message
+				}
+				setDefinitions(await response.json()); // Update the catalog state
+			} catch (err) {
+				console.error('Error fetching exercise catalog:', err); // Log the error; free text still works
+			}
+		};
+
+		fetchDefinitions(); // Invoke the fetchDefinitions function
+	}, []); // Empty dependency array ensures this runs only once on mount
+
+	// useEffect hook to load the templates, and apply the one named in the URL, when the component mounts
+	useEffect(() => {
+		const fetchTemplates = async () => {
+			try {
+				const response = await fetch('/api/templates'); // Fetch the templates from the API
+				if (!response.ok) {
+					const errorData = await response.json(); // Parse the error message from the response
+					throw new Error(errorData.error || 'Failed to fetch templates.'); // Throw an error with the message
+				}
+				const data: WorkoutTemplate[] = await response.json();
+				setTemplates(data); // Update the templates state
+
+				// Prefill from /workout?template=<id>
+				const templateId = Number(
+					new URLSearchParams(window.location.search).get('template'),
+				);
+				const template = data.find(candidate => candidate.id === templateId);
+				if (template) {
+					setWorkout(toWorkoutExercises(template));
+					setStartedAt(new Date().toISOString()); // Opening a template starts the session
+				}
+			} catch (err) {
+				console.error('Error fetching templates:', err); // Log the error; logging from scratch still works
+			}
+		};
+
+		fetchTemplates(); // Invoke the fetchTemplates function
+	}, []); // Empty dependency array ensures this runs only once on mount
+
+	// useEffect hook to load today's program sessions, and apply the program day named in the URL, when the component mounts
+	useEffect(() => {
+		const fetchProgramSessions = async () => {
+			try {
+				const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+				const response = await fetch(
+					`/api/programs/today?timeZone=${encodeURIComponent(timeZone)}`,
+				); // Fetch today's sessions from the API
+				if (!response.ok) {
+					const errorData = await response.json(); // Parse the error message from the response
+					throw new Error(
+						errorData.error || "Failed to fetch today's program sessions.",
+					); // Throw an error with the message
+				}
+				const data: { sessions: ProgramSession[] } = await response.json();
+				setTodaySessions(data.sessions); // Update the sessions state
+
+				// Prefill from /workout?program=<id>&day=<id>&week=<n>
+				const params = new URLSearchParams(window.location.search);
+				if (!params.has('day')) return;
+
+				const sessionResponse = await fetch(
+					`/api/programs/${params.get('program')}/days/${params.get('day')}?week=${params.get('week')}`,
+				); // Fetch the program day for the week
+				if (!sessionResponse.ok) {
+					const errorData = await sessionResponse.json(); // Parse the error message from the response
+					throw new Error(errorData.error || 'Failed to fetch program day.'); // Throw an error with the message
+				}
+				const session: ProgramSession = await sessionResponse.json();
+				setWorkout(fromProgramSession(session));
+				setProgram(toProgramLink(session)); // Link the workout back to the program day
+				setStartedAt(new Date().toISOString()); // Opening a program day starts the session
+			} catch (err) {
+				console.error('Error fetching program sessions:', err); // Log the error; logging from scratch still works
+			}
+		};
+
+		fetchProgramSessions(); // Invoke the fetchProgramSessions function
+	}, []); // Empty dependency array ensures this runs only once on mount
+
+	// useEffect hook to restore the in-progress workout when the component mounts
+	useEffect(() => {
+		const restoreDraft = async () => {
+			let key = createIdempotencyKey();
+			try {
+				// Only the signed-in user's own draft is restored
+				const current = await waitForQueueOwner();
+				if (!current) return;
+				const ownDraftKey = draftKeyFor(current.userId);
+				setDraftKey(ownDraftKey);
+
+				// Starting from a template or a program day replaces the draft
+				const params = new URLSearchParams(window.location.search);
+				if (!params.has('template') && !params.has('day')) {
+					const draft = await loadDraft<WorkoutDraft>(ownDraftKey);
+					if (draft) {
+						setWorkout(draft.workout);
+						setSelectedExercise(draft.selectedExercise);
+						setSets(draft.sets);
+						setEditingIndex(draft.editingIndex);
+						setStartedAt(draft.startedAt ?? null);
+						setProgram(draft.program ?? null);
+						key = draft.idempotencyKey;
+					}
+				}
+			} catch (err) {
+				console.error('Error restoring workout draft:', err); // Log the error; start from scratch
+			} finally {
+				setIdempotencyKey(key);
+				setDraftLoaded(true);
+			}
+		};
+
+		restoreDraft(); // Invoke the restoreDraft function
+	}, []); // Empty dependency array ensures this runs only once on mount
+
+	// useEffect hook to save the in-progress workout whenever it changes
+	useEffect(() => {
+		if (!draftLoaded || draftKey === null) return; // Don't overwrite the draft before it is restored
+
+		const draft: WorkoutDraft = {
+			workout,
+			selectedExercise,
+			sets,
+			editingIndex,
+			startedAt,
+			program,
+			idempotencyKey,
+		};
+		saveDraft(draftKey, draft).catch(err =>
+			console.error('Error saving workout draft:', err),
+		); // Log the error; the workout is still in memory
+	}, [
+		draftLoaded,
+		draftKey,
+		workout,
+		selectedExercise,
+		sets,
+		editingIndex,
+		startedAt,
+		program,
+		idempotencyKey,
+	]);
+
+	// useEffect hook to fetch the last session and today's target whenever the exercise or rule changes
+	useEffect(() => {
+		setSuggestion(null); // Drop the previous exercise's suggestion
+		if (!selectedExercise) return;
+
+		let cancelled = false; // Ignore the answer if the exercise changes first
+		const fetchSuggestion = async () => {
+			try {
+				const query = rule ? `?rule=${rule}` : '';
+				const response = await fetch(
+					`/api/exercises/${encodeURIComponent(selectedExercise)}/suggestion${query}`,
+				); // Fetch the suggestion from the API
+				if (response.status === 404) return; // New exercise: nothing to go on
+				if (!response.ok) {
+					const errorData = await response.json(); // Parse the error message from the response
+					throw new Error(errorData.error || 'Failed to fetch suggestion.'); // Throw an error with the message
+				}
+
+				const data: SessionSuggestion = await response.json();
+				if (cancelled) return;
+				setSuggestion(data); // Update the suggestion state
+				const target = data.suggestion;
+				if (target) {
+					// Prefill the inputs with today's target
+					setCurrentSet(current => ({
+						...current,
+						weight: target.weight,
+						reps: target.reps,
+					}));
+				}
+			} catch (err) {
+				console.error('Error fetching suggestion:', err); // Log the error; logging works without it
+			}
+		};
+
+		fetchSuggestion(); // Invoke the fetchSuggestion function
+		return () => {
+			cancelled = true;
+		};
+	}, [selectedExercise, rule]); // Refetch when the exercise or rule changes
+
+	// useEffect hook to load the user's weight unit when the component mounts
+	useEffect(() => {
+		const fetchPreferences = async () => {
+			try {
+				const response = await fetch('/api/preferences'); // Fetch the preferences from the API
+				if (!response.ok) {
+					const errorData = await response.json(); // Parse the error message from the response
+					throw new Error(errorData.error || 'Failed to fetch preferences.'); // Throw an error with the message
+				}
+				const data: { weightUnit: WeightUnit; plateSetup: PlateSetup } =
+					await response.json();
+				setUnit(data.weightUnit); // Update the unit state
+				setPlateSetup(data.plateSetup); // Update the plate setup state
+			} catch (err) {
+				console.error('Error fetching preferences:', err); // Log the error; kilograms and standard plates are assumed
+			}
+		};
+
+		fetchPreferences(); // Invoke the fetchPreferences function
+	}, []); // Empty dependency array ensures this runs only once on mount
+
+	/**
+	 * markStarted
+	 * Records the start of the session the first time something is logged.
+	 */
+	const markStarted = () => {
+		setStartedAt(current => current ?? new Date().toISOString());
+	};
+
+	/**
+	 * findDefinition
+	 * Catalog entry of the given exercise by name or alias, if it is in the catalog.
+	 */
+	const findDefinition = (name: string): ExerciseDefinition | undefined => {
+		const key = name.trim().toLowerCase();
+		return definitions.find(
+			candidate =>
+				candidate.name.toLowerCase() === key || candidate.aliases.includes(key),
+		);
+	};
+
+	/**
+	 * restSecondsFor
+	 * Default rest after a set of the given exercise, from the catalog.
+	 */
+	const restSecondsFor = (name: string): number =>
+		findDefinition(name)?.restSeconds ?? DEFAULT_REST_SECONDS;
+
+	/**
+	 * kindFor
+	 * What a set of the given exercise records, from the catalog; new exercises are weight x reps.
+	 */
+	const kindFor = (name: string): ExerciseKind =>
+		findDefinition(name)?.kind ?? 'WEIGHT_REPS';
+
+	/**
+	 * handleStartFromTemplate
+	 * Replaces the current workout with the exercises and target sets of a template.
+	 */
+	const handleStartFromTemplate = (templateId: number) => {
+		const template = templates.find(candidate => candidate.id === templateId);
+		if (!template) return; // Ignore the placeholder option
+		if (
+			workout.length > 0 &&
+			!confirm('Replace the exercises logged so far with this template?')
+		) {
+			return; // Keep the current workout
+		}
+
+		setWorkout(toWorkoutExercises(template)); // Prefill the workout
+		setProgram(null); // A template is not a program day
+		markStarted();
+		setSelectedExercise(null); // Close any exercise being edited
+		setSets([]);
+		setEditingIndex(null);
+	};
+
+	/**
+	 * handleStartFromProgram
+	 * Replaces the current workout with the prescribed sets of a program session,
+	 * and links the workout back to its program day.
+	 */
+	const handleStartFromProgram = (session: ProgramSession) => {
+		if (
+			workout.length > 0 &&
+			!confirm('Replace the exercises logged so far with this program day?')
+		) {
+			return; // Keep the current workout
+		}
+
+		setWorkout(fromProgramSession(session)); // Prefill the workout
+		setProgram(toProgramLink(session));
+		markStarted();
+		setSelectedExercise(null); // Close any exercise being edited
+		setSets([]);
+		setEditingIndex(null);
+	};
+
+	/**
+	 * handleEditExercise
+	 * Takes an exercise of the workout back into the set editor, e.g. to adjust template targets.
+	 */
+	const handleEditExercise = (index: number) => {
+		if (selectedExercise) {
+			alert('Finish the current exercise first.'); // Only one exercise is edited at a time
+			return;
+		}
+
+		setSelectedExercise(workout[index].exercise); // Load the exercise into the editor
+		setSets(workout[index].sets);
+		setEditingIndex(index); // Put it back in the same place when done
+		setWorkout(workout.filter((_, idx) => idx !== index));
+	};
+
+	/**
+	 * handleRemoveExercise
+	 * Removes an exercise from the workout.
+	 */
+	const handleRemoveExercise = (index: number) => {
+		setWorkout(workout.filter((_, idx) => idx !== index));
+	};
+
+	/**
+	 * handleMoveExercise
+	 * Moves an exercise one place up or down; it takes over the group slot it lands in.
+	 */
+	const handleMoveExercise = (index: number, offset: -1 | 1) => {
+		setWorkout(moveExercise(workout, index, offset));
+	};
+
+	/**
+	 * handleToggleSuperset
+	 * Groups an exercise with the one before it, or splits it off its group.
+	 */
+	const handleToggleSuperset = (index: number) => {
+		setWorkout(toggleLinkWithPrevious(workout, index));
+	};
+
 	/**
 	 * handleSelectExercise
-	 * Handles the selection of an exercise from the dropdown.
+	 * Handles the selection of an exercise from the catalog, or of typed free text.
 	 */
-	const handleSelectExercise = (e: React.ChangeEvent<HTMLSelectElement>) => {
-		setSelectedExercise(e.target.value); // Update the selected exercise
+	const handleSelectExercise = (name: string) => {
+		if (!name.trim()) return; // Ignore empty input
+		setSelectedExercise(name.trim()); // Update the selected exercise
+		markStarted();
+		setExerciseQuery(''); // Clear the search for the next exercise
 		setSets([]); // Reset sets when a new exercise is selected
+		setRule(null); // Use the new exercise's own progression rule
 	};
 
 	/**
@@ -63,20 +602,68 @@ const WorkoutLogger = () => {
 		});
 	};
 
+	/**
+	 * handleDistanceChange
+	 * Handles changes to the distance input, entered in kilometres and kept in metres.
+	 */
+	const handleDistanceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+		setCurrentSet({ ...currentSet, distance: Number(e.target.value) * 1000 });
+	};
+
+	/**
+	 * handleDurationChange
+	 * Handles changes to the minutes or seconds of the time input, kept in seconds.
+	 */
+	const handleDurationChange = (part: 'minutes' | 'seconds', value: string) => {
+		const total = currentSet.durationSeconds ?? 0;
+		const minutes = part === 'minutes' ? Number(value) : Math.floor(total / 60);
+		const seconds = part === 'seconds' ? Number(value) : total % 60;
+		setCurrentSet({
+			...currentSet,
+			durationSeconds: Math.round(minutes * 60 + seconds),
+		});
+	};
+
 	/**
 	 * handleAddSet
-	 * Adds the current set to the sets array if valid.
+	 * Adds the current set to the sets array if it records what the exercise's kind
+	 * measures, and starts the rest timer.
 	 */
 	const handleAddSet = () => {
-		if (currentSet.weight > 0 && currentSet.reps > 0) {
+		if (!selectedExercise) return;
+		const kind = kindFor(selectedExercise);
+		if (hasSetMetrics(kind, currentSet)) {
 			// Validate inputs
-			setSets([...sets, currentSet]); // Add the current set to the sets array
-			setCurrentSet({ weight: 0, reps: 0 }); // Reset the current set inputs
+			setSets([
+				...sets,
+				{
+					...currentSet,
+					...toSetMetrics(kind, currentSet), // Drop measurements the kind doesn't record
+					completedAt: new Date().toISOString(),
+				},
+			]); // Add the current set to the sets array, stamped with the time it was done
+			setCurrentSet({
+				weight: suggestion?.suggestion?.weight ?? 0,
+				reps: suggestion?.suggestion?.reps ?? 0,
+				type: currentSet.type,
+			}); // Reset the current set inputs to today's target, keeping the set type
+			markStarted();
+			setRestEndsAt(Date.now() + restSecondsFor(selectedExercise) * 1000); // Start resting
 		} else {
-			alert('Please enter valid weight and reps.'); // Alert the user if inputs are invalid
+			alert(
+				`Please enter a valid set (${EXERCISE_KIND_LABELS[kind].toLowerCase()}).`,
+			); // Alert the user if inputs are invalid
 		}
 	};
 
+	/**
+	 * handleAddWarmups
+	 * Puts a warm-up ramp in front of the logged sets, replacing any warm-ups already there.
+	 */
+	const handleAddWarmups = (warmups: WarmupSet[]) => {
+		setSets([...warmups, ...sets.filter(set => set.type !== 'WARMUP')]);
+	};
+
 	/**
 	 * handleAddExercise
 	 * Adds the current exercise and its sets to the workout array.
@@ -84,7 +671,13 @@ const WorkoutLogger = () => {
 	const handleAddExercise = () => {
 		if (selectedExercise && sets.length > 0) {
 			// Ensure an exercise is selected and at least one set is added
-			setWorkout([...workout, { exercise: selectedExercise, sets }]); // Add the exercise to the workout array
+			const updatedWorkout = [...workout];
+			updatedWorkout.splice(editingIndex ?? workout.length, 0, {
+				exercise: selectedExercise,
+				sets,
+			}); // Add the exercise to the workout array, back in its place if it was being edited
+			setWorkout(updatedWorkout);
+			setEditingIndex(null);
 			setSelectedExercise(null); // Reset the selected exercise
 			setSets([]); // Reset the sets for the next exercise
 		} else {
@@ -95,6 +688,7 @@ const WorkoutLogger = () => {
 	/**
 	 * handleFinishWorkout
 	 * Sends the completed workout to the API and navigates back to the home page.
+	 * When offline, the save is queued and sent once the connection returns.
 	 */
 	const handleFinishWorkout = async () => {
 		if (workout.length === 0) {
@@ -107,28 +701,86 @@ const WorkoutLogger = () => {
 			// Prepare the data to match the API's expected structure
 			const formattedWorkout = {
 				workout: {
-					entries: workout.flatMap(exercise =>
-						exercise.sets.map(set => ({
-							exercise: exercise.exercise, // Exercise name
+					startedAt: startedAt ?? new Date().toISOString(), // When logging started; also the workout date
+					endedAt: new Date().toISOString(), // Finish time, so a queued save keeps the right duration
+					programDayId: program?.dayId ?? null, // Program day it was logged from, if any
+					programWeek: program?.week ?? null, // Week of the program it was logged for
+					exercises: workout.map(exercise => ({
+						name: exercise.exercise, // Exercise name
+						groupIndex: exercise.groupIndex ?? null, // Superset or circuit, if grouped
+						sets: exercise.sets.map(set => ({
 							weight: set.weight, // Weight used
 							reps: set.reps, // Number of reps
+							distance: set.distance ?? null, // Distance in metres, for cardio
+							durationSeconds: set.durationSeconds ?? null, // Time in seconds, for cardio and timed exercises
+							completedAt: set.completedAt, // When the set was done, if logged live
+							type: set.type, // Kind of set
+							rpe: set.rpe, // Effort, if rated
+							rir: set.rir, // Reps in reserve, if rated
 						})),
-					),
+					})),
 				},
 			};
 
-			// Send a POST request to save the workout
-			const response = await fetch('/api/save-workout', {
-				method: 'POST', // HTTP method
-				headers: { 'Content-Type': 'application/json' }, // Set content type to JSON
-				body: JSON.stringify(formattedWorkout), // Convert data to JSON string
+			// The workout as the logger keeps it, reopened if the server turns a queued save down
+			const draft: WorkoutDraft = {
+				workout,
+				selectedExercise,
+				sets,
+				editingIndex,
+				startedAt,
+				program,
+				idempotencyKey,
+			};
+
+			// Send a POST request to save the workout; the key stops a retried save creating a duplicate
+			const result = await sendOrQueue({
+				url: '/api/save-workout',
+				method: 'POST',
+				body: formattedWorkout,
+				idempotencyKey,
+				description: `Workout of ${new Date().toLocaleDateString()}`,
+				...(draftKey && {
+					draft: {
+						key: draftKey,
+						value: draft,
+						path: '/workout',
+					},
+				}),
 			});
 
+			if (result.queued) {
+				if (draftKey) await clearDraft(draftKey); // The queue now owns the workout
+				alert('You are offline. The workout will be saved when you reconnect.'); // Notify the user
+				router.push('/'); // Navigate back to the home page
+				return;
+			}
+
+			const response = result.response;
 			if (response.ok) {
 				// Check if the response status is OK (200)
-				const result = await response.json(); // Parse the JSON response
-				console.log('Workout saved:', result); // Log the saved workout
-				alert('Workout saved successfully!'); // Notify the user
+				const saved: SaveWorkoutResponse = await response.json(); // Parse the JSON response
+				console.log('Workout saved:', saved); // Log the saved workout
+				if (draftKey) await clearDraft(draftKey); // Start the next workout from scratch
+
+				// Celebrate any personal records set in this workout
+				if (saved.newRecords.length > 0) {
+					const names = new Map(
+						saved.exercises.map(exercise => [
+							exercise.definitionId,
+							exercise.name,
+						]),
+					);
+					const lines = saved.newRecords.map(
+						record =>
+							`${names.get(record.definitionId)}: ${RECORD_LABELS[record.type]}`,
+					);
+					alert(
+						`Workout saved successfully!\n\n🏆 New personal records:\n${Array.from(new Set(lines)).join('\n')}`,
+					); // Notify the user
+				} else {
+					alert('Workout saved successfully!'); // Notify the user
+				}
 
 				router.push('/'); // Navigate back to the home page
 			} else {
@@ -144,6 +796,18 @@ const WorkoutLogger = () => {
 		}
 	};
 
+	const labels = groupLabels(workout); // Superset labels such as A1 and A2
+	const links = linkedToPrevious(workout); // Whether each exercise is grouped with the one before it
+	const selectedKind = selectedExercise ? kindFor(selectedExercise) : null; // What the sets being logged record
+	const fields = selectedKind ? KIND_FIELDS[selectedKind] : null; // Inputs shown for the sets being logged
+
+	/**
+	 * describeSet
+	 * Summary of a logged set in the terms of its exercise's kind, e.g. "100 kg x 5".
+	 */
+	const describeSet = (name: string, set: SetMetrics): string =>
+		formatSetMetrics(kindFor(name), set, unit);
+
 	return (
 		<div className='max-w-md mx-auto p-6 bg-gray-100 rounded-lg shadow-lg'>
 			{' '}
@@ -152,67 +816,263 @@ const WorkoutLogger = () => {
 				Workout Logger
 			</h1>{' '}
 			{/* Page title */}
-			{/* Exercise selection dropdown */}
-			{!selectedExercise && ( // Show dropdown only if no exercise is currently selected
+			{/* Session clock */}
+			{startedAt && (
+				<p className='mb-4 text-center text-gray-600'>
+					Started at{' '}
+					{new Date(startedAt).toLocaleTimeString([], {
+						hour: '2-digit',
+						minute: '2-digit',
+					})}
+				</p>
+			)}
+			{/* Rest countdown after each set */}
+			{restEndsAt && (
+				<RestTimer
+					endsAt={restEndsAt}
+					onAdjust={seconds => setRestEndsAt(restEndsAt + seconds * 1000)}
+					onDismiss={() => setRestEndsAt(null)}
+				/>
+			)}
+			{/* Today's program workouts */}
+			{todaySessions.length > 0 && (
+				<div className='mb-4'>
+					<h2 className='text-lg font-medium mb-2'>
+						Today&apos;s Program Workout:
+					</h2>
+					<ul className='space-y-2'>
+						{todaySessions.map(session => (
+							<li
+								key={`${session.dayId}-${session.week}`}
+								className='flex justify-between items-center bg-white p-2 rounded-lg'>
+								<span>{toProgramLink(session).label}</span>
+								{session.loggedWorkoutId !== null ? (
+									<Link
+										href={`/workouts/${session.loggedWorkoutId}`}
+										className='text-green-600 hover:underline'>
+										Logged ✓
+									</Link>
+								) : (
+									<button
+										onClick={() => handleStartFromProgram(session)} // Prefill the workout
+										className='px-3 py-1 bg-blue-500 text-white rounded-lg hover:bg-blue-600'>
+										Start
+									</button>
+								)}
+							</li>
+						))}
+					</ul>
+				</div>
+			)}
+			{/* Program day the workout is logged from */}
+			{program && (
+				<p className='mb-4 text-center text-gray-600'>
+					Logging {program.label}{' '}
+					<button
+						onClick={() => setProgram(null)} // Log the workout on its own instead
+						className='text-red-500 hover:underline'>
+						Unlink
+					</button>
+				</p>
+			)}
+			{/* Template picker */}
+			{templates.length > 0 && (
+				<div className='mb-4'>
+					<label className='block text-lg font-medium mb-2'>
+						Start from Template:
+						<select
+							value=''
+							onChange={e => handleStartFromTemplate(Number(e.target.value))} // Prefill the workout
+							className='w-full p-2 border border-gray-300 rounded-lg font-normal'>
+							<option value=''>Choose a template...</option>
+							{templates.map(template => (
+								<option key={template.id} value={template.id}>
+									{template.name}
+								</option>
+							))}
+						</select>
+					</label>
+				</div>
+			)}
+			{/* Exercise selection type-ahead */}
+			{!selectedExercise && ( // Show the search only if no exercise is currently selected
 				<div className='mb-4'>
 					<label className='block text-lg font-medium mb-2'>
 						Select Exercise:
 					</label>{' '}
-					{/* Dropdown label */}
-					<select
-						value={selectedExercise || ''} // Controlled input value
-						onChange={handleSelectExercise} // Handle selection changes
-						className='w-full p-2 border border-gray-300 rounded-lg' // Styling with Tailwind
-					>
-						<option value='' disabled>
-							{' '}
-							{/* Placeholder option */}
-							-- Select an Exercise --
-						</option>
-						{exercises.map(
-							(
-								exercise,
-								idx, // Iterate over predefined exercises
-							) => (
-								<option key={idx} value={exercise}>
-									{' '}
-									{/* Dropdown options */}
-									{exercise}
-								</option>
-							),
+					{/* Search label */}
+					<ExercisePicker
+						definitions={definitions} // Catalog to search
+						value={exerciseQuery} // Controlled input value
+						onChange={setExerciseQuery} // Track the typed text
+						onSelect={handleSelectExercise} // Handle picking a catalog entry
+					/>
+					{/* Allow exercises that are not in the catalog yet */}
+					{exerciseQuery.trim() !== '' &&
+						!definitions.some(
+							definition =>
+								definition.name.toLowerCase() ===
+								exerciseQuery.trim().toLowerCase(),
+						) && (
+							<button
+								onClick={() => handleSelectExercise(exerciseQuery)} // Use the typed name as is
+								className='mt-2 text-blue-600 hover:underline'>
+								Use &quot;{exerciseQuery.trim()}&quot; as a new exercise
+							</button>
 						)}
-					</select>
 				</div>
 			)}
 			{/* Set inputs for weight and reps */}
 			{selectedExercise && ( // Show set inputs only if an exercise is selected
 				<div className='mb-6'>
-					<h2 className='text-xl font-semibold mb-4'>{selectedExercise}</h2>{' '}
+					<h2 className='text-xl font-semibold mb-1'>{selectedExercise}</h2>{' '}
 					{/* Selected exercise name */}
+					<p className='mb-4 text-sm text-gray-600'>
+						Rest between sets:{' '}
+						{formatDuration(restSecondsFor(selectedExercise))}
+					</p>
+					{/* Last session and today's target */}
+					{suggestion?.lastTime && (
+						<div className='mb-4 p-3 bg-white rounded-lg shadow text-sm'>
+							<p>
+								Last time (
+								{new Date(suggestion.lastTime.date).toLocaleDateString()}):{' '}
+								{suggestion.kind === 'WEIGHT_REPS'
+									? formatSetScheme(suggestion.lastTime.sets, unit)
+									: suggestion.lastTime.sets
+											.map(set => formatSetMetrics(suggestion.kind, set, unit))
+											.join(', ')}
+							</p>
+							{suggestion.suggestion && (
+								<p className='mt-1 text-green-700'>
+									Today:{' '}
+									{formatSetScheme(
+										Array.from({ length: suggestion.suggestion.sets }, () => ({
+											weight: suggestion.suggestion!.weight,
+											reps: suggestion.suggestion!.reps,
+										})),
+										unit,
+									)}{' '}
+									<span className='text-gray-500'>
+										({SUGGESTION_REASON_LABELS[suggestion.suggestion.reason]})
+									</span>
+								</p>
+							)}
+							{suggestion.kind === 'WEIGHT_REPS' && (
+								<label className='mt-2 flex items-center gap-2'>
+									Progression:
+									<select
+										value={suggestion.rule}
+										onChange={e => setRule(e.target.value as ProgressionRule)} // Suggest with another rule
+										className='p-1 border border-gray-300 rounded-lg'>
+										{PROGRESSION_RULES.map(option => (
+											<option key={option} value={option}>
+												{PROGRESSION_SCHEMES[option].label}
+											</option>
+										))}
+									</select>
+								</label>
+							)}
+						</div>
+					)}
+					{fields?.weight && (
+						<div className='mb-4'>
+							<label className='block text-lg font-medium mb-2'>
+								{selectedKind === 'BODYWEIGHT'
+									? `Added weight (${unitLabel(unit)}, negative if assisted):`
+									: `Weight (${unitLabel(unit)}):`}
+							</label>{' '}
+							{/* Weight input label */}
+							<input
+								type='number' // Input type number
+								name='weight' // Name attribute for identification
+								value={currentSet.weight} // Controlled input value
+								onChange={handleSetChange} // Handle input changes
+								className='w-full p-2 border border-gray-300 rounded-lg' // Styling with Tailwind
+								min={selectedKind === 'BODYWEIGHT' ? undefined : '0'} // Assisted bodyweight sets go below zero
+								step='any' // Allow fractional weights such as 2.5
+							/>
+							{selectedKind === 'WEIGHT_REPS' && (
+								<PlateCalculator
+									weight={currentSet.weight} // Working weight to load
+									unit={unit}
+									setup={plateSetup}
+									onSetupChange={setPlateSetup} // Keep the saved plates
+									onAddWarmups={handleAddWarmups} // Ramp up to the working weight
+								/>
+							)}
+						</div>
+					)}
+					{fields?.reps && (
+						<div className='mb-4'>
+							<label className='block text-lg font-medium mb-2'>Reps:</label>{' '}
+							{/* Reps input label */}
+							<input
+								type='number' // Input type number
+								name='reps' // Name attribute for identification
+								value={currentSet.reps} // Controlled input value
+								onChange={handleSetChange} // Handle input changes
+								className='w-full p-2 border border-gray-300 rounded-lg' // Styling with Tailwind
+								min='0' // Minimum value constraint
+							/>
+						</div>
+					)}
+					{fields?.distance && (
+						<div className='mb-4'>
+							<label className='block text-lg font-medium mb-2'>
+								Distance (km):
+							</label>{' '}
+							{/* Distance input label */}
+							<input
+								type='number' // Input type number
+								value={(currentSet.distance ?? 0) / 1000} // Controlled input value, in kilometres
+								onChange={handleDistanceChange} // Handle input changes
+								className='w-full p-2 border border-gray-300 rounded-lg' // Styling with Tailwind
+								min='0' // Minimum value constraint
+								step='any' // Allow fractional distances such as 5.25
+							/>
+						</div>
+					)}
+					{fields?.duration && (
+						<div className='mb-4'>
+							<label className='block text-lg font-medium mb-2'>
+								Time (min:sec):
+							</label>{' '}
+							{/* Time input label */}
+							<div className='flex items-center gap-2'>
+								<input
+									type='number' // Input type number
+									value={Math.floor((currentSet.durationSeconds ?? 0) / 60)} // Controlled input value
+									onChange={e =>
+										handleDurationChange('minutes', e.target.value)
+									} // Handle input changes
+									aria-label='Minutes'
+									className='w-full p-2 border border-gray-300 rounded-lg' // Styling with Tailwind
+									min='0' // Minimum value constraint
+								/>
+								<span>:</span>
+								<input
+									type='number' // Input type number
+									value={(currentSet.durationSeconds ?? 0) % 60} // Controlled input value
+									onChange={e =>
+										handleDurationChange('seconds', e.target.value)
+									} // Handle input changes
+									aria-label='Seconds'
+									className='w-full p-2 border border-gray-300 rounded-lg' // Styling with Tailwind
+									min='0' // Minimum value constraint
+									max='59' // Whole minutes go in the minutes field
+								/>
+							</div>
+						</div>
+					)}
 					<div className='mb-4'>
 						<label className='block text-lg font-medium mb-2'>
-							Weight (kg):
+							Type and effort:
 						</label>{' '}
-						{/* Weight input label */}
-						<input
-							type='number' // Input type number
-							name='weight' // Name attribute for identification
-							value={currentSet.weight} // Controlled input value
-							onChange={handleSetChange} // Handle input changes
-							className='w-full p-2 border border-gray-300 rounded-lg' // Styling with Tailwind
-							min='0' // Minimum value constraint
-						/>
-					</div>
-					<div className='mb-4'>
-						<label className='block text-lg font-medium mb-2'>Reps:</label>{' '}
-						{/* Reps input label */}
-						<input
-							type='number' // Input type number
-							name='reps' // Name attribute for identification
-							value={currentSet.reps} // Controlled input value
-							onChange={handleSetChange} // Handle input changes
-							className='w-full p-2 border border-gray-300 rounded-lg' // Styling with Tailwind
-							min='0' // Minimum value constraint
+						{/* Set type, RPE and RIR label */}
+						<SetEffortInputs
+							value={currentSet} // Controlled input values
+							onChange={effort => setCurrentSet({ ...currentSet, ...effort })} // Handle input changes
 						/>
 					</div>
 					<button
@@ -233,7 +1093,12 @@ const WorkoutLogger = () => {
 									idx, // Iterate over sets
 								) => (
 									<li key={idx} className='mt-1'>
-										{`Set ${idx + 1}: ${set.weight} kg x ${set.reps} reps`}{' '}
+										{`Set ${idx + 1}: ${describeSet(selectedExercise, set)}`}{' '}
+										{describeSetEffort(set) && (
+											<span className='text-sm text-gray-500'>
+												({describeSetEffort(set)})
+											</span>
+										)}
 										{/* Display set details */}
 									</li>
 								),
@@ -261,8 +1126,52 @@ const WorkoutLogger = () => {
 								entry,
 								idx, // Iterate over each exercise in the workout
 							) => (
-								<li key={idx} className='mt-2'>
+								<li
+									key={idx}
+									className={`mt-2 ${
+										labels[idx] ? 'pl-2 border-l-4 border-purple-500' : ''
+									}`}>
+									{labels[idx] && (
+										<span className='mr-1 font-semibold text-purple-700'>
+											{labels[idx]}
+										</span>
+									)}
 									<strong>{entry.exercise}</strong> {/* Exercise name */}
+									<button
+										onClick={() => handleEditExercise(idx)} // Adjust the sets of this exercise
+										className='ml-2 text-sm text-blue-600 hover:underline'>
+										Edit
+									</button>
+									<button
+										onClick={() => handleRemoveExercise(idx)} // Drop this exercise
+										className='ml-2 text-sm text-red-600 hover:underline'>
+										Remove
+									</button>
+									<button
+										onClick={() => handleMoveExercise(idx, -1)} // Move the exercise up
+										disabled={idx === 0}
+										title='Move up'
+										className='ml-2 text-sm text-gray-600 hover:underline disabled:opacity-50'>
+										↑
+									</button>
+									<button
+										onClick={() => handleMoveExercise(idx, 1)} // Move the exercise down
+										disabled={idx === workout.length - 1}
+										title='Move down'
+										className='ml-1 text-sm text-gray-600 hover:underline disabled:opacity-50'>
+										↓
+									</button>
+									{idx > 0 && (
+										<label className='block text-sm text-gray-600'>
+											<input
+												type='checkbox'
+												checked={links[idx]} // Controlled input value
+												onChange={() => handleToggleSuperset(idx)} // Group with, or split from, the previous exercise
+												className='mr-1'
+											/>
+											Superset with previous
+										</label>
+									)}
 									<ul className='list-disc list-inside ml-6 mt-1'>
 										{' '}
 										{/* List of sets for the exercise */}
@@ -272,9 +1181,9 @@ const WorkoutLogger = () => {
 												setIdx, // Iterate over each set
 											) => (
 												<li key={setIdx}>
-													{`Set ${setIdx + 1}: ${set.weight} kg x ${
-														set.reps
-													} reps`}{' '}
+													{`Set ${setIdx + 1}: ${describeSet(entry.exercise, set)}`}{' '}
+													{describeSetEffort(set) &&
+														`(${describeSetEffort(set)})`}
 													{/* Display set details */}
 												</li>
 											),
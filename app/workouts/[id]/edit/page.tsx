@@ -4,18 +4,50 @@
 
 import React, { useEffect, useState } from 'react'; // Import React and hooks
 import { useParams, useRouter } from 'next/navigation'; // Import useParams and useRouter for route parameters and navigation
-
-// Define the structure of a workout set received from the API
-type WorkoutSet = {
+import ExercisePicker, {
+	ExerciseDefinition,
+} from '../../../components/ExercisePicker'; // Import the catalog type-ahead
+import { WeightUnit, unitLabel } from '../../../../lib/units'; // Import weight unit helpers
+import { sendOrQueue } from '../../../../lib/sync-queue'; // Import the offline sync queue
+import { SetEffort } from '../../../../lib/set-types'; // Import set type helpers
+import SetEffortInputs from '../../../components/SetEffortInputs'; // Import the set type, RPE and RIR inputs
+import PlateCalculator from '../../../components/PlateCalculator'; // Import the plate breakdown and warm-up generator
+import {
+	DEFAULT_PLATE_SETUP,
+	PlateSetup,
+	WarmupSet,
+} from '../../../../lib/plates'; // Import plate calculator helpers
+import { parseTagList } from '../../../../lib/notes'; // Import tag helpers
+import {
+	groupLabels,
+	linkedToPrevious,
+	moveExercise,
+	toggleLinkWithPrevious,
+} from '../../../../lib/supersets'; // Import superset helpers
+import {
+	ExerciseKind,
+	KIND_FIELDS,
+	toSetMetrics,
+} from '../../../../lib/exercise-kinds'; // Import exercise kind helpers
+
+// Define the structure of a workout set received from the API, with its type, RPE and RIR
+type WorkoutSet = SetEffort & {
 	id?: number; // Optional: ID of the set (required for updating existing sets)
 	reps: number; // Number of repetitions in the set
-	weight: number; // Weight used in the set
+	weight: number; // Weight used in the set, in the user's unit; added weight for bodyweight exercises, negative when assisted
+	distance?: number | null; // Distance covered in metres, for cardio
+	durationSeconds?: number | null; // Time taken or held in seconds, for cardio and timed exercises
+	notes?: string | null; // Optional: free-text notes on the set
 };
 
 // Define the structure of an exercise received from the API
 type WorkoutExercise = {
 	id?: number; // Optional: ID of the exercise (required for updating existing exercises)
 	name: string; // Name of the exercise
+	kind?: ExerciseKind; // What each set records, as saved; absent for exercises added on this page
+	savedName?: string; // Name as saved, whose kind the exercise keeps until it is changed to another lift
+	groupIndex?: number | null; // Optional: superset or circuit shared with the adjacent exercises
+	notes?: string | null; // Optional: free-text notes on the exercise
 	sets: WorkoutSet[]; // Array of sets for the exercise
 };
 
@@ -23,6 +55,9 @@ type WorkoutExercise = {
 type Workout = {
 	id: number; // Unique identifier for the workout
 	date: string; // ISO string representing the workout date
+	notes: string | null; // Free-text notes on the workout
+	tags: string[]; // Tags on the workout
+	unit: WeightUnit; // Unit of every weight in the workout
 	exercises: WorkoutExercise[]; // Array of exercises within the workout
 };
 
@@ -33,6 +68,9 @@ const UpdateWorkoutPage = () => {
 	const [loading, setLoading] = useState<boolean>(true); // State to manage loading status
 	const [error, setError] = useState<string | null>(null); // State to manage error messages
 	const [updating, setUpdating] = useState<boolean>(false); // State to manage update status
+	const [definitions, setDefinitions] = useState<ExerciseDefinition[]>([]); // State to hold the exercise catalog
+	const [tagInput, setTagInput] = useState<string>(''); // State to hold the comma-separated tags being edited
+	const [plateSetup, setPlateSetup] = useState<PlateSetup>(DEFAULT_PLATE_SETUP); // State to hold the bar and plates the plate calculator loads
 
 	/**
 	 * fetchWorkout
@@ -57,7 +95,14 @@ const UpdateWorkoutPage = () => {
 
 			const data: Workout = await response.json(); // Parse the JSON data
 
-			setWorkout(data); // Update the workout state with fetched data
+			setWorkout({
+				...data,
+				exercises: data.exercises.map(exercise => ({
+					...exercise,
+					savedName: exercise.name, // Remember the saved lift, to tell a rename from a correction
+				})),
+			}); // Update the workout state with fetched data
+			setTagInput(data.tags.join(', ')); // Show the tags as an editable list
 		} catch (err: any) {
 			// Catch any errors that occur during the fetch
 			setError(err.message || 'An unexpected error occurred.'); // Update the error state with the error message
@@ -79,6 +124,28 @@ const UpdateWorkoutPage = () => {
 		setWorkout({ ...workout, exercises: updatedExercises }); // Update the workout state
 	};
 
+	/**
+	 * kindOf
+	 * What a set of the exercise records: as it was saved while the name still matches
+	 * the saved lift, otherwise from the catalog entry the name matches, so renaming it
+	 * to another lift changes the inputs.
+	 */
+	const kindOf = (exercise: WorkoutExercise): ExerciseKind => {
+		const key = exercise.name.trim().toLowerCase();
+		const definition = definitions.find(
+			candidate =>
+				candidate.name.toLowerCase() === key || candidate.aliases.includes(key),
+		);
+		if (
+			exercise.kind &&
+			(!definition ||
+				definition.name.toLowerCase() === exercise.savedName?.toLowerCase())
+		) {
+			return exercise.kind;
+		}
+		return definition?.kind ?? 'WEIGHT_REPS';
+	};
+
 	/**
 	 * handleSetChange
 	 * Handles changes to a specific set within an exercise.
@@ -86,7 +153,7 @@ const UpdateWorkoutPage = () => {
 	const handleSetChange = (
 		exerciseIndex: number,
 		setIndex: number,
-		field: 'reps' | 'weight',
+		field: 'reps' | 'weight' | 'distance' | 'durationSeconds',
 		value: number,
 	) => {
 		if (!workout) return; // Exit if workout data is not available
@@ -96,6 +163,55 @@ const UpdateWorkoutPage = () => {
 		setWorkout({ ...workout, exercises: updatedExercises }); // Update the workout state
 	};
 
+	/**
+	 * handleEffortChange
+	 * Handles changes to the type, RPE and RIR of a specific set.
+	 */
+	const handleEffortChange = (
+		exerciseIndex: number,
+		setIndex: number,
+		effort: SetEffort,
+	) => {
+		if (!workout) return; // Exit if workout data is not available
+
+		const updatedExercises = [...workout.exercises]; // Create a copy of the exercises array
+		const { type, rpe, rir } = effort;
+		Object.assign(updatedExercises[exerciseIndex].sets[setIndex], {
+			type,
+			rpe,
+			rir,
+		}); // Update the effort fields of the set
+		setWorkout({ ...workout, exercises: updatedExercises }); // Update the workout state
+	};
+
+	/**
+	 * handleExerciseNotesChange
+	 * Handles changes to the notes of an exercise.
+	 */
+	const handleExerciseNotesChange = (index: number, notes: string) => {
+		if (!workout) return; // Exit if workout data is not available
+
+		const updatedExercises = [...workout.exercises]; // Create a copy of the exercises array
+		updatedExercises[index].notes = notes; // Update the notes of the exercise at the specified index
+		setWorkout({ ...workout, exercises: updatedExercises }); // Update the workout state
+	};
+
+	/**
+	 * handleSetNotesChange
+	 * Handles changes to the notes of a specific set.
+	 */
+	const handleSetNotesChange = (
+		exerciseIndex: number,
+		setIndex: number,
+		notes: string,
+	) => {
+		if (!workout) return; // Exit if workout data is not available
+
+		const updatedExercises = [...workout.exercises]; // Create a copy of the exercises array
+		updatedExercises[exerciseIndex].sets[setIndex].notes = notes; // Update the notes of the set
+		setWorkout({ ...workout, exercises: updatedExercises }); // Update the workout state
+	};
+
 	/**
 	 * handleAddExercise
 	 * Adds a new exercise to the workout.
@@ -123,6 +239,32 @@ const UpdateWorkoutPage = () => {
 		setWorkout({ ...workout, exercises: updatedExercises }); // Update the workout state
 	};
 
+	/**
+	 * handleMoveExercise
+	 * Moves an exercise one place up or down; it takes over the group slot it lands in.
+	 */
+	const handleMoveExercise = (index: number, offset: -1 | 1) => {
+		if (!workout) return; // Exit if workout data is not available
+
+		setWorkout({
+			...workout,
+			exercises: moveExercise(workout.exercises, index, offset),
+		}); // Update the workout state
+	};
+
+	/**
+	 * handleToggleSuperset
+	 * Groups an exercise with the one before it, or splits it off its group.
+	 */
+	const handleToggleSuperset = (index: number) => {
+		if (!workout) return; // Exit if workout data is not available
+
+		setWorkout({
+			...workout,
+			exercises: toggleLinkWithPrevious(workout.exercises, index),
+		}); // Update the workout state
+	};
+
 	/**
 	 * handleAddSet
 	 * Adds a new set to a specific exercise.
@@ -140,6 +282,35 @@ const UpdateWorkoutPage = () => {
 		setWorkout({ ...workout, exercises: updatedExercises }); // Update the workout state
 	};
 
+	/**
+	 * workingWeight
+	 * Heaviest weight of an exercise's sets other than warm-ups: what the warm-ups ramp up to.
+	 */
+	const workingWeight = (exercise: WorkoutExercise): number =>
+		Math.max(
+			0,
+			...exercise.sets
+				.filter(set => set.type !== 'WARMUP')
+				.map(set => set.weight),
+		);
+
+	/**
+	 * handleAddWarmups
+	 * Puts a warm-up ramp in front of an exercise's sets, replacing any warm-ups already there.
+	 */
+	const handleAddWarmups = (exerciseIndex: number, warmups: WarmupSet[]) => {
+		if (!workout) return; // Exit if workout data is not available
+
+		const updatedExercises = [...workout.exercises]; // Create a copy of the exercises array
+		updatedExercises[exerciseIndex].sets = [
+			...warmups,
+			...updatedExercises[exerciseIndex].sets.filter(
+				set => set.type !== 'WARMUP',
+			),
+		]; // Replaced warm-ups are deleted on save like any removed set
+		setWorkout({ ...workout, exercises: updatedExercises }); // Update the workout state
+	};
+
 	/**
 	 * handleRemoveSet
 	 * Removes a set from a specific exercise.
@@ -167,24 +338,39 @@ const UpdateWorkoutPage = () => {
 			// Prepare the data to match the API's expected structure
 			const formattedWorkout = {
 				date: workout.date, // Use the existing workout date or updated date
+				notes: workout.notes ?? null, // Updated notes; blank notes are cleared
+				tags: parseTagList(tagInput), // Updated tags
 				exercises: workout.exercises.map(exercise => ({
 					id: exercise.id, // Include the exercise ID for updating existing exercises
 					name: exercise.name, // Updated exercise name
+					groupIndex: exercise.groupIndex ?? null, // Updated superset or circuit
+					notes: exercise.notes ?? null, // Updated exercise notes
 					sets: exercise.sets.map(set => ({
 						id: set.id, // Include the set ID for updating existing sets
-						reps: set.reps, // Updated number of reps
-						weight: set.weight, // Updated weight
+						...toSetMetrics(kindOf(exercise), set), // Updated reps, weight, distance or time, as the kind records
+						type: set.type, // Updated kind of set
+						rpe: set.rpe ?? null, // Updated effort
+						rir: set.rir ?? null,
+						notes: set.notes ?? null, // Updated set notes
 					})),
 				})),
 			};
 
-			// Send a PUT request to update the workout
-			const response = await fetch(`/api/update-workout/${id}`, {
-				method: 'PUT', // HTTP method
-				headers: { 'Content-Type': 'application/json' }, // Set content type to JSON
-				body: JSON.stringify(formattedWorkout), // Convert data to JSON string
+			// Send a PUT request to update the workout, or queue it while offline
+			const result = await sendOrQueue({
+				url: `/api/update-workout/${id}`,
+				method: 'PUT',
+				body: formattedWorkout,
+				description: `Update to workout #${id}`,
 			});
 
+			if (result.queued) {
+				alert('You are offline. The changes will be saved when you reconnect.'); // Notify the user
+				router.push(`/workouts/${id}`); // Navigate back to the Workout Detail page
+				return;
+			}
+
+			const response = result.response;
 			if (!response.ok) {
 				// Check if the response status is not OK (200)
 				const errorData = await response.json(); // Parse the error message from the response
@@ -208,6 +394,43 @@ const UpdateWorkoutPage = () => {
 		}
 	};
 
+	// useEffect hook to load the exercise catalog when the component mounts
+	useEffect(() => {
+		const fetchDefinitions = async () => {
+			try {
+				const response = await fetch('/api/exercise-definitions'); // Fetch the catalog from the API
+				if (!response.ok) {
+					const errorData = await response.json(); // Parse the error message from the response
+					throw new Error(errorData.error || 'Failed to fetch exercises.'); // Throw an error with the message
+				}
+				setDefinitions(await response.json()); // Update the catalog state
+			} catch (err) {
+				console.error('Error fetching exercise catalog:', err); // Log the error; free text still works
+			}
+		};
+
+		fetchDefinitions(); // Invoke the fetchDefinitions function
+	}, []); // Empty dependency array ensures this runs only once on mount
+
+	// useEffect hook to load the user's plate setup when the component mounts
+	useEffect(() => {
+		const fetchPreferences = async () => {
+			try {
+				const response = await fetch('/api/preferences'); // Fetch the preferences from the API
+				if (!response.ok) {
+					const errorData = await response.json(); // Parse the error message from the response
+					throw new Error(errorData.error || 'Failed to fetch preferences.'); // Throw an error with the message
+				}
+				const data: { plateSetup: PlateSetup } = await response.json();
+				setPlateSetup(data.plateSetup); // Update the plate setup state
+			} catch (err) {
+				console.error('Error fetching preferences:', err); // Log the error; standard plates are assumed
+			}
+		};
+
+		fetchPreferences(); // Invoke the fetchPreferences function
+	}, []); // Empty dependency array ensures this runs only once on mount
+
 	// useEffect hook to fetch workout details when the component mounts or when 'id' changes
 	useEffect(() => {
 		fetchWorkout(); // Invoke the fetchWorkout function
@@ -228,6 +451,9 @@ const UpdateWorkoutPage = () => {
 		return <div className='p-4'>No workout data available.</div>;
 	}
 
+	const labels = groupLabels(workout.exercises); // Superset labels such as A1 and A2
+	const links = linkedToPrevious(workout.exercises); // Whether each exercise is grouped with the one before it
+
 	return (
 		<div className='max-w-2xl mx-auto p-6 bg-gray-100 rounded-lg shadow-lg'>
 			{' '}
@@ -254,6 +480,30 @@ const UpdateWorkoutPage = () => {
 						required // Make the input required
 					/>
 				</div>
+				{/* Workout Notes Input */}
+				<div className='mb-4'>
+					<label className='block text-lg font-medium mb-2'>Notes:</label>{' '}
+					{/* Notes input label */}
+					<textarea
+						value={workout.notes ?? ''} // Controlled input value
+						onChange={e => setWorkout({ ...workout, notes: e.target.value })} // Update the workout notes on change
+						placeholder='e.g., New belt, slept badly' // Placeholder text
+						className='w-full p-2 border border-gray-300 rounded-lg' // Styling with Tailwind
+						rows={3} // Visible lines of text
+					/>
+				</div>
+				{/* Workout Tags Input */}
+				<div className='mb-4'>
+					<label className='block text-lg font-medium mb-2'>Tags:</label>{' '}
+					{/* Tags input label */}
+					<input
+						type='text' // Input type text
+						value={tagInput} // Controlled input value
+						onChange={e => setTagInput(e.target.value)} // Update the tags on change
+						placeholder='Comma-separated, e.g., deload, travel gym' // Placeholder text
+						className='w-full p-2 border border-gray-300 rounded-lg' // Styling with Tailwind
+					/>
+				</div>
 				{/* Exercises Section */}
 				<div className='mb-6'>
 					<h2 className='text-xl font-semibold mb-2'>Exercises</h2>{' '}
@@ -265,19 +515,54 @@ const UpdateWorkoutPage = () => {
 						) => (
 							<div
 								key={exerciseIndex}
-								className='mb-4 p-4 bg-white rounded-lg shadow'>
+								className={`p-4 bg-white rounded-lg shadow ${
+									links[exerciseIndex + 1] ? 'mb-1' : 'mb-4'
+								} ${labels[exerciseIndex] ? 'border-l-4 border-purple-500' : ''}`}>
 								{' '}
-								{/* Container for each exercise */}
+								{/* Container for each exercise; grouped exercises sit together */}
+								{/* Grouping and Order Controls */}
+								<div className='flex justify-between items-center mb-2 text-sm'>
+									<span className='font-semibold text-purple-700'>
+										{labels[exerciseIndex]}
+									</span>
+									<div className='flex items-center space-x-2'>
+										{exerciseIndex > 0 && (
+											<label className='flex items-center'>
+												<input
+													type='checkbox' // Input type checkbox
+													checked={links[exerciseIndex]} // Controlled input value
+													onChange={() => handleToggleSuperset(exerciseIndex)} // Group with, or split from, the previous exercise
+													className='mr-1'
+												/>
+												Superset with previous
+											</label>
+										)}
+										<button
+											type='button' // Button type button to prevent form submission
+											onClick={() => handleMoveExercise(exerciseIndex, -1)} // Move the exercise up
+											disabled={exerciseIndex === 0}
+											title='Move up'
+											className='px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50'>
+											↑
+										</button>
+										<button
+											type='button' // Button type button to prevent form submission
+											onClick={() => handleMoveExercise(exerciseIndex, 1)} // Move the exercise down
+											disabled={exerciseIndex === workout.exercises.length - 1}
+											title='Move down'
+											className='px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50'>
+											↓
+										</button>
+									</div>
+								</div>
 								{/* Exercise Name Input */}
 								<div className='flex justify-between items-center mb-2'>
-									<input
-										type='text' // Input type text
+									<ExercisePicker
+										definitions={definitions} // Catalog to search
 										value={exercise.name} // Controlled input value
-										onChange={e =>
-											handleExerciseChange(exerciseIndex, e.target.value)
-										} // Handle changes to the exercise name
+										onChange={name => handleExerciseChange(exerciseIndex, name)} // Handle changes to the exercise name
 										placeholder='Exercise Name' // Placeholder text
-										className='w-3/4 p-2 border border-gray-300 rounded-lg' // Styling with Tailwind
+										className='w-3/4' // Styling with Tailwind
 										required // Make the input required
 									/>
 									{/* Remove Exercise Button */}
@@ -288,6 +573,16 @@ const UpdateWorkoutPage = () => {
 										Remove
 									</button>
 								</div>
+								{/* Exercise Notes Input */}
+								<textarea
+									value={exercise.notes ?? ''} // Controlled input value
+									onChange={e =>
+										handleExerciseNotesChange(exerciseIndex, e.target.value)
+									} // Handle changes to the exercise notes
+									placeholder='Exercise notes' // Placeholder text
+									className='w-full p-2 border border-gray-300 rounded-lg mb-2' // Styling with Tailwind
+									rows={2} // Visible lines of text
+								/>
 								{/* Sets Section */}
 								<div className='ml-4'>
 									<h3 className='text-lg font-medium mb-2'>Sets:</h3>{' '}
@@ -297,41 +592,157 @@ const UpdateWorkoutPage = () => {
 											set,
 											setIndex, // Iterate over each set
 										) => (
-											<div key={setIndex} className='flex items-center mb-2'>
+											<div
+												key={setIndex}
+												className='flex flex-wrap items-center gap-y-2 mb-2'>
 												{/* Reps Input */}
-												<input
-													type='number' // Input type number
-													value={set.reps} // Controlled input value
-													onChange={e =>
-														handleSetChange(
-															exerciseIndex,
-															setIndex,
-															'reps',
-															Number(e.target.value),
-														)
-													} // Handle changes to reps
-													placeholder='Reps' // Placeholder text
-													className='w-24 p-2 border border-gray-300 rounded-lg mr-2' // Styling with Tailwind
-													min='0' // Minimum value constraint
-													required // Make the input required
-												/>
+												{KIND_FIELDS[kindOf(exercise)].reps && (
+													<input
+														type='number' // Input type number
+														value={set.reps} // Controlled input value
+														onChange={e =>
+															handleSetChange(
+																exerciseIndex,
+																setIndex,
+																'reps',
+																Number(e.target.value),
+															)
+														} // Handle changes to reps
+														placeholder='Reps' // Placeholder text
+														className='w-24 p-2 border border-gray-300 rounded-lg mr-2' // Styling with Tailwind
+														min='0' // Minimum value constraint
+														required // Make the input required
+													/>
+												)}
 
 												{/* Weight Input */}
+												{KIND_FIELDS[kindOf(exercise)].weight && (
+													<input
+														type='number' // Input type number
+														value={set.weight} // Controlled input value
+														onChange={e =>
+															handleSetChange(
+																exerciseIndex,
+																setIndex,
+																'weight',
+																Number(e.target.value),
+															)
+														} // Handle changes to weight
+														placeholder={
+															kindOf(exercise) === 'BODYWEIGHT'
+																? `Added weight (${unitLabel(workout.unit)})`
+																: `Weight (${unitLabel(workout.unit)})`
+														} // Placeholder text
+														title={
+															kindOf(exercise) === 'BODYWEIGHT'
+																? 'Added weight; negative if assisted'
+																: undefined
+														}
+														className='w-32 p-2 border border-gray-300 rounded-lg mr-2' // Styling with Tailwind
+														min={
+															kindOf(exercise) === 'BODYWEIGHT'
+																? undefined
+																: '0'
+														} // Assisted bodyweight sets go below zero
+														step='any' // Allow fractional weights such as 2.5
+														required // Make the input required
+													/>
+												)}
+
+												{/* Distance Input, in kilometres */}
+												{KIND_FIELDS[kindOf(exercise)].distance && (
+													<input
+														type='number' // Input type number
+														value={(set.distance ?? 0) / 1000} // Controlled input value
+														onChange={e =>
+															handleSetChange(
+																exerciseIndex,
+																setIndex,
+																'distance',
+																Number(e.target.value) * 1000,
+															)
+														} // Handle changes to distance
+														placeholder='Distance (km)' // Placeholder text
+														title='Distance (km)'
+														className='w-28 p-2 border border-gray-300 rounded-lg mr-2' // Styling with Tailwind
+														min='0' // Minimum value constraint
+														step='any' // Allow fractional distances such as 5.25
+														required // Make the input required
+													/>
+												)}
+
+												{/* Time Inputs, in minutes and seconds */}
+												{KIND_FIELDS[kindOf(exercise)].duration && (
+													<span className='flex items-center mr-2'>
+														<input
+															type='number' // Input type number
+															value={Math.floor(
+																(set.durationSeconds ?? 0) / 60,
+															)} // Controlled input value
+															onChange={e =>
+																handleSetChange(
+																	exerciseIndex,
+																	setIndex,
+																	'durationSeconds',
+																	Number(e.target.value) * 60 +
+																		((set.durationSeconds ?? 0) % 60),
+																)
+															} // Handle changes to the minutes
+															placeholder='Min' // Placeholder text
+															aria-label='Minutes'
+															className='w-20 p-2 border border-gray-300 rounded-lg' // Styling with Tailwind
+															min='0' // Minimum value constraint
+														/>
+														<span className='mx-1'>:</span>
+														<input
+															type='number' // Input type number
+															value={(set.durationSeconds ?? 0) % 60} // Controlled input value
+															onChange={e =>
+																handleSetChange(
+																	exerciseIndex,
+																	setIndex,
+																	'durationSeconds',
+																	Math.floor((set.durationSeconds ?? 0) / 60) *
+																		60 +
+																		Number(e.target.value),
+																)
+															} // Handle changes to the seconds
+															placeholder='Sec' // Placeholder text
+															aria-label='Seconds'
+															className='w-20 p-2 border border-gray-300 rounded-lg' // Styling with Tailwind
+															min='0' // Minimum value constraint
+															max='59' // Whole minutes go in the minutes field
+														/>
+													</span>
+												)}
+
+												{/* Set Type, RPE and RIR Inputs */}
+												<div className='mr-2'>
+													<SetEffortInputs
+														value={set}
+														onChange={effort =>
+															handleEffortChange(
+																exerciseIndex,
+																setIndex,
+																effort,
+															)
+														}
+													/>
+												</div>
+
+												{/* Set Notes Input */}
 												<input
-													type='number' // Input type number
-													value={set.weight} // Controlled input value
+													type='text' // Input type text
+													value={set.notes ?? ''} // Controlled input value
 													onChange={e =>
-														handleSetChange(
+														handleSetNotesChange(
 															exerciseIndex,
 															setIndex,
-															'weight',
-															Number(e.target.value),
+															e.target.value,
 														)
-													} // Handle changes to weight
-													placeholder='Weight (kg)' // Placeholder text
-													className='w-32 p-2 border border-gray-300 rounded-lg mr-2' // Styling with Tailwind
-													min='0' // Minimum value constraint
-													required // Make the input required
+													} // Handle changes to the set notes
+													placeholder='Set notes' // Placeholder text
+													className='w-40 p-2 border border-gray-300 rounded-lg mr-2' // Styling with Tailwind
 												/>
 
 												{/* Remove Set Button */}
@@ -346,6 +757,19 @@ const UpdateWorkoutPage = () => {
 											</div>
 										),
 									)}
+									{/* Plate Breakdown and Warm-up Generator for the heaviest set */}
+									{kindOf(exercise) === 'WEIGHT_REPS' &&
+										workingWeight(exercise) > 0 && (
+											<PlateCalculator
+												weight={workingWeight(exercise)} // Working weight to load
+												unit={workout.unit}
+												setup={plateSetup}
+												onSetupChange={setPlateSetup} // Keep the saved plates
+												onAddWarmups={warmups =>
+													handleAddWarmups(exerciseIndex, warmups)
+												} // Ramp up to the working weight
+											/>
+										)}
 									{/* Add Set Button */}
 									<button
 										type='button' // Button type button to prevent form submission
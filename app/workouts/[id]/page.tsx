@@ -5,22 +5,87 @@
 import React, { useEffect, useState } from 'react'; // Import React and hooks
 import { useParams, useRouter } from 'next/navigation'; // Import useParams and useRouter for route parameters and navigation
 import Link from 'next/link'; // Import Link component for client-side navigation
+import { WeightUnit, unitLabel } from '../../../lib/units'; // Import weight unit helpers
+import { sendOrQueue } from '../../../lib/sync-queue'; // Import the offline sync queue
+import { TRASH_RETENTION_DAYS, announceTrashed } from '../../../lib/trash'; // Import trash helpers
+import { formatDuration, secondsBetween } from '../../../lib/durations'; // Import timing helpers
+import { SetType, describeSetEffort } from '../../../lib/set-types'; // Import set type helpers
+import {
+	groupKind,
+	groupLetter,
+	interleaveRounds,
+	toExerciseBlocks,
+} from '../../../lib/supersets'; // Import superset helpers
+import { ExerciseKind, formatSetMetrics } from '../../../lib/exercise-kinds'; // Import exercise kind helpers
 
 // Define the structure of a workout as received from the API
 type Workout = {
 	id: number; // Unique identifier for the workout
 	date: string; // ISO string representing the workout date
+	startedAt: string | null; // ISO string of when logging started, if recorded
+	endedAt: string | null; // ISO string of when the workout was finished, if recorded
+	notes: string | null; // Free-text notes on the workout
+	tags: string[]; // Tags on the workout
+	program: {
+		programId: number; // Program the workout was logged from
+		programName: string; // Name of the program
+		dayId: number; // Program day the workout was logged from
+		dayName: string; // Name of the program day
+		week: number | null; // Week of the program it was logged for
+	} | null; // Program day the workout was logged from, if any
+	unit: WeightUnit; // Unit of every weight in the workout
 	exercises: {
 		id: number; // Unique identifier for the exercise
 		name: string; // Name of the exercise
+		kind: ExerciseKind; // What each set of the exercise records
+		groupIndex: number | null; // Superset or circuit of the exercise, if grouped
+		notes: string | null; // Free-text notes on the exercise
 		sets: {
 			id: number; // Unique identifier for the set
 			reps: number; // Number of reps in the set
-			weight: number; // Weight used in the set
+			weight: number; // Weight used in the set, in the user's unit
+			distance: number | null; // Distance covered in metres, if recorded
+			durationSeconds: number | null; // Time taken or held in seconds, if recorded
+			completedAt: string | null; // ISO string of when the set was done, if recorded
+			type: SetType; // Kind of set (warm-up, working, ...)
+			rpe: number | null; // Rate of perceived exertion, if rated
+			rir: number | null; // Reps in reserve, if rated
+			notes: string | null; // Free-text notes on the set
 		}[];
 	}[];
 };
 
+/**
+ * describeSet
+ * Summary of a set in the terms of its exercise's kind: "5 reps @ 100 kg" for weighted
+ * lifts, and e.g. "8 reps +20 kg" or "5 km in 25:00 (5:00 /km)" for the other kinds.
+ */
+const describeSet = (
+	kind: ExerciseKind,
+	set: Workout['exercises'][number]['sets'][number],
+	unit: WeightUnit,
+): string =>
+	kind === 'WEIGHT_REPS'
+		? `${set.reps} reps @ ${set.weight} ${unitLabel(unit)}`
+		: formatSetMetrics(kind, set, unit);
+
+/**
+ * averageRest
+ * Mean rest between consecutive timed sets of an exercise, in seconds; null if none were timed.
+ */
+const averageRest = (sets: Workout['exercises'][number]['sets']) => {
+	const rests = sets
+		.map((set, idx) =>
+			idx > 0
+				? secondsBetween(sets[idx - 1].completedAt, set.completedAt)
+				: null,
+		)
+		.filter((rest): rest is number => rest !== null);
+	return rests.length > 0
+		? rests.reduce((total, rest) => total + rest, 0) / rests.length
+		: null;
+};
+
 const WorkoutDetailPage = () => {
 	const { id } = useParams<{ id: string }>(); // Extract the 'id' parameter from the URL
 	const router = useRouter(); // Initialize the router for navigation
@@ -68,7 +133,7 @@ const WorkoutDetailPage = () => {
 	 */
 	const handleDelete = async () => {
 		const confirmDelete = confirm(
-			'Are you sure you want to delete this workout? This action cannot be undone.',
+			`Move this workout to the trash? It can be restored for ${TRASH_RETENTION_DAYS} days.`,
 		);
 
 		if (!confirmDelete) {
@@ -78,10 +143,22 @@ const WorkoutDetailPage = () => {
 		setDeleting(true); // Set deletion status to true
 
 		try {
-			const response = await fetch(`/api/delete-workout/${id}`, {
-				method: 'DELETE', // HTTP method
+			// Send a DELETE request, or queue it while offline
+			const sent = await sendOrQueue({
+				url: `/api/delete-workout/${id}`,
+				method: 'DELETE',
+				description: `Deletion of workout #${id}`,
 			});
 
+			if (sent.queued) {
+				alert(
+					'You are offline. The workout will be deleted when you reconnect.',
+				); // Notify the user
+				router.push('/'); // Navigate back to the home page
+				return;
+			}
+
+			const response = sent.response;
 			if (!response.ok) {
 				// Check if the response status is not OK (200)
 				const errorData = await response.json(); // Parse the error message from the response
@@ -90,7 +167,7 @@ const WorkoutDetailPage = () => {
 
 			const result = await response.json(); // Parse the JSON response
 			console.log(result.message); // Log the success message
-			alert(result.message); // Notify the user of successful deletion
+			announceTrashed(result.id); // Offer to undo the deletion
 
 			router.push('/'); // Navigate back to the home page after deletion
 		} catch (err: any) {
@@ -105,6 +182,36 @@ const WorkoutDetailPage = () => {
 		}
 	};
 
+	/**
+	 * handleSaveAsTemplate
+	 * Saves this workout's exercises and sets as a new workout template.
+	 */
+	const handleSaveAsTemplate = async () => {
+		const name = prompt('Template name:', 'My Routine'); // Ask the user to name the template
+		if (!name || !name.trim()) return; // Exit if the user cancels
+
+		try {
+			const response = await fetch('/api/templates', {
+				method: 'POST', // HTTP method
+				headers: { 'Content-Type': 'application/json' }, // Set content type to JSON
+				body: JSON.stringify({ name, workoutId: Number(id) }), // Copy this workout into the template
+			});
+
+			if (!response.ok) {
+				// Check if the response status is not OK (201)
+				const errorData = await response.json(); // Parse the error message from the response
+				throw new Error(errorData.error || 'Failed to save template.'); // Throw an error with the message
+			}
+
+			alert(`Template "${name.trim()}" saved.`); // Notify the user
+		} catch (err) {
+			alert(
+				err instanceof Error ? err.message : 'An unexpected error occurred.',
+			); // Notify the user
+			console.error('Error saving template:', err); // Log the error for debugging
+		}
+	};
+
 	// useEffect hook to fetch workout details when the component mounts or when 'id' changes
 	useEffect(() => {
 		fetchWorkout(); // Invoke the fetchWorkout function
@@ -125,6 +232,69 @@ const WorkoutDetailPage = () => {
 		return <div className='p-4'>No workout data available.</div>;
 	}
 
+	/**
+	 * renderGroup
+	 * Shows a superset or circuit: its exercises, then their sets round by round as they were done.
+	 */
+	const renderGroup = (groupIndex: number, exercises: Workout['exercises']) => (
+		<div
+			key={`group-${groupIndex}`}
+			className='mb-4 pl-3 border-l-4 border-purple-500'>
+			<h2 className='text-xl font-semibold'>
+				{groupKind(exercises.length)} {groupLetter(groupIndex)}
+			</h2>
+			<ul>
+				{exercises.map((exercise, idx) => (
+					<li key={exercise.id}>
+						<span className='mr-1 font-semibold text-purple-700'>
+							{groupLetter(groupIndex)}
+							{idx + 1}
+						</span>
+						<Link
+							href={`/exercises/${encodeURIComponent(exercise.name)}`}
+							className='hover:underline'>
+							{exercise.name}
+						</Link>
+						{exercise.notes && (
+							<span className='text-sm text-gray-700'> — {exercise.notes}</span>
+						)}
+					</li>
+				))}
+			</ul>
+			<ol className='list-decimal list-inside mt-2'>
+				{interleaveRounds(exercises.map(exercise => exercise.sets)).map(
+					(round, roundIdx) => (
+						<li key={roundIdx}>
+							Round {roundIdx + 1}
+							<ul className='list-disc list-inside ml-6'>
+								{round.map(({ exerciseIndex, set }) => (
+									<li key={set.id}>
+										{`${groupLetter(groupIndex)}${exerciseIndex + 1}: ${describeSet(
+											exercises[exerciseIndex].kind,
+											set,
+											workout.unit,
+										)}`}{' '}
+										{describeSetEffort(set) && (
+											<span className='text-sm text-gray-700'>
+												{describeSetEffort(set)}
+											</span>
+										)}
+										{set.notes && (
+											<span className='text-sm italic text-gray-600'>
+												{' '}
+												— {set.notes}
+											</span>
+										)}
+									</li>
+								))}
+							</ul>
+						</li>
+					),
+				)}
+			</ol>
+		</div>
+	);
+
 	return (
 		<div className='max-w-lg mx-auto p-6 bg-gray-100 rounded-lg shadow-lg'>
 			{' '}
@@ -140,35 +310,124 @@ const WorkoutDetailPage = () => {
 					Date: {new Date(workout.date).toLocaleString()}
 				</p>{' '}
 				{/* Display formatted workout date */}
+				{workout.startedAt && workout.endedAt && (
+					<p className='text-lg'>
+						Duration:{' '}
+						{formatDuration(
+							secondsBetween(workout.startedAt, workout.endedAt)!,
+						)}
+					</p>
+				)}
+				{workout.program && (
+					<p className='text-lg'>
+						From program{' '}
+						<Link
+							href={`/programs/${workout.program.programId}`}
+							className='text-blue-500 hover:underline'>
+							{workout.program.programName}
+						</Link>
+						{' — '}
+						{workout.program.week !== null && `Week ${workout.program.week} · `}
+						{workout.program.dayName}
+					</p>
+				)}
+				{workout.tags.length > 0 && (
+					<div className='flex flex-wrap gap-1 mt-2'>
+						{workout.tags.map(tag => (
+							<Link
+								key={tag}
+								href={`/?tag=${encodeURIComponent(tag)}`}
+								className='px-2 py-0.5 text-xs bg-blue-100 text-blue-800 rounded-full hover:bg-blue-200'>
+								{tag}
+							</Link>
+						))}
+					</div>
+				)}
+				{workout.notes && (
+					<p className='mt-2 whitespace-pre-line'>{workout.notes}</p>
+				)}
 			</div>
 			<div>
 				{' '}
 				{/* Container for exercises */}
-				{workout.exercises.map(
-					(
-						exercise, // Iterate over each exercise in the workout
-					) => (
-						<div key={exercise.id} className='mb-4'>
-							{' '}
-							{/* Container for each exercise */}
-							<h2 className='text-xl font-semibold'>{exercise.name}</h2>{' '}
-							{/* Exercise name */}
-							<ul className='list-disc list-inside mt-2'>
-								{' '}
-								{/* List of sets for the exercise */}
-								{exercise.sets.map(
-									(
-										set, // Iterate over each set in the exercise
-									) => (
-										<li key={set.id}>
-											{`Set ${set.id}: ${set.reps} reps @ ${set.weight} kg`}{' '}
-											{/* Display set details */}
-										</li>
-									),
-								)}
-							</ul>
-						</div>
-					),
+				{toExerciseBlocks(workout.exercises).map(block =>
+					block.groupIndex === null
+						? block.exercises.map(
+								(
+									exercise, // Iterate over each exercise in the workout
+								) => (
+									<div key={exercise.id} className='mb-4'>
+										{' '}
+										{/* Container for each exercise */}
+										<h2 className='text-xl font-semibold'>
+											<Link
+												href={`/exercises/${encodeURIComponent(exercise.name)}`}
+												className='hover:underline'>
+												{exercise.name}
+											</Link>
+										</h2>{' '}
+										{/* Exercise name */}
+										{exercise.notes && (
+											<p className='text-sm text-gray-700 whitespace-pre-line'>
+												{exercise.notes}
+											</p>
+										)}
+										{averageRest(exercise.sets) !== null && (
+											<p className='text-sm text-gray-600'>
+												Average rest:{' '}
+												{formatDuration(averageRest(exercise.sets)!)}
+											</p>
+										)}
+										<ul className='list-disc list-inside mt-2'>
+											{' '}
+											{/* List of sets for the exercise */}
+											{exercise.sets.map(
+												(
+													set, // Iterate over each set in the exercise
+													idx,
+												) => {
+													// Rest taken since the previous set of this exercise, if both were timed
+													const rest =
+														idx > 0
+															? secondsBetween(
+																	exercise.sets[idx - 1].completedAt,
+																	set.completedAt,
+																)
+															: null;
+
+													return (
+														<li key={set.id}>
+															{`Set ${set.id}: ${describeSet(
+																exercise.kind,
+																set,
+																workout.unit,
+															)}`}{' '}
+															{/* Display set details */}
+															{describeSetEffort(set) && (
+																<span className='text-sm text-gray-700'>
+																	{describeSetEffort(set)}{' '}
+																</span>
+															)}
+															{rest !== null && (
+																<span className='text-sm text-gray-500'>
+																	(rested {formatDuration(rest)})
+																</span>
+															)}
+															{set.notes && (
+																<span className='text-sm italic text-gray-600'>
+																	{' '}
+																	— {set.notes}
+																</span>
+															)}
+														</li>
+													);
+												},
+											)}
+										</ul>
+									</div>
+								),
+							)
+						: renderGroup(block.groupIndex, block.exercises),
 				)}
 			</div>
 			{/* Action Buttons */}
@@ -183,6 +442,12 @@ const WorkoutDetailPage = () => {
 					{/* Link to the Update Workout page */}
 					Update Workout
 				</Link>
+				{/* Save as Template Button */}
+				<button
+					onClick={handleSaveAsTemplate} // Copy this workout into a new template
+					className='px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700'>
+					Save as Template
+				</button>
 				{/* Delete Button */}
 				<button
 					onClick={handleDelete} // Attach the handleDelete function to the button's onClick event
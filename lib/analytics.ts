@@ -0,0 +1,196 @@
+// lib/analytics.ts
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { bucketStart } from './history';
+
+// Define the totals of one training week
+export type WeeklyTotals = {
+	weekStart: string; // Monday the week starts on (YYYY-MM-DD, UTC)
+	sessions: number; // Number of workouts in the week
+	tonnage: number; // Sum of the workouts' volume, in kilograms
+	averageDurationSeconds: number | null; // Mean length of the timed workouts; null if none were timed
+};
+
+// Define the weekly set counts of one muscle group
+export type MuscleGroupSets = {
+	muscle: string; // Muscle group, as named in the catalog (e.g., chest)
+	sets: number[]; // Sets per week, aligned with the weeks of the dashboard
+	total: number; // Sets over the whole range
+};
+
+// Define the runs of consecutive weeks with at least one workout
+export type TrainingStreaks = {
+	current: number; // Weeks in the run reaching this week (or last week, while this one is empty)
+	longest: number; // Longest run in the whole history
+};
+
+// Row of the weekly workout aggregate
+type WeeklyRow = {
+	weekStart: string;
+	sessions: bigint;
+	tonnage: number | null;
+	averageDuration: Prisma.Decimal | null;
+};
+
+// Row of the weekly muscle group aggregate
+type MuscleRow = {
+	weekStart: string;
+	muscle: string;
+	sets: bigint;
+};
+
+// Monday (UTC) of the week of a workout, as YYYY-MM-DD; matches bucketStart
+const WEEK_START = Prisma.raw(
+	"DATE_FORMAT(DATE_SUB(DATE(w.date), INTERVAL WEEKDAY(w.date) DAY), '%Y-%m-%d')",
+);
+
+// Length of a week in milliseconds
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * toDateKey
+ * Formats a date as YYYY-MM-DD in UTC.
+ */
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * weekStarts
+ * Mondays of the given number of weeks, oldest first, ending with the week containing `now`.
+ */
+export const weekStarts = (count: number, now: Date = new Date()): string[] => {
+	const thisWeek = bucketStart(now, 'week').getTime();
+	return Array.from({ length: count }, (_, idx) =>
+		toDateKey(new Date(thisWeek - (count - 1 - idx) * WEEK_MS)),
+	);
+};
+
+/**
+ * loadWeeklyTotals
+ * Counts, tonnage and mean duration of the user's workouts per week since `from`,
+ * aggregated in SQL from the totals stored on each workout.
+ */
+export const loadWeeklyTotals = async (
+	userId: number,
+	from: Date,
+): Promise<Map<string, Omit<WeeklyTotals, 'weekStart'>>> => {
+	const rows = await prisma.$queryRaw<WeeklyRow[]>(Prisma.sql`
+		SELECT ${WEEK_START} AS weekStart,
+			COUNT(*) AS sessions,
+			SUM(w.totalVolume) AS tonnage,
+			AVG(TIMESTAMPDIFF(SECOND, w.startedAt, w.endedAt)) AS averageDuration
+		FROM workouts w
+		WHERE w.userId = ${userId} AND w.deletedAt IS NULL AND w.date >= ${from}
+		GROUP BY weekStart
+	`);
+
+	return new Map(
+		rows.map(row => [
+			row.weekStart,
+			{
+				sessions: Number(row.sessions),
+				tonnage: Number(row.tonnage ?? 0),
+				averageDurationSeconds:
+					row.averageDuration === null ? null : Number(row.averageDuration),
+			},
+		]),
+	);
+};
+
+/**
+ * loadWeeklyMuscleSets
+ * Sets per primary muscle group per week since `from`. Warm-ups are left out,
+ * and a set counts once for each primary muscle of its exercise.
+ */
+export const loadWeeklyMuscleSets = (
+	userId: number,
+	from: Date,
+): Promise<MuscleRow[]> =>
+	prisma.$queryRaw<MuscleRow[]>(Prisma.sql`
+		SELECT ${WEEK_START} AS weekStart, m.muscle AS muscle, COUNT(*) AS sets
+		FROM sets s
+		JOIN exercises e ON e.id = s.exerciseId
+		JOIN workouts w ON w.id = e.workoutId
+		JOIN exercise_definitions d ON d.id = e.definitionId
+		JOIN JSON_TABLE(d.primaryMuscles, '$[*]' COLUMNS (muscle VARCHAR(64) PATH '$')) m
+		WHERE w.userId = ${userId} AND w.deletedAt IS NULL AND w.date >= ${from}
+			AND s.type <> 'WARMUP'
+		GROUP BY weekStart, m.muscle
+	`);
+
+/**
+ * loadTrainedWeeks
+ * Every week of the user's history with at least one workout, oldest first.
+ */
+export const loadTrainedWeeks = async (userId: number): Promise<string[]> => {
+	const rows = await prisma.$queryRaw<{ weekStart: string }[]>(Prisma.sql`
+		SELECT DISTINCT ${WEEK_START} AS weekStart
+		FROM workouts w
+		WHERE w.userId = ${userId} AND w.deletedAt IS NULL
+		ORDER BY weekStart
+	`);
+	return rows.map(row => row.weekStart);
+};
+
+/**
+ * toMuscleGroupSets
+ * Pivots muscle rows into one series per muscle aligned with `weeks`, busiest muscle first.
+ */
+export const toMuscleGroupSets = (
+	rows: MuscleRow[],
+	weeks: string[],
+): MuscleGroupSets[] => {
+	const weekIndex = new Map(weeks.map((week, idx) => [week, idx]));
+	const muscles = new Map<string, MuscleGroupSets>();
+
+	rows.forEach(row => {
+		const idx = weekIndex.get(row.weekStart);
+		if (idx === undefined) return; // Outside the dashboard's weeks
+
+		const key = row.muscle.trim().toLowerCase();
+		const entry = muscles.get(key) ?? {
+			muscle: key,
+			sets: weeks.map(() => 0),
+			total: 0,
+		};
+		entry.sets[idx] += Number(row.sets);
+		entry.total += Number(row.sets);
+		muscles.set(key, entry);
+	});
+
+	return Array.from(muscles.values()).sort(
+		(a, b) => b.total - a.total || a.muscle.localeCompare(b.muscle),
+	);
+};
+
+/**
+ * computeStreaks
+ * Runs of consecutive trained weeks. The current run counts back from this week,
+ * or from last week while this week has no workout yet, so it isn't broken mid-week.
+ */
+export const computeStreaks = (
+	trainedWeeks: string[],
+	now: Date = new Date(),
+): TrainingStreaks => {
+	const times = Array.from(
+		new Set(trainedWeeks.map(week => new Date(`${week}T00:00:00Z`).getTime())),
+	).sort((a, b) => a - b);
+
+	let longest = 0;
+	let run = 0;
+	times.forEach((time, idx) => {
+		run = idx > 0 && time - times[idx - 1] === WEEK_MS ? run + 1 : 1;
+		longest = Math.max(longest, run);
+	});
+
+	const trained = new Set(times);
+	let week = bucketStart(now, 'week').getTime();
+	if (!trained.has(week)) week -= WEEK_MS; // This week is still open
+	let current = 0;
+	while (trained.has(week)) {
+		current++;
+		week -= WEEK_MS;
+	}
+
+	return { current, longest };
+};
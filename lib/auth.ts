@@ -0,0 +1,154 @@
+// lib/auth.ts
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { prisma } from './prisma';
+import { WeightUnit } from './units';
+
+// Name of the cookie that carries the session token
+export const SESSION_COOKIE = 'session';
+
+// How long a session stays valid after sign-in
+const SESSION_DURATION_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Minimum password length accepted at sign-up
+export const MIN_PASSWORD_LENGTH = 8;
+
+// The subset of the User model that is safe to expose to routes and components
+export type AuthUser = {
+	id: number; // Unique identifier for the user
+	email: string; // Email address of the user
+	weightUnit: WeightUnit; // Unit the user enters and reads weights in
+	isAdmin: boolean; // Whether the user may change the shared exercise catalog
+};
+
+/**
+ * deriveKey
+ * Promise wrapper around crypto.scrypt.
+ */
+const deriveKey = (password: string, salt: string): Promise<Buffer> =>
+	new Promise((resolve, reject) => {
+		scrypt(password, salt, 64, (error, key) => {
+			if (error) reject(error);
+			else resolve(key);
+		});
+	});
+
+/**
+ * hashPassword
+ * Hashes a password with a random salt. The result is stored as "salt:hash".
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+	const salt = randomBytes(16).toString('hex');
+	const key = await deriveKey(password, salt);
+	return `${salt}:${key.toString('hex')}`;
+};
+
+/**
+ * verifyPassword
+ * Checks a password against a hash produced by hashPassword.
+ */
+export const verifyPassword = async (
+	password: string,
+	passwordHash: string,
+): Promise<boolean> => {
+	const [salt, storedKey] = passwordHash.split(':');
+	if (!salt || !storedKey) return false;
+
+	const key = await deriveKey(password, salt);
+	const stored = Buffer.from(storedKey, 'hex');
+	return stored.length === key.length && timingSafeEqual(stored, key);
+};
+
+/**
+ * normalizeEmail
+ * Trims and lowercases an email address so lookups are case-insensitive.
+ */
+export const normalizeEmail = (email: string): string =>
+	email.trim().toLowerCase();
+
+/**
+ * hashToken
+ * Session tokens are stored hashed so a database leak does not expose live sessions.
+ */
+const hashToken = (token: string): string =>
+	createHash('sha256').update(token).digest('hex');
+
+/**
+ * startSession
+ * Creates a session for the user and attaches its cookie to the response.
+ */
+export const startSession = async (
+	userId: number,
+	response: NextResponse,
+): Promise<void> => {
+	const token = randomBytes(32).toString('hex');
+	const expiresAt = new Date(Date.now() + SESSION_DURATION_MS);
+
+	await prisma.session.create({
+		data: { tokenHash: hashToken(token), userId, expiresAt },
+	});
+
+	response.cookies.set(SESSION_COOKIE, token, {
+		httpOnly: true, // Not readable from client-side JavaScript
+		sameSite: 'lax', // Sent on top-level navigations only
+		secure: process.env.NODE_ENV === 'production', // HTTPS only in production
+		path: '/',
+		expires: expiresAt,
+	});
+};
+
+/**
+ * endSession
+ * Deletes the current session, if any, and clears its cookie on the response.
+ */
+export const endSession = async (response: NextResponse): Promise<void> => {
+	const token = cookies().get(SESSION_COOKIE)?.value;
+	if (token) {
+		await prisma.session.deleteMany({ where: { tokenHash: hashToken(token) } });
+	}
+
+	response.cookies.delete(SESSION_COOKIE);
+};
+
+/**
+ * getCurrentUser
+ * Resolves the signed-in user from the session cookie.
+ * Returns null if there is no cookie or the session is unknown or expired.
+ * Works in route handlers and server components.
+ */
+export const getCurrentUser = async (): Promise<AuthUser | null> => {
+	const token = cookies().get(SESSION_COOKIE)?.value;
+	if (!token) return null;
+
+	const session = await prisma.session.findUnique({
+		where: { tokenHash: hashToken(token) },
+		include: {
+			user: {
+				select: { id: true, email: true, weightUnit: true, isAdmin: true },
+			},
+		},
+	});
+
+	if (!session || session.expiresAt <= new Date()) return null;
+
+	return session.user;
+};
+
+/**
+ * unauthorized
+ * Standard 401 response for routes that require a signed-in user.
+ */
+export const unauthorized = () =>
+	NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+
+/**
+ * forbidden
+ * Standard 403 response for routes that only administrators may use.
+ */
+export const forbidden = () =>
+	NextResponse.json(
+		{ error: 'Only administrators can do this' },
+		{ status: 403 },
+	);
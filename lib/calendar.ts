@@ -0,0 +1,115 @@
+// lib/calendar.ts
+
+// Define the summary of one calendar day with workouts
+export type DaySummary = {
+	date: string; // Day in the user's time zone (YYYY-MM-DD)
+	workoutIds: number[]; // Workouts on the day, in order
+	sessions: number; // Number of workouts on the day
+	totalVolume: number; // Sum of the workouts' volume
+	setCount: number; // Sum of the workouts' sets
+};
+
+// Length of a day in milliseconds
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * isTimeZone
+ * Checks that a value is an IANA time zone name the runtime knows (e.g. Europe/Paris).
+ */
+export const isTimeZone = (value: unknown): value is string => {
+	if (typeof value !== 'string' || value === '') return false;
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone: value });
+		return true;
+	} catch (error) {
+		// Intl rejects unknown time zones with a RangeError
+		if (!(error instanceof RangeError)) throw error;
+		return false;
+	}
+};
+
+/**
+ * isDayKey
+ * Checks that a value is a real calendar day written as YYYY-MM-DD.
+ */
+export const isDayKey = (value: unknown): value is string =>
+	typeof value === 'string' &&
+	/^\d{4}-\d{2}-\d{2}$/.test(value) &&
+	!isNaN(Date.parse(`${value}T00:00:00Z`)) &&
+	new Date(`${value}T00:00:00Z`).toISOString().slice(0, 10) === value;
+
+/**
+ * toDayKey
+ * The day (YYYY-MM-DD) an instant falls on in the given time zone.
+ */
+export const toDayKey = (date: Date, timeZone: string): string => {
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone,
+		year: 'numeric',
+		month: '2-digit',
+		day: '2-digit',
+	}).formatToParts(date);
+	const part = (type: string) =>
+		parts.find(item => item.type === type)?.value ?? '';
+
+	return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+/**
+ * addDays
+ * The day a number of days after (or before, when negative) the given day.
+ */
+export const addDays = (day: string, days: number): string =>
+	new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS)
+		.toISOString()
+		.slice(0, 10);
+
+/**
+ * daysBetween
+ * Whole days from one day to another (negative when `to` comes first).
+ */
+export const daysBetween = (from: string, to: string): number =>
+	Math.round(
+		(Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS,
+	);
+
+/**
+ * weekdayIndex
+ * Position of a day in a Monday-first week: 0 for Monday to 6 for Sunday.
+ */
+export const weekdayIndex = (day: string): number =>
+	(new Date(`${day}T00:00:00Z`).getUTCDay() + 6) % 7;
+
+/**
+ * summarizeDays
+ * Groups workouts into days of the given time zone, keeping the days from `from`
+ * to `to` (inclusive). Returns only days with workouts, oldest first.
+ */
+export const summarizeDays = (
+	workouts: { id: number; date: Date; totalVolume: number; setCount: number }[],
+	timeZone: string,
+	from: string,
+	to: string,
+): DaySummary[] => {
+	const days = new Map<string, DaySummary>();
+
+	workouts.forEach(workout => {
+		const date = toDayKey(workout.date, timeZone);
+		if (date < from || date > to) return; // Padding around the range
+
+		const day = days.get(date) ?? {
+			date,
+			workoutIds: [],
+			sessions: 0,
+			totalVolume: 0,
+			setCount: 0,
+		};
+		day.workoutIds.push(workout.id);
+		day.sessions += 1;
+		day.totalVolume += workout.totalVolume;
+		day.setCount += workout.setCount;
+		days.set(date, day);
+	});
+
+	return Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
@@ -0,0 +1,31 @@
+// lib/durations.ts
+
+// Rest between sets when the exercise has no default of its own, in seconds
+export const DEFAULT_REST_SECONDS = 90;
+
+/**
+ * formatDuration
+ * Formats a number of seconds as m:ss, or h:mm:ss from an hour up (e.g. 1:05:30).
+ */
+export const formatDuration = (totalSeconds: number): string => {
+	const seconds = Math.max(0, Math.round(totalSeconds));
+	const hours = Math.floor(seconds / 3600);
+	const minutes = Math.floor((seconds % 3600) / 60);
+	const rest = `${seconds % 60}`.padStart(2, '0');
+
+	return hours > 0
+		? `${hours}:${`${minutes}`.padStart(2, '0')}:${rest}`
+		: `${minutes}:${rest}`;
+};
+
+/**
+ * secondsBetween
+ * Seconds from one ISO time to another; null when either is missing.
+ */
+export const secondsBetween = (
+	from: string | null | undefined,
+	to: string | null | undefined,
+): number | null =>
+	from && to
+		? (new Date(to).getTime() - new Date(from).getTime()) / 1000
+		: null;
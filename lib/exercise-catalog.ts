@@ -0,0 +1,259 @@
+// lib/exercise-catalog.ts
+
+import { ExerciseDefinition, Prisma } from '@prisma/client';
+import { ExerciseKind, isExerciseKind } from './exercise-kinds';
+import { ProgressionRule, isProgressionRule } from './progression';
+
+// Define the structure of a catalog entry sent to the frontend
+export type ExerciseDefinitionResponse = {
+	id: number; // Unique identifier for the catalog entry
+	name: string; // Canonical name of the exercise
+	aliases: string[]; // Alternative names, in lowercase
+	primaryMuscles: string[]; // Primary muscle groups
+	secondaryMuscles: string[]; // Secondary muscle groups
+	equipment: string | null; // Equipment used, if known
+	movementPattern: string | null; // Movement pattern, if known
+	restSeconds: number | null; // Default rest between sets in seconds, if set
+	kind: ExerciseKind; // What each set records: weight and reps, time, distance...
+	progressionRule: ProgressionRule; // How the logger suggests the next session
+};
+
+// Define the editable fields of a catalog entry received from the frontend
+export type ExerciseDefinitionInput = {
+	name: string; // Canonical name of the exercise
+	aliases?: string[]; // Alternative names
+	primaryMuscles?: string[]; // Primary muscle groups
+	secondaryMuscles?: string[]; // Secondary muscle groups
+	equipment?: string | null; // Equipment used
+	movementPattern?: string | null; // Movement pattern
+	restSeconds?: number | null; // Default rest between sets in seconds
+	kind?: ExerciseKind; // What each set records; defaults to weight and reps
+	progressionRule?: ProgressionRule; // How the next session is suggested; defaults to double progression
+};
+
+// Longest default rest accepted, in seconds
+const MAX_REST_SECONDS = 60 * 60;
+
+// The subset of a catalog entry needed to link an Exercise row to it
+type ResolvedDefinition = {
+	id: number; // Unique identifier for the catalog entry
+	name: string; // Canonical name of the exercise
+	kind: ExerciseKind; // What each set of the exercise records
+};
+
+/**
+ * normalizeExerciseName
+ * Lookup key for exercise names and aliases: trimmed, lowercase, single-spaced.
+ */
+export const normalizeExerciseName = (name: string): string =>
+	name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * toStringArray
+ * Reads a JSON column that is expected to hold an array of strings.
+ */
+const toStringArray = (value: Prisma.JsonValue): string[] =>
+	Array.isArray(value)
+		? value.filter((item): item is string => typeof item === 'string')
+		: [];
+
+/**
+ * toDefinitionResponse
+ * Converts a catalog row into the shape sent to the frontend.
+ */
+export const toDefinitionResponse = (
+	definition: ExerciseDefinition,
+): ExerciseDefinitionResponse => ({
+	id: definition.id,
+	name: definition.name,
+	aliases: toStringArray(definition.aliases),
+	primaryMuscles: toStringArray(definition.primaryMuscles),
+	secondaryMuscles: toStringArray(definition.secondaryMuscles),
+	equipment: definition.equipment,
+	movementPattern: definition.movementPattern,
+	restSeconds: definition.restSeconds,
+	kind: definition.kind,
+	progressionRule: definition.progressionRule,
+});
+
+/**
+ * isStringArray
+ * Checks that an optional field is an array of strings.
+ */
+const isStringArray = (value: unknown): value is string[] | undefined =>
+	value === undefined ||
+	(Array.isArray(value) && value.every(item => typeof item === 'string'));
+
+/**
+ * isOptionalString
+ * Checks that an optional field is a string or null.
+ */
+const isOptionalString = (value: unknown): boolean =>
+	value === undefined || value === null || typeof value === 'string';
+
+/**
+ * isOptionalRest
+ * Checks that an optional rest time is a whole number of seconds, up to an hour, or null.
+ */
+const isOptionalRest = (value: unknown): boolean =>
+	value === undefined ||
+	value === null ||
+	(typeof value === 'number' &&
+		Number.isInteger(value) &&
+		value >= 0 &&
+		value <= MAX_REST_SECONDS);
+
+/**
+ * isValidDefinitionInput
+ * Checks the shape of a catalog entry submitted for create or update.
+ */
+export const isValidDefinitionInput = (
+	input: unknown,
+): input is ExerciseDefinitionInput => {
+	if (!input || typeof input !== 'object') return false;
+	const candidate = input as Record<string, unknown>;
+
+	return (
+		typeof candidate.name === 'string' &&
+		candidate.name.trim() !== '' &&
+		isStringArray(candidate.aliases) &&
+		isStringArray(candidate.primaryMuscles) &&
+		isStringArray(candidate.secondaryMuscles) &&
+		isOptionalString(candidate.equipment) &&
+		isOptionalString(candidate.movementPattern) &&
+		isOptionalRest(candidate.restSeconds) &&
+		(candidate.kind === undefined || isExerciseKind(candidate.kind)) &&
+		(candidate.progressionRule === undefined ||
+			isProgressionRule(candidate.progressionRule))
+	);
+};
+
+/**
+ * toDefinitionData
+ * Converts validated input into column values. Aliases are stored normalized
+ * and de-duplicated so alias lookups stay case-insensitive.
+ */
+export const toDefinitionData = (input: ExerciseDefinitionInput) => {
+	const name = input.name.trim().replace(/\s+/g, ' ');
+	const aliases = Array.from(
+		new Set((input.aliases ?? []).map(normalizeExerciseName)),
+	).filter(alias => alias !== '' && alias !== normalizeExerciseName(name));
+
+	return {
+		name,
+		aliases,
+		primaryMuscles: input.primaryMuscles ?? [],
+		secondaryMuscles: input.secondaryMuscles ?? [],
+		equipment: input.equipment?.trim() || null,
+		movementPattern: input.movementPattern?.trim() || null,
+		restSeconds: input.restSeconds ?? null,
+		kind: input.kind ?? 'WEIGHT_REPS',
+		progressionRule: input.progressionRule ?? 'DOUBLE_PROGRESSION',
+	};
+};
+
+/**
+ * loadCatalogLookup
+ * Loads the catalog into a map from normalized names and aliases to entries.
+ * The catalog is small, so matching happens in memory.
+ */
+const loadCatalogLookup = async (
+	tx: Prisma.TransactionClient,
+): Promise<Map<string, ResolvedDefinition>> => {
+	const catalog = await tx.exerciseDefinition.findMany({
+		select: { id: true, name: true, aliases: true, kind: true },
+	});
+
+	const lookup = new Map<string, ResolvedDefinition>();
+	catalog.forEach(definition => {
+		const resolved = {
+			id: definition.id,
+			name: definition.name,
+			kind: definition.kind,
+		};
+		toStringArray(definition.aliases).forEach(alias =>
+			lookup.set(normalizeExerciseName(alias), resolved),
+		);
+	});
+	// Canonical names take precedence over aliases
+	catalog.forEach(definition =>
+		lookup.set(normalizeExerciseName(definition.name), {
+			id: definition.id,
+			name: definition.name,
+			kind: definition.kind,
+		}),
+	);
+
+	return lookup;
+};
+
+/**
+ * findExerciseDefinition
+ * Looks up a single catalog entry by name or alias, ignoring case.
+ */
+export const findExerciseDefinition = async (
+	tx: Prisma.TransactionClient,
+	name: string,
+): Promise<ResolvedDefinition | null> => {
+	const lookup = await loadCatalogLookup(tx);
+	return lookup.get(normalizeExerciseName(name)) ?? null;
+};
+
+/**
+ * findExerciseDefinitions
+ * Looks up several names at once by name or alias, ignoring case, without adding
+ * unknown lifts to the catalog. Returns a map keyed by normalizeExerciseName of the
+ * names that matched an entry.
+ */
+export const findExerciseDefinitions = async (
+	tx: Prisma.TransactionClient,
+	names: string[],
+): Promise<Map<string, ResolvedDefinition>> => {
+	const lookup = await loadCatalogLookup(tx);
+
+	const found = new Map<string, ResolvedDefinition>();
+	names.forEach(name => {
+		const key = normalizeExerciseName(name);
+		const definition = lookup.get(key);
+		if (definition) found.set(key, definition);
+	});
+
+	return found;
+};
+
+/**
+ * resolveExerciseDefinitions
+ * Maps exercise names onto catalog entries by name or alias, ignoring case.
+ * Names that match nothing get a new, bare catalog entry so that every Exercise
+ * row references a definition. Returns a map keyed by normalizeExerciseName.
+ */
+export const resolveExerciseDefinitions = async (
+	tx: Prisma.TransactionClient,
+	names: string[],
+): Promise<Map<string, ResolvedDefinition>> => {
+	const lookup = await loadCatalogLookup(tx);
+
+	const resolved = new Map<string, ResolvedDefinition>();
+	for (const name of names) {
+		const key = normalizeExerciseName(name);
+		if (resolved.has(key)) continue;
+
+		let definition = lookup.get(key);
+		if (!definition) {
+			// Unknown lift: add it to the catalog so later sessions resolve to it
+			const created = await tx.exerciseDefinition.create({
+				data: toDefinitionData({ name }),
+			});
+			definition = {
+				id: created.id,
+				name: created.name,
+				kind: created.kind,
+			};
+			lookup.set(key, definition);
+		}
+
+		resolved.set(key, definition);
+	}
+
+	return resolved;
+};
@@ -0,0 +1,232 @@
+// lib/exercise-kinds.ts
+
+import { formatDuration } from './durations';
+import { WeightUnit, formatWeight } from './units';
+
+// Kinds of exercise, by what a set records; mirrors the ExerciseKind enum in the Prisma schema
+export type ExerciseKind =
+	'WEIGHT_REPS' | 'REPS' | 'BODYWEIGHT' | 'DISTANCE_DURATION' | 'DURATION';
+export const EXERCISE_KINDS: ExerciseKind[] = [
+	'WEIGHT_REPS',
+	'REPS',
+	'BODYWEIGHT',
+	'DISTANCE_DURATION',
+	'DURATION',
+];
+
+// Labels shown for each kind of exercise
+export const EXERCISE_KIND_LABELS: Record<ExerciseKind, string> = {
+	WEIGHT_REPS: 'Weight and reps',
+	REPS: 'Reps only',
+	BODYWEIGHT: 'Bodyweight (added or assisted)',
+	DISTANCE_DURATION: 'Distance and time',
+	DURATION: 'Time only',
+};
+
+// Which set fields each kind records; the others are stored as zero or null
+export const KIND_FIELDS: Record<
+	ExerciseKind,
+	{ reps: boolean; weight: boolean; distance: boolean; duration: boolean }
+> = {
+	WEIGHT_REPS: { reps: true, weight: true, distance: false, duration: false },
+	REPS: { reps: true, weight: false, distance: false, duration: false },
+	BODYWEIGHT: { reps: true, weight: true, distance: false, duration: false },
+	DISTANCE_DURATION: {
+		reps: false,
+		weight: false,
+		distance: true,
+		duration: true,
+	},
+	DURATION: { reps: false, weight: false, distance: false, duration: true },
+};
+
+// Define the measured fields of a set as sent to and from the API
+export type SetMetrics = {
+	reps?: number; // Number of repetitions
+	weight?: number; // Weight, or added weight for bodyweight exercises (negative when assisted)
+	distance?: number | null; // Distance covered in metres
+	durationSeconds?: number | null; // Time taken or held in seconds
+};
+
+// Error raised when a submitted set does not fit the kind of its exercise
+export class InvalidSetMetricsError extends Error {}
+
+/**
+ * isExerciseKind
+ * Checks that a value is one of the supported kinds of exercise.
+ */
+export const isExerciseKind = (value: unknown): value is ExerciseKind =>
+	EXERCISE_KINDS.includes(value as ExerciseKind);
+
+/**
+ * isUnused
+ * Checks that a field the kind does not record is absent, null or zero.
+ */
+const isUnused = (value: unknown): boolean =>
+	value === undefined || value === null || value === 0;
+
+/**
+ * isValidSetMetrics
+ * Checks a submitted set against the fields its exercise's kind records:
+ * whole reps, a weight (negative only for assisted bodyweight work),
+ * a positive distance and a positive whole number of seconds.
+ */
+export const isValidSetMetrics = (
+	kind: ExerciseKind,
+	set: SetMetrics,
+): boolean => {
+	const fields = KIND_FIELDS[kind];
+	const { reps, weight, distance, durationSeconds } = set;
+
+	const repsValid = fields.reps
+		? typeof reps === 'number' && Number.isInteger(reps) && reps >= 0
+		: isUnused(reps);
+	const weightValid = fields.weight
+		? typeof weight === 'number' &&
+			Number.isFinite(weight) &&
+			(kind === 'BODYWEIGHT' || weight >= 0)
+		: isUnused(weight);
+	const distanceValid = fields.distance
+		? typeof distance === 'number' && Number.isFinite(distance) && distance > 0
+		: isUnused(distance);
+	const durationValid = fields.duration
+		? typeof durationSeconds === 'number' &&
+			Number.isInteger(durationSeconds) &&
+			durationSeconds > 0
+		: isUnused(durationSeconds);
+
+	return repsValid && weightValid && distanceValid && durationValid;
+};
+
+/**
+ * hasSetMetrics
+ * Whether a set being logged has something to record for its kind: weight and reps
+ * for weighted lifts, reps for bodyweight and reps-only exercises (at any added or
+ * assisted weight), a distance and time for cardio, and a time for timed exercises.
+ */
+export const hasSetMetrics = (kind: ExerciseKind, set: SetMetrics): boolean => {
+	const fields = KIND_FIELDS[kind];
+	return (
+		(!fields.reps || (set.reps ?? 0) > 0) &&
+		(kind !== 'WEIGHT_REPS' || (set.weight ?? 0) > 0) &&
+		(!fields.distance || (set.distance ?? 0) > 0) &&
+		(!fields.duration || (set.durationSeconds ?? 0) > 0)
+	);
+};
+
+/**
+ * assertSetMetrics
+ * Throws an InvalidSetMetricsError naming the exercise if any of its sets does not fit its kind.
+ */
+export const assertSetMetrics = (
+	kind: ExerciseKind,
+	name: string,
+	sets: SetMetrics[],
+): void => {
+	if (!sets.every(set => isValidSetMetrics(kind, set))) {
+		throw new InvalidSetMetricsError(
+			`Invalid sets for ${name} (${EXERCISE_KIND_LABELS[kind].toLowerCase()})`,
+		);
+	}
+};
+
+/**
+ * toSetMetrics
+ * The measured fields of a set as stored: fields the kind does not record become
+ * zero or null, and distances are rounded to the centimetres the column keeps.
+ */
+export const toSetMetrics = (kind: ExerciseKind, set: SetMetrics) => {
+	const fields = KIND_FIELDS[kind];
+	return {
+		reps: fields.reps ? (set.reps ?? 0) : 0,
+		weight: fields.weight ? (set.weight ?? 0) : 0,
+		distance:
+			fields.distance && set.distance != null
+				? Math.round(set.distance * 100) / 100
+				: null,
+		durationSeconds: fields.duration ? (set.durationSeconds ?? null) : null,
+	};
+};
+
+/**
+ * setVolume
+ * Weight x reps of a set for volume totals. Only weighted kinds count, and
+ * assisted bodyweight sets (negative weight) add nothing.
+ */
+export const setVolume = (
+	kind: ExerciseKind,
+	weight: number,
+	reps: number,
+): number => {
+	if (kind === 'WEIGHT_REPS') return weight * reps;
+	if (kind === 'BODYWEIGHT') return Math.max(0, weight) * reps;
+	return 0;
+};
+
+/**
+ * paceSecondsPerKm
+ * Pace of a cardio set in seconds per kilometre; null without a distance and time.
+ */
+export const paceSecondsPerKm = (
+	distance: number | null | undefined,
+	durationSeconds: number | null | undefined,
+): number | null =>
+	distance && durationSeconds ? durationSeconds / (distance / 1000) : null;
+
+/**
+ * formatDistance
+ * Formats a distance in metres, switching to kilometres from 1 km (e.g. "800 m", "5.25 km").
+ */
+export const formatDistance = (metres: number): string =>
+	metres >= 1000
+		? `${Math.round(metres / 10) / 100} km`
+		: `${Math.round(metres)} m`;
+
+/**
+ * formatPace
+ * Formats a pace as minutes per kilometre, e.g. "5:12 /km".
+ */
+export const formatPace = (secondsPerKm: number): string =>
+	`${formatDuration(secondsPerKm)} /km`;
+
+/**
+ * formatBodyweightLoad
+ * Describes the added or assisted weight of a bodyweight set, e.g. "+20 kg" or "-15 kg assisted".
+ */
+export const formatBodyweightLoad = (
+	weight: number,
+	unit: WeightUnit,
+): string => {
+	if (weight > 0) return `+${formatWeight(weight, unit)}`;
+	if (weight < 0) return `-${formatWeight(-weight, unit)} assisted`;
+	return 'bodyweight';
+};
+
+/**
+ * formatSetMetrics
+ * Short description of a set in the terms of its kind, e.g. "100 kg x 5",
+ * "8 reps +20 kg", "5 km in 25:00 (5:00 /km)" or "1:30".
+ */
+export const formatSetMetrics = (
+	kind: ExerciseKind,
+	set: SetMetrics,
+	unit: WeightUnit,
+): string => {
+	const reps = set.reps ?? 0;
+	switch (kind) {
+		case 'WEIGHT_REPS':
+			return `${formatWeight(set.weight ?? 0, unit)} x ${reps}`;
+		case 'REPS':
+			return `${reps} reps`;
+		case 'BODYWEIGHT':
+			return `${reps} reps ${formatBodyweightLoad(set.weight ?? 0, unit)}`;
+		case 'DISTANCE_DURATION': {
+			const pace = paceSecondsPerKm(set.distance, set.durationSeconds);
+			return `${formatDistance(set.distance ?? 0)} in ${formatDuration(
+				set.durationSeconds ?? 0,
+			)}${pace !== null ? ` (${formatPace(pace)})` : ''}`;
+		}
+		case 'DURATION':
+			return formatDuration(set.durationSeconds ?? 0);
+	}
+};
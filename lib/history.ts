@@ -0,0 +1,155 @@
+// lib/history.ts
+
+import { estimateOneRepMax } from './strength';
+import {
+	ExerciseKind,
+	KIND_FIELDS,
+	paceSecondsPerKm,
+	setVolume,
+} from './exercise-kinds';
+
+// Sizes of the periods a time series can be grouped into
+export type HistoryBucket = 'session' | 'week' | 'month';
+
+// A set as seen by the history summaries
+type HistorySet = {
+	weight: number; // Weight used in the set; added weight for bodyweight exercises
+	reps: number; // Number of repetitions in the set
+	distance?: number | null; // Distance covered in metres, for cardio sets
+	durationSeconds?: number | null; // Time taken or held in seconds, for cardio and timed sets
+};
+
+// Define the structure of one point of an exercise's time series
+export type HistoryPoint = {
+	date: string; // ISO string: the session date, or the start of the week or month
+	workoutIds: number[]; // Workouts summarized by this point
+	topSet: { weight: number; reps: number } | null; // Heaviest set (more reps breaks ties); null for timed and cardio exercises
+	estimatedOneRepMax: number; // Best Epley estimate of any set; 0 unless the exercise is weight x reps
+	totalVolume: number; // Sum of weight x reps over weighted sets (see setVolume)
+	totalReps: number; // Sum of reps
+	totalDistance: number; // Sum of distances in metres
+	totalDuration: number; // Sum of times in seconds
+	bestPace: number | null; // Fastest pace of any set in seconds per kilometre; null without distances
+	sessions: number; // Number of sessions summarized by this point
+};
+
+/**
+ * summarizeSets
+ * Computes the top set, best estimated 1RM, volume, reps, distance, time and pace
+ * of a group of sets of an exercise of the given kind.
+ */
+export const summarizeSets = (
+	sets: HistorySet[],
+	kind: ExerciseKind = 'WEIGHT_REPS',
+): Pick<
+	HistoryPoint,
+	| 'topSet'
+	| 'estimatedOneRepMax'
+	| 'totalVolume'
+	| 'totalReps'
+	| 'totalDistance'
+	| 'totalDuration'
+	| 'bestPace'
+> => {
+	let topSet: HistoryPoint['topSet'] = null;
+	let estimatedOneRepMax = 0;
+	let totalVolume = 0;
+	let totalReps = 0;
+	let totalDistance = 0;
+	let totalDuration = 0;
+	let bestPace: number | null = null;
+
+	sets.forEach(set => {
+		if (
+			KIND_FIELDS[kind].reps &&
+			(!topSet ||
+				set.weight > topSet.weight ||
+				(set.weight === topSet.weight && set.reps > topSet.reps))
+		) {
+			topSet = { weight: set.weight, reps: set.reps };
+		}
+		if (kind === 'WEIGHT_REPS') {
+			estimatedOneRepMax = Math.max(
+				estimatedOneRepMax,
+				estimateOneRepMax(set.weight, set.reps),
+			);
+		}
+		totalVolume += setVolume(kind, set.weight, set.reps);
+		totalReps += set.reps;
+		totalDistance += set.distance ?? 0;
+		totalDuration += set.durationSeconds ?? 0;
+
+		const pace = paceSecondsPerKm(set.distance, set.durationSeconds);
+		if (pace !== null && (bestPace === null || pace < bestPace)) {
+			bestPace = pace;
+		}
+	});
+
+	return {
+		topSet,
+		estimatedOneRepMax,
+		totalVolume,
+		totalReps,
+		totalDistance,
+		totalDuration,
+		bestPace,
+	};
+};
+
+/**
+ * bucketStart
+ * Start of the UTC week (Monday) or month containing the date.
+ */
+export const bucketStart = (
+	date: Date,
+	bucket: Exclude<HistoryBucket, 'session'>,
+): Date => {
+	if (bucket === 'month') {
+		return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+	}
+
+	const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+	return new Date(
+		Date.UTC(
+			date.getUTCFullYear(),
+			date.getUTCMonth(),
+			date.getUTCDate() - daysSinceMonday,
+		),
+	);
+};
+
+/**
+ * buildHistory
+ * Turns sessions (oldest first) of an exercise of the given kind into a time series,
+ * one point per session or per period.
+ */
+export const buildHistory = (
+	sessions: { workoutId: number; date: Date; sets: HistorySet[] }[],
+	bucket: HistoryBucket,
+	kind: ExerciseKind = 'WEIGHT_REPS',
+): HistoryPoint[] => {
+	const groups = new Map<
+		string,
+		{ workoutIds: number[]; sets: HistorySet[]; sessions: number }
+	>();
+
+	sessions.forEach(session => {
+		const key =
+			bucket === 'session'
+				? `${session.date.toISOString()}#${session.workoutId}`
+				: bucketStart(session.date, bucket).toISOString();
+
+		const group = groups.get(key) ?? { workoutIds: [], sets: [], sessions: 0 };
+		group.workoutIds.push(session.workoutId);
+		group.sets.push(...session.sets);
+		group.sessions += 1;
+		groups.set(key, group);
+	});
+
+	return Array.from(groups.entries()).map(([key, group]) => ({
+		date: key.split('#')[0],
+		workoutIds: group.workoutIds,
+		sessions: group.sessions,
+		...summarizeSets(group.sets, kind),
+	}));
+};
@@ -0,0 +1,484 @@
+// lib/importers.ts
+
+import { normalizeExerciseName } from './exercise-catalog';
+import {
+	EXERCISE_KIND_LABELS,
+	ExerciseKind,
+	isValidSetMetrics,
+} from './exercise-kinds';
+import { SetType, isValidSetEffort } from './set-types';
+import { WeightUnit, toKg } from './units';
+
+// Apps whose CSV exports can be imported
+export type ImportSource = 'strong' | 'hevy' | 'fitnotes';
+export const IMPORT_SOURCES: ImportSource[] = ['strong', 'hevy', 'fitnotes'];
+
+// Define the structure of a problem found in one row of the file
+export type ImportRowError = {
+	row: number; // Line of the file, counting the header as line 1
+	message: string; // What was wrong with the row
+};
+
+// Define the structure of a workout read from the file, ready to be saved
+export type ImportedWorkout = {
+	date: Date; // When the session took place
+	exercises: {
+		name: string; // Name of the exercise, as written in the file
+		sets: {
+			reps: number; // Number of repetitions
+			weight: number; // Weight used, in kilograms
+			type: SetType; // Kind of set
+			rpe: number | null; // Rate of perceived exertion, if recorded
+			row: number; // Line of the file the set was read from
+		}[];
+	}[];
+};
+
+// Define the result of parsing a file
+export type ParsedImport = {
+	source: ImportSource; // App the file was exported from
+	workouts: ImportedWorkout[]; // Sessions found, oldest first
+	errors: ImportRowError[]; // Rows that could not be imported
+};
+
+// Define the options that apply to every parser
+export type ImportOptions = {
+	unit: WeightUnit; // Unit of weights in files that don't say (Strong)
+	timezoneOffset: number; // Minutes to add to local times to get UTC, as from Date.getTimezoneOffset()
+};
+
+// One set read from a row, before grouping into sessions
+type ImportedSet = {
+	date: Date; // Session the set belongs to
+	exercise: string; // Name of the exercise
+	reps: number; // Number of repetitions
+	weight: number; // Weight used, in kilograms
+	type: SetType; // Kind of set
+	rpe: number | null; // Rate of perceived exertion, if recorded
+	row: number; // Line of the file the set was read from
+};
+
+// A row of the file with its column values keyed by header name
+type CsvRecord = {
+	row: number; // Line of the file, counting the header as line 1
+	values: Record<string, string>; // Trimmed values keyed by column name
+};
+
+// Outcome of reading one row: a set, a row to skip silently, or an error message
+type RowResult = Omit<ImportedSet, 'row'> | 'skip' | string;
+
+// Month abbreviations used by Hevy's dates, e.g. "26 Jan 2024, 07:45"
+const MONTHS = [
+	'jan',
+	'feb',
+	'mar',
+	'apr',
+	'may',
+	'jun',
+	'jul',
+	'aug',
+	'sep',
+	'oct',
+	'nov',
+	'dec',
+];
+
+/**
+ * parseCsv
+ * Splits CSV text into rows of fields. Handles quoted fields containing
+ * delimiters, escaped quotes ("") and line breaks, and both \n and \r\n endings.
+ */
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let quoted = false;
+
+	for (let idx = 0; idx < text.length; idx++) {
+		const char = text[idx];
+
+		if (quoted) {
+			if (char === '"' && text[idx + 1] === '"') {
+				field += '"'; // Escaped quote
+				idx++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === delimiter) {
+			row.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[idx + 1] === '\n') idx++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = '';
+		} else {
+			field += char;
+		}
+	}
+
+	// Last line without a trailing line break
+	if (field !== '' || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+
+	return rows;
+};
+
+/**
+ * toRecords
+ * Reads CSV text into records keyed by the header row, skipping blank lines.
+ * Strong writes semicolon-separated files in some locales, so the delimiter is detected from the header.
+ */
+const toRecords = (text: string): CsvRecord[] => {
+	const content = text.replace(/^\uFEFF/, ''); // Drop a byte order mark
+	const headerLine = content.split(/\r?\n/, 1)[0];
+	const delimiter =
+		headerLine.includes(';') && !headerLine.includes(',') ? ';' : ',';
+
+	const [header, ...rows] = parseCsv(content, delimiter);
+	if (!header) return [];
+	const columns = header.map(column => column.trim());
+
+	const records: CsvRecord[] = [];
+	rows.forEach((fields, idx) => {
+		if (fields.every(field => field.trim() === '')) return; // Blank line
+		const values: Record<string, string> = {};
+		columns.forEach((column, columnIdx) => {
+			values[column] = (fields[columnIdx] ?? '').trim();
+		});
+		records.push({ row: idx + 2, values });
+	});
+	return records;
+};
+
+/**
+ * detectSource
+ * Recognizes which app a file came from by its header row.
+ * Returns null when the columns match no supported export.
+ */
+export const detectSource = (text: string): ImportSource | null => {
+	const headerLine = text.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0];
+	const has = (column: string) => headerLine.includes(column);
+
+	if (has('Exercise Name') && has('Set Order')) return 'strong';
+	if (has('exercise_title') && has('start_time')) return 'hevy';
+	if (has('Exercise') && has('Category') && has('Reps')) return 'fitnotes';
+	return null;
+};
+
+/**
+ * localTime
+ * Builds the instant of a wall-clock time in the user's time zone.
+ * Returns null when the parts don't form a real date.
+ */
+const localTime = (parts: number[], timezoneOffset: number): Date | null => {
+	const [year, month, day, hours = 0, minutes = 0, seconds = 0] = parts;
+	const utc = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+	const check = new Date(utc);
+	if (
+		isNaN(utc) ||
+		check.getUTCFullYear() !== year ||
+		check.getUTCMonth() !== month - 1 ||
+		check.getUTCDate() !== day
+	) {
+		return null; // e.g. 31 February
+	}
+	return new Date(utc + timezoneOffset * 60000);
+};
+
+/**
+ * parseIsoLocal
+ * Parses "2024-01-26", "2024-01-26 07:45" or "2024-01-26 07:45:12" as a local time.
+ */
+const parseIsoLocal = (
+	value: string | undefined,
+	timezoneOffset: number,
+): Date | null => {
+	const match = (value ?? '').match(
+		/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/,
+	);
+	return match
+		? localTime(match.slice(1).filter(Boolean).map(Number), timezoneOffset)
+		: null;
+};
+
+/**
+ * parseHevyDate
+ * Parses Hevy's "26 Jan 2024, 07:45" format, falling back to ISO-style dates.
+ */
+const parseHevyDate = (
+	value: string | undefined,
+	timezoneOffset: number,
+): Date | null => {
+	const match = (value ?? '').match(
+		/^(\d{1,2}) ([A-Za-z]{3})[a-z]* (\d{4}),? (\d{1,2}):(\d{2})$/,
+	);
+	if (!match) return parseIsoLocal(value, timezoneOffset);
+
+	const month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+	if (month === 0) return null;
+	return localTime(
+		[
+			Number(match[3]),
+			month,
+			Number(match[1]),
+			Number(match[4]),
+			Number(match[5]),
+		],
+		timezoneOffset,
+	);
+};
+
+/**
+ * parseNumber
+ * Parses a number written with either a decimal point or a decimal comma.
+ * Blank values count as zero; returns null for anything else that isn't a number.
+ */
+const parseNumber = (value: string | undefined): number | null => {
+	if (!value) return 0;
+	const number = Number(value.replace(',', '.'));
+	return Number.isFinite(number) ? number : null;
+};
+
+// Raw values of one set as read from a row
+type RowValues = {
+	date: Date | null; // Session the set belongs to; null if the date didn't parse
+	exercise: string | undefined; // Name of the exercise
+	reps: string | undefined; // Repetitions, as written
+	weight: string | undefined; // Weight, as written
+	unit: WeightUnit; // Unit of the weight
+	type?: SetType; // Kind of set, if the app records it
+	rpe?: string; // Rate of perceived exertion, as written
+};
+
+/**
+ * toSet
+ * Validates the reps, weight and RPE of a row and builds the set.
+ * Returns an error message when they are not a weight-and-reps set.
+ */
+const toSet = (row: RowValues): RowResult => {
+	if (!row.date) return 'Unrecognized date';
+	if (!row.exercise) return 'Missing exercise name';
+
+	const reps = parseNumber(row.reps);
+	const weight = parseNumber(row.weight);
+	const rpe = row.rpe ? parseNumber(row.rpe) : null;
+	if (reps === null || !Number.isInteger(reps) || reps < 0) {
+		return `Invalid reps "${row.reps}"`;
+	}
+	if (weight === null || weight < 0) {
+		return `Invalid weight "${row.weight}"`;
+	}
+	if (!isValidSetEffort({ rpe })) {
+		return `Invalid RPE "${row.rpe}"`;
+	}
+	if (reps === 0) {
+		return 'Only weight and reps sets can be imported (no reps recorded)';
+	}
+
+	return {
+		date: row.date,
+		exercise: row.exercise,
+		reps,
+		weight: toKg(weight, row.unit),
+		type: row.type ?? 'WORKING',
+		rpe,
+	};
+};
+
+// Set Order markers Strong uses for special sets; numbered sets are working sets
+const STRONG_SET_TYPES: Record<string, SetType> = {
+	W: 'WARMUP',
+	D: 'DROP',
+	F: 'FAILURE',
+};
+
+// Values of Hevy's set_type column
+const HEVY_SET_TYPES: Record<string, SetType> = {
+	normal: 'WORKING',
+	warmup: 'WARMUP',
+	dropset: 'DROP',
+	failure: 'FAILURE',
+};
+
+/**
+ * parseStrongRow
+ * Strong: Date, Workout Name, Exercise Name, Set Order, Weight, Reps, ..., RPE
+ * Weights are in the unit set in the app, which the file doesn't record.
+ */
+const parseStrongRow = (
+	values: Record<string, string>,
+	options: ImportOptions,
+): RowResult => {
+	if (values['Set Order'] === 'Rest Timer') return 'skip'; // Not a set
+	return toSet({
+		date: parseIsoLocal(values['Date'], options.timezoneOffset),
+		exercise: values['Exercise Name'],
+		reps: values['Reps'],
+		weight: values['Weight'],
+		unit: options.unit,
+		type: STRONG_SET_TYPES[values['Set Order']],
+		rpe: values['RPE'],
+	});
+};
+
+/**
+ * parseHevyRow
+ * Hevy: title, start_time, exercise_title, set_index, set_type, weight_kg or weight_lbs, reps, ..., rpe
+ */
+const parseHevyRow = (
+	values: Record<string, string>,
+	options: ImportOptions,
+): RowResult => {
+	const inPounds = 'weight_lbs' in values;
+	return toSet({
+		date: parseHevyDate(values['start_time'], options.timezoneOffset),
+		exercise: values['exercise_title'],
+		reps: values['reps'],
+		weight: inPounds ? values['weight_lbs'] : values['weight_kg'],
+		unit: inPounds ? 'LB' : 'KG',
+		type: HEVY_SET_TYPES[values['set_type']],
+		rpe: values['rpe'],
+	});
+};
+
+/**
+ * parseFitNotesRow
+ * FitNotes: Date, Exercise, Category, Weight (kgs) or Weight (lbs), Reps, ...
+ * Only the day is recorded, so each day becomes one workout.
+ */
+const parseFitNotesRow = (
+	values: Record<string, string>,
+	options: ImportOptions,
+): RowResult => {
+	const inPounds = 'Weight (lbs)' in values;
+	return toSet({
+		date: parseIsoLocal(values['Date'], options.timezoneOffset),
+		exercise: values['Exercise'],
+		reps: values['Reps'],
+		weight: inPounds ? values['Weight (lbs)'] : values['Weight (kgs)'],
+		unit: inPounds ? 'LB' : 'KG',
+	});
+};
+
+// Row parser of each supported app
+const ROW_PARSERS: Record<
+	ImportSource,
+	(values: Record<string, string>, options: ImportOptions) => RowResult
+> = {
+	strong: parseStrongRow,
+	hevy: parseHevyRow,
+	fitnotes: parseFitNotesRow,
+};
+
+/**
+ * groupSessions
+ * Groups sets into workouts by session date, and within each workout into
+ * exercises by name, keeping the order of the file. Workouts are sorted oldest first.
+ */
+const groupSessions = (sets: ImportedSet[]): ImportedWorkout[] => {
+	const sessions = new Map<number, ImportedWorkout>(); // Workouts keyed by date
+
+	sets.forEach(set => {
+		let workout = sessions.get(set.date.getTime());
+		if (!workout) {
+			workout = { date: set.date, exercises: [] };
+			sessions.set(set.date.getTime(), workout);
+		}
+
+		const key = normalizeExerciseName(set.exercise); // Names are merged case-insensitively
+		let exercise = workout.exercises.find(
+			candidate => normalizeExerciseName(candidate.name) === key,
+		);
+		if (!exercise) {
+			exercise = { name: set.exercise, sets: [] };
+			workout.exercises.push(exercise);
+		}
+		exercise.sets.push({
+			reps: set.reps,
+			weight: set.weight,
+			type: set.type,
+			rpe: set.rpe,
+			row: set.row,
+		});
+	});
+
+	return Array.from(sessions.values()).sort(
+		(a, b) => a.date.getTime() - b.date.getTime(),
+	);
+};
+
+/**
+ * parseImport
+ * Reads an export file of the given app into workouts, collecting an error for
+ * every row that can't be imported. Good rows are kept even when others fail.
+ */
+export const parseImport = (
+	text: string,
+	source: ImportSource,
+	options: ImportOptions,
+): ParsedImport => {
+	const parseRow = ROW_PARSERS[source];
+	const sets: ImportedSet[] = [];
+	const errors: ImportRowError[] = [];
+
+	toRecords(text).forEach(({ row, values }) => {
+		const result = parseRow(values, options);
+		if (result === 'skip') return;
+		if (typeof result === 'string') {
+			errors.push({ row, message: result });
+		} else {
+			sets.push({ ...result, row });
+		}
+	});
+
+	return { source, workouts: groupSessions(sets), errors };
+};
+
+/**
+ * fitSetsToKinds
+ * Drops the sets that don't record what their exercise's kind measures, such as a
+ * weighted set of a reps-only lift or any set of a timed or cardio exercise, with an
+ * error for each of their rows. Exercises and workouts left without sets are dropped.
+ */
+export const fitSetsToKinds = (
+	parsed: ParsedImport,
+	kindOf: (name: string) => ExerciseKind,
+): ParsedImport => {
+	const errors = [...parsed.errors];
+
+	const workouts = parsed.workouts
+		.map(workout => ({
+			...workout,
+			exercises: workout.exercises
+				.map(exercise => {
+					const kind = kindOf(exercise.name);
+					return {
+						...exercise,
+						sets: exercise.sets.filter(set => {
+							if (isValidSetMetrics(kind, set)) return true;
+							errors.push({
+								row: set.row,
+								message: `${exercise.name} records ${EXERCISE_KIND_LABELS[kind].toLowerCase()}, not this weight and reps set`,
+							});
+							return false;
+						}),
+					};
+				})
+				.filter(exercise => exercise.sets.length > 0),
+		}))
+		.filter(workout => workout.exercises.length > 0);
+
+	return {
+		...parsed,
+		workouts,
+		errors: errors.sort((a, b) => a.row - b.row),
+	};
+};
@@ -0,0 +1,195 @@
+// lib/measurements.ts
+
+import type { Prisma } from '@prisma/client';
+import {
+	WeightUnit,
+	fromCm,
+	fromKg,
+	girthLabel,
+	toCm,
+	toKg,
+	unitLabel,
+} from './units';
+import { daysBetween, isDayKey } from './calendar';
+import { isValidNote } from './notes';
+
+// Values a body measurement can record; each matches a column of the BodyMeasurement model
+export type MeasurementField =
+	| 'bodyweight'
+	| 'bodyFat'
+	| 'waist'
+	| 'chest'
+	| 'hips'
+	| 'arm'
+	| 'thigh'
+	| 'neck';
+
+// What a field measures, which decides its unit: a weight, a percentage or a girth
+type MeasurementKind = 'WEIGHT' | 'PERCENT' | 'GIRTH';
+
+// Fields in display order, with their labels and kinds
+export const MEASUREMENT_FIELDS: {
+	field: MeasurementField;
+	label: string;
+	kind: MeasurementKind;
+}[] = [
+	{ field: 'bodyweight', label: 'Bodyweight', kind: 'WEIGHT' },
+	{ field: 'bodyFat', label: 'Body fat', kind: 'PERCENT' },
+	{ field: 'waist', label: 'Waist', kind: 'GIRTH' },
+	{ field: 'chest', label: 'Chest', kind: 'GIRTH' },
+	{ field: 'hips', label: 'Hips', kind: 'GIRTH' },
+	{ field: 'arm', label: 'Arm', kind: 'GIRTH' },
+	{ field: 'thigh', label: 'Thigh', kind: 'GIRTH' },
+	{ field: 'neck', label: 'Neck', kind: 'GIRTH' },
+];
+
+// Measured values of an entry, in the user's units; null for values not taken
+export type MeasurementValues = Record<MeasurementField, number | null>;
+
+// Define the structure of a body measurement entry sent to the frontend
+export type MeasurementResponse = MeasurementValues & {
+	id: number; // Unique identifier for the entry
+	date: string; // Day the measurements were taken (YYYY-MM-DD)
+	notes: string | null; // Free-text notes on the measurements
+};
+
+// Define the structure of a body measurement entry received from the frontend
+export type MeasurementInput = Partial<MeasurementValues> & {
+	date: string; // Day the measurements were taken (YYYY-MM-DD)
+	notes?: string | null; // Optional: free-text notes on the measurements
+};
+
+// Days averaged by the trend line of a measurement chart
+export const MOVING_AVERAGE_DAYS = 7;
+
+/**
+ * measurementUnitLabel
+ * Short label of the unit a field is entered and shown in, e.g. "kg", "%" or "cm".
+ */
+export const measurementUnitLabel = (
+	field: MeasurementField,
+	unit: WeightUnit,
+): string => {
+	const { kind } = MEASUREMENT_FIELDS.find(entry => entry.field === field)!;
+	if (kind === 'WEIGHT') return unitLabel(unit);
+	return kind === 'PERCENT' ? '%' : girthLabel(unit);
+};
+
+/**
+ * isValidMeasurementInput
+ * Checks a submitted entry: a real day, at least one value, positive values,
+ * a body-fat percentage below 100 and a valid note.
+ */
+export const isValidMeasurementInput = (
+	input: unknown,
+): input is MeasurementInput => {
+	if (!input || typeof input !== 'object') return false;
+	const candidate = input as Record<string, unknown>;
+
+	const values = MEASUREMENT_FIELDS.map(({ field }) => candidate[field]);
+	return (
+		isDayKey(candidate.date) &&
+		values.every(
+			value =>
+				value === undefined ||
+				value === null ||
+				(typeof value === 'number' && Number.isFinite(value) && value > 0),
+		) &&
+		values.some(value => typeof value === 'number') &&
+		(typeof candidate.bodyFat !== 'number' || candidate.bodyFat < 100) &&
+		isValidNote(candidate.notes)
+	);
+};
+
+/**
+ * toStoredValues
+ * Converts submitted values to the stored units: weights to kilograms, girths to centimetres.
+ */
+export const toStoredValues = (
+	input: Partial<MeasurementValues>,
+	unit: WeightUnit,
+): MeasurementValues => {
+	const values = {} as MeasurementValues;
+	MEASUREMENT_FIELDS.forEach(({ field, kind }) => {
+		const value = input[field] ?? null;
+		values[field] =
+			value === null
+				? null
+				: kind === 'WEIGHT'
+					? toKg(value, unit)
+					: kind === 'GIRTH'
+						? toCm(value, unit)
+						: value;
+	});
+	return values;
+};
+
+/**
+ * toMeasurementResponse
+ * Converts a stored entry into the shape sent to the frontend, in the given unit.
+ */
+export const toMeasurementResponse = (
+	measurement: { id: number; date: Date; notes: string | null } & Record<
+		MeasurementField,
+		Prisma.Decimal | number | null
+	>,
+	unit: WeightUnit,
+): MeasurementResponse => {
+	const response: MeasurementResponse = {
+		id: measurement.id,
+		date: measurement.date.toISOString().slice(0, 10),
+		notes: measurement.notes,
+	} as MeasurementResponse;
+	MEASUREMENT_FIELDS.forEach(({ field, kind }) => {
+		const value = measurement[field];
+		response[field] =
+			value === null
+				? null
+				: kind === 'WEIGHT'
+					? fromKg(Number(value), unit)
+					: kind === 'GIRTH'
+						? fromCm(Number(value), unit)
+						: Number(value);
+	});
+	return response;
+};
+
+/**
+ * movingAverage
+ * Trailing average of a series over the given number of days: each point becomes the
+ * mean of the points from the days before it within the window, itself included.
+ * Points are days (YYYY-MM-DD) or ISO strings, oldest first.
+ */
+export const movingAverage = <T extends { date: string; value: number }>(
+	points: T[],
+	days: number = MOVING_AVERAGE_DAYS,
+): { date: string; value: number }[] =>
+	points.map((point, idx) => {
+		const day = point.date.slice(0, 10);
+		const window = points
+			.slice(0, idx + 1)
+			.filter(other => daysBetween(other.date.slice(0, 10), day) < days);
+		const total = window.reduce((sum, other) => sum + other.value, 0);
+
+		return {
+			date: point.date,
+			value: Math.round((total / window.length) * 100) / 100,
+		};
+	});
+
+/**
+ * bodyweightOn
+ * The latest bodyweight measured on or before a day, from entries oldest first;
+ * null if none was measured by then.
+ */
+export const bodyweightOn = (
+	entries: { date: string; bodyweight: number }[],
+	day: string,
+): number | null => {
+	let bodyweight: number | null = null;
+	for (const entry of entries) {
+		if (entry.date > day) break;
+		bodyweight = entry.bodyweight;
+	}
+	return bodyweight;
+};
@@ -0,0 +1,59 @@
+// lib/notes.ts
+
+// Longest note accepted on a workout, exercise or set
+export const MAX_NOTE_LENGTH = 2000;
+
+// Longest tag accepted (matches the column size), and the most tags a workout can carry
+export const MAX_TAG_LENGTH = 32;
+export const MAX_TAGS = 20;
+
+/**
+ * isValidNote
+ * Checks an optional note from a request body: absent, null or a string of at most MAX_NOTE_LENGTH characters.
+ */
+export const isValidNote = (value: unknown): boolean =>
+	value === undefined ||
+	value === null ||
+	(typeof value === 'string' && value.trim().length <= MAX_NOTE_LENGTH);
+
+/**
+ * normalizeNote
+ * Trims a note; blank notes are stored as null.
+ */
+export const normalizeNote = (
+	value: string | null | undefined,
+): string | null => value?.trim() || null;
+
+/**
+ * normalizeTag
+ * Trims a tag, collapses inner whitespace and lowercases it, so "Travel  Gym" and "travel gym" match.
+ */
+export const normalizeTag = (value: string): string =>
+	value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * normalizeTags
+ * Validates a submitted tag list and returns the distinct, normalized tags in order.
+ * Returns null if the value is not a list of short strings.
+ */
+export const normalizeTags = (value: unknown): string[] | null => {
+	if (!Array.isArray(value)) return null;
+	if (!value.every(tag => typeof tag === 'string')) return null;
+
+	const tags = Array.from(
+		new Set(value.map(normalizeTag).filter(tag => tag !== '')),
+	);
+	const isValid =
+		tags.length <= MAX_TAGS && tags.every(tag => tag.length <= MAX_TAG_LENGTH);
+	return isValid ? tags : null;
+};
+
+/**
+ * parseTagList
+ * Splits comma-separated tag input (e.g., "deload, travel gym") into tags.
+ */
+export const parseTagList = (value: string): string[] =>
+	value
+		.split(',')
+		.map(normalizeTag)
+		.filter(tag => tag !== '');
@@ -0,0 +1,148 @@
+// lib/offline-store.ts
+
+// Browser-only persistence in IndexedDB: drafts of forms being filled in, and the
+// queue of API writes waiting for a connection. Import only from client components.
+
+import type { WeightUnit } from './units';
+
+// Database layout; bump the version when adding stores
+const DB_NAME = 'workout-logger';
+const DB_VERSION = 1;
+const DRAFTS_STORE = 'drafts'; // Values keyed by a caller-chosen string
+const QUEUE_STORE = 'queue'; // Queued requests keyed by an auto-incremented ID
+
+// Define the form a queued write was made from, so it can be reopened for editing
+export type QueuedDraft = {
+	key: string; // Draft key the form restores from
+	value: unknown; // Draft as the form saved it
+	path: string; // Page of the form, e.g. /workout
+};
+
+// Define the structure of an API write waiting to be sent
+export type QueuedRequest = {
+	id?: number; // Position in the queue, assigned by IndexedDB
+	userId: number; // Account that made the write; it is only sent while that account is signed in
+	weightUnit: WeightUnit; // Unit the weights in the body were entered in, sent as the X-Weight-Unit header
+	url: string; // API path, e.g. /api/save-workout
+	method: 'POST' | 'PUT' | 'DELETE'; // HTTP method
+	body?: unknown; // JSON body, if any
+	idempotencyKey?: string; // Sent as the Idempotency-Key header so replays are safe
+	description: string; // Human-readable summary shown while waiting
+	createdAt: string; // ISO string of when the write was queued
+	attempts: number; // Number of failed send attempts so far
+	draft?: QueuedDraft; // Form the write was made from, if it can be edited there
+	error?: string | null; // Why the server rejected the write; it then waits for the user to retry, edit or discard it
+};
+
+/**
+ * openDatabase
+ * Opens the database, creating the stores on first use.
+ */
+const openDatabase = (): Promise<IDBDatabase> =>
+	new Promise((resolve, reject) => {
+		const request = indexedDB.open(DB_NAME, DB_VERSION);
+		request.onupgradeneeded = () => {
+			const db = request.result;
+			if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+				db.createObjectStore(DRAFTS_STORE);
+			}
+			if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+				db.createObjectStore(QUEUE_STORE, {
+					keyPath: 'id',
+					autoIncrement: true,
+				});
+			}
+		};
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+
+/**
+ * runRequest
+ * Runs one operation against a store and resolves with its result once the transaction commits.
+ */
+const runRequest = async <T>(
+	storeName: string,
+	mode: IDBTransactionMode,
+	operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+	const db = await openDatabase();
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction(storeName, mode);
+		const request = operation(transaction.objectStore(storeName));
+		transaction.oncomplete = () => {
+			db.close();
+			resolve(request.result);
+		};
+		transaction.onerror = () => {
+			db.close();
+			reject(transaction.error);
+		};
+	});
+};
+
+/**
+ * saveDraft
+ * Stores a draft under the given key, replacing any previous one.
+ */
+export const saveDraft = async <T>(key: string, value: T): Promise<void> => {
+	await runRequest(DRAFTS_STORE, 'readwrite', store => store.put(value, key));
+};
+
+/**
+ * loadDraft
+ * Reads the draft stored under the given key, if any.
+ */
+export const loadDraft = <T>(key: string): Promise<T | undefined> =>
+	runRequest<T | undefined>(DRAFTS_STORE, 'readonly', store => store.get(key));
+
+/**
+ * clearDraft
+ * Removes the draft stored under the given key.
+ */
+export const clearDraft = async (key: string): Promise<void> => {
+	await runRequest(DRAFTS_STORE, 'readwrite', store => store.delete(key));
+};
+
+/**
+ * clearDrafts
+ * Removes every draft, e.g. when the user signs out of the device.
+ */
+export const clearDrafts = async (): Promise<void> => {
+	await runRequest(DRAFTS_STORE, 'readwrite', store => store.clear());
+};
+
+/**
+ * addQueuedRequest
+ * Appends a write to the end of the queue.
+ */
+export const addQueuedRequest = async (
+	entry: Omit<QueuedRequest, 'id'>,
+): Promise<void> => {
+	await runRequest(QUEUE_STORE, 'readwrite', store => store.add(entry));
+};
+
+/**
+ * listQueuedRequests
+ * Reads the queue, oldest first.
+ */
+export const listQueuedRequests = (): Promise<QueuedRequest[]> =>
+	runRequest<QueuedRequest[]>(QUEUE_STORE, 'readonly', store => store.getAll());
+
+/**
+ * updateQueuedRequest
+ * Saves changes to a queued write, e.g. its attempt count.
+ */
+export const updateQueuedRequest = async (
+	entry: QueuedRequest,
+): Promise<void> => {
+	await runRequest(QUEUE_STORE, 'readwrite', store => store.put(entry));
+};
+
+/**
+ * removeQueuedRequest
+ * Drops a write from the queue once it has been sent.
+ */
+export const removeQueuedRequest = async (id: number): Promise<void> => {
+	await runRequest(QUEUE_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,213 @@
+// lib/plates.ts
+
+import { WEIGHT_UNITS, WeightUnit, unitLabel } from './units';
+
+// Define a plate size and how many pairs of it are on hand
+export type PlateStock = {
+	weight: number; // Weight of one plate, in the unit of the setup
+	pairs: number; // Pairs available; a bar is loaded the same on both sides
+};
+
+// Define the bar and plates used to load weights in one unit
+export type BarSetup = {
+	bar: number; // Weight of the empty bar
+	plates: PlateStock[]; // Plates on hand, heaviest first
+};
+
+// Bar and plates for each unit: kilogram users load kilogram plates, pound users pound plates
+export type PlateSetup = Record<WeightUnit, BarSetup>;
+
+// Setup assumed until the user enters their own: an Olympic bar and a standard plate set
+export const DEFAULT_PLATE_SETUP: PlateSetup = {
+	KG: {
+		bar: 20,
+		plates: [
+			{ weight: 25, pairs: 4 },
+			{ weight: 20, pairs: 2 },
+			{ weight: 15, pairs: 1 },
+			{ weight: 10, pairs: 1 },
+			{ weight: 5, pairs: 1 },
+			{ weight: 2.5, pairs: 1 },
+			{ weight: 1.25, pairs: 1 },
+		],
+	},
+	LB: {
+		bar: 45,
+		plates: [
+			{ weight: 45, pairs: 4 },
+			{ weight: 35, pairs: 1 },
+			{ weight: 25, pairs: 1 },
+			{ weight: 10, pairs: 2 },
+			{ weight: 5, pairs: 1 },
+			{ weight: 2.5, pairs: 1 },
+		],
+	},
+};
+
+// Most plate sizes and pairs of one size accepted in a setup
+const MAX_PLATE_SIZES = 20;
+const MAX_PAIRS = 20;
+
+// Define the plates that load a target weight
+export type PlateLoad = {
+	perSide: number[]; // Plates on each side of the bar, heaviest first
+	achieved: number; // Weight of the loaded bar
+	remainder: number; // Target minus the loaded weight; zero when the target is loadable
+};
+
+// Define a step of the warm-up ramp
+type WarmupStep = {
+	percent: number | null; // Share of the working weight, or null for the empty bar
+	reps: number; // Reps done at the step
+};
+
+// Warm-up ramp up to a working weight: the empty bar, then 40%, 60% and 80% of it
+export const WARMUP_RAMP: WarmupStep[] = [
+	{ percent: null, reps: 10 },
+	{ percent: 40, reps: 5 },
+	{ percent: 60, reps: 3 },
+	{ percent: 80, reps: 1 },
+];
+
+// Define a generated warm-up set
+export type WarmupSet = {
+	weight: number; // Loadable weight of the set, in the unit of the setup
+	reps: number; // Reps of the set
+	type: 'WARMUP'; // Warm-up sets are kept out of records and progression
+};
+
+/**
+ * roundWeight
+ * Rounds a weight to two decimals, dropping floating-point noise from sums of plates.
+ */
+const roundWeight = (weight: number): number => Math.round(weight * 100) / 100;
+
+/**
+ * isValidBarSetup
+ * Checks a bar weight and plate inventory: a non-negative bar and positive plate
+ * weights with a whole number of pairs each.
+ */
+const isValidBarSetup = (value: unknown): value is BarSetup => {
+	if (!value || typeof value !== 'object') return false;
+	const { bar, plates } = value as Record<string, unknown>;
+
+	return (
+		typeof bar === 'number' &&
+		Number.isFinite(bar) &&
+		bar >= 0 &&
+		Array.isArray(plates) &&
+		plates.length <= MAX_PLATE_SIZES &&
+		plates.every(
+			plate =>
+				plate &&
+				typeof plate === 'object' &&
+				typeof plate.weight === 'number' &&
+				Number.isFinite(plate.weight) &&
+				plate.weight > 0 &&
+				Number.isInteger(plate.pairs) &&
+				plate.pairs >= 0 &&
+				plate.pairs <= MAX_PAIRS,
+		)
+	);
+};
+
+/**
+ * isValidPlateSetup
+ * Checks a submitted setup: a valid bar and plate inventory for every unit.
+ */
+export const isValidPlateSetup = (value: unknown): value is PlateSetup =>
+	!!value &&
+	typeof value === 'object' &&
+	WEIGHT_UNITS.every(unit =>
+		isValidBarSetup((value as Record<string, unknown>)[unit]),
+	);
+
+/**
+ * toPlateSetup
+ * The setup stored for a user, or the defaults if none is stored.
+ */
+export const toPlateSetup = (stored: unknown): PlateSetup =>
+	isValidPlateSetup(stored) ? stored : DEFAULT_PLATE_SETUP;
+
+/**
+ * calculatePlates
+ * Plates to load on each side of the bar for a target weight. Plates go on heaviest
+ * first, as many pairs of each as fit and are on hand; whatever cannot be made up
+ * with the plates left is reported as the remainder. A target at or below the bar
+ * loads the empty bar, with a negative remainder below it.
+ */
+export const calculatePlates = (target: number, setup: BarSetup): PlateLoad => {
+	const perSide: number[] = [];
+	let remaining = Math.max(0, (target - setup.bar) / 2); // Weight still to load on each side; none below the bar
+
+	[...setup.plates]
+		.sort((a, b) => b.weight - a.weight)
+		.forEach(plate => {
+			const count = Math.min(
+				plate.pairs,
+				Math.floor(roundWeight(remaining) / plate.weight),
+			);
+			for (let idx = 0; idx < count; idx++) {
+				perSide.push(plate.weight);
+			}
+			remaining -= count * plate.weight;
+		});
+
+	const achieved = roundWeight(
+		setup.bar + 2 * perSide.reduce((sum, plate) => sum + plate, 0),
+	);
+	return { perSide, achieved, remainder: roundWeight(target - achieved) };
+};
+
+/**
+ * smallestIncrement
+ * Smallest jump in weight the plates on hand allow: a pair of the lightest plate.
+ * Null when there are no plates.
+ */
+export const smallestIncrement = (setup: BarSetup): number | null => {
+	const weights = setup.plates
+		.filter(plate => plate.pairs > 0)
+		.map(plate => plate.weight);
+	return weights.length > 0 ? roundWeight(2 * Math.min(...weights)) : null;
+};
+
+/**
+ * formatPlates
+ * Formats the plates on one side for display, e.g. "20 + 10 + 2.5 kg", or "Empty bar".
+ */
+export const formatPlates = (perSide: number[], unit: WeightUnit): string =>
+	perSide.length === 0
+		? 'Empty bar'
+		: `${perSide.join(' + ')} ${unitLabel(unit)}`;
+
+/**
+ * buildWarmupSets
+ * Warm-up sets ramping up to a working weight, following WARMUP_RAMP. Each step is
+ * rounded down to a weight the plates can load and never goes below the empty bar;
+ * steps that would repeat the previous weight or reach the working weight are left out.
+ */
+export const buildWarmupSets = (
+	workingWeight: number,
+	setup: BarSetup,
+): WarmupSet[] => {
+	const sets: WarmupSet[] = [];
+	if (workingWeight <= setup.bar) return sets; // Nothing to ramp up to
+
+	WARMUP_RAMP.forEach(({ percent, reps }) => {
+		const weight =
+			percent === null
+				? setup.bar
+				: Math.max(
+						setup.bar,
+						calculatePlates((workingWeight * percent) / 100, setup).achieved,
+					);
+		const previous = sets.length > 0 ? sets[sets.length - 1].weight : null;
+		if (weight >= workingWeight || (previous !== null && weight <= previous)) {
+			return;
+		}
+
+		sets.push({ weight, reps, type: 'WARMUP' });
+	});
+
+	return sets;
+};
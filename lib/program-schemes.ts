@@ -0,0 +1,141 @@
+// lib/program-schemes.ts
+
+import { WeightUnit } from './units';
+import { WEIGHT_INCREMENTS, roundToStep } from './progression';
+
+// How a prescribed exercise changes from week to week; mirrors the ProgramScheme enum in the Prisma schema
+export type ProgramScheme = 'FIXED' | 'LINEAR_PERCENT' | 'WAVE_531';
+export const PROGRAM_SCHEMES: ProgramScheme[] = [
+	'FIXED',
+	'LINEAR_PERCENT',
+	'WAVE_531',
+];
+
+// Labels shown for each scheme
+export const PROGRAM_SCHEME_LABELS: Record<ProgramScheme, string> = {
+	FIXED: 'Same sets every week',
+	LINEAR_PERCENT: 'Add percentage points each week',
+	WAVE_531: '5/3/1 waves of the training max',
+};
+
+// Weekdays of a program schedule, Monday first; a day's `weekday` indexes this list
+export const WEEKDAY_LABELS = [
+	'Monday',
+	'Tuesday',
+	'Wednesday',
+	'Thursday',
+	'Friday',
+	'Saturday',
+	'Sunday',
+];
+
+// The 5/3/1 cycle: four weeks of three sets as [percent of training max, reps], the last set AMRAP
+// except in the deload week
+const WAVE_531: [number, number][][] = [
+	[
+		[65, 5],
+		[75, 5],
+		[85, 5],
+	],
+	[
+		[70, 3],
+		[80, 3],
+		[90, 3],
+	],
+	[
+		[75, 5],
+		[85, 3],
+		[95, 1],
+	],
+	[
+		[40, 5],
+		[50, 5],
+		[60, 5],
+	],
+];
+
+// Define the structure of a prescribed set as written in the program
+export type ProgramSetPrescription = {
+	reps: number; // Prescribed reps (the minimum, for AMRAP sets)
+	percent: number | null; // Percentage of the training max in week 1; null for a fixed weight
+	weight: number | null; // Fixed weight, in the user's unit; null when a percentage is given
+	amrap: boolean; // Whether the set is taken for as many reps as possible
+};
+
+// Define the structure of a prescribed exercise as written in the program
+export type ProgramExercisePrescription = {
+	scheme: ProgramScheme; // How the prescription changes from week to week
+	trainingMax: number | null; // Training max, in the user's unit
+	weeklyIncrement: number | null; // Percentage points added each week, for LINEAR_PERCENT
+	sets: ProgramSetPrescription[]; // Sets as written; ignored by WAVE_531
+};
+
+// Define the structure of a set worked out for a given week
+export type PrescribedSet = {
+	reps: number; // Target reps (the minimum, for AMRAP sets)
+	weight: number; // Target weight, in the user's unit, rounded to a loadable increment
+	percent: number | null; // Percentage of the training max the weight comes from, if any
+	amrap: boolean; // Whether the set is taken for as many reps as possible
+};
+
+/**
+ * isProgramScheme
+ * Checks that a value is one of the supported program schemes.
+ */
+export const isProgramScheme = (value: unknown): value is ProgramScheme =>
+	PROGRAM_SCHEMES.includes(value as ProgramScheme);
+
+/**
+ * prescribeSets
+ * Works out an exercise's sets for a week of the program (1-based). Percentages are taken
+ * of the training max and rounded to the smallest weight increment of the unit.
+ * LINEAR_PERCENT adds the weekly increment to every percentage each week; WAVE_531 follows
+ * the 5/3/1 cycle and adds one increment to the training max after every 4-week cycle.
+ */
+export const prescribeSets = (
+	exercise: ProgramExercisePrescription,
+	week: number,
+	unit: WeightUnit,
+): PrescribedSet[] => {
+	const step = WEIGHT_INCREMENTS[unit];
+	const fromPercent = (trainingMax: number, percent: number) =>
+		roundToStep((trainingMax * percent) / 100, step);
+
+	if (exercise.scheme === 'WAVE_531') {
+		const cycle = Math.floor((week - 1) / WAVE_531.length);
+		const wave = WAVE_531[(week - 1) % WAVE_531.length];
+		const trainingMax = (exercise.trainingMax ?? 0) + cycle * step;
+		const deload = (week - 1) % WAVE_531.length === WAVE_531.length - 1;
+
+		return wave.map(([percent, reps], idx) => ({
+			reps,
+			weight: fromPercent(trainingMax, percent),
+			percent,
+			amrap: !deload && idx === wave.length - 1,
+		}));
+	}
+
+	const increment =
+		exercise.scheme === 'LINEAR_PERCENT'
+			? (exercise.weeklyIncrement ?? 0) * (week - 1)
+			: 0;
+
+	return exercise.sets.map(set => {
+		if (set.percent === null) {
+			return {
+				reps: set.reps,
+				weight: set.weight ?? 0,
+				percent: null,
+				amrap: set.amrap,
+			};
+		}
+
+		const percent = set.percent + increment;
+		return {
+			reps: set.reps,
+			weight: fromPercent(exercise.trainingMax ?? 0, percent),
+			percent,
+			amrap: set.amrap,
+		};
+	});
+};
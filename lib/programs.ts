@@ -0,0 +1,345 @@
+// lib/programs.ts
+
+import { Prisma } from '@prisma/client';
+import {
+	normalizeExerciseName,
+	resolveExerciseDefinitions,
+} from './exercise-catalog';
+import { WeightUnit, fromKg, toKg } from './units';
+import { addDays, daysBetween, isDayKey, weekdayIndex } from './calendar';
+import {
+	PrescribedSet,
+	ProgramExercisePrescription,
+	ProgramScheme,
+	isProgramScheme,
+	prescribeSets,
+} from './program-schemes';
+
+// Define the structure of a program sent to the frontend
+export type ProgramResponse = {
+	id: number; // Unique identifier for the program
+	name: string; // Name of the program
+	startDate: string; // First day of week 1 (YYYY-MM-DD)
+	weeks: number; // Length of the block in weeks
+	unit: WeightUnit; // Unit of every training max and fixed weight
+	updatedAt: string; // ISO string of the last change
+	days: {
+		id: number; // Unique identifier for the program day
+		name: string; // Name of the day
+		weekday: number; // Day of the week it is scheduled on: 0 for Monday to 6 for Sunday
+		exercises: (ProgramExercisePrescription & {
+			id: number; // Unique identifier for the prescribed exercise
+			name: string; // Name of the exercise
+			definitionId: number | null; // Catalog entry for the exercise
+		})[];
+	}[];
+};
+
+// Define the structure of a program received from the frontend
+export type ProgramInput = {
+	name: string; // Name of the program
+	startDate: string; // First day of week 1 (YYYY-MM-DD)
+	weeks: number; // Length of the block in weeks
+	days: {
+		id?: number; // Existing day being edited; absent for a new day
+		name: string; // Name of the day
+		weekday: number; // Day of the week it is scheduled on: 0 for Monday to 6 for Sunday
+		exercises: (ProgramExercisePrescription & {
+			name: string; // Name of the exercise
+		})[];
+	}[];
+};
+
+// Define the structure of one scheduled session of a program, worked out for its week
+export type ProgramSession = {
+	programId: number; // Program the session belongs to
+	programName: string; // Name of the program
+	dayId: number; // Program day of the session
+	dayName: string; // Name of the program day
+	week: number; // Week of the program (1-based)
+	date: string; // Day the session is scheduled on (YYYY-MM-DD)
+	unit: WeightUnit; // Unit of every weight in the sets
+	exercises: {
+		name: string; // Name of the exercise
+		sets: PrescribedSet[]; // Sets worked out for the week
+	}[];
+	loggedWorkoutId: number | null; // Workout already logged for the session, if any
+};
+
+// Longest block accepted, in weeks
+export const MAX_PROGRAM_WEEKS = 52;
+
+// Highest percentage of the training max accepted
+const MAX_PERCENT = 150;
+
+// Nested include that loads a program with its days, exercises and sets in order
+export const PROGRAM_INCLUDE = {
+	days: {
+		orderBy: { position: 'asc' },
+		include: {
+			exercises: {
+				orderBy: { position: 'asc' },
+				include: { sets: { orderBy: { position: 'asc' } } },
+			},
+		},
+	},
+} satisfies Prisma.ProgramInclude;
+
+// A program row loaded with PROGRAM_INCLUDE
+type ProgramWithDays = Prisma.ProgramGetPayload<{
+	include: typeof PROGRAM_INCLUDE;
+}>;
+
+/**
+ * isOptionalPositive
+ * Checks that an optional value is a positive number or null.
+ */
+const isOptionalPositive = (value: unknown): boolean =>
+	value === undefined ||
+	value === null ||
+	(typeof value === 'number' && Number.isFinite(value) && value > 0);
+
+/**
+ * isValidProgramSet
+ * Checks a prescribed set: whole reps and either a percentage of the training max or a fixed weight.
+ */
+const isValidProgramSet = (set: unknown, hasTrainingMax: boolean): boolean => {
+	if (!set || typeof set !== 'object') return false;
+	const candidate = set as Record<string, unknown>;
+	const { reps, percent, weight } = candidate;
+
+	const hasPercent = typeof percent === 'number';
+	const hasWeight = typeof weight === 'number';
+	return (
+		typeof reps === 'number' &&
+		Number.isInteger(reps) &&
+		reps >= 0 &&
+		(candidate.amrap === undefined || typeof candidate.amrap === 'boolean') &&
+		hasPercent !== hasWeight && // Exactly one of the two
+		(!hasPercent ||
+			(hasTrainingMax &&
+				Number.isFinite(percent) &&
+				(percent as number) > 0 &&
+				(percent as number) <= MAX_PERCENT)) &&
+		(!hasWeight || (Number.isFinite(weight) && (weight as number) >= 0)) &&
+		(percent === undefined || percent === null || hasPercent) &&
+		(weight === undefined || weight === null || hasWeight)
+	);
+};
+
+/**
+ * isValidProgramExercise
+ * Checks a prescribed exercise. 5/3/1 waves need a training max and no written sets;
+ * the other schemes need at least one set, and percentages need a training max.
+ */
+const isValidProgramExercise = (exercise: unknown): boolean => {
+	if (!exercise || typeof exercise !== 'object') return false;
+	const candidate = exercise as Record<string, unknown>;
+	const hasTrainingMax = typeof candidate.trainingMax === 'number';
+
+	return (
+		typeof candidate.name === 'string' &&
+		candidate.name.trim() !== '' &&
+		isProgramScheme(candidate.scheme) &&
+		isOptionalPositive(candidate.trainingMax) &&
+		(candidate.weeklyIncrement === undefined ||
+			candidate.weeklyIncrement === null ||
+			(typeof candidate.weeklyIncrement === 'number' &&
+				Number.isFinite(candidate.weeklyIncrement))) &&
+		Array.isArray(candidate.sets) &&
+		(candidate.scheme === 'WAVE_531'
+			? hasTrainingMax
+			: candidate.sets.length > 0) &&
+		candidate.sets.every(set => isValidProgramSet(set, hasTrainingMax))
+	);
+};
+
+/**
+ * isValidProgramInput
+ * Checks the shape of a program submitted for create or update.
+ */
+export const isValidProgramInput = (input: unknown): input is ProgramInput => {
+	if (!input || typeof input !== 'object') return false;
+	const candidate = input as Record<string, unknown>;
+
+	return (
+		typeof candidate.name === 'string' &&
+		candidate.name.trim() !== '' &&
+		isDayKey(candidate.startDate) &&
+		typeof candidate.weeks === 'number' &&
+		Number.isInteger(candidate.weeks) &&
+		candidate.weeks >= 1 &&
+		candidate.weeks <= MAX_PROGRAM_WEEKS &&
+		Array.isArray(candidate.days) &&
+		candidate.days.every(
+			day =>
+				day &&
+				(day.id === undefined || Number.isInteger(day.id)) &&
+				typeof day.name === 'string' &&
+				day.name.trim() !== '' &&
+				Number.isInteger(day.weekday) &&
+				day.weekday >= 0 &&
+				day.weekday <= 6 &&
+				Array.isArray(day.exercises) &&
+				day.exercises.every(isValidProgramExercise),
+		)
+	);
+};
+
+/**
+ * toStartDate
+ * Column value of a program's start day.
+ */
+export const toStartDate = (startDate: string): Date =>
+	new Date(`${startDate}T00:00:00Z`);
+
+/**
+ * buildProgramDays
+ * Turns submitted days into create data for their exercises and sets, linking each
+ * exercise to its catalog entry and storing weights and training maxes in kilograms.
+ * Returned in the submitted order, so each entry lines up with its day.
+ */
+export const buildProgramDays = async (
+	tx: Prisma.TransactionClient,
+	days: ProgramInput['days'],
+	unit: WeightUnit,
+): Promise<
+	{
+		name: string;
+		weekday: number;
+		position: number;
+		exercises: Prisma.ProgramExerciseCreateWithoutDayInput[];
+	}[]
+> => {
+	const definitions = await resolveExerciseDefinitions(
+		tx,
+		days.flatMap(day => day.exercises.map(exercise => exercise.name)),
+	);
+
+	return days.map((day, position) => ({
+		name: day.name.trim(),
+		weekday: day.weekday,
+		position,
+		exercises: day.exercises.map((exercise, exercisePosition) => {
+			const definition = definitions.get(normalizeExerciseName(exercise.name))!;
+
+			return {
+				name: definition.name,
+				definition: { connect: { id: definition.id } },
+				position: exercisePosition,
+				scheme: exercise.scheme,
+				trainingMax:
+					exercise.trainingMax == null
+						? null
+						: toKg(exercise.trainingMax, unit),
+				weeklyIncrement:
+					exercise.scheme === 'LINEAR_PERCENT'
+						? (exercise.weeklyIncrement ?? null)
+						: null,
+				sets: {
+					create:
+						exercise.scheme === 'WAVE_531'
+							? [] // The wave replaces the written sets
+							: exercise.sets.map((set, setPosition) => ({
+									reps: set.reps,
+									percent: set.percent ?? null,
+									weight: set.weight == null ? null : toKg(set.weight, unit),
+									amrap: set.amrap ?? false,
+									position: setPosition,
+								})),
+				},
+			};
+		}),
+	}));
+};
+
+/**
+ * toPrescription
+ * The prescription of a stored exercise, with weights in the given unit.
+ */
+const toPrescription = (
+	exercise: ProgramWithDays['days'][number]['exercises'][number],
+	unit: WeightUnit,
+): ProgramExercisePrescription => ({
+	scheme: exercise.scheme as ProgramScheme,
+	trainingMax:
+		exercise.trainingMax === null
+			? null
+			: fromKg(Number(exercise.trainingMax), unit),
+	weeklyIncrement: exercise.weeklyIncrement,
+	sets: exercise.sets.map(set => ({
+		reps: set.reps,
+		percent: set.percent,
+		weight: set.weight === null ? null : fromKg(Number(set.weight), unit),
+		amrap: set.amrap,
+	})),
+});
+
+/**
+ * toProgramResponse
+ * Converts a program row into the shape sent to the frontend, with weights in the given unit.
+ */
+export const toProgramResponse = (
+	program: ProgramWithDays,
+	unit: WeightUnit,
+): ProgramResponse => ({
+	id: program.id,
+	name: program.name,
+	startDate: program.startDate.toISOString().slice(0, 10),
+	weeks: program.weeks,
+	unit,
+	updatedAt: program.updatedAt.toISOString(),
+	days: program.days.map(day => ({
+		id: day.id,
+		name: day.name,
+		weekday: day.weekday,
+		exercises: day.exercises.map(exercise => ({
+			id: exercise.id,
+			name: exercise.name,
+			definitionId: exercise.definitionId,
+			...toPrescription(exercise, unit),
+		})),
+	})),
+});
+
+/**
+ * programWeekOf
+ * Week of the program (1-based) a day falls in; below 1 before the start, above
+ * the length of the block after the end.
+ */
+export const programWeekOf = (program: { startDate: Date }, day: string) =>
+	Math.floor(
+		daysBetween(program.startDate.toISOString().slice(0, 10), day) / 7,
+	) + 1;
+
+/**
+ * toProgramSession
+ * Works out one day of a program for a week: the date it is scheduled on and its sets.
+ */
+export const toProgramSession = (
+	program: ProgramWithDays,
+	day: ProgramWithDays['days'][number],
+	week: number,
+	unit: WeightUnit,
+	loggedWorkoutId: number | null,
+): ProgramSession => {
+	// Weeks start on the start date; the day falls on its weekday within the week
+	const startDate = program.startDate.toISOString().slice(0, 10);
+	const weekStart = addDays(startDate, (week - 1) * 7);
+	const startWeekday = weekdayIndex(startDate);
+
+	return {
+		programId: program.id,
+		programName: program.name,
+		dayId: day.id,
+		dayName: day.name,
+		week,
+		date: addDays(weekStart, (day.weekday - startWeekday + 7) % 7),
+		unit,
+		exercises: day.exercises.map(exercise => ({
+			name: exercise.name,
+			sets: prescribeSets(toPrescription(exercise, unit), week, unit),
+		})),
+		loggedWorkoutId,
+	};
+};
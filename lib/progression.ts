@@ -0,0 +1,186 @@
+// lib/progression.ts
+
+import { WeightUnit, formatWeight } from './units';
+
+// Rules for suggesting the next session of a lift; mirrors the ProgressionRule enum in the Prisma schema
+export type ProgressionRule = 'DOUBLE_PROGRESSION' | 'LINEAR';
+export const PROGRESSION_RULES: ProgressionRule[] = [
+	'DOUBLE_PROGRESSION',
+	'LINEAR',
+];
+
+// Rep range of each rule: weight goes up once every set reaches the top,
+// and a set below the bottom counts as a miss
+export const PROGRESSION_SCHEMES: Record<
+	ProgressionRule,
+	{ label: string; minReps: number; maxReps: number }
+> = {
+	DOUBLE_PROGRESSION: {
+		label: 'Double progression (8-12 reps)',
+		minReps: 8,
+		maxReps: 12,
+	},
+	LINEAR: { label: 'Linear (5 reps, add weight)', minReps: 5, maxReps: 5 },
+};
+
+// Weight added after a successful session, in each unit
+export const WEIGHT_INCREMENTS: Record<WeightUnit, number> = {
+	KG: 2.5,
+	LB: 5,
+};
+
+// Sessions in a row missed at the same weight before a deload
+export const DELOAD_AFTER_MISSES = 3;
+
+// Share of the weight kept when deloading
+const DELOAD_FACTOR = 0.9;
+
+// Why a suggestion is what it is
+export type SuggestionReason = 'PROGRESS' | 'ADD_REPS' | 'REPEAT' | 'DELOAD';
+
+// Labels shown for each reason
+export const SUGGESTION_REASON_LABELS: Record<SuggestionReason, string> = {
+	PROGRESS: 'every set hit the top of the range: add weight',
+	ADD_REPS: 'add a rep',
+	REPEAT: 'repeat the weight and hit the target reps',
+	DELOAD: `missed ${DELOAD_AFTER_MISSES} sessions in a row: deload`,
+};
+
+// A working set of a past session, in the user's unit
+export type PastSet = {
+	weight: number; // Weight used in the set
+	reps: number; // Number of repetitions in the set
+};
+
+// Define the structure of a suggested session
+export type Suggestion = {
+	sets: number; // Number of working sets
+	reps: number; // Target reps per set
+	weight: number; // Weight, in the user's unit
+	reason: SuggestionReason; // Why this is the suggestion
+};
+
+/**
+ * isProgressionRule
+ * Checks that a value is one of the supported progression rules.
+ */
+export const isProgressionRule = (value: unknown): value is ProgressionRule =>
+	PROGRESSION_RULES.includes(value as ProgressionRule);
+
+/**
+ * roundToStep
+ * Rounds a weight to the nearest multiple of the step (e.g. the nearest 2.5 kg),
+ * dropping the floating-point noise of fractional steps.
+ */
+export const roundToStep = (weight: number, step: number): number =>
+	Math.round(Math.round(weight / step) * step * 100) / 100;
+
+/**
+ * ceilToStep
+ * Rounds a weight up to the next multiple of the step, ignoring floating-point noise.
+ */
+const ceilToStep = (weight: number, step: number): number =>
+	Math.round(Math.ceil(weight / step - 1e-9) * step * 100) / 100;
+
+/**
+ * topWeightSets
+ * The sets of a session done at its heaviest weight: the sets progression is judged on.
+ */
+const topWeightSets = (sets: PastSet[]): PastSet[] => {
+	const top = Math.max(...sets.map(set => set.weight));
+	return sets.filter(set => set.weight === top);
+};
+
+/**
+ * isMiss
+ * Whether a session fell short of the bottom of the rep range on any top-weight set.
+ */
+const isMiss = (sets: PastSet[], rule: ProgressionRule): boolean =>
+	topWeightSets(sets).some(set => set.reps < PROGRESSION_SCHEMES[rule].minReps);
+
+/**
+ * suggestNextSession
+ * Suggests today's sets, reps and weight from past sessions (newest first, working sets only).
+ * Sets and weight follow the last session's top-weight sets; the weight goes up by one
+ * increment once every one of them reaches the top of the rep range, the reps go up
+ * by one while within it, and after DELOAD_AFTER_MISSES misses in a row at the same
+ * weight the weight drops by 10%. The weight is rounded to the step, the smallest jump
+ * the user's plates allow, so weights converted from the other unit come out loadable;
+ * progress always rounds up, so a coarse step never rounds the added weight away.
+ * Returns null without a past session.
+ */
+export const suggestNextSession = (
+	sessions: PastSet[][],
+	rule: ProgressionRule,
+	unit: WeightUnit,
+	step: number = WEIGHT_INCREMENTS[unit],
+): Suggestion | null => {
+	const pastSessions = sessions.filter(sets => sets.length > 0);
+	if (pastSessions.length === 0) return null;
+
+	const { minReps, maxReps } = PROGRESSION_SCHEMES[rule];
+	const top = topWeightSets(pastSessions[0]);
+	const weight = top[0].weight;
+	const loadable = roundToStep(weight, step);
+	const sets = top.length;
+
+	// Count the misses in a row at this weight, newest first
+	let misses = 0;
+	for (const session of pastSessions) {
+		if (topWeightSets(session)[0].weight !== weight || !isMiss(session, rule)) {
+			break;
+		}
+		misses++;
+	}
+
+	if (misses >= DELOAD_AFTER_MISSES) {
+		return {
+			sets,
+			reps: minReps,
+			weight: roundToStep(weight * DELOAD_FACTOR, step),
+			reason: 'DELOAD',
+		};
+	}
+
+	const fewestReps = Math.min(...top.map(set => set.reps));
+	if (fewestReps >= maxReps) {
+		return {
+			sets,
+			reps: minReps,
+			weight: ceilToStep(loadable + WEIGHT_INCREMENTS[unit], step), // Up to the next loadable weight, even when the step is bigger than the increment
+			reason: 'PROGRESS',
+		};
+	}
+	if (fewestReps >= minReps) {
+		return { sets, reps: fewestReps + 1, weight: loadable, reason: 'ADD_REPS' };
+	}
+	return { sets, reps: minReps, weight: loadable, reason: 'REPEAT' };
+};
+
+/**
+ * formatSetScheme
+ * Short description of a run of sets, grouping identical ones in a row,
+ * e.g. "3×5 @ 100 kg" or "2×5 @ 100 kg, 1×4 @ 100 kg".
+ */
+export const formatSetScheme = (sets: PastSet[], unit: WeightUnit): string => {
+	const groups: { count: number; set: PastSet }[] = [];
+	sets.forEach(set => {
+		const previous = groups[groups.length - 1];
+		if (
+			previous &&
+			previous.set.weight === set.weight &&
+			previous.set.reps === set.reps
+		) {
+			previous.count++;
+		} else {
+			groups.push({ count: 1, set });
+		}
+	});
+
+	return groups
+		.map(
+			group =>
+				`${group.count}×${group.set.reps} @ ${formatWeight(group.set.weight, unit)}`,
+		)
+		.join(', ');
+};
@@ -0,0 +1,349 @@
+// lib/records.ts
+
+import {
+	ExerciseKind,
+	PersonalRecord,
+	Prisma,
+	RecordType,
+	SetType,
+} from '@prisma/client';
+import { estimateOneRepMax } from './strength';
+import { WeightUnit, fromKg } from './units';
+import { paceSecondsPerKm, setVolume } from './exercise-kinds';
+
+// Define the structure of a personal record sent to the frontend
+export type RecordResponse = {
+	id: number; // Unique identifier for the record
+	type: RecordType; // Kind of record
+	value: number; // Record value: weight, reps, estimated 1RM, volume, metres, seconds or seconds per km depending on the type
+	weight: number | null; // Weight of the set that set the record, in the user's unit
+	reps: number | null; // Reps of the set that set the record
+	isCurrent: boolean; // Whether the record still stands
+	achievedAt: string; // ISO string of the date the record was set
+	definitionId: number; // Catalog entry of the lift
+	workoutId: number; // Workout in which the record was set
+};
+
+// A set as seen by the record engine
+type ScoredSet = {
+	weight: number; // Weight used in the set; added weight for bodyweight exercises
+	reps: number; // Number of repetitions in the set
+	distance: number | null; // Distance covered in metres, for cardio sets
+	durationSeconds: number | null; // Time taken or held in seconds, for cardio and timed sets
+};
+
+// Record types stored in kilograms; the others count reps, metres or seconds
+const WEIGHT_RECORD_TYPES: RecordType[] = [
+	RecordType.HEAVIEST_WEIGHT,
+	RecordType.BEST_E1RM,
+	RecordType.BEST_SESSION_VOLUME,
+];
+
+// Record types where a lower value is better
+const LOWER_IS_BETTER: RecordType[] = [RecordType.BEST_PACE];
+
+// A record found while replaying the log, before it is written
+type RecordDraft = {
+	type: RecordType;
+	value: number;
+	weight: number | null;
+	reps: number | null;
+	achievedAt: Date;
+	workoutId: number;
+};
+
+/**
+ * isDominated
+ * A set is dominated when another set used at least as much weight for at least as many reps.
+ */
+const isDominated = (set: ScoredSet, others: ScoredSet[]): boolean =>
+	others.some(
+		other =>
+			other !== set && other.weight >= set.weight && other.reps >= set.reps,
+	);
+
+/**
+ * repFrontier
+ * The sets that are not dominated by any other set: the best reps at each weight.
+ * Exact duplicates are collapsed to a single entry.
+ */
+const repFrontier = (sets: ScoredSet[]): ScoredSet[] => {
+	const frontier: ScoredSet[] = [];
+	sets.forEach(set => {
+		const duplicate = frontier.some(
+			kept => kept.weight === set.weight && kept.reps === set.reps,
+		);
+		if (!duplicate && !isDominated(set, sets)) frontier.push(set);
+	});
+	return frontier;
+};
+
+/**
+ * isScored
+ * Whether a set can count towards records of its exercise's kind: weighted lifts need
+ * weight and reps, bodyweight lifts reps (at any added or assisted weight), cardio a
+ * distance and time, and timed exercises a time.
+ */
+const isScored = (kind: ExerciseKind, set: ScoredSet): boolean => {
+	switch (kind) {
+		case ExerciseKind.WEIGHT_REPS:
+			return set.weight > 0 && set.reps > 0;
+		case ExerciseKind.REPS:
+		case ExerciseKind.BODYWEIGHT:
+			return set.reps > 0;
+		case ExerciseKind.DISTANCE_DURATION:
+			return !!set.distance && !!set.durationSeconds;
+		case ExerciseKind.DURATION:
+			return !!set.durationSeconds;
+	}
+};
+
+/**
+ * bestBy
+ * The set with the highest score; the first such set wins ties.
+ */
+const bestBy = (
+	sets: ScoredSet[],
+	score: (set: ScoredSet) => number,
+): ScoredSet =>
+	sets.reduce((top, set) => (score(set) > score(top) ? set : top));
+
+/**
+ * findRecords
+ * Replays the sessions of one lift in chronological order and returns every
+ * record they set, with the records still standing at the end flagged current.
+ * Which records are tracked depends on the kind of the exercise: weighted lifts
+ * track weight, estimated 1RM, volume and reps; bodyweight lifts the same without
+ * the 1RM; reps-only exercises reps; cardio distance, time and pace; timed exercises time.
+ */
+const findRecords = (
+	kind: ExerciseKind,
+	sessions: { workoutId: number; date: Date; sets: ScoredSet[] }[],
+): (RecordDraft & { isCurrent: boolean })[] => {
+	const drafts: RecordDraft[] = [];
+	const best: Partial<Record<RecordType, RecordDraft>> = {};
+	let repHistory: (ScoredSet & { draft: RecordDraft })[] = [];
+
+	const isWeighted =
+		kind === ExerciseKind.WEIGHT_REPS || kind === ExerciseKind.BODYWEIGHT;
+	const countsReps = isWeighted || kind === ExerciseKind.REPS;
+
+	sessions.forEach(({ workoutId, date, sets }) => {
+		const scored = sets.filter(set => isScored(kind, set));
+		if (scored.length === 0) return;
+
+		const propose = (draft: Omit<RecordDraft, 'achievedAt' | 'workoutId'>) => {
+			const current = best[draft.type];
+			const improves = LOWER_IS_BETTER.includes(draft.type)
+				? !current || draft.value < current.value
+				: !current || draft.value > current.value;
+			if (!improves) return;
+
+			const record = { ...draft, achievedAt: date, workoutId };
+			best[draft.type] = record;
+			drafts.push(record);
+		};
+
+		if (isWeighted) {
+			// Heaviest set of the session; more reps breaks ties. For bodyweight
+			// lifts this is the most added (or least assisted) weight.
+			const heaviest = scored.reduce((top, set) =>
+				set.weight > top.weight ||
+				(set.weight === top.weight && set.reps > top.reps)
+					? set
+					: top,
+			);
+			propose({
+				type: RecordType.HEAVIEST_WEIGHT,
+				value: heaviest.weight,
+				weight: heaviest.weight,
+				reps: heaviest.reps,
+			});
+
+			// Total volume of the session; assisted sets add nothing
+			const volume = scored.reduce(
+				(total, set) => total + setVolume(kind, set.weight, set.reps),
+				0,
+			);
+			if (volume > 0) {
+				propose({
+					type: RecordType.BEST_SESSION_VOLUME,
+					value: volume,
+					weight: null,
+					reps: null,
+				});
+			}
+		}
+
+		if (kind === ExerciseKind.WEIGHT_REPS) {
+			// Best estimated one-rep max of the session
+			const strongest = bestBy(scored, set =>
+				estimateOneRepMax(set.weight, set.reps),
+			);
+			propose({
+				type: RecordType.BEST_E1RM,
+				value: estimateOneRepMax(strongest.weight, strongest.reps),
+				weight: strongest.weight,
+				reps: strongest.reps,
+			});
+		}
+
+		if (kind === ExerciseKind.DISTANCE_DURATION) {
+			// Longest distance, and fastest pace, of the session
+			const longest = bestBy(scored, set => set.distance!);
+			propose({
+				type: RecordType.LONGEST_DISTANCE,
+				value: longest.distance!,
+				weight: null,
+				reps: null,
+			});
+			const fastest = bestBy(
+				scored,
+				set => -paceSecondsPerKm(set.distance, set.durationSeconds)!,
+			);
+			propose({
+				type: RecordType.BEST_PACE,
+				value: paceSecondsPerKm(fastest.distance, fastest.durationSeconds)!,
+				weight: null,
+				reps: null,
+			});
+		}
+
+		if (
+			kind === ExerciseKind.DISTANCE_DURATION ||
+			kind === ExerciseKind.DURATION
+		) {
+			// Longest time of the session
+			const longest = bestBy(scored, set => set.durationSeconds!);
+			propose({
+				type: RecordType.LONGEST_DURATION,
+				value: longest.durationSeconds!,
+				weight: null,
+				reps: null,
+			});
+		}
+
+		if (!countsReps) return;
+
+		// Rep records: session sets that no earlier set matched or beat
+		repFrontier(scored)
+			.filter(set => !isDominated(set, repHistory))
+			.forEach(set => {
+				const record: RecordDraft = {
+					type: RecordType.MOST_REPS_AT_WEIGHT,
+					value: set.reps,
+					weight: set.weight,
+					reps: set.reps,
+					achievedAt: date,
+					workoutId,
+				};
+				drafts.push(record);
+				repHistory = repHistory
+					.filter(previous => !isDominated(previous, [set]))
+					.concat({ ...set, draft: record });
+			});
+	});
+
+	// Current records: the latest best of each type, plus the rep frontier
+	const current = new Set<RecordDraft>([
+		...Object.values(best),
+		...repHistory.map(entry => entry.draft),
+	]);
+
+	return drafts.map(draft => ({ ...draft, isCurrent: current.has(draft) }));
+};
+
+/**
+ * recalculateRecords
+ * Rebuilds the record history of the given lifts for a user from their workout log.
+ * Call it inside the transaction that changes the workouts so records never drift.
+ */
+export const recalculateRecords = async (
+	tx: Prisma.TransactionClient,
+	userId: number,
+	definitionIds: number[],
+): Promise<void> => {
+	const ids = Array.from(new Set(definitionIds));
+	if (ids.length === 0) return;
+
+	await tx.personalRecord.deleteMany({
+		where: { userId, definitionId: { in: ids } },
+	});
+
+	// Records depend on what each lift records
+	const definitions = await tx.exerciseDefinition.findMany({
+		where: { id: { in: ids } },
+		select: { id: true, kind: true },
+	});
+	const kinds = new Map(
+		definitions.map(definition => [definition.id, definition.kind]),
+	);
+
+	// Every live workout of the user containing one of the lifts, oldest first
+	const workouts = await tx.workout.findMany({
+		where: {
+			userId,
+			deletedAt: null, // Trashed workouts never hold records
+			exercises: { some: { definitionId: { in: ids } } },
+		},
+		orderBy: [{ date: 'asc' }, { id: 'asc' }],
+		include: {
+			exercises: {
+				where: { definitionId: { in: ids } },
+				include: { sets: { where: { type: { not: SetType.WARMUP } } } }, // Warm-ups never set records
+			},
+		},
+	});
+
+	const rows: Prisma.PersonalRecordCreateManyInput[] = [];
+	ids.forEach(definitionId => {
+		// One session per workout; a lift logged twice in a workout counts as one session
+		const sessions = workouts
+			.map(workout => ({
+				workoutId: workout.id,
+				date: workout.date,
+				sets: workout.exercises
+					.filter(exercise => exercise.definitionId === definitionId)
+					.flatMap(exercise =>
+						exercise.sets.map(set => ({
+							weight: Number(set.weight),
+							reps: set.reps,
+							distance: set.distance === null ? null : Number(set.distance),
+							durationSeconds: set.durationSeconds,
+						})),
+					),
+			}))
+			.filter(session => session.sets.length > 0);
+
+		const kind = kinds.get(definitionId) ?? ExerciseKind.WEIGHT_REPS;
+		findRecords(kind, sessions).forEach(record =>
+			rows.push({ ...record, userId, definitionId }),
+		);
+	});
+
+	if (rows.length > 0) {
+		await tx.personalRecord.createMany({ data: rows });
+	}
+};
+
+/**
+ * toRecordResponse
+ * Converts a record row into the shape sent to the frontend, with weights in the given unit.
+ */
+export const toRecordResponse = (
+	record: PersonalRecord,
+	unit: WeightUnit,
+): RecordResponse => ({
+	id: record.id,
+	type: record.type,
+	// Weight records convert to the unit; rep, distance, time and pace records don't
+	value: WEIGHT_RECORD_TYPES.includes(record.type)
+		? fromKg(record.value, unit)
+		: record.value,
+	weight: record.weight === null ? null : fromKg(record.weight, unit),
+	reps: record.reps,
+	isCurrent: record.isCurrent,
+	achievedAt: record.achievedAt.toISOString(),
+	definitionId: record.definitionId,
+	workoutId: record.workoutId,
+});
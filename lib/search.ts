@@ -0,0 +1,97 @@
+// lib/search.ts
+
+// A piece of a highlighted snippet; matched pieces are shown marked
+export type HighlightSegment = {
+	text: string; // Text of the piece
+	match: boolean; // Whether the piece matched a search term
+};
+
+// Fields of a workout that search looks at
+export type SearchField = 'exercise' | 'exerciseNotes' | 'notes' | 'tag';
+
+// Labels shown for each searched field
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+	exercise: 'Exercise',
+	exerciseNotes: 'Exercise notes',
+	notes: 'Notes',
+	tag: 'Tag',
+};
+
+// Longest query accepted, and the most terms searched for
+export const MAX_QUERY_LENGTH = 100;
+const MAX_TERMS = 8;
+
+// Length of a highlighted snippet, and how much text is kept before its first match
+const SNIPPET_LENGTH = 80;
+const SNIPPET_LEAD = 20;
+
+/**
+ * searchTerms
+ * Splits a query into distinct lowercase terms, dropping the characters
+ * MySQL's boolean full-text syntax treats as operators.
+ */
+export const searchTerms = (query: string): string[] =>
+	Array.from(
+		new Set(
+			query
+				.toLowerCase()
+				.split(/[\s+\-<>()~*"@]+/)
+				.filter(term => term !== ''),
+		),
+	).slice(0, MAX_TERMS);
+
+/**
+ * toBooleanQuery
+ * Builds a MySQL boolean-mode query matching any term as a word prefix,
+ * so results show up while a word is still being typed.
+ */
+export const toBooleanQuery = (terms: string[]): string =>
+	terms.map(term => `${term}*`).join(' ');
+
+/**
+ * escapeRegExp
+ * Escapes a term for use inside a regular expression.
+ */
+const escapeRegExp = (value: string): string =>
+	value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * highlight
+ * Cuts a snippet of the text around its first match and splits it into
+ * matched and unmatched pieces. Returns null if no term occurs in the text.
+ */
+export const highlight = (
+	text: string,
+	terms: string[],
+): HighlightSegment[] | null => {
+	if (terms.length === 0) return null;
+	const pattern = new RegExp(terms.map(escapeRegExp).join('|'), 'gi');
+
+	const first = text.search(pattern);
+	if (first < 0) return null;
+
+	// Keep long texts to a window starting shortly before the first match
+	const start =
+		text.length > SNIPPET_LENGTH ? Math.max(0, first - SNIPPET_LEAD) : 0;
+	const end = Math.min(text.length, start + SNIPPET_LENGTH);
+	const snippet = text.slice(start, end);
+
+	const segments: HighlightSegment[] = [];
+	if (start > 0) segments.push({ text: '…', match: false });
+
+	let last = 0;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(snippet)) !== null) {
+		if (match.index > last) {
+			segments.push({ text: snippet.slice(last, match.index), match: false });
+		}
+		segments.push({ text: match[0], match: true });
+		last = match.index + match[0].length;
+	}
+	if (last < snippet.length) {
+		segments.push({ text: snippet.slice(last), match: false });
+	}
+
+	if (end < text.length) segments.push({ text: '…', match: false });
+	return segments;
+};
@@ -0,0 +1,71 @@
+// lib/set-types.ts
+
+// Kinds of set; mirrors the SetType enum in the Prisma schema
+export type SetType = 'WARMUP' | 'WORKING' | 'DROP' | 'FAILURE' | 'AMRAP';
+export const SET_TYPES: SetType[] = [
+	'WORKING',
+	'WARMUP',
+	'DROP',
+	'FAILURE',
+	'AMRAP',
+];
+
+// Labels shown for each kind of set
+export const SET_TYPE_LABELS: Record<SetType, string> = {
+	WARMUP: 'Warm-up',
+	WORKING: 'Working',
+	DROP: 'Drop set',
+	FAILURE: 'To failure',
+	AMRAP: 'AMRAP',
+};
+
+// Define the optional effort fields of a set as sent to and from the API
+export type SetEffort = {
+	type?: SetType; // Kind of set; defaults to WORKING
+	rpe?: number | null; // Rate of perceived exertion, 1 to 10 in half steps
+	rir?: number | null; // Reps in reserve, 0 to 10
+};
+
+// Highest RPE and RIR accepted
+const MAX_RPE = 10;
+const MAX_RIR = 10;
+
+/**
+ * isSetType
+ * Checks that a value is one of the supported kinds of set.
+ */
+export const isSetType = (value: unknown): value is SetType =>
+	SET_TYPES.includes(value as SetType);
+
+/**
+ * isValidSetEffort
+ * Checks the optional type, RPE and RIR of a submitted set.
+ */
+export const isValidSetEffort = (set: SetEffort): boolean =>
+	(set.type === undefined || isSetType(set.type)) &&
+	(set.rpe === undefined ||
+		set.rpe === null ||
+		(typeof set.rpe === 'number' &&
+			Number.isInteger(set.rpe * 2) &&
+			set.rpe >= 1 &&
+			set.rpe <= MAX_RPE)) &&
+	(set.rir === undefined ||
+		set.rir === null ||
+		(typeof set.rir === 'number' &&
+			Number.isInteger(set.rir) &&
+			set.rir >= 0 &&
+			set.rir <= MAX_RIR));
+
+/**
+ * describeSetEffort
+ * Short note on a set's kind and effort for display, e.g. "Warm-up, RPE 8";
+ * empty for a plain working set.
+ */
+export const describeSetEffort = (set: SetEffort): string =>
+	[
+		set.type && set.type !== 'WORKING' ? SET_TYPE_LABELS[set.type] : null,
+		set.rpe != null ? `RPE ${set.rpe}` : null,
+		set.rir != null ? `RIR ${set.rir}` : null,
+	]
+		.filter(Boolean)
+		.join(', ');
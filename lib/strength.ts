@@ -0,0 +1,24 @@
+// lib/strength.ts
+
+// Formulas for estimating a one-rep max from a multi-rep set
+export type OneRepMaxFormula = 'epley' | 'brzycki';
+
+/**
+ * estimateOneRepMax
+ * Estimates a one-rep max from a set. A single rep is returned as is.
+ * Brzycki is undefined from 37 reps upwards, where it falls back to Epley.
+ */
+export const estimateOneRepMax = (
+	weight: number,
+	reps: number,
+	formula: OneRepMaxFormula = 'epley',
+): number => {
+	if (reps <= 0 || weight <= 0) return 0;
+	if (reps === 1) return weight;
+
+	if (formula === 'brzycki' && reps < 37) {
+		return (weight * 36) / (37 - reps);
+	}
+
+	return weight * (1 + reps / 30);
+};
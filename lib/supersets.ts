@@ -0,0 +1,184 @@
+// lib/supersets.ts
+
+// Define the grouping field of an exercise as sent to and from the API.
+// Exercises sharing a group index are done back to back as a superset or circuit.
+export type Groupable = {
+	groupIndex?: number | null; // Zero-based index of the exercise's group; null for straight sets
+};
+
+// Define a run of exercises shown together: a superset or circuit, or a single straight-set exercise
+export type ExerciseBlock<T> = {
+	groupIndex: number | null; // Group of the exercises; null for a single straight-set exercise
+	exercises: T[]; // Exercises of the block, in order
+};
+
+/**
+ * linkedToPrevious
+ * For each exercise, whether it is grouped with the exercise before it.
+ */
+export const linkedToPrevious = (exercises: Groupable[]): boolean[] =>
+	exercises.map(
+		(exercise, idx) =>
+			idx > 0 &&
+			exercise.groupIndex != null &&
+			exercise.groupIndex === exercises[idx - 1].groupIndex,
+	);
+
+/**
+ * groupIndexesFromLinks
+ * Numbers runs of linked exercises 0, 1, 2... in order; exercises on their own get null.
+ */
+export const groupIndexesFromLinks = (links: boolean[]): (number | null)[] => {
+	const indexes: (number | null)[] = links.map(() => null);
+	let nextGroup = 0;
+
+	links.forEach((linked, idx) => {
+		if (!linked || idx === 0) return;
+		if (indexes[idx - 1] === null) indexes[idx - 1] = nextGroup++; // Start a group at the previous exercise
+		indexes[idx] = indexes[idx - 1];
+	});
+
+	return indexes;
+};
+
+/**
+ * normalizeGroupIndexes
+ * Validates submitted group indexes and renumbers the groups in order; a group with
+ * a single exercise becomes straight sets. Returns null if an index is not a
+ * non-negative integer or a group's exercises are not adjacent.
+ */
+export const normalizeGroupIndexes = (
+	exercises: Groupable[],
+): (number | null)[] | null => {
+	const links: boolean[] = [];
+	const seenGroups = new Set<number>();
+
+	for (let idx = 0; idx < exercises.length; idx++) {
+		const groupIndex = exercises[idx].groupIndex;
+		if (groupIndex === undefined || groupIndex === null) {
+			links.push(false);
+			continue;
+		}
+		if (!Number.isInteger(groupIndex) || groupIndex < 0) return null;
+
+		const linked = idx > 0 && exercises[idx - 1].groupIndex === groupIndex;
+		if (!linked && seenGroups.has(groupIndex)) return null; // The group was split by another exercise
+		seenGroups.add(groupIndex);
+		links.push(linked);
+	}
+
+	return groupIndexesFromLinks(links);
+};
+
+/**
+ * groupLetter
+ * Letter naming a group: A for the first, B for the second, and so on.
+ */
+export const groupLetter = (groupIndex: number): string =>
+	String.fromCharCode(65 + (groupIndex % 26));
+
+/**
+ * groupKind
+ * Name of a group by its size: two exercises make a superset, more a circuit.
+ */
+export const groupKind = (size: number): string =>
+	size > 2 ? 'Circuit' : 'Superset';
+
+/**
+ * groupLabels
+ * Label of each exercise within its group (A1, A2, B1...); null for straight sets.
+ */
+export const groupLabels = (exercises: Groupable[]): (string | null)[] => {
+	const links = linkedToPrevious(exercises);
+	let member = 0;
+	return exercises.map((exercise, idx) => {
+		if (exercise.groupIndex == null) return null;
+		member = links[idx] ? member + 1 : 1;
+		return `${groupLetter(exercise.groupIndex)}${member}`;
+	});
+};
+
+/**
+ * toggleLinkWithPrevious
+ * Groups an exercise with the one before it, or splits it off, and renumbers the groups.
+ */
+export const toggleLinkWithPrevious = <T extends Groupable>(
+	exercises: T[],
+	index: number,
+): T[] => {
+	const links = linkedToPrevious(exercises);
+	links[index] = !links[index];
+	const groupIndexes = groupIndexesFromLinks(links);
+	return exercises.map((exercise, idx) => ({
+		...exercise,
+		groupIndex: groupIndexes[idx],
+	}));
+};
+
+/**
+ * moveExercise
+ * Swaps an exercise with its neighbour. Groups stay in place and the two exercises
+ * trade group slots, so moving past the edge of a group moves into or out of it.
+ */
+export const moveExercise = <T extends Groupable>(
+	exercises: T[],
+	index: number,
+	offset: -1 | 1,
+): T[] => {
+	const target = index + offset;
+	if (target < 0 || target >= exercises.length) return exercises;
+
+	const moved = [...exercises];
+	[moved[index], moved[target]] = [moved[target], moved[index]];
+	return moved.map((exercise, idx) => ({
+		...exercise,
+		groupIndex: exercises[idx].groupIndex,
+	}));
+};
+
+/**
+ * toExerciseBlocks
+ * Splits an ordered exercise list into blocks of grouped exercises and single exercises.
+ */
+export const toExerciseBlocks = <T extends Groupable>(
+	exercises: T[],
+): ExerciseBlock<T>[] => {
+	const blocks: ExerciseBlock<T>[] = [];
+	const links = linkedToPrevious(exercises);
+
+	exercises.forEach((exercise, idx) => {
+		if (links[idx]) {
+			blocks[blocks.length - 1].exercises.push(exercise);
+		} else {
+			blocks.push({
+				groupIndex: exercise.groupIndex ?? null,
+				exercises: [exercise],
+			});
+		}
+	});
+
+	return blocks;
+};
+
+/**
+ * interleaveRounds
+ * Orders the sets of grouped exercises as they were done: round 1 is the first set
+ * of each exercise, round 2 the second, and so on. Exercises with fewer sets drop out
+ * of the later rounds.
+ */
+export const interleaveRounds = <S>(
+	setLists: S[][],
+): { exerciseIndex: number; set: S }[][] => {
+	const roundCount = Math.max(0, ...setLists.map(sets => sets.length));
+	const rounds: { exerciseIndex: number; set: S }[][] = [];
+
+	for (let round = 0; round < roundCount; round++) {
+		rounds.push(
+			setLists
+				.map((sets, exerciseIndex) => ({ exerciseIndex, set: sets[round] }))
+				.filter(entry => entry.set !== undefined),
+		);
+	}
+
+	return rounds;
+};
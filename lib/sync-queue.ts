@@ -0,0 +1,328 @@
+// lib/sync-queue.ts
+
+// Sends API writes, or queues them in IndexedDB when the device is offline and
+// replays them in order once the connection returns. Import only from client components.
+
+import {
+	QueuedRequest,
+	addQueuedRequest,
+	listQueuedRequests,
+	removeQueuedRequest,
+	saveDraft,
+	updateQueuedRequest,
+} from './offline-store';
+import { WEIGHT_UNIT_HEADER, WeightUnit } from './units';
+
+// Window event fired whenever the queue changes, so indicators can refresh
+export const QUEUE_CHANGED_EVENT = 'sync-queue-changed';
+
+// Window event fired with the user's ID after signing in, so waiting writes can resume
+export const SIGNED_IN_EVENT = 'sync-queue-signed-in';
+
+// Define a write as passed in by pages
+export type OutgoingRequest = Pick<
+	QueuedRequest,
+	'url' | 'method' | 'body' | 'idempotencyKey' | 'description' | 'draft'
+>;
+
+// Define the signed-in account writes are queued for and replayed as
+export type QueueOwner = {
+	userId: number; // Signed-in user
+	weightUnit: WeightUnit; // Unit the user currently enters weights in
+};
+
+// Outcome of flushQueue: everything sent, or why it stopped early
+export type FlushResult = 'SENT' | 'OFFLINE' | 'SERVER_ERROR' | 'SIGNED_OUT';
+
+// The signed-in account, set by the offline banner from the layout; null while signed out
+let owner: QueueOwner | null = null;
+
+// Whether the server turned a replay away (401 or 403); nothing is sent until the owner is set again
+let sessionExpired = false;
+
+// Settles once the offline banner has said who is signed in; renewed on sign-out
+let resolveOwnerKnown: () => void = () => {};
+let ownerKnown = new Promise<void>(resolve => {
+	resolveOwnerKnown = resolve;
+});
+
+/**
+ * setQueueOwner
+ * Records who is signed in on this device. Only their queued writes are replayed,
+ * so writes queued by someone else wait until that person signs in again.
+ */
+export const setQueueOwner = (next: QueueOwner | null) => {
+	owner = next;
+	sessionExpired = false;
+	resolveOwnerKnown();
+};
+
+/**
+ * forgetQueueOwner
+ * Called on sign-out: nobody is signed in until the offline banner sets the next
+ * owner, and pages waiting for one wait for that.
+ */
+export const forgetQueueOwner = () => {
+	owner = null;
+	ownerKnown = new Promise<void>(resolve => {
+		resolveOwnerKnown = resolve;
+	});
+};
+
+/**
+ * waitForQueueOwner
+ * The signed-in account once the offline banner has set it, for pages that keep
+ * per-user data on the device and need to know whose it is when they mount.
+ */
+export const waitForQueueOwner = async (): Promise<QueueOwner | null> => {
+	await ownerKnown;
+	return owner;
+};
+
+/**
+ * announceSignedIn
+ * Tells the offline banner that a user signed in, so their waiting writes are sent.
+ */
+export const announceSignedIn = (userId: number) => {
+	window.dispatchEvent(
+		new CustomEvent<number>(SIGNED_IN_EVENT, { detail: userId }),
+	);
+};
+
+// Outcome of sendOrQueue: either the server answered, or the write was queued
+export type SendResult =
+	{ queued: false; response: Response } | { queued: true };
+
+/**
+ * createIdempotencyKey
+ * Random key identifying one logical save across retries.
+ */
+export const createIdempotencyKey = (): string => {
+	if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+
+	// randomUUID is missing outside secure contexts; fall back to random hex
+	const bytes = crypto.getRandomValues(new Uint8Array(16));
+	return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * send
+ * Performs a write against the API. Queued writes name the unit their weights are in.
+ */
+const send = (
+	request: OutgoingRequest & { weightUnit?: WeightUnit },
+): Promise<Response> =>
+	fetch(request.url, {
+		method: request.method,
+		headers: {
+			...(request.body !== undefined && { 'Content-Type': 'application/json' }),
+			...(request.idempotencyKey && {
+				'Idempotency-Key': request.idempotencyKey,
+			}),
+			...(request.weightUnit && { [WEIGHT_UNIT_HEADER]: request.weightUnit }),
+		},
+		body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+	});
+
+/**
+ * notifyQueueChanged
+ * Tells listeners such as the offline banner to reread the queue.
+ */
+const notifyQueueChanged = () => {
+	window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT));
+};
+
+/**
+ * queueRequest
+ * Appends a write to the queue, stamped with its owner and the unit its weights are in.
+ */
+const queueRequest = async (
+	request: OutgoingRequest,
+	queueOwner: QueueOwner,
+): Promise<void> => {
+	await addQueuedRequest({
+		...request,
+		userId: queueOwner.userId,
+		weightUnit: queueOwner.weightUnit,
+		createdAt: new Date().toISOString(),
+		attempts: 0,
+	});
+	notifyQueueChanged();
+};
+
+/**
+ * listOwnRequests
+ * The signed-in user's queued writes, oldest first; none while signed out.
+ */
+const listOwnRequests = async (): Promise<QueuedRequest[]> => {
+	const current = owner;
+	if (!current) return [];
+	return (await listQueuedRequests()).filter(
+		entry => entry.userId === current.userId,
+	);
+};
+
+/**
+ * listWaitingRequests
+ * The signed-in user's queued writes still to be sent: those the server rejected
+ * wait for the user instead.
+ */
+const listWaitingRequests = async (): Promise<QueuedRequest[]> =>
+	(await listOwnRequests()).filter(entry => !entry.error);
+
+/**
+ * readRejection
+ * The error message of a rejected write, or its status when the body has none.
+ */
+const readRejection = async (response: Response): Promise<string> => {
+	const data = await response.json().catch(() => null); // Not JSON; fall back to the status
+	return typeof data?.error === 'string'
+		? data.error
+		: `Rejected by the server (HTTP ${response.status})`;
+};
+
+/**
+ * sendOrQueue
+ * Sends a write right away when possible. When the device is offline or the
+ * request fails at the network level, the write is queued and sent later.
+ * Writes already waiting go first, so a new write never overtakes an older one.
+ * Nothing is queued while the signed-in user is unknown; the write is sent as is.
+ */
+export const sendOrQueue = async (
+	request: OutgoingRequest,
+): Promise<SendResult> => {
+	const queueOwner = owner;
+	if (!queueOwner) {
+		return { queued: false, response: await send(request) };
+	}
+
+	const pending = await listWaitingRequests();
+	if (!navigator.onLine || pending.length > 0) {
+		await queueRequest(request, queueOwner);
+		void flushQueue();
+		return { queued: true };
+	}
+
+	try {
+		return { queued: false, response: await send(request) };
+	} catch (error) {
+		// fetch rejects with a TypeError when the network is unreachable
+		if (!(error instanceof TypeError)) throw error;
+		await queueRequest(request, queueOwner);
+		return { queued: true };
+	}
+};
+
+// The flush in progress, so that only one runs at a time
+let activeFlush: Promise<FlushResult> | null = null;
+
+/**
+ * flushQueue
+ * Sends the signed-in user's queued writes in order. Stops at the first network
+ * failure or server error and leaves the rest for the next attempt. When the
+ * session has expired (401 or 403) everything stays queued until the user signs
+ * in again. Writes the server rejects as invalid (other 4xx) are kept with the
+ * server's error for the user to retry, edit or discard, and the rest carry on.
+ */
+export const flushQueue = (): Promise<FlushResult> => {
+	if (!activeFlush) {
+		activeFlush = (async (): Promise<FlushResult> => {
+			try {
+				if (!owner || sessionExpired) return 'SIGNED_OUT';
+
+				const entries = await listWaitingRequests();
+				for (const entry of entries) {
+					let response: Response;
+					try {
+						response = await send(entry);
+					} catch (error) {
+						if (!(error instanceof TypeError)) throw error;
+						return 'OFFLINE'; // Still offline
+					}
+
+					if (response.status === 401 || response.status === 403) {
+						sessionExpired = true;
+						return 'SIGNED_OUT'; // Keep the write for when the user signs in again
+					}
+
+					if (response.status >= 500) {
+						await updateQueuedRequest({
+							...entry,
+							attempts: entry.attempts + 1,
+						});
+						return 'SERVER_ERROR'; // Try again later
+					}
+
+					if (!response.ok) {
+						await updateQueuedRequest({
+							...entry,
+							attempts: entry.attempts + 1,
+							error: await readRejection(response),
+						});
+						notifyQueueChanged();
+						continue; // Keep the write for the user to fix
+					}
+
+					await removeQueuedRequest(entry.id!);
+					notifyQueueChanged();
+				}
+				return 'SENT';
+			} finally {
+				activeFlush = null;
+			}
+		})();
+	}
+
+	return activeFlush;
+};
+
+/**
+ * countQueuedRequests
+ * Number of the signed-in user's writes waiting to be sent.
+ */
+export const countQueuedRequests = async (): Promise<number> =>
+	(await listWaitingRequests()).length;
+
+/**
+ * listRejectedRequests
+ * The signed-in user's queued writes the server rejected, oldest first.
+ */
+export const listRejectedRequests = async (): Promise<QueuedRequest[]> =>
+	(await listOwnRequests()).filter(entry => !!entry.error);
+
+/**
+ * retryRejectedRequest
+ * Puts a rejected write back in line and sends the queue again.
+ */
+export const retryRejectedRequest = async (
+	entry: QueuedRequest,
+): Promise<FlushResult> => {
+	await updateQueuedRequest({ ...entry, error: null });
+	notifyQueueChanged();
+	return flushQueue();
+};
+
+/**
+ * discardRejectedRequest
+ * Drops a rejected write for good.
+ */
+export const discardRejectedRequest = async (
+	entry: QueuedRequest,
+): Promise<void> => {
+	await removeQueuedRequest(entry.id!);
+	notifyQueueChanged();
+};
+
+/**
+ * editRejectedRequest
+ * Puts the form a rejected write was made from back as its draft and drops the
+ * write; the form saves it again. Returns the page of the form.
+ */
+export const editRejectedRequest = async (
+	entry: QueuedRequest,
+): Promise<string> => {
+	if (!entry.draft) throw new Error('This change cannot be edited');
+	await saveDraft(entry.draft.key, entry.draft.value);
+	await discardRejectedRequest(entry);
+	return entry.draft.path;
+};
@@ -0,0 +1,143 @@
+// lib/templates.ts
+
+import { Prisma } from '@prisma/client';
+import {
+	normalizeExerciseName,
+	resolveExerciseDefinitions,
+} from './exercise-catalog';
+import { WeightUnit, fromKg, toKg } from './units';
+
+// Define the structure of a template sent to the frontend
+export type TemplateResponse = {
+	id: number; // Unique identifier for the template
+	name: string; // Name of the routine
+	unit: WeightUnit; // Unit of every target weight
+	updatedAt: string; // ISO string of the last change
+	exercises: {
+		id: number; // Unique identifier for the planned exercise
+		name: string; // Name of the exercise
+		definitionId: number | null; // Catalog entry for the exercise
+		sets: {
+			id: number; // Unique identifier for the target set
+			reps: number; // Target number of repetitions
+			weight: number; // Target weight, in the user's unit
+		}[];
+	}[];
+};
+
+// Define the structure of a template received from the frontend
+export type TemplateInput = {
+	name: string; // Name of the routine
+	exercises: {
+		name: string; // Name of the exercise
+		sets: {
+			reps: number; // Target number of repetitions
+			weight: number; // Target weight, in the user's unit
+		}[];
+	}[];
+};
+
+// Nested include that loads a template with its exercises and sets in order
+export const TEMPLATE_INCLUDE = {
+	exercises: {
+		orderBy: { position: 'asc' },
+		include: { sets: { orderBy: { position: 'asc' } } },
+	},
+} satisfies Prisma.WorkoutTemplateInclude;
+
+// A template row loaded with TEMPLATE_INCLUDE
+type TemplateWithExercises = Prisma.WorkoutTemplateGetPayload<{
+	include: typeof TEMPLATE_INCLUDE;
+}>;
+
+/**
+ * isValidTemplateInput
+ * Checks the shape of a template submitted for create or update.
+ * Templates may be empty, but every planned exercise needs a name and valid target sets.
+ */
+export const isValidTemplateInput = (
+	input: unknown,
+): input is TemplateInput => {
+	if (!input || typeof input !== 'object') return false;
+	const candidate = input as Record<string, unknown>;
+
+	return (
+		typeof candidate.name === 'string' &&
+		candidate.name.trim() !== '' &&
+		Array.isArray(candidate.exercises) &&
+		candidate.exercises.every(
+			exercise =>
+				exercise &&
+				typeof exercise.name === 'string' &&
+				exercise.name.trim() !== '' &&
+				Array.isArray(exercise.sets) &&
+				exercise.sets.every(
+					(set: { reps: unknown; weight: unknown }) =>
+						set &&
+						typeof set.reps === 'number' &&
+						typeof set.weight === 'number' &&
+						Number.isInteger(set.reps) &&
+						Number.isFinite(set.weight) &&
+						set.reps >= 0 &&
+						set.weight >= 0,
+				),
+		)
+	);
+};
+
+/**
+ * buildTemplateExercises
+ * Turns submitted exercises into nested create data, linking each one to its
+ * catalog entry and storing target weights in kilograms.
+ */
+export const buildTemplateExercises = async (
+	tx: Prisma.TransactionClient,
+	exercises: TemplateInput['exercises'],
+	unit: WeightUnit,
+): Promise<Prisma.TemplateExerciseCreateWithoutTemplateInput[]> => {
+	const definitions = await resolveExerciseDefinitions(
+		tx,
+		exercises.map(exercise => exercise.name),
+	);
+
+	return exercises.map((exercise, position) => {
+		const definition = definitions.get(normalizeExerciseName(exercise.name))!;
+
+		return {
+			name: definition.name,
+			definition: { connect: { id: definition.id } },
+			position,
+			sets: {
+				create: exercise.sets.map((set, setPosition) => ({
+					reps: set.reps,
+					weight: toKg(set.weight, unit),
+					position: setPosition,
+				})),
+			},
+		};
+	});
+};
+
+/**
+ * toTemplateResponse
+ * Converts a template row into the shape sent to the frontend, with weights in the given unit.
+ */
+export const toTemplateResponse = (
+	template: TemplateWithExercises,
+	unit: WeightUnit,
+): TemplateResponse => ({
+	id: template.id,
+	name: template.name,
+	unit,
+	updatedAt: template.updatedAt.toISOString(),
+	exercises: template.exercises.map(exercise => ({
+		id: exercise.id,
+		name: exercise.name,
+		definitionId: exercise.definitionId,
+		sets: exercise.sets.map(set => ({
+			id: set.id,
+			reps: set.reps,
+			weight: fromKg(Number(set.weight), unit),
+		})),
+	})),
+});
@@ -0,0 +1,51 @@
+// lib/trash.ts
+
+import type { Prisma } from '@prisma/client';
+
+// Days a deleted workout stays in the trash before it is purged for good
+export const TRASH_RETENTION_DAYS = 30;
+
+// Window event fired when a workout is moved to the trash, so the undo toast can offer it back
+export const WORKOUT_TRASHED_EVENT = 'workout-trashed';
+
+// Milliseconds in a day
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * purgeDate
+ * When a workout moved to the trash at the given time is purged.
+ */
+export const purgeDate = (deletedAt: Date): Date =>
+	new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+
+/**
+ * announceTrashed
+ * Tells listeners such as the undo toast that a workout was moved to the trash.
+ * Call it from client components only.
+ */
+export const announceTrashed = (workoutId: number) => {
+	window.dispatchEvent(
+		new CustomEvent<number>(WORKOUT_TRASHED_EVENT, { detail: workoutId }),
+	);
+};
+
+/**
+ * purgeExpiredWorkouts
+ * Permanently deletes a user's workouts that have been in the trash longer than the
+ * retention period, with their exercises and sets. Records never count trashed
+ * workouts, so none need rebuilding. Returns the number of workouts purged.
+ * Runs whenever the user reads their workouts (list, single workout, calendar,
+ * export) or opens the trash, and when a workout is deleted.
+ */
+export const purgeExpiredWorkouts = async (
+	tx: Prisma.TransactionClient,
+	userId: number,
+): Promise<number> => {
+	const { count } = await tx.workout.deleteMany({
+		where: {
+			userId,
+			deletedAt: { lt: new Date(Date.now() - TRASH_RETENTION_DAYS * DAY_MS) },
+		},
+	});
+	return count;
+};
@@ -0,0 +1,99 @@
+// lib/units.ts
+
+// Units a weight can be entered and shown in; mirrors the WeightUnit enum in the Prisma schema
+export type WeightUnit = 'KG' | 'LB';
+
+// Accepted values of a weight unit
+export const WEIGHT_UNITS: WeightUnit[] = ['KG', 'LB'];
+
+// Request header naming the unit the weights of a request body were entered in, for writes
+// queued offline and sent after the user may have switched units
+export const WEIGHT_UNIT_HEADER = 'X-Weight-Unit';
+
+// Exact definition of the international pound
+const KG_PER_LB = 0.45359237;
+
+// Exact definition of the international inch
+const CM_PER_IN = 2.54;
+
+/**
+ * isWeightUnit
+ * Checks that a value is a supported weight unit.
+ */
+export const isWeightUnit = (value: unknown): value is WeightUnit =>
+	WEIGHT_UNITS.includes(value as WeightUnit);
+
+/**
+ * requestWeightUnit
+ * Unit the weights of a request were entered in: its X-Weight-Unit header when that
+ * names a supported unit, or else the user's current unit.
+ */
+export const requestWeightUnit = (
+	headers: Headers,
+	fallback: WeightUnit,
+): WeightUnit => {
+	const unit = headers.get(WEIGHT_UNIT_HEADER);
+	return isWeightUnit(unit) ? unit : fallback;
+};
+
+/**
+ * unitLabel
+ * Short label of a unit for display (kg or lb).
+ */
+export const unitLabel = (unit: WeightUnit): string =>
+	unit === 'LB' ? 'lb' : 'kg';
+
+/**
+ * toKg
+ * Converts a weight entered in the given unit to kilograms for storage,
+ * rounded to the four decimals the weight column keeps.
+ */
+export const toKg = (weight: number, unit: WeightUnit): number => {
+	const weightKg = unit === 'LB' ? weight * KG_PER_LB : weight;
+	return Math.round(weightKg * 10000) / 10000;
+};
+
+/**
+ * fromKg
+ * Converts a stored weight in kilograms to the given unit, rounded to two decimals
+ * so that e.g. 22.5 lb survives the round trip through storage.
+ */
+export const fromKg = (weightKg: number, unit: WeightUnit): number => {
+	const weight = unit === 'LB' ? weightKg / KG_PER_LB : weightKg;
+	return Math.round(weight * 100) / 100;
+};
+
+/**
+ * formatWeight
+ * Formats a weight or volume for display, e.g. "102.5 kg".
+ */
+export const formatWeight = (value: number, unit: WeightUnit): string =>
+	`${Math.round(value * 100) / 100} ${unitLabel(unit)}`;
+
+/**
+ * girthLabel
+ * Short label of the length unit girths are shown in for a weight unit:
+ * centimetres alongside kilograms, inches alongside pounds.
+ */
+export const girthLabel = (unit: WeightUnit): string =>
+	unit === 'LB' ? 'in' : 'cm';
+
+/**
+ * toCm
+ * Converts a girth entered in the length unit of the given weight unit to centimetres
+ * for storage, rounded to the four decimals the girth columns keep.
+ */
+export const toCm = (girth: number, unit: WeightUnit): number => {
+	const girthCm = unit === 'LB' ? girth * CM_PER_IN : girth;
+	return Math.round(girthCm * 10000) / 10000;
+};
+
+/**
+ * fromCm
+ * Converts a stored girth in centimetres to the length unit of the given weight unit,
+ * rounded to two decimals.
+ */
+export const fromCm = (girthCm: number, unit: WeightUnit): number => {
+	const girth = unit === 'LB' ? girthCm / CM_PER_IN : girthCm;
+	return Math.round(girth * 100) / 100;
+};
@@ -0,0 +1,40 @@
+// lib/workout-totals.ts
+
+import { Prisma, SetType } from '@prisma/client';
+import { setVolume } from './exercise-kinds';
+
+/**
+ * refreshWorkoutTotals
+ * Recomputes the stored set count and volume of a workout from its sets.
+ * Every set is counted, but warm-up sets are left out of the volume, and only
+ * weighted exercises count towards it (see setVolume).
+ * The totals are stored so the workout list can filter and sort by them in SQL;
+ * call this inside any transaction that changes a workout's sets.
+ */
+export const refreshWorkoutTotals = async (
+	tx: Prisma.TransactionClient,
+	workoutId: number,
+): Promise<void> => {
+	const sets = await tx.set.findMany({
+		where: { exercise: { workoutId } },
+		select: {
+			weight: true,
+			reps: true,
+			type: true,
+			exercise: { select: { kind: true } },
+		},
+	});
+	const volumeSets = sets.filter(set => set.type !== SetType.WARMUP);
+
+	await tx.workout.update({
+		where: { id: workoutId },
+		data: {
+			setCount: sets.length,
+			totalVolume: volumeSets.reduce(
+				(total, set) =>
+					total + setVolume(set.exercise.kind, Number(set.weight), set.reps),
+				0,
+			),
+		},
+	});
+};
@@ -0,0 +1,31 @@
+// middleware.ts
+
+import { NextRequest, NextResponse } from 'next/server'; // Import Next.js server utilities
+
+// Name of the session cookie set by lib/auth.ts (not imported: that module needs the Node.js runtime)
+const SESSION_COOKIE = 'session';
+
+// Pages that can be visited without signing in
+const PUBLIC_PATHS = ['/sign-in', '/sign-up'];
+
+/**
+ * middleware
+ * Sends visitors without a session cookie to the sign-in page.
+ * The session itself is validated by the API routes, which return 401 when it is not.
+ */
+export function middleware(request: NextRequest) {
+	const { pathname, search } = request.nextUrl;
+
+	if (PUBLIC_PATHS.includes(pathname) || request.cookies.has(SESSION_COOKIE)) {
+		return NextResponse.next();
+	}
+
+	const signInUrl = new URL('/sign-in', request.url);
+	signInUrl.searchParams.set('next', `${pathname}${search}`); // Return here after signing in
+	return NextResponse.redirect(signInUrl);
+}
+
+// Run on pages only; API routes, static assets and the service worker handle themselves
+export const config = {
+	matcher: ['/((?!api|_next/static|_next/image|favicon.ico|sw.js).*)'],
+};
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE `exercises` ADD COLUMN `position` INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE `sets` ADD COLUMN `position` INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill: number existing exercises within each workout in insertion order
+UPDATE `exercises` e
+JOIN (
+    SELECT `id`, ROW_NUMBER() OVER (PARTITION BY `workoutId` ORDER BY `id`) - 1 AS `pos`
+    FROM `exercises`
+) r ON e.`id` = r.`id`
+SET e.`position` = r.`pos`;
+
+-- Backfill: number existing sets within each exercise in insertion order
+UPDATE `sets` s
+JOIN (
+    SELECT `id`, ROW_NUMBER() OVER (PARTITION BY `exerciseId` ORDER BY `id`) - 1 AS `pos`
+    FROM `sets`
+) r ON s.`id` = r.`id`
+SET s.`position` = r.`pos`;
@@ -0,0 +1,83 @@
+-- AlterTable
+ALTER TABLE `exercises` ADD COLUMN `definitionId` INTEGER NULL;
+
+-- CreateTable
+CREATE TABLE `exercise_definitions` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(191) NOT NULL,
+    `aliases` JSON NOT NULL,
+    `primaryMuscles` JSON NOT NULL,
+    `secondaryMuscles` JSON NOT NULL,
+    `equipment` VARCHAR(191) NULL,
+    `movementPattern` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `exercise_definitions_name_key`(`name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `exercises` ADD CONSTRAINT `exercises_definitionId_fkey` FOREIGN KEY (`definitionId`) REFERENCES `exercise_definitions`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Seed the catalog
+INSERT INTO `exercise_definitions` (`name`, `aliases`, `primaryMuscles`, `secondaryMuscles`, `equipment`, `movementPattern`) VALUES
+    ('Squat', JSON_ARRAY('back squat', 'barbell squat', 'high bar squat'), JSON_ARRAY('quads', 'glutes'), JSON_ARRAY('hamstrings', 'lower back'), 'barbell', 'squat'),
+    ('Front Squat', JSON_ARRAY('barbell front squat'), JSON_ARRAY('quads'), JSON_ARRAY('glutes', 'abs'), 'barbell', 'squat'),
+    ('Goblet Squat', JSON_ARRAY(), JSON_ARRAY('quads', 'glutes'), JSON_ARRAY('abs'), 'dumbbell', 'squat'),
+    ('Leg Press', JSON_ARRAY(), JSON_ARRAY('quads', 'glutes'), JSON_ARRAY('hamstrings'), 'machine', 'squat'),
+    ('Bulgarian Split Squat', JSON_ARRAY('split squat', 'rear foot elevated split squat'), JSON_ARRAY('quads', 'glutes'), JSON_ARRAY('hamstrings'), 'dumbbell', 'lunge'),
+    ('Lunge', JSON_ARRAY('walking lunge', 'lunges'), JSON_ARRAY('quads', 'glutes'), JSON_ARRAY('hamstrings'), 'dumbbell', 'lunge'),
+    ('Deadlift', JSON_ARRAY('conventional deadlift', 'barbell deadlift'), JSON_ARRAY('hamstrings', 'glutes', 'lower back'), JSON_ARRAY('traps', 'forearms', 'quads'), 'barbell', 'hinge'),
+    ('Sumo Deadlift', JSON_ARRAY(), JSON_ARRAY('glutes', 'quads', 'hamstrings'), JSON_ARRAY('lower back', 'traps'), 'barbell', 'hinge'),
+    ('Romanian Deadlift', JSON_ARRAY('rdl', 'stiff leg deadlift'), JSON_ARRAY('hamstrings', 'glutes'), JSON_ARRAY('lower back'), 'barbell', 'hinge'),
+    ('Hip Thrust', JSON_ARRAY('barbell hip thrust'), JSON_ARRAY('glutes'), JSON_ARRAY('hamstrings'), 'barbell', 'hinge'),
+    ('Leg Curl', JSON_ARRAY('lying leg curl', 'seated leg curl', 'hamstring curl'), JSON_ARRAY('hamstrings'), JSON_ARRAY(), 'machine', 'isolation'),
+    ('Leg Extension', JSON_ARRAY(), JSON_ARRAY('quads'), JSON_ARRAY(), 'machine', 'isolation'),
+    ('Standing Calf Raise', JSON_ARRAY('calf raise'), JSON_ARRAY('calves'), JSON_ARRAY(), 'machine', 'isolation'),
+    ('Bench Press', JSON_ARRAY('bench', 'flat bench', 'barbell bench press', 'flat bench press'), JSON_ARRAY('chest'), JSON_ARRAY('triceps', 'shoulders'), 'barbell', 'horizontal push'),
+    ('Incline Bench Press', JSON_ARRAY('incline bench', 'incline press'), JSON_ARRAY('chest', 'shoulders'), JSON_ARRAY('triceps'), 'barbell', 'horizontal push'),
+    ('Dumbbell Bench Press', JSON_ARRAY('db bench', 'dumbbell press'), JSON_ARRAY('chest'), JSON_ARRAY('triceps', 'shoulders'), 'dumbbell', 'horizontal push'),
+    ('Dip', JSON_ARRAY('dips', 'chest dip', 'tricep dip'), JSON_ARRAY('chest', 'triceps'), JSON_ARRAY('shoulders'), 'bodyweight', 'vertical push'),
+    ('Push-Up', JSON_ARRAY('push up', 'pushup', 'push-ups'), JSON_ARRAY('chest'), JSON_ARRAY('triceps', 'shoulders', 'abs'), 'bodyweight', 'horizontal push'),
+    ('Overhead Press', JSON_ARRAY('ohp', 'military press', 'press', 'standing press', 'shoulder press'), JSON_ARRAY('shoulders'), JSON_ARRAY('triceps', 'traps'), 'barbell', 'vertical push'),
+    ('Dumbbell Shoulder Press', JSON_ARRAY('db shoulder press', 'seated dumbbell press'), JSON_ARRAY('shoulders'), JSON_ARRAY('triceps'), 'dumbbell', 'vertical push'),
+    ('Lateral Raise', JSON_ARRAY('side raise', 'lateral raises'), JSON_ARRAY('shoulders'), JSON_ARRAY(), 'dumbbell', 'isolation'),
+    ('Barbell Row', JSON_ARRAY('bent over row', 'bb row', 'pendlay row'), JSON_ARRAY('back', 'lats'), JSON_ARRAY('biceps', 'lower back'), 'barbell', 'horizontal pull'),
+    ('Dumbbell Row', JSON_ARRAY('one arm row', 'db row'), JSON_ARRAY('lats', 'back'), JSON_ARRAY('biceps'), 'dumbbell', 'horizontal pull'),
+    ('Seated Cable Row', JSON_ARRAY('cable row'), JSON_ARRAY('back', 'lats'), JSON_ARRAY('biceps'), 'cable', 'horizontal pull'),
+    ('Pull-Up', JSON_ARRAY('pull up', 'pullup', 'pull-ups'), JSON_ARRAY('lats'), JSON_ARRAY('biceps', 'back'), 'bodyweight', 'vertical pull'),
+    ('Chin-Up', JSON_ARRAY('chin up', 'chinup'), JSON_ARRAY('lats', 'biceps'), JSON_ARRAY('back'), 'bodyweight', 'vertical pull'),
+    ('Lat Pulldown', JSON_ARRAY('pulldown', 'lat pull down'), JSON_ARRAY('lats'), JSON_ARRAY('biceps'), 'cable', 'vertical pull'),
+    ('Face Pull', JSON_ARRAY(), JSON_ARRAY('shoulders', 'traps'), JSON_ARRAY('back'), 'cable', 'horizontal pull'),
+    ('Shrug', JSON_ARRAY('barbell shrug', 'shrugs'), JSON_ARRAY('traps'), JSON_ARRAY('forearms'), 'barbell', 'isolation'),
+    ('Barbell Curl', JSON_ARRAY('curl', 'bicep curl', 'biceps curl'), JSON_ARRAY('biceps'), JSON_ARRAY('forearms'), 'barbell', 'isolation'),
+    ('Dumbbell Curl', JSON_ARRAY('db curl'), JSON_ARRAY('biceps'), JSON_ARRAY('forearms'), 'dumbbell', 'isolation'),
+    ('Hammer Curl', JSON_ARRAY(), JSON_ARRAY('biceps', 'forearms'), JSON_ARRAY(), 'dumbbell', 'isolation'),
+    ('Triceps Pushdown', JSON_ARRAY('tricep pushdown', 'pushdown', 'rope pushdown'), JSON_ARRAY('triceps'), JSON_ARRAY(), 'cable', 'isolation'),
+    ('Skull Crusher', JSON_ARRAY('lying triceps extension', 'skullcrusher'), JSON_ARRAY('triceps'), JSON_ARRAY(), 'barbell', 'isolation'),
+    ('Plank', JSON_ARRAY(), JSON_ARRAY('abs'), JSON_ARRAY('shoulders'), 'bodyweight', 'core'),
+    ('Hanging Leg Raise', JSON_ARRAY('leg raise'), JSON_ARRAY('abs'), JSON_ARRAY(), 'bodyweight', 'core'),
+    ('Cable Crunch', JSON_ARRAY(), JSON_ARRAY('abs'), JSON_ARRAY(), 'cable', 'core');
+
+-- Map existing free-text names onto catalog entries by name (the column collation is case-insensitive)
+UPDATE `exercises` e
+JOIN `exercise_definitions` d ON d.`name` = TRIM(e.`name`)
+SET e.`definitionId` = d.`id`, e.`name` = d.`name`;
+
+-- Then by alias (aliases are stored in lowercase)
+UPDATE `exercises` e
+JOIN `exercise_definitions` d ON JSON_CONTAINS(d.`aliases`, JSON_QUOTE(LOWER(TRIM(e.`name`))))
+SET e.`definitionId` = d.`id`, e.`name` = d.`name`
+WHERE e.`definitionId` IS NULL;
+
+-- Add a bare catalog entry for every remaining name so no exercise is left unmapped
+INSERT INTO `exercise_definitions` (`name`, `aliases`, `primaryMuscles`, `secondaryMuscles`)
+SELECT MIN(TRIM(e.`name`)), JSON_ARRAY(), JSON_ARRAY(), JSON_ARRAY()
+FROM `exercises` e
+WHERE e.`definitionId` IS NULL
+GROUP BY LOWER(TRIM(e.`name`));
+
+UPDATE `exercises` e
+JOIN `exercise_definitions` d ON d.`name` = TRIM(e.`name`)
+SET e.`definitionId` = d.`id`, e.`name` = d.`name`
+WHERE e.`definitionId` IS NULL;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE `personal_records` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `type` ENUM('HEAVIEST_WEIGHT', 'MOST_REPS_AT_WEIGHT', 'BEST_E1RM', 'BEST_SESSION_VOLUME') NOT NULL,
+    `value` DOUBLE NOT NULL,
+    `weight` DOUBLE NULL,
+    `reps` INTEGER NULL,
+    `isCurrent` BOOLEAN NOT NULL DEFAULT false,
+    `achievedAt` DATETIME(3) NOT NULL,
+    `userId` INTEGER NOT NULL,
+    `definitionId` INTEGER NOT NULL,
+    `workoutId` INTEGER NOT NULL,
+
+    INDEX `personal_records_userId_definitionId_idx`(`userId`, `definitionId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `personal_records` ADD CONSTRAINT `personal_records_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `personal_records` ADD CONSTRAINT `personal_records_definitionId_fkey` FOREIGN KEY (`definitionId`) REFERENCES `exercise_definitions`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `personal_records` ADD CONSTRAINT `personal_records_workoutId_fkey` FOREIGN KEY (`workoutId`) REFERENCES `workouts`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
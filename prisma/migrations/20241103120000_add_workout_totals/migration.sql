@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE `workouts` ADD COLUMN `setCount` INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN `totalVolume` DOUBLE NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX `workouts_userId_totalVolume_idx` ON `workouts`(`userId`, `totalVolume`);
+
+-- Backfill the totals of existing workouts
+UPDATE `workouts` w
+JOIN (
+    SELECT e.`workoutId`, COUNT(s.`id`) AS `setCount`, COALESCE(SUM(s.`weight` * s.`reps`), 0) AS `totalVolume`
+    FROM `exercises` e
+    JOIN `sets` s ON s.`exerciseId` = e.`id`
+    GROUP BY e.`workoutId`
+) t ON t.`workoutId` = w.`id`
+SET w.`setCount` = t.`setCount`, w.`totalVolume` = t.`totalVolume`;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE `users` ADD COLUMN `weightUnit` ENUM('KG', 'LB') NOT NULL DEFAULT 'KG';
+
+-- AlterTable
+-- Existing integer weights were logged in kilograms and convert to DECIMAL without loss
+ALTER TABLE `sets` MODIFY `weight` DECIMAL(10, 4) NOT NULL;
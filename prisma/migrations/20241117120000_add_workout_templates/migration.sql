@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE `workout_templates` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `userId` INTEGER NOT NULL,
+
+    UNIQUE INDEX `workout_templates_userId_name_key`(`userId`, `name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `template_exercises` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(191) NOT NULL,
+    `position` INTEGER NOT NULL DEFAULT 0,
+    `definitionId` INTEGER NULL,
+    `templateId` INTEGER NOT NULL,
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `template_sets` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `reps` INTEGER NOT NULL,
+    `weight` DECIMAL(10, 4) NOT NULL,
+    `position` INTEGER NOT NULL DEFAULT 0,
+    `templateExerciseId` INTEGER NOT NULL,
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `workout_templates` ADD CONSTRAINT `workout_templates_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `template_exercises` ADD CONSTRAINT `template_exercises_definitionId_fkey` FOREIGN KEY (`definitionId`) REFERENCES `exercise_definitions`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `template_exercises` ADD CONSTRAINT `template_exercises_templateId_fkey` FOREIGN KEY (`templateId`) REFERENCES `workout_templates`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `template_sets` ADD CONSTRAINT `template_sets_templateExerciseId_fkey` FOREIGN KEY (`templateExerciseId`) REFERENCES `template_exercises`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `workouts` ADD COLUMN `idempotencyKey` VARCHAR(64) NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `workouts_userId_idempotencyKey_key` ON `workouts`(`userId`, `idempotencyKey`);
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE `workouts` ADD COLUMN `startedAt` DATETIME(3) NULL,
+    ADD COLUMN `endedAt` DATETIME(3) NULL;
+
+-- AlterTable
+ALTER TABLE `sets` ADD COLUMN `completedAt` DATETIME(3) NULL;
+
+-- AlterTable
+ALTER TABLE `exercise_definitions` ADD COLUMN `restSeconds` INTEGER NULL;
+
+-- Default rest times: long for heavy barbell compounds, short for isolation work
+UPDATE `exercise_definitions` SET `restSeconds` = 180
+    WHERE `equipment` = 'barbell' AND `movementPattern` IN ('squat', 'hinge', 'horizontal push', 'vertical push');
+UPDATE `exercise_definitions` SET `restSeconds` = 60
+    WHERE `movementPattern` = 'isolation';
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE `sets` ADD COLUMN `type` ENUM('WARMUP', 'WORKING', 'DROP', 'FAILURE', 'AMRAP') NOT NULL DEFAULT 'WORKING',
+    ADD COLUMN `rpe` DOUBLE NULL,
+    ADD COLUMN `rir` INTEGER NULL;
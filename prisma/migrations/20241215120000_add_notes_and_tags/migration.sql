@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE `workouts` ADD COLUMN `notes` TEXT NULL;
+
+-- AlterTable
+ALTER TABLE `exercises` ADD COLUMN `notes` TEXT NULL;
+
+-- AlterTable
+ALTER TABLE `sets` ADD COLUMN `notes` TEXT NULL;
+
+-- CreateTable
+CREATE TABLE `workout_tags` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(32) NOT NULL,
+    `workoutId` INTEGER NOT NULL,
+
+    INDEX `workout_tags_name_idx`(`name`),
+    UNIQUE INDEX `workout_tags_workoutId_name_key`(`workoutId`, `name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `workout_tags` ADD CONSTRAINT `workout_tags_workoutId_fkey` FOREIGN KEY (`workoutId`) REFERENCES `workouts`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
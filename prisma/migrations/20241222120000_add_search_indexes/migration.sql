@@ -0,0 +1,8 @@
+-- CreateIndex
+CREATE FULLTEXT INDEX `workouts_notes_idx` ON `workouts`(`notes`);
+
+-- CreateIndex
+CREATE FULLTEXT INDEX `exercises_name_notes_idx` ON `exercises`(`name`, `notes`);
+
+-- CreateIndex
+CREATE FULLTEXT INDEX `workout_tags_name_fulltext` ON `workout_tags`(`name`);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `exercises` ADD COLUMN `groupIndex` INTEGER NULL;
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE `exercise_definitions` ADD COLUMN `kind` ENUM('WEIGHT_REPS', 'REPS', 'BODYWEIGHT', 'DISTANCE_DURATION', 'DURATION') NOT NULL DEFAULT 'WEIGHT_REPS';
+
+-- AlterTable
+ALTER TABLE `exercises` ADD COLUMN `kind` ENUM('WEIGHT_REPS', 'REPS', 'BODYWEIGHT', 'DISTANCE_DURATION', 'DURATION') NOT NULL DEFAULT 'WEIGHT_REPS';
+
+-- AlterTable
+ALTER TABLE `sets` ADD COLUMN `distance` DECIMAL(10, 2) NULL,
+    ADD COLUMN `durationSeconds` INTEGER NULL;
+
+-- AlterTable
+ALTER TABLE `personal_records` MODIFY `type` ENUM('HEAVIEST_WEIGHT', 'MOST_REPS_AT_WEIGHT', 'BEST_E1RM', 'BEST_SESSION_VOLUME', 'LONGEST_DISTANCE', 'LONGEST_DURATION', 'BEST_PACE') NOT NULL;
+
+-- Classify the bodyweight and timed lifts of the catalog
+UPDATE `exercise_definitions` SET `kind` = 'BODYWEIGHT'
+    WHERE `name` IN ('Dip', 'Pull-Up', 'Chin-Up');
+UPDATE `exercise_definitions` SET `kind` = 'REPS'
+    WHERE `name` IN ('Push-Up', 'Hanging Leg Raise');
+UPDATE `exercise_definitions` SET `kind` = 'DURATION'
+    WHERE `name` = 'Plank';
+
+-- Seed common cardio (names already added as bare entries keep their row and become cardio)
+INSERT IGNORE INTO `exercise_definitions` (`name`, `aliases`, `primaryMuscles`, `secondaryMuscles`, `equipment`, `movementPattern`) VALUES
+    ('Running', JSON_ARRAY('run', 'jog', 'jogging', 'treadmill'), JSON_ARRAY(), JSON_ARRAY(), NULL, 'cardio'),
+    ('Rowing', JSON_ARRAY('rower', 'row erg', 'erg', 'rowing machine'), JSON_ARRAY(), JSON_ARRAY(), 'machine', 'cardio'),
+    ('Cycling', JSON_ARRAY('bike', 'stationary bike', 'spin bike'), JSON_ARRAY(), JSON_ARRAY(), NULL, 'cardio');
+UPDATE `exercise_definitions` SET `kind` = 'DISTANCE_DURATION'
+    WHERE `name` IN ('Running', 'Rowing', 'Cycling');
+
+-- Copy the kind onto logged exercises
+UPDATE `exercises` e
+JOIN `exercise_definitions` d ON d.`id` = e.`definitionId`
+SET e.`kind` = d.`kind`;
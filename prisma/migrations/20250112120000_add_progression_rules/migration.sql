@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE `exercise_definitions` ADD COLUMN `progressionRule` ENUM('DOUBLE_PROGRESSION', 'LINEAR') NOT NULL DEFAULT 'DOUBLE_PROGRESSION';
+
+-- Progress the main barbell lifts linearly
+UPDATE `exercise_definitions` SET `progressionRule` = 'LINEAR'
+    WHERE `name` IN ('Squat', 'Deadlift', 'Bench Press', 'Overhead Press', 'Barbell Row');
@@ -0,0 +1,73 @@
+-- AlterTable
+ALTER TABLE `workouts` ADD COLUMN `programDayId` INTEGER NULL,
+    ADD COLUMN `programWeek` INTEGER NULL;
+
+-- CreateTable
+CREATE TABLE `programs` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(191) NOT NULL,
+    `startDate` DATE NOT NULL,
+    `weeks` INTEGER NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `userId` INTEGER NOT NULL,
+
+    UNIQUE INDEX `programs_userId_name_key`(`userId`, `name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `program_days` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(191) NOT NULL,
+    `weekday` INTEGER NOT NULL,
+    `position` INTEGER NOT NULL DEFAULT 0,
+    `programId` INTEGER NOT NULL,
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `program_exercises` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `name` VARCHAR(191) NOT NULL,
+    `position` INTEGER NOT NULL DEFAULT 0,
+    `scheme` ENUM('FIXED', 'LINEAR_PERCENT', 'WAVE_531') NOT NULL DEFAULT 'FIXED',
+    `trainingMax` DECIMAL(10, 4) NULL,
+    `weeklyIncrement` DOUBLE NULL,
+    `definitionId` INTEGER NULL,
+    `dayId` INTEGER NOT NULL,
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `program_sets` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `reps` INTEGER NOT NULL,
+    `percent` DOUBLE NULL,
+    `weight` DECIMAL(10, 4) NULL,
+    `amrap` BOOLEAN NOT NULL DEFAULT false,
+    `position` INTEGER NOT NULL DEFAULT 0,
+    `programExerciseId` INTEGER NOT NULL,
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `workouts` ADD CONSTRAINT `workouts_programDayId_fkey` FOREIGN KEY (`programDayId`) REFERENCES `program_days`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `programs` ADD CONSTRAINT `programs_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `program_days` ADD CONSTRAINT `program_days_programId_fkey` FOREIGN KEY (`programId`) REFERENCES `programs`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `program_exercises` ADD CONSTRAINT `program_exercises_definitionId_fkey` FOREIGN KEY (`definitionId`) REFERENCES `exercise_definitions`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `program_exercises` ADD CONSTRAINT `program_exercises_dayId_fkey` FOREIGN KEY (`dayId`) REFERENCES `program_days`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `program_sets` ADD CONSTRAINT `program_sets_programExerciseId_fkey` FOREIGN KEY (`programExerciseId`) REFERENCES `program_exercises`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
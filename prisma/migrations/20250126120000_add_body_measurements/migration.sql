@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE `body_measurements` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `date` DATE NOT NULL,
+    `bodyweight` DECIMAL(10, 4) NULL,
+    `bodyFat` DOUBLE NULL,
+    `waist` DECIMAL(10, 4) NULL,
+    `chest` DECIMAL(10, 4) NULL,
+    `hips` DECIMAL(10, 4) NULL,
+    `arm` DECIMAL(10, 4) NULL,
+    `thigh` DECIMAL(10, 4) NULL,
+    `neck` DECIMAL(10, 4) NULL,
+    `notes` TEXT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `userId` INTEGER NOT NULL,
+
+    UNIQUE INDEX `body_measurements_userId_date_key`(`userId`, `date`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `body_measurements` ADD CONSTRAINT `body_measurements_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
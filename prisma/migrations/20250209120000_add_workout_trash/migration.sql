@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `workouts` ADD COLUMN `deletedAt` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `workouts_userId_deletedAt_idx` ON `workouts`(`userId`, `deletedAt`);
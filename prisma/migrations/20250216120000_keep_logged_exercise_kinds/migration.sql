@@ -0,0 +1,17 @@
+-- Put exercises logged before their catalog entry changed kind back on weight and reps,
+-- so sets recorded as weight and reps keep fitting their exercise
+UPDATE `exercises` e
+SET e.`kind` = 'WEIGHT_REPS'
+WHERE e.`kind` <> 'WEIGHT_REPS'
+    AND EXISTS (
+        SELECT 1 FROM `sets` s
+        WHERE s.`exerciseId` = e.`id`
+            AND (
+                (e.`kind` IN ('REPS', 'DURATION', 'DISTANCE_DURATION') AND s.`weight` <> 0)
+                OR (e.`kind` IN ('DURATION', 'DISTANCE_DURATION')
+                    AND (s.`reps` <> 0 OR s.`durationSeconds` IS NULL OR s.`durationSeconds` <= 0))
+                OR (e.`kind` = 'DISTANCE_DURATION' AND (s.`distance` IS NULL OR s.`distance` <= 0))
+                OR (e.`kind` <> 'DISTANCE_DURATION' AND s.`distance` IS NOT NULL)
+                OR (e.`kind` NOT IN ('DURATION', 'DISTANCE_DURATION') AND s.`durationSeconds` IS NOT NULL)
+            )
+    );
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE `users` ADD COLUMN `isAdmin` BOOLEAN NOT NULL DEFAULT false;
+
+-- The first account administers the catalog, as sign-up does for new installs
+UPDATE `users` SET `isAdmin` = true
+ORDER BY `id` ASC
+LIMIT 1;
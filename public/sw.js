@@ -0,0 +1,99 @@
+// public/sw.js
+
+// Service worker caching the app shell so the logger opens without a connection.
+// API requests are never cached; writes made offline go through the sync queue instead.
+
+// Bump the version to discard caches written by older builds
+const CACHE_NAME = 'workout-logger-shell-v2';
+
+// Pages cached on install so they open offline even before the first visit. Only these
+// are kept: other pages show one user's data and are never stored on the device.
+const SHELL_URLS = ['/', '/workout'];
+
+// Cache the shell pages up front
+self.addEventListener('install', event => {
+	event.waitUntil(
+		caches
+			.open(CACHE_NAME)
+			.then(cache => cache.addAll(SHELL_URLS))
+			.catch(error => console.warn('Could not precache the app shell:', error)) // e.g. signed out
+			.then(() => self.skipWaiting()),
+	);
+});
+
+// Delete caches from older versions and take control of open tabs
+self.addEventListener('activate', event => {
+	event.waitUntil(
+		caches
+			.keys()
+			.then(keys =>
+				Promise.all(
+					keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key)),
+				),
+			)
+			.then(() => self.clients.claim()),
+	);
+});
+
+/**
+ * cacheResponse
+ * Stores a copy of a successful response; redirects (e.g. to sign in) are not cached.
+ */
+const cacheResponse = async (request, response) => {
+	if (!response.ok || response.redirected) return;
+	const cache = await caches.open(CACHE_NAME);
+	await cache.put(request, response.clone());
+};
+
+/**
+ * networkFirst
+ * Pages: use the network so data stays fresh, refreshing the cached copy of shell
+ * pages, and fall back to the cached copy (or the cached logger) when offline.
+ */
+const networkFirst = async request => {
+	try {
+		const response = await fetch(request);
+		if (SHELL_URLS.includes(new URL(request.url).pathname)) {
+			await cacheResponse(request, response);
+		}
+		return response;
+	} catch (error) {
+		const cached =
+			(await caches.match(request)) || (await caches.match('/workout'));
+		if (cached) return cached;
+		throw error;
+	}
+};
+
+/**
+ * cacheFirst
+ * Build assets: file names are content-hashed, so a cached copy never goes stale.
+ */
+const cacheFirst = async request => {
+	const cached = await caches.match(request);
+	if (cached) return cached;
+	const response = await fetch(request);
+	await cacheResponse(request, response);
+	return response;
+};
+
+self.addEventListener('fetch', event => {
+	const { request } = event;
+	const url = new URL(request.url);
+
+	// Leave writes, API calls, other origins and client-side navigation payloads to the network
+	if (
+		request.method !== 'GET' ||
+		url.origin !== self.location.origin ||
+		url.pathname.startsWith('/api/') ||
+		request.headers.get('RSC')
+	) {
+		return;
+	}
+
+	if (request.mode === 'navigate') {
+		event.respondWith(networkFirst(request));
+	} else if (url.pathname.startsWith('/_next/static/')) {
+		event.respondWith(cacheFirst(request));
+	}
+});